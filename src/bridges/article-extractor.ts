@@ -17,6 +17,9 @@ export interface ArticleExtractionResult {
     source?: string
     links?: string[]
     ttr?: number
+    nextPage?: string
+    siteRule?: string
+    pages?: number
 }
 
 /**
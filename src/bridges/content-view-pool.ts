@@ -5,6 +5,8 @@
  * which manages multiple WebContentsViews for article prefetching.
  */
 import { ipcRenderer } from "electron"
+import { BilingualMode } from "../schema-types"
+import type { ReadingStats } from "../scripts/models/reading-time"
 
 export interface ContentViewBounds {
     x: number
@@ -57,6 +59,7 @@ export interface PrefetchArticleInfo {
     fontFamily: string
     locale: string
     translateTo?: string       // Target language for translation (e.g., 'de')
+    bilingualMode?: BilingualMode  // Show original and translation together
 }
 
 /**
@@ -566,6 +569,25 @@ export const contentViewPoolBridge = {
         return () => ipcRenderer.removeListener("cvp-navigation-complete", handler)
     },
     
+    /**
+     * Listen for reading progress stored for an article
+     * Called while the user scrolls through an article
+     */
+    onReadingProgress: (callback: (itemId: number, progress: number) => void): (() => void) => {
+        const handler = (_event: any, itemId: number, progress: number) => callback(itemId, progress)
+        ipcRenderer.on("cvp-reading-progress", handler)
+        return () => ipcRenderer.removeListener("cvp-reading-progress", handler)
+    },
+    
+    /**
+     * Listen for word counts and reading times recounted from full content
+     */
+    onReadingStats: (callback: (itemId: number, stats: ReadingStats) => void): (() => void) => {
+        const handler = (_event: any, itemId: number, stats: ReadingStats) => callback(itemId, stats)
+        ipcRenderer.on("cvp-reading-stats", handler)
+        return () => ipcRenderer.removeListener("cvp-reading-stats", handler)
+    },
+    
     /**
      * Listen for prefetch info requests
      * Called when the pool needs info about an article to prefetch
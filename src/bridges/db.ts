@@ -6,6 +6,7 @@
  */
 
 import { ipcRenderer } from "electron"
+import type { ReadingStats } from "../scripts/models/reading-time"
 
 // Types matching db-sqlite.ts
 export interface SourceRow {
@@ -26,6 +27,8 @@ export interface SourceRow {
     translateTo: string | null  // Target language code for translation
     translationMode: number     // 0 = Inline, 1 = GoogleUrl
     sortAscending: number       // Sort oldest first when unread filter active
+    archiveOffline: number      // Archive new items for offline reading
+    serviceAccount: string | null  // Id of the sync account the source belongs to
 }
 
 export interface ItemRow {
@@ -44,21 +47,119 @@ export interface ItemRow {
     hidden: number
     notify: number
     serviceRef: string | null
+    openTarget?: number | null  // Overrides the source's openTarget when set
+    lang?: string | null  // Detected language code, NULL if unknown
+    searchSnippet?: string | null  // Only set by full-text queries: excerpt around the match
+    tags?: string | null  // JSON array of tag names, only set by query/getById
+    wordCount?: number | null  // Of the feed content, or of the full content once extracted
+    readingTime?: number | null  // Estimated minutes, NULL if not counted yet
+    readingProgress?: number | null  // Stored scroll percentage, only set by query/getById
+}
+
+export interface ItemChange {
+    _id: number
+    hasRead?: number
+    starred?: number
+    hidden?: number
+    openTarget?: number | null
+    addTags?: string[]  // Tags are only added, never removed
 }
 
 export interface ItemQueryOptions {
     sourceIds?: number[]
     unreadOnly?: boolean
+    readOnly?: boolean
     starredOnly?: boolean
     hiddenOnly?: boolean
     searchTerm?: string
+    searchMode?: "title" | "full" | "creator"
+    searchRegex?: boolean  // searchTerm is a regular expression, matched without the FTS index
+    caseInsensitive?: boolean  // Only for regex searches, plain searches always ignore case
     hasServiceRef?: boolean
+    serviceAccount?: string  // Only items of sources of this sync account
+    tags?: string[]
+    inProgress?: boolean  // Only items started but not read to the end
+    maxReadingTime?: number  // Only items read in at most this many minutes
+    fetchedAfter?: string  // ISO date strings, both exclusive
+    fetchedBefore?: string
     limit?: number
     offset?: number
-    orderBy?: "date" | "fetchedDate"
+    orderBy?: "date" | "fetchedDate" | "relevance" | "readingTime"
     orderDir?: "ASC" | "DESC"
 }
 
+export interface TagRow {
+    id: number
+    name: string
+    createdAt: string
+    itemCount: number
+    unreadCount: number
+}
+
+export interface ItemTagRow {
+    itemId: number
+    tag: string
+}
+
+export interface SmartFeedRow {
+    id: number
+    name: string
+    search: string
+    filterType: number
+    sids: string | null  // JSON array of source ids, null = all sources
+    createdAt: string
+}
+
+export type OutboxAction = "read" | "unread" | "star" | "unstar" | "markAllRead"
+
+export interface OutboxRow {
+    id: number
+    action: OutboxAction
+    serviceAccount: string
+    serviceRef: string | null  // Item the action is about, null for markAllRead
+    payload: string | null  // JSON arguments of markAllRead
+    createdAt: string
+    attempts: number
+    nextAttempt: string | null  // Not retried before this time after a failure
+    lastError: string | null
+}
+
+export interface SourceFetchStateRow {
+    sid: number
+    etag: string | null
+    lastModified: string | null
+    contentHash: string | null
+    lastAttempt: string | null
+    lastSuccess: string | null
+    consecutiveFailures: number
+    avgLatency: number | null  // Moving average in milliseconds
+    lastError: string | null
+    nextFetch: string | null
+    cadence: number | null
+    feedTtl: number | null
+    retryUntil: string | null
+}
+
+export interface FetchResult {
+    ok: boolean
+    latency: number
+    notModified?: boolean
+    etag?: string | null
+    lastModified?: string | null
+    contentHash?: string | null
+    error?: string
+    nextFetch: string
+    cadence?: number | null
+    feedTtl?: number | null
+    retryUntil?: string | null
+}
+
+export interface FetchValidators {
+    etag: string | null
+    lastModified: string | null
+    contentHash: string | null
+}
+
 export interface DbStats {
     sources: number
     items: number
@@ -128,6 +229,12 @@ const dbBridge = {
         update: (id: number, updates: Partial<ItemRow>): Promise<void> => 
             ipcRenderer.invoke("db:items:update", id, updates),
         
+        /**
+         * Store recounted word count and reading time, resolves with whether they changed
+         */
+        setReadingStats: (id: number, stats: ReadingStats): Promise<boolean> => 
+            ipcRenderer.invoke("db:items:setReadingStats", id, stats),
+        
         delete: (id: number): Promise<void> => 
             ipcRenderer.invoke("db:items:delete", id),
         
@@ -137,6 +244,26 @@ const dbBridge = {
         markRead: (id: number, hasRead?: boolean): Promise<void> => 
             ipcRenderer.invoke("db:items:markRead", id, hasRead),
         
+        /**
+         * Apply item changes as a batched job in the main process,
+         * reporting progress after each batch
+         */
+        applyChanges: async (
+            changes: ItemChange[],
+            onProgress?: (done: number, total: number) => void
+        ): Promise<number> => {
+            const jobId = `${Date.now()}-${Math.random()}`
+            const handler = (_event: any, id: string, done: number, total: number) => {
+                if (id === jobId) onProgress?.(done, total)
+            }
+            ipcRenderer.on("db:items:applyProgress", handler)
+            try {
+                return await ipcRenderer.invoke("db:items:applyChanges", jobId, changes)
+            } finally {
+                ipcRenderer.removeListener("db:items:applyProgress", handler)
+            }
+        },
+        
         markAllRead: (sourceIds: number[], beforeDate?: string): Promise<void> => 
             ipcRenderer.invoke("db:items:markAllRead", sourceIds, beforeDate),
         
@@ -152,18 +279,22 @@ const dbBridge = {
         query: (options?: ItemQueryOptions): Promise<ItemRow[]> => 
             ipcRenderer.invoke("db:items:query", options || {}),
         
+        count: (options?: ItemQueryOptions): Promise<number> => 
+            ipcRenderer.invoke("db:items:count", options || {}),
+        
         // Service sync operations (for cloud service integration)
         getUnreadServiceRefs: (sourceIds: number[], beforeDate?: string, afterDate?: string): Promise<string[]> =>
             ipcRenderer.invoke("db:items:getUnreadServiceRefs", sourceIds, beforeDate, afterDate),
         
-        markReadByServiceRef: (serviceRef: string): Promise<void> =>
-            ipcRenderer.invoke("db:items:markReadByServiceRef", serviceRef),
+        // serviceRefs are only unique within a sync account
+        markReadByServiceRef: (serviceAccount: string, serviceRef: string): Promise<void> =>
+            ipcRenderer.invoke("db:items:markReadByServiceRef", serviceAccount, serviceRef),
         
-        markUnreadByServiceRef: (serviceRef: string): Promise<void> =>
-            ipcRenderer.invoke("db:items:markUnreadByServiceRef", serviceRef),
+        markUnreadByServiceRef: (serviceAccount: string, serviceRef: string): Promise<void> =>
+            ipcRenderer.invoke("db:items:markUnreadByServiceRef", serviceAccount, serviceRef),
         
-        setStarredByServiceRef: (serviceRef: string, starred: boolean): Promise<void> =>
-            ipcRenderer.invoke("db:items:setStarredByServiceRef", serviceRef, starred),
+        setStarredByServiceRef: (serviceAccount: string, serviceRef: string, starred: boolean): Promise<void> =>
+            ipcRenderer.invoke("db:items:setStarredByServiceRef", serviceAccount, serviceRef, starred),
         
         deleteOlderThan: (date: string): Promise<number> =>
             ipcRenderer.invoke("db:items:deleteOlderThan", date),
@@ -178,6 +309,112 @@ const dbBridge = {
             ipcRenderer.invoke("db:items:bulkInsert", items),
     },
 
+    // Tag operations
+    tags: {
+        getAll: (): Promise<TagRow[]> =>
+            ipcRenderer.invoke("db:tags:getAll"),
+        
+        getForItem: (itemId: number): Promise<string[]> =>
+            ipcRenderer.invoke("db:tags:getForItem", itemId),
+        
+        addToItem: (itemId: number, name: string): Promise<string[]> =>
+            ipcRenderer.invoke("db:tags:addToItem", itemId, name),
+        
+        removeFromItem: (itemId: number, name: string): Promise<string[]> =>
+            ipcRenderer.invoke("db:tags:removeFromItem", itemId, name),
+        
+        // Merges into the tag of the same name if there is one
+        rename: (id: number, name: string): Promise<void> =>
+            ipcRenderer.invoke("db:tags:rename", id, name),
+        
+        delete: (id: number): Promise<void> =>
+            ipcRenderer.invoke("db:tags:delete", id),
+        
+        getAllItemTags: (): Promise<ItemTagRow[]> =>
+            ipcRenderer.invoke("db:tags:getAllItemTags"),
+        
+        bulkInsertItemTags: (rows: ItemTagRow[]): Promise<void> =>
+            ipcRenderer.invoke("db:tags:bulkInsertItemTags", rows),
+        
+        deleteAll: (): Promise<void> =>
+            ipcRenderer.invoke("db:tags:deleteAll"),
+    },
+
+    // Smart feed operations (saved searches)
+    smartFeeds: {
+        getAll: (): Promise<SmartFeedRow[]> =>
+            ipcRenderer.invoke("db:smartFeeds:getAll"),
+        
+        insert: (feed: Omit<SmartFeedRow, "id" | "createdAt">): Promise<number> =>
+            ipcRenderer.invoke("db:smartFeeds:insert", feed),
+        
+        update: (id: number, updates: Partial<SmartFeedRow>): Promise<void> =>
+            ipcRenderer.invoke("db:smartFeeds:update", id, updates),
+        
+        delete: (id: number): Promise<void> =>
+            ipcRenderer.invoke("db:smartFeeds:delete", id),
+        
+        deleteAll: (): Promise<void> =>
+            ipcRenderer.invoke("db:smartFeeds:deleteAll"),
+        
+        bulkInsert: (feeds: SmartFeedRow[]): Promise<void> =>
+            ipcRenderer.invoke("db:smartFeeds:bulkInsert", feeds),
+    },
+
+    // Conditional fetch validators and fetch health per source
+    fetchState: {
+        get: (sid: number): Promise<SourceFetchStateRow | undefined> =>
+            ipcRenderer.invoke("db:fetchState:get", sid),
+        
+        getAll: (): Promise<SourceFetchStateRow[]> =>
+            ipcRenderer.invoke("db:fetchState:getAll"),
+        
+        record: (sid: number, result: FetchResult): Promise<void> =>
+            ipcRenderer.invoke("db:fetchState:record", sid, result),
+        
+        // Only once the items of the download are stored
+        saveValidators: (sid: number, validators: FetchValidators): Promise<void> =>
+            ipcRenderer.invoke("db:fetchState:saveValidators", sid, validators),
+        
+        resetValidators: (sid: number): Promise<void> =>
+            ipcRenderer.invoke("db:fetchState:resetValidators", sid),
+    },
+
+    // Read and star changes waiting to be sent to the sync accounts
+    outbox: {
+        /**
+         * Queue an action, resolves with the number of queued actions.
+         * Actions that undo a queued one remove it instead.
+         */
+        enqueue: (serviceAccount: string, action: OutboxAction, serviceRef: string | null, payload?: string): Promise<number> =>
+            ipcRenderer.invoke("db:outbox:enqueue", serviceAccount, action, serviceRef, payload),
+        
+        getActions: (): Promise<OutboxRow[]> =>
+            ipcRenderer.invoke("db:outbox:getActions"),
+        
+        /**
+         * Mark an action as being sent, so an action undoing it is queued
+         * instead of removing it
+         */
+        start: (id: number): Promise<void> =>
+            ipcRenderer.invoke("db:outbox:start", id),
+        
+        complete: (id: number): Promise<void> =>
+            ipcRenderer.invoke("db:outbox:complete", id),
+        
+        fail: (id: number, error: string, nextAttempt: string): Promise<void> =>
+            ipcRenderer.invoke("db:outbox:fail", id, error, nextAttempt),
+        
+        count: (): Promise<number> =>
+            ipcRenderer.invoke("db:outbox:count"),
+        
+        getServiceRefs: (serviceAccount: string): Promise<string[]> =>
+            ipcRenderer.invoke("db:outbox:getServiceRefs", serviceAccount),
+        
+        clear: (serviceAccount: string): Promise<void> =>
+            ipcRenderer.invoke("db:outbox:clear", serviceAccount),
+    },
+
     // P2P Feed operations
     p2pFeeds: {
         convertToActive: (sid: number): Promise<void> =>
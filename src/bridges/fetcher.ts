@@ -0,0 +1,80 @@
+/**
+ * Feed Fetcher Bridge
+ *
+ * Provides renderer process access to the feed fetch service in the main
+ * process, which downloads, parses, deduplicates and applies rules.
+ */
+
+import { ipcRenderer } from "electron"
+import type { SourceRule } from "../scripts/models/rule-engine"
+import type { ItemData } from "../scripts/models/item-data"
+import type { FetchValidators } from "./db"
+
+export interface FeedFetchRequest {
+    sid: number
+    url: string
+    fetchFrequency: number
+    rules: SourceRule[]
+}
+
+export interface FeedFetchOptions {
+    defaultInterval: number
+    untitledText: string
+    networkErrorText: string
+    parseErrorText: string
+}
+
+export interface FeedFetchResult {
+    sid: number
+    items: ItemData[]
+    error?: string
+    validators?: FetchValidators // Save once the items are stored
+}
+
+export interface FeedMetaData {
+    title?: string
+    error?: string
+}
+
+export type FeedFetchProgress = (
+    sid: number,
+    error: string | null,
+    done: number,
+    total: number
+) => void
+
+export interface FetcherBridge {
+    /**
+     * Fetch sources in the main process, reporting each finished source
+     */
+    run(
+        requests: FeedFetchRequest[],
+        options: FeedFetchOptions,
+        onProgress?: FeedFetchProgress
+    ): Promise<FeedFetchResult[]>
+
+    /**
+     * Fetch the title of a feed to validate and name a new source
+     */
+    fetchMetaData(url: string, options: FeedFetchOptions): Promise<FeedMetaData>
+}
+
+const fetcherBridge: FetcherBridge = {
+    run: async (requests, options, onProgress) => {
+        const jobId = `${Date.now()}-${Math.random()}`
+        const handler = (_event: any, id: string, sid: number, error: string | null, done: number, total: number) => {
+            if (id === jobId) onProgress?.(sid, error, done, total)
+        }
+        ipcRenderer.on("fetcher:progress", handler)
+        try {
+            return await ipcRenderer.invoke("fetcher:run", jobId, requests, options)
+        } finally {
+            ipcRenderer.removeListener("fetcher:progress", handler)
+        }
+    },
+
+    fetchMetaData: (url, options) =>
+        ipcRenderer.invoke("fetcher:metadata", url, options),
+}
+
+export default fetcherBridge
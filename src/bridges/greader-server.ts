@@ -0,0 +1,91 @@
+/**
+ * Server Mode Bridge
+ *
+ * Provides renderer process access to the settings of the Google Reader API
+ * server, and to the read and star changes made by its clients.
+ */
+
+import { ipcRenderer } from "electron"
+
+export interface GReaderServerStatus {
+    enabled: boolean
+    address: string // Bind address, 0.0.0.0 for all interfaces
+    port: number
+    token: string // Password of clients
+    listening: boolean
+    error?: string // Why the server couldn't start, e.g. EADDRINUSE
+    urls: string[] // Addresses clients can connect to
+}
+
+export interface ServedItemChange {
+    _id: number
+    source: number
+    serviceRef: string | null
+    hasRead?: boolean
+    starred?: boolean
+}
+
+export interface GReaderServerBridge {
+    getStatus(): Promise<GReaderServerStatus>
+
+    /**
+     * Start or stop the server, resolves with the new status
+     */
+    setEnabled(enabled: boolean): Promise<GReaderServerStatus>
+
+    /**
+     * Change where the server listens, restarting it if it's enabled
+     */
+    setAddress(address: string, port: number): Promise<GReaderServerStatus>
+
+    /**
+     * Replace the token, clients have to log in again
+     */
+    resetToken(): Promise<GReaderServerStatus>
+
+    /**
+     * Listen for items clients marked as read or starred, already stored in
+     * the database
+     */
+    onItemsChanged(callback: (changes: ServedItemChange[]) => void): () => void
+
+    /**
+     * Listen for sources a client marked as read, date is null if the items
+     * of all dates were marked. Already stored, and queued for sync accounts.
+     */
+    onMarkedAllRead(
+        callback: (sids: number[], date: string | null) => void
+    ): () => void
+}
+
+const greaderServerBridge: GReaderServerBridge = {
+    getStatus: () => ipcRenderer.invoke("greader-server:getStatus"),
+
+    setEnabled: (enabled: boolean) =>
+        ipcRenderer.invoke("greader-server:setEnabled", enabled),
+
+    setAddress: (address: string, port: number) =>
+        ipcRenderer.invoke("greader-server:setAddress", address, port),
+
+    resetToken: () => ipcRenderer.invoke("greader-server:resetToken"),
+
+    onItemsChanged: (callback: (changes: ServedItemChange[]) => void) => {
+        const handler = (_event: any, changes: ServedItemChange[]) =>
+            callback(changes)
+        ipcRenderer.on("greader-server:itemsChanged", handler)
+        return () =>
+            ipcRenderer.removeListener("greader-server:itemsChanged", handler)
+    },
+
+    onMarkedAllRead: (
+        callback: (sids: number[], date: string | null) => void
+    ) => {
+        const handler = (_event: any, sids: number[], date: string | null) =>
+            callback(sids, date)
+        ipcRenderer.on("greader-server:markedAllRead", handler)
+        return () =>
+            ipcRenderer.removeListener("greader-server:markedAllRead", handler)
+    },
+}
+
+export default greaderServerBridge
@@ -0,0 +1,81 @@
+/**
+ * Offline Archive Bridge
+ *
+ * Provides renderer process access to the copies of articles and their
+ * images archived for reading without a connection.
+ */
+
+import { ipcRenderer } from "electron"
+import type { ArticleExtractionResult } from "./article-extractor"
+
+export interface OfflineArchiveStatus {
+    articles: number
+    bytes: number // Bytes of all stored files
+    quota: number // MB, 0 for no limit
+}
+
+export interface OfflineArchiveBridge {
+    /**
+     * Whether an item has an archived copy (synchronous, for menus)
+     */
+    has(itemId: number): boolean
+
+    /**
+     * Archive an item by hand, it is evicted after automatically archived ones
+     */
+    archive(itemId: number): Promise<{ error?: string }>
+
+    remove(itemId: number): Promise<void>
+
+    /**
+     * The archived copy of an item, null if it isn't archived
+     */
+    getArticle(itemId: number): Promise<ArticleExtractionResult | null>
+
+    /**
+     * Archive new items of sources archived for offline reading in the
+     * background, resolves with the number of items archived
+     */
+    archivePending(): Promise<number>
+
+    getStatus(): Promise<OfflineArchiveStatus>
+
+    /**
+     * Set the storage quota in MB, evicting articles above it
+     */
+    setQuota(quota: number): Promise<void>
+
+    /**
+     * Delete files no archived article refers to, resolves with their number
+     */
+    cleanup(): Promise<number>
+
+    clear(): Promise<void>
+}
+
+const offlineArchiveBridge: OfflineArchiveBridge = {
+    has: (itemId: number) =>
+        ipcRenderer.sendSync("offline-archive:has", itemId),
+
+    archive: (itemId: number) =>
+        ipcRenderer.invoke("offline-archive:archive", itemId),
+
+    remove: (itemId: number) =>
+        ipcRenderer.invoke("offline-archive:remove", itemId),
+
+    getArticle: (itemId: number) =>
+        ipcRenderer.invoke("offline-archive:getArticle", itemId),
+
+    archivePending: () => ipcRenderer.invoke("offline-archive:archivePending"),
+
+    getStatus: () => ipcRenderer.invoke("offline-archive:getStatus"),
+
+    setQuota: (quota: number) =>
+        ipcRenderer.invoke("offline-archive:setQuota", quota),
+
+    cleanup: () => ipcRenderer.invoke("offline-archive:cleanup"),
+
+    clear: () => ipcRenderer.invoke("offline-archive:clear"),
+}
+
+export default offlineArchiveBridge
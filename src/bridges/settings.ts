@@ -5,7 +5,9 @@ import {
     SearchEngines,
     ServiceConfigs,
     ViewConfigs,
+    BilingualMode,
 } from "../schema-types"
+import type { SourceRule } from "../scripts/models/rule-engine"
 import { ipcRenderer } from "electron"
 
 const settingsBridge = {
@@ -15,6 +17,12 @@ const settingsBridge = {
     loadGroups: (): SourceGroup[] => {
         return ipcRenderer.sendSync("get-groups")
     },
+    saveGlobalRules: (rules: SourceRule[]) => {
+        ipcRenderer.invoke("set-global-rules", rules)
+    },
+    loadGlobalRules: (): SourceRule[] => {
+        return ipcRenderer.sendSync("get-global-rules")
+    },
 
     getDefaultMenu: (): boolean => {
         return ipcRenderer.sendSync("get-menu")
@@ -96,11 +104,11 @@ const settingsBridge = {
         ipcRenderer.invoke("set-search-engine", engine)
     },
 
-    getServiceConfigs: (): ServiceConfigs => {
-        return ipcRenderer.sendSync("get-service-configs")
+    getServiceAccounts: (): ServiceConfigs[] => {
+        return ipcRenderer.sendSync("get-service-accounts")
     },
-    setServiceConfigs: (configs: ServiceConfigs) => {
-        ipcRenderer.invoke("set-service-configs", configs)
+    setServiceAccounts: (accounts: ServiceConfigs[]) => {
+        ipcRenderer.invoke("set-service-accounts", accounts)
     },
 
     getFilterType: (): number => {
@@ -180,6 +188,13 @@ const settingsBridge = {
         ipcRenderer.invoke("set-visual-zoom", flag)
     },
 
+    getBilingualMode: (): BilingualMode => {
+        return ipcRenderer.sendSync("get-bilingual-mode")
+    },
+    setBilingualMode: (mode: BilingualMode) => {
+        ipcRenderer.invoke("set-bilingual-mode", mode)
+    },
+
     getMobileUserAgent: (): boolean => {
         return ipcRenderer.sendSync("get-mobile-user-agent")
     },
@@ -0,0 +1,65 @@
+/**
+ * Site Rules Bridge
+ *
+ * Provides renderer process access to the per-site extraction rule files
+ * in the user data directory, for editing and testing them in the settings.
+ */
+
+import { ipcRenderer } from "electron"
+
+export interface SiteRuleFile {
+    name: string
+    source: string
+    error?: string
+}
+
+export interface SiteRuleTestResult {
+    title?: string
+    published?: string
+    nextPage?: string
+    content?: string
+    noMatch?: boolean
+    error?: string
+}
+
+export interface SiteRulesBridge {
+    /**
+     * Rule files with their source, invalid files carry the parse error
+     */
+    list(): Promise<SiteRuleFile[]>
+
+    /**
+     * Validate and write a rule file, ".json" is appended to the name if it
+     * doesn't end with .json, .yaml or .yml
+     */
+    save(
+        name: string,
+        source: string
+    ): Promise<{ name?: string; error?: string }>
+
+    remove(name: string): Promise<void>
+
+    openFolder(): Promise<void>
+
+    /**
+     * Fetch a page and extract it with the matching rule of an unsaved file,
+     * the file name tells whether the source is JSON or YAML
+     */
+    test(source: string, url: string, name: string): Promise<SiteRuleTestResult>
+}
+
+const siteRulesBridge: SiteRulesBridge = {
+    list: () => ipcRenderer.invoke("site-rules:list"),
+
+    save: (name: string, source: string) =>
+        ipcRenderer.invoke("site-rules:save", name, source),
+
+    remove: (name: string) => ipcRenderer.invoke("site-rules:delete", name),
+
+    openFolder: () => ipcRenderer.invoke("site-rules:openFolder"),
+
+    test: (source: string, url: string, name: string) =>
+        ipcRenderer.invoke("site-rules:test", source, url, name),
+}
+
+export default siteRulesBridge
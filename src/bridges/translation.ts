@@ -5,6 +5,7 @@
  */
 
 import { ipcRenderer } from "electron"
+import type { TranslatedSegment } from "../scripts/models/bilingual"
 
 export interface ArticleTranslation {
     title: string
@@ -12,11 +13,52 @@ export interface ArticleTranslation {
     content: string
 }
 
-export type TranslationProvider = "google" | "libretranslate"
+export type ProviderConfig = { [key: string]: string }
 
-export interface LibreTranslateConfig {
-    url: string
-    apiKey?: string
+export interface ProviderConfigField {
+    key: string
+    label: string // i18n key, translated by the settings UI
+    type: "text" | "url" | "password" | "multiline"
+    required?: boolean
+    placeholder?: string
+    defaultValue?: string
+    description?: string // i18n key
+}
+
+export interface ProviderRateLimit {
+    minDelay: number // Milliseconds between two requests
+    cooldown: number // Milliseconds to pause after being rate limited
+}
+
+export interface TranslationProviderInfo {
+    id: string
+    name: string
+    fields: ProviderConfigField[]
+    rateLimit: ProviderRateLimit
+    maxChunkSize: number | null // Characters per request, null if unlimited
+    chunkInBytes?: boolean // maxChunkSize counts UTF-8 bytes instead
+    supportsHtml: boolean
+    languages: string[] | null // Target language codes, null for all
+}
+
+export interface ContentTranslation {
+    title: string
+    content: string
+    segments?: TranslatedSegment[] // Only for the bilingual view, content is untouched then
+}
+
+export type TranslationJobPriority = "current" | "prefetch"
+export type TranslationJobStatus = "pending" | "active" | "failed"
+
+export interface TranslationJobInfo {
+    id: number
+    articleId: string
+    title: string
+    targetLang: string
+    priority: TranslationJobPriority
+    status: TranslationJobStatus
+    error?: string
+    createdAt: number
 }
 
 export interface TranslationBridge {
@@ -30,13 +72,49 @@ export interface TranslationBridge {
      */
     translateHtml(html: string, targetLang: string): Promise<string>
     
+    /**
+     * Translate HTML block by block, keeping each original next to its translation
+     */
+    translateHtmlSegments(html: string, targetLang: string): Promise<TranslatedSegment[]>
+    
     /**
      * Translate article content (title, snippet, and HTML content)
      */
     translateArticle(title: string, snippet: string, content: string, targetLang: string): Promise<ArticleTranslation>
     
     /**
-     * Get supported languages
+     * Translate title and full content of the article being read, ahead of
+     * background jobs. Rejects if cancelled.
+     */
+    translateContent(articleId: string, title: string, html: string, targetLang: string, bilingual: boolean): Promise<ContentTranslation>
+    
+    /**
+     * List running, pending and failed translation jobs
+     */
+    getJobs(): Promise<TranslationJobInfo[]>
+    
+    /**
+     * Cancel a pending or running job
+     */
+    cancelJob(id: number): Promise<boolean>
+    
+    /**
+     * Cancel the jobs started for an article when navigating away from it
+     */
+    cancelArticleJobs(articleId: string): Promise<number>
+    
+    /**
+     * Remove failed jobs from the list
+     */
+    clearFailedJobs(): Promise<void>
+    
+    /**
+     * Subscribe to changes of the job list, returns an unsubscribe function
+     */
+    onJobsChanged(callback: (jobs: TranslationJobInfo[]) => void): () => void
+    
+    /**
+     * Get languages supported by the current provider
      */
     getSupportedLanguages(): Promise<Record<string, string>>
     
@@ -46,29 +124,39 @@ export interface TranslationBridge {
     clearCache(): Promise<boolean>
     
     /**
-     * Get cache statistics
+     * Get cache statistics (entries and characters of cached translations)
+     */
+    getCacheStats(): Promise<{ size: number, maxSize: number, bytes: number, maxBytes: number }>
+    
+    /**
+     * List registered providers with their config schemas
      */
-    getCacheStats(): Promise<{ size: number, maxSize: number }>
+    getProviders(): Promise<TranslationProviderInfo[]>
     
     /**
-     * Set translation provider ("google" or "libretranslate")
+     * Set translation provider by id
      */
-    setProvider(provider: TranslationProvider): Promise<boolean>
+    setProvider(id: string): Promise<boolean>
     
     /**
-     * Get current translation provider
+     * Get id of the current translation provider
      */
-    getProvider(): Promise<TranslationProvider>
+    getProvider(): Promise<string>
     
     /**
-     * Configure LibreTranslate instance
+     * Get the config of a provider, with defaults for fields never set
      */
-    setLibreTranslateConfig(url: string, apiKey?: string): Promise<boolean>
+    getProviderConfig(id: string): Promise<ProviderConfig>
     
     /**
-     * Get LibreTranslate configuration
+     * Store the config of a provider
      */
-    getLibreTranslateConfig(): Promise<LibreTranslateConfig>
+    setProviderConfig(id: string, config: ProviderConfig): Promise<boolean>
+    
+    /**
+     * Translate a sample sentence with an unsaved provider config
+     */
+    testProvider(id: string, config: ProviderConfig, targetLang: string): Promise<{ translated?: string, error?: string }>
 }
 
 const translationBridge: TranslationBridge = {
@@ -78,9 +166,35 @@ const translationBridge: TranslationBridge = {
     translateHtml: (html: string, targetLang: string) => 
         ipcRenderer.invoke("translation:translateHtml", html, targetLang),
     
+    translateHtmlSegments: (html: string, targetLang: string) => 
+        ipcRenderer.invoke("translation:translateHtmlSegments", html, targetLang),
+    
     translateArticle: (title: string, snippet: string, content: string, targetLang: string) => 
         ipcRenderer.invoke("translation:translateArticle", title, snippet, content, targetLang),
     
+    translateContent: (articleId: string, title: string, html: string, targetLang: string, bilingual: boolean) => 
+        ipcRenderer.invoke("translation:translateContent", articleId, title, html, targetLang, bilingual),
+    
+    getJobs: () => 
+        ipcRenderer.invoke("translation:getJobs"),
+    
+    cancelJob: (id: number) => 
+        ipcRenderer.invoke("translation:cancelJob", id),
+    
+    cancelArticleJobs: (articleId: string) => 
+        ipcRenderer.invoke("translation:cancelArticleJobs", articleId),
+    
+    clearFailedJobs: () => 
+        ipcRenderer.invoke("translation:clearFailedJobs"),
+    
+    onJobsChanged: (callback: (jobs: TranslationJobInfo[]) => void) => {
+        const listener = (_: any, jobs: TranslationJobInfo[]) => callback(jobs)
+        ipcRenderer.on("translation:jobsChanged", listener)
+        return () => {
+            ipcRenderer.removeListener("translation:jobsChanged", listener)
+        }
+    },
+    
     getSupportedLanguages: () => 
         ipcRenderer.invoke("translation:getSupportedLanguages"),
     
@@ -90,17 +204,23 @@ const translationBridge: TranslationBridge = {
     getCacheStats: () => 
         ipcRenderer.invoke("translation:getCacheStats"),
     
-    setProvider: (provider: TranslationProvider) => 
-        ipcRenderer.invoke("translation:setProvider", provider),
+    getProviders: () => 
+        ipcRenderer.invoke("translation:getProviders"),
+    
+    setProvider: (id: string) => 
+        ipcRenderer.invoke("translation:setProvider", id),
     
     getProvider: () => 
         ipcRenderer.invoke("translation:getProvider"),
     
-    setLibreTranslateConfig: (url: string, apiKey?: string) => 
-        ipcRenderer.invoke("translation:setLibreTranslateConfig", url, apiKey),
+    getProviderConfig: (id: string) => 
+        ipcRenderer.invoke("translation:getProviderConfig", id),
+    
+    setProviderConfig: (id: string, config: ProviderConfig) => 
+        ipcRenderer.invoke("translation:setProviderConfig", id, config),
     
-    getLibreTranslateConfig: () => 
-        ipcRenderer.invoke("translation:getLibreTranslateConfig")
+    testProvider: (id: string, config: ProviderConfig, targetLang: string) => 
+        ipcRenderer.invoke("translation:testProvider", id, config, targetLang)
 }
 
 export default translationBridge
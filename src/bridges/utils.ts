@@ -84,6 +84,10 @@ const utilsBridge = {
     // Note: WebView listeners removed - ContentView uses window.contentView.on* instead
     // See bridges/content-view.ts for onContextMenu, onInput, onError
 
+    postWebhook: async (url: string, payload: any): Promise<number> => {
+        return await ipcRenderer.invoke("post-webhook", url, payload)
+    },
+
     writeClipboard: (text: string) => {
         ipcRenderer.invoke("write-clipboard", text)
     },
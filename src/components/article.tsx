@@ -1,7 +1,11 @@
 import * as React from "react"
 import intl from "react-intl-universal"
 import { renderToString } from "react-dom/server"
-import { RSSItem } from "../scripts/models/item"
+import { RSSItem, getItemOpenTarget } from "../scripts/models/item"
+import { getTranslationTarget } from "../scripts/models/language"
+import { renderBilingualContent, BILINGUAL_STYLES } from "../scripts/models/bilingual"
+import { PAGE_SEPARATOR_STYLES } from "../scripts/models/pagination"
+import { BilingualMode } from "../schema-types"
 import {
     Stack,
     CommandBarButton,
@@ -19,9 +23,12 @@ import {
     SourceTextDirection,
     TranslationMode,
 } from "../scripts/models/source"
-import { shareSubmenu } from "./context-menu"
+import { shareSubmenu, tagsSubmenu } from "./context-menu"
 import { platformCtrl, decodeFetchResponse } from "../scripts/utils"
 import { P2PShareDialog } from "./p2p-share-dialog-lan"
+import TranslationJobs from "./translation-jobs"
+import type { ArticleExtractionResult } from "../bridges/article-extractor"
+import { Tag } from "../scripts/models/tag"
 import { 
     setOverlayVisible, 
     OverlayStateManager, 
@@ -44,6 +51,10 @@ type ArticleProps = {
     toggleHasRead: (item: RSSItem) => void
     toggleStarred: (item: RSSItem) => void
     toggleHidden: (item: RSSItem) => void
+    tags: Tag[]
+    addTag: (item: RSSItem, tag: string) => void
+    removeTag: (item: RSSItem, tag: string) => void
+    updateReadingStats: (item: RSSItem, content: string) => void
     textMenu: (position: [number, number], text: string, url: string) => void
     imageMenu: (position: [number, number]) => void
     updateDefaultZoom: (
@@ -128,6 +139,7 @@ type ArticleState = {
     } | null
     // Supported languages for translation (loaded from main process)
     supportedLanguages: Record<string, string> | null
+    bilingualMode: BilingualMode  // Global: Show original and translation together
     // Prefetch preview tooltip state
     showPrefetchPreview: boolean
     prefetchPreviewScreenshot: string | null
@@ -254,7 +266,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         this.state = {
             fontFamily: window.settings.getFont(),
             fontSize: window.settings.getFontSize(),
-            contentMode: props.source.openTarget,  // Use enum directly
+            contentMode: getItemOpenTarget(props.item, props.source),
             fullContent: "",
             loaded: false,
             error: false,
@@ -278,6 +290,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             activeViewId: null,
             prefetchStatus: null,
             supportedLanguages: null,
+            bilingualMode: window.settings.getBilingualMode(),
             showPrefetchPreview: false,
             prefetchPreviewScreenshot: null,
             prefetchPreviewLoading: false,
@@ -549,7 +562,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
      */
     private applyTranslationModeToUrl(url: string): string {
         const source = this.props.source
-        const translateTo = source?.translateTo
+        const translateTo = getTranslationTarget(this.props.item, source)
         const translationMode = source?.translationMode ?? TranslationMode.Inline
         
         // Only transform for Webpage URLs (not data: URLs for local/FullContent)
@@ -679,6 +692,55 @@ class Article extends React.Component<ArticleProps, ArticleState> {
         }
     }
 
+    /**
+     * Switch the bilingual view and translate the current article again.
+     * Prefetched articles of the feed still have the previous layout.
+     */
+    private setBilingualMode = (mode: BilingualMode) => {
+        window.settings.setBilingualMode(mode)
+        this.setState({ bilingualMode: mode }, async () => {
+            if (window.contentViewPool) {
+                const feedId = this.props.source?.sid?.toString() || null
+                window.contentViewPool.invalidatePrefetchForFeed(feedId, 'bilingualMode')
+            }
+            if (this.isFullContentMode) {
+                this.contentViewCurrentUrl = null
+                if (window.contentViewPool) await window.contentViewPool.nuke()
+                this.loadFull()
+            }
+        })
+    }
+
+    bilingualMenuProps = (): IContextualMenuProps => ({
+        items: [
+            {
+                key: "bilingualOff",
+                text: intl.get("article.bilingualOff"),
+                iconProps: { iconName: "TextDocument" },
+                mode: BilingualMode.Off,
+            },
+            {
+                key: "bilingualInterleaved",
+                text: intl.get("article.bilingualInterleaved"),
+                iconProps: { iconName: "AlignLeft" },
+                mode: BilingualMode.Interleaved,
+            },
+            {
+                key: "bilingualSideBySide",
+                text: intl.get("article.bilingualSideBySide"),
+                iconProps: { iconName: "DoubleColumn" },
+                mode: BilingualMode.SideBySide,
+            },
+        ].map(({ mode, ...item }) => ({
+            ...item,
+            canCheck: true,
+            checked: this.state.bilingualMode === mode,
+            onClick: () => this.setBilingualMode(mode),
+        })),
+        onMenuOpened: () => this.handleFluentMenuOpened(),
+        onMenuDismissed: () => this.handleFluentMenuDismissed(),
+    })
+
     /**
      * Toggle Visual Zoom mode
      * - Visual Zoom ON: Native pinch-to-zoom via Device Emulation
@@ -986,9 +1048,9 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             return;
         }
         
-        // Determine URL based on source's openTarget
+        // Determine URL based on the item's openTarget (rule override or source setting)
         let url: string | null = null;
-        const openTarget = source.openTarget;
+        const openTarget = getItemOpenTarget(item, source);
         
         // Build article info for FullContent mode (Main process will do extraction)
         // Cast openTarget since SourceOpenTarget and PrefetchOpenTarget have same values
@@ -1003,7 +1065,8 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             fontSize: this.state.fontSize,
             fontFamily: this.state.fontFamily || '',
             locale: locale || 'en-US',
-            translateTo: source.translateTo  // Pass translation target language
+            translateTo: getTranslationTarget(item, source),  // Pass translation target language, unless already in it
+            bilingualMode: this.state.bilingualMode
         };
         
         if (openTarget === SourceOpenTarget.Webpage) {
@@ -1089,9 +1152,9 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             return;
         }
         
-        // Determine URL based on source's openTarget
+        // Determine URL based on the item's openTarget (rule override or source setting)
         let url: string | null = null;
-        const openTarget = source.openTarget;
+        const openTarget = getItemOpenTarget(item, source);
         
         // Build article info for FullContent mode (Main process will do extraction)
         // Cast openTarget since SourceOpenTarget and PrefetchOpenTarget have same values
@@ -1106,7 +1169,8 @@ class Article extends React.Component<ArticleProps, ArticleState> {
             fontSize: this.state.fontSize,
             fontFamily: this.state.fontFamily || '',
             locale: locale || 'en-US',
-            translateTo: source.translateTo  // Pass translation target language
+            translateTo: getTranslationTarget(item, source),  // Pass translation target language, unless already in it
+            bilingualMode: this.state.bilingualMode
         };
         
         if (openTarget === SourceOpenTarget.Webpage) {
@@ -1194,7 +1258,7 @@ class Article extends React.Component<ArticleProps, ArticleState> {
 <head>
     <meta charset="UTF-8">
     <meta http-equiv="Content-Security-Policy"
-        content="default-src 'none'; script-src 'unsafe-inline'; img-src http: https: data:; style-src 'unsafe-inline'; frame-src http: https:; media-src http: https:; connect-src https: http:">
+        content="default-src 'none'; script-src 'unsafe-inline'; img-src http: https: data: fluent-archive:; style-src 'unsafe-inline'; frame-src http: https:; media-src http: https:; connect-src https: http:">
     <title>Article</title>
     <style>
 /* ====== Local/RSS Mode - Simplified Normalized Layout ====== */
@@ -2470,6 +2534,9 @@ a:hover { text-decoration: underline; }
     }
     componentDidUpdate = (prevProps: ArticleProps, prevState: ArticleState) => {
         if (prevProps.item._id != this.props.item._id) {
+            // Stop translating the article we navigated away from
+            window.translation?.cancelArticleJobs(String(prevProps.item._id))
+            
             // Article changed - DO NOT release navigation lock here!
             // The lock is released by cvp-navigation-complete IPC when the view is actually ready.
             // Releasing here would allow another arrow key press before the navigation completes.
@@ -2538,7 +2605,7 @@ a:hover { text-decoration: underline; }
                 this.loadPersistedCookies()
             }
             
-            const newContentMode = this.props.source.openTarget
+            const newContentMode = getItemOpenTarget(this.props.item, this.props.source)
             this.setState({
                 contentMode: newContentMode,
                 fullContent: "",
@@ -2580,7 +2647,7 @@ a:hover { text-decoration: underline; }
                 return
             }
             
-            const targetContentMode = this.props.source.openTarget
+            const targetContentMode = getItemOpenTarget(this.props.item, this.props.source)
             
             // Only update if state doesn't already match the target
             if (this.state.contentMode !== targetContentMode) {
@@ -3073,6 +3140,7 @@ a:hover { text-decoration: underline; }
 
     componentWillUnmount = () => {
         this._isMounted = false
+        window.translation?.cancelArticleJobs(String(this.props.item._id))
         
         // Cleanup ContentView
         this.cleanupContentView()
@@ -3296,13 +3364,21 @@ a:hover { text-decoration: underline; }
 
         const link = this.props.item.link
         try {
-            // Fetch the full webpage
-            const result = await fetch(link)
-            if (!result || !result.ok) throw new Error("Failed to fetch URL")
-            const html = await decodeFetchResponse(result, true)
-            
-            // Use article-extractor via IPC to extract clean article content
-            const article = await window.articleExtractor.extractFromHtml(html, link)
+            let html: string = null
+            let article: ArticleExtractionResult = null
+            try {
+                // Fetch the full webpage
+                const result = await fetch(link)
+                if (!result || !result.ok) throw new Error("Failed to fetch URL")
+                html = await decodeFetchResponse(result, true)
+                
+                // Use article-extractor via IPC to extract clean article content
+                article = await window.articleExtractor.extractFromHtml(html, link)
+            } catch (fetchError) {
+                // Without a connection, read the copy archived for offline reading
+                article = await window.offlineArchive.getArticle(this.props.item._id)
+                if (!article) throw fetchError
+            }
             
             if (link === this.props.item.link) {
                 // If extraction successful, use extracted content; otherwise use fallback
@@ -3310,6 +3386,7 @@ a:hover { text-decoration: underline; }
                 
                 // Store extractor metadata (title and date) for better alignment
                 let extractorTitle = article?.title || undefined
+                const originalTitle = extractorTitle
                 let extractorDate = article?.published ? new Date(article.published) : undefined
                 
                 // Check if extracted content contains significant template syntax
@@ -3319,31 +3396,42 @@ a:hover { text-decoration: underline; }
                 const templateRatio = contentToUse ? (templateMatches.join('').length / contentToUse.length) : 0
                 
                 // Fallback: if extractor produces no content OR content is mostly templates
-                if (!contentToUse || contentToUse.length === 0 || (hasTemplates && templateRatio > 0.05)) {
+                if (html && (!contentToUse || contentToUse.length === 0 || (hasTemplates && templateRatio > 0.05))) {
                     contentToUse = this.fallbackExtractContent(html)
                 }
                 
                 // Always clean up the content to remove duplicates (both extractor and fallback)
                 contentToUse = this.cleanDuplicateContent(contentToUse)
+                // The full content is what's actually read, count it instead of the feed's
+                if (contentToUse) this.props.updateReadingStats(this.props.item, contentToUse)
                 
-                // Translate if source has translation enabled
-                const translateTo = this.props.source.translateTo
+                // Translate if source has translation enabled and the article isn't in that language
+                const translateTo = getTranslationTarget(this.props.item, this.props.source)
                 if (translateTo && window.translation) {
                     console.log(`[loadFull] Translating to ${translateTo}`)
                     try {
-                        // Translate title
-                        if (extractorTitle) {
-                            extractorTitle = await window.translation.translateText(extractorTitle, translateTo)
-                        }
-                        // Translate content (HTML-aware)
+                        // Runs as a job ahead of background translations, paragraph by paragraph for the bilingual view
+                        const bilingual = this.state.bilingualMode !== BilingualMode.Off
+                        const translation = await window.translation.translateContent(
+                            String(this.props.item._id),
+                            extractorTitle || "",
+                            contentToUse || "",
+                            translateTo,
+                            bilingual
+                        )
+                        if (extractorTitle) extractorTitle = translation.title
                         if (contentToUse) {
-                            contentToUse = await window.translation.translateHtml(contentToUse, translateTo)
+                            contentToUse = translation.segments
+                                ? renderBilingualContent(translation.segments, this.state.bilingualMode)
+                                : translation.content
                         }
                         console.log(`[loadFull] Translation complete`)
                     } catch (translationError) {
                         console.error(`[loadFull] Translation failed:`, translationError)
                         // Keep original content on translation error
                     }
+                    // The job is cancelled when navigating away meanwhile
+                    if (link !== this.props.item.link) return
                 }
                 
                 // Wrap extracted content in semantic <article> structure
@@ -3362,6 +3450,8 @@ a:hover { text-decoration: underline; }
                 const headerHtml = extractorTitle ? `
                     <header>
                         <h1>${escapeHtml(extractorTitle)}</h1>
+                        ${translateTo && this.state.bilingualMode !== BilingualMode.Off && originalTitle && originalTitle !== extractorTitle
+                            ? `<p class="bi-title-original">${escapeHtml(originalTitle)}</p>` : ""}
                         ${dateStr ? `<p><time datetime="${extractorDate?.toISOString()}">${dateStr}</time></p>` : ""}
                     </header>
                 ` : ""
@@ -3799,7 +3889,7 @@ a:hover { text-decoration: underline; }
 <head>
     <meta charset="UTF-8">
     <meta http-equiv="Content-Security-Policy"
-        content="default-src 'none'; script-src 'unsafe-inline'; img-src http: https: data:; style-src 'unsafe-inline'; frame-src http: https:; media-src http: https:; connect-src https: http:">
+        content="default-src 'none'; script-src 'unsafe-inline'; img-src http: https: data: fluent-archive:; style-src 'unsafe-inline'; frame-src http: https:; media-src http: https:; connect-src https: http:">
     <title>Article</title>
     <style>
 /* ====== Responsive Article Layout ====== */
@@ -4056,6 +4146,12 @@ article p {
     height: auto;
     object-fit: contain;
 }
+
+/* ====== Bilingual View ====== */
+${BILINGUAL_STYLES}
+
+/* ====== Stitched Pages ====== */
+${PAGE_SEPARATOR_STYLES}
     </style>
 </head>
 <body class="${rtlClass} ${comicClass} ${singleImageClass}">
@@ -4184,6 +4280,17 @@ window.__articleData = ${JSON.stringify({
                                         {this.props.item.creator}
                                     </span>
                                 )}
+                                {this.props.item.readingTime > 0 && (
+                                    <span
+                                        className="creator"
+                                        title={intl.get("article.wordCount", {
+                                            words: this.props.item.wordCount,
+                                        })}>
+                                        {intl.get("article.readingTime", {
+                                            minutes: this.props.item.readingTime,
+                                        })}
+                                    </span>
+                                )}
                             </span>
                             {/* Input Mode Badge - outside source-name to avoid overflow:hidden */}
                             {this.state.inputModeEnabled && (
@@ -4285,6 +4392,20 @@ window.__articleData = ${JSON.stringify({
                             this.props.toggleStarred(this.props.item)
                         }
                     />
+                    <CommandBarButton
+                        title={intl.get("context.tags")}
+                        iconProps={{ iconName: "Tag" }}
+                        className={this.props.item.tags?.length > 0 ? "active" : ""}
+                        menuIconProps={{ style: { display: "none" } }}
+                        menuProps={{
+                            items: tagsSubmenu(
+                                this.props.item,
+                                this.props.tags,
+                                this.props.addTag,
+                                this.props.removeTag
+                            ),
+                        }}
+                    />
                     <CommandBarButton
                         title={
                             this.state.isLoadingFull 
@@ -4303,6 +4424,18 @@ window.__articleData = ${JSON.stringify({
                         }}
                         onClick={this.toggleFull}
                     />
+                    {this.isFullContentMode && getTranslationTarget(this.props.item, this.props.source) && (
+                        <CommandBarButton
+                            title={intl.get("article.bilingual")}
+                            className={this.state.bilingualMode !== BilingualMode.Off ? "active" : ""}
+                            iconProps={{ iconName: "Translate" }}
+                            menuIconProps={{ style: { display: "none" } }}
+                            menuProps={this.bilingualMenuProps()}
+                        />
+                    )}
+                    <TranslationJobs
+                        translating={!!getTranslationTarget(this.props.item, this.props.source)}
+                    />
                     <CommandBarButton
                         title={intl.get("article.loadWebpage")}
                         className={this.isWebpageMode ? "active" : ""}
@@ -1,6 +1,6 @@
 import * as React from "react"
 import { RSSSource, SourceOpenTarget } from "../../scripts/models/source"
-import { RSSItem } from "../../scripts/models/item"
+import { RSSItem, getItemOpenTarget } from "../../scripts/models/item"
 import { platformCtrl } from "../../scripts/utils"
 import { FeedFilter } from "../../scripts/models/feed"
 import { ViewConfigs } from "../../schema-types"
@@ -33,7 +33,7 @@ export namespace Card {
     const onClick = (props: Props, e: React.MouseEvent) => {
         e.preventDefault()
         e.stopPropagation()
-        switch (props.source.openTarget) {
+        switch (getItemOpenTarget(props.item, props.source)) {
             case SourceOpenTarget.External: {
                 openInBrowser(props, e)
                 break
@@ -34,7 +34,7 @@ const CompactCard: React.FunctionComponent<Card.Props> = props => {
                     />
                 </span>
                 <span className="snippet">
-                    <Highlights text={snippet} filter={props.filter} />
+                    <Highlights text={props.item.searchSnippet || snippet} filter={props.filter} />
                 </span>
             </div>
             <Time date={props.item.date} />
@@ -2,6 +2,7 @@ import * as React from "react"
 import { Card } from "./card"
 import CardInfo from "./info"
 import Highlights from "./highlights"
+import ReadingProgress from "./reading-progress"
 import { SourceTextDirection } from "../../scripts/models/source"
 import { useTranslation } from "../utils/use-translation"
 
@@ -35,8 +36,9 @@ const DefaultCard: React.FunctionComponent<Card.Props> = props => {
                 <Highlights text={title} filter={props.filter} title />
             </h3>
             <p className={"snippet" + (props.item.thumb ? "" : " show")}>
-                <Highlights text={snippet} filter={props.filter} />
+                <Highlights text={props.item.searchSnippet || snippet} filter={props.filter} />
             </p>
+            <ReadingProgress item={props.item} />
         </div>
     )
 }
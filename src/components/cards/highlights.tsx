@@ -1,6 +1,10 @@
 import * as React from "react"
 import { validateRegex } from "../../scripts/utils"
-import { FeedFilter, FilterType } from "../../scripts/models/feed"
+import {
+    FeedFilter,
+    FilterType,
+    isRegexSearch,
+} from "../../scripts/models/feed"
 import { SourceTextDirection } from "../../scripts/models/source"
 
 type HighlightsProps = {
@@ -11,12 +15,16 @@ type HighlightsProps = {
 
 const Highlights: React.FunctionComponent<HighlightsProps> = props => {
     const spans: [string, boolean][] = new Array()
-    const flags = props.filter.type & FilterType.CaseInsensitive ? "ig" : "g"
+    let search = props.filter.search
+    let flags = props.filter.type & FilterType.CaseInsensitive ? "ig" : "g"
+    if (search !== "" && !isRegexSearch(search)) {
+        // Plain searches match any of their words (like the full-text index)
+        const words = search.match(/[\p{L}\p{N}_]+/gu)
+        search = words ? words.join("|") : ""
+        flags = "ig"
+    }
     let regex: RegExp
-    if (
-        props.filter.search === "" ||
-        !(regex = validateRegex(props.filter.search, flags))
-    ) {
+    if (search === "" || !(regex = validateRegex(search, flags))) {
         if (props.title) spans.push([props.text, false])
         else spans.push([props.text.substr(0, 325), false])
     } else if (props.title) {
@@ -1,4 +1,5 @@
 import * as React from "react"
+import intl from "react-intl-universal"
 import Time from "../utils/time"
 import { RSSSource } from "../../scripts/models/source"
 import { RSSItem } from "../../scripts/models/item"
@@ -19,6 +20,44 @@ const CardInfo: React.FunctionComponent<CardInfoProps> = props => (
                 <span className="creator">{props.item.creator}</span>
             )}
         </span>
+        {props.item.lang && (
+            <span
+                className="lang-badge"
+                title={intl.get("article.detectedLanguage", {
+                    lang: props.item.lang,
+                })}
+                style={{
+                    fontSize: 10,
+                    lineHeight: "14px",
+                    padding: "0 4px",
+                    marginRight: 4,
+                    borderRadius: 2,
+                    border: "1px solid var(--neutralTertiary, #a19f9d)",
+                    textTransform: "uppercase",
+                    flexShrink: 0,
+                }}>
+                {props.item.lang}
+            </span>
+        )}
+        {props.item.readingTime > 0 && (
+            <span
+                className="reading-time"
+                title={intl.get("article.readingStats", {
+                    words: props.item.wordCount,
+                    minutes: props.item.readingTime,
+                })}
+                style={{
+                    fontSize: 12,
+                    marginRight: 6,
+                    whiteSpace: "nowrap",
+                    flexShrink: 0,
+                    color: "var(--neutralSecondaryAlt)",
+                }}>
+                {intl.get("article.readingTime", {
+                    minutes: props.item.readingTime,
+                })}
+            </span>
+        )}
         {props.item.starred ? (
             <span className="starred-indicator"></span>
         ) : null}
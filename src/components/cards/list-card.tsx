@@ -2,6 +2,7 @@ import * as React from "react"
 import { Card } from "./card"
 import CardInfo from "./info"
 import Highlights from "./highlights"
+import ReadingProgress from "./reading-progress"
 import { ViewConfigs } from "../../schema-types"
 import { SourceTextDirection } from "../../scripts/models/source"
 import { useTranslation } from "../utils/use-translation"
@@ -44,12 +45,13 @@ const ListCard: React.FunctionComponent<Card.Props> = props => {
                 {Boolean(props.viewConfigs & ViewConfigs.ShowSnippet) && (
                     <p className="snippet">
                         <Highlights
-                            text={snippet}
+                            text={props.item.searchSnippet || snippet}
                             filter={props.filter}
                         />
                     </p>
                 )}
             </div>
+            <ReadingProgress item={props.item} />
         </div>
     )
 }
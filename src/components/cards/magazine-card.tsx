@@ -40,7 +40,7 @@ const MagazineCard: React.FunctionComponent<Card.Props> = props => {
                     </h3>
                     <p className="snippet">
                         <Highlights
-                            text={snippet}
+                            text={props.item.searchSnippet || snippet}
                             filter={props.filter}
                         />
                     </p>
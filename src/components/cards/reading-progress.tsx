@@ -0,0 +1,26 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { RSSItem } from "../../scripts/models/item"
+import { isInProgress } from "../../scripts/models/reading-position"
+
+// Bar along the bottom of a card for articles started but not finished
+const ReadingProgress: React.FunctionComponent<{ item: RSSItem }> = props => {
+    if (!isInProgress(props.item.readingProgress)) return null
+    const percent = Math.round(props.item.readingProgress * 100)
+    return (
+        <div
+            title={intl.get("article.readingProgress", { percent })}
+            style={{
+                position: "absolute",
+                left: 0,
+                bottom: 0,
+                zIndex: 1,
+                height: 3,
+                width: percent + "%",
+                background: "var(--primary)",
+            }}
+        />
+    )
+}
+
+export default ReadingProgress
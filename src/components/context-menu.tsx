@@ -19,6 +19,9 @@ import { RSSSource } from "../scripts/models/source"
 import { ContextReduxProps } from "../containers/context-menu-container"
 import { ViewType, ImageCallbackTypes, ViewConfigs, SourceGroup } from "../schema-types"
 import { FilterType } from "../scripts/models/feed"
+import { SHORT_READ_MINUTES } from "../scripts/models/reading-time"
+import { Tag } from "../scripts/models/tag"
+import { TextField } from "@fluentui/react"
 
 // ServiceRef for P2P shared feeds
 const P2P_SHARED_SERVICE_REF = "p2p-shared"
@@ -40,7 +43,11 @@ export type ContextMenuProps = ContextReduxProps & {
     viewType?: ViewType
     viewConfigs?: ViewConfigs
     filter?: FilterType
+    search?: string
     sids?: number[]
+    smartFeedId?: number
+    tags?: Tag[]
+    tag?: Tag
     showItem: (feedId: string, item: RSSItem) => void
     markRead: (item: RSSItem) => void
     markUnread: (item: RSSItem) => void
@@ -56,6 +63,11 @@ export type ContextMenuProps = ContextReduxProps & {
     subscribeFeed: (url: string, name?: string) => void
     removeFromGroup: (groupIndex: number, sids: number[]) => void
     updateSourceState: (source: RSSSource) => void
+    saveSmartFeed: () => void
+    deleteSmartFeed: (id: number) => void
+    addItemTag: (item: RSSItem, tag: string) => void
+    removeItemTag: (item: RSSItem, tag: string) => void
+    deleteTag: (tag: Tag) => void
     close: () => void
 }
 
@@ -97,6 +109,67 @@ export const shareSubmenu = (item: RSSItem): IContextualMenuItem[] => [
     },
 ]
 
+// Text field for creating a tag from within a menu; Enter applies it
+const NewTagMenuItem = (props: {
+    onAdd: (tag: string) => void
+    dismiss: () => void
+}) => {
+    const [value, setValue] = React.useState("")
+    return (
+        <div style={{ padding: "4px 8px" }}>
+            <TextField
+                placeholder={intl.get("context.newTag")}
+                value={value}
+                onChange={(_, v) => setValue(v)}
+                onKeyDown={e => {
+                    e.stopPropagation()
+                    if (e.key === "Enter" && value.trim()) {
+                        props.onAdd(value.trim())
+                        props.dismiss()
+                    }
+                }}
+            />
+        </div>
+    )
+}
+
+// Tag submenu for an item: toggle existing tags or create a new one
+export const tagsSubmenu = (
+    item: RSSItem,
+    tags: Tag[],
+    addTag: (item: RSSItem, tag: string) => void,
+    removeTag: (item: RSSItem, tag: string) => void
+): IContextualMenuItem[] => {
+    const itemTags = new Set((item.tags || []).map(t => t.toLowerCase()))
+    const items: IContextualMenuItem[] = tags.map(t => {
+        const checked = itemTags.has(t.name.toLowerCase())
+        return {
+            key: "tag-" + t.id,
+            text: t.name,
+            canCheck: true,
+            checked: checked,
+            onClick: () =>
+                checked ? removeTag(item, t.name) : addTag(item, t.name),
+        }
+    })
+    if (items.length > 0) {
+        items.push({
+            key: "divider_newTag",
+            itemType: ContextualMenuItemType.Divider,
+        })
+    }
+    items.push({
+        key: "newTag",
+        onRender: (_, dismissMenu) => (
+            <NewTagMenuItem
+                onAdd={tag => addTag(item, tag)}
+                dismiss={() => dismissMenu(undefined, true)}
+            />
+        ),
+    })
+    return items
+}
+
 // P2P Peer info for share menu
 interface P2PPeerInfo {
     peerId: string
@@ -364,6 +437,35 @@ export class ContextMenu extends React.Component<ContextMenuProps, ContextMenuSt
         return items
     }
 
+    getOfflineMenuItem = (): IContextualMenuItem => {
+        const item = this.props.item
+        if (window.offlineArchive.has(item._id)) {
+            return {
+                key: "removeOffline",
+                text: intl.get("context.removeOffline"),
+                iconProps: { iconName: "CloudDownload" },
+                onClick: () => {
+                    window.offlineArchive.remove(item._id)
+                },
+            }
+        }
+        return {
+            key: "saveOffline",
+            text: intl.get("context.saveOffline"),
+            iconProps: { iconName: "CloudDownload" },
+            onClick: () => {
+                window.offlineArchive.archive(item._id).then(result => {
+                    if (result.error) {
+                        window.utils.showErrorBox(
+                            intl.get("context.saveOfflineFailure"),
+                            result.error
+                        )
+                    }
+                })
+            },
+        }
+    }
+
     getItems = (): IContextualMenuItem[] => {
         switch (this.props.type) {
             case ContextMenuType.Item:
@@ -467,6 +569,20 @@ export class ContextMenu extends React.Component<ContextMenuProps, ContextMenuSt
                             this.props.toggleHidden(this.props.item)
                         },
                     },
+                    {
+                        key: "tags",
+                        text: intl.get("context.tags"),
+                        iconProps: { iconName: "Tag" },
+                        subMenuProps: {
+                            items: tagsSubmenu(
+                                this.props.item,
+                                this.props.tags || [],
+                                this.props.addItemTag,
+                                this.props.removeItemTag
+                            ),
+                        },
+                    },
+                    this.getOfflineMenuItem(),
                     {
                         key: "divider_1",
                         itemType: ContextualMenuItemType.Divider,
@@ -812,9 +928,54 @@ export class ContextMenu extends React.Component<ContextMenuProps, ContextMenuSt
                                             FilterType.FullSearch
                                         ),
                                 },
+                                {
+                                    key: "relevanceSort",
+                                    text: intl.get("context.relevanceSort"),
+                                    iconProps: { iconName: "SortLines" },
+                                    canCheck: true,
+                                    checked: Boolean(
+                                        this.props.filter &
+                                            FilterType.RelevanceSort
+                                    ),
+                                    onClick: () =>
+                                        this.props.toggleFilter(
+                                            FilterType.RelevanceSort
+                                        ),
+                                },
+                                {
+                                    key: "saveSmartFeed",
+                                    text: intl.get("context.saveSmartFeed"),
+                                    iconProps: { iconName: "Filter" },
+                                    disabled: !this.props.search,
+                                    onClick: () => this.props.saveSmartFeed(),
+                                },
                             ],
                         },
                     },
+                    {
+                        key: "shortReads",
+                        text: intl.get("context.shortReads", {
+                            minutes: SHORT_READ_MINUTES,
+                        }),
+                        iconProps: { iconName: "Timer" },
+                        canCheck: true,
+                        checked: Boolean(
+                            this.props.filter & FilterType.ShortReads
+                        ),
+                        onClick: () =>
+                            this.props.toggleFilter(FilterType.ShortReads),
+                    },
+                    {
+                        key: "shortestFirst",
+                        text: intl.get("context.shortestFirst"),
+                        iconProps: { iconName: "SortUp" },
+                        canCheck: true,
+                        checked: Boolean(
+                            this.props.filter & FilterType.ShortestFirst
+                        ),
+                        onClick: () =>
+                            this.props.toggleFilter(FilterType.ShortestFirst),
+                    },
                     {
                         key: "showHidden",
                         text: intl.get("context.showHidden"),
@@ -878,6 +1039,26 @@ export class ContextMenu extends React.Component<ContextMenuProps, ContextMenuSt
                         onClick: () => this.props.settings(this.props.sids),
                     },
                 ]
+            case ContextMenuType.SmartFeed:
+                return [
+                    {
+                        key: "deleteSmartFeed",
+                        text: intl.get("context.deleteSmartFeed"),
+                        iconProps: { iconName: "Delete" },
+                        onClick: () =>
+                            this.props.deleteSmartFeed(this.props.smartFeedId),
+                    },
+                ]
+            case ContextMenuType.Tag:
+                return [
+                    {
+                        key: "deleteTag",
+                        text: intl.get("context.deleteTag"),
+                        iconProps: { iconName: "Delete" },
+                        disabled: !this.props.tag,
+                        onClick: () => this.props.deleteTag(this.props.tag),
+                    },
+                ]
             case ContextMenuType.MarkRead:
                 return [
                     {
@@ -5,6 +5,9 @@ import { Nav, INavLink, INavLinkGroup } from "office-ui-fabric-react/lib/Nav"
 import { SourceGroup } from "../schema-types"
 import { SourceState, RSSSource } from "../scripts/models/source"
 import { ALL } from "../scripts/models/feed"
+import { CONTINUE_READING } from "../scripts/models/page"
+import { SmartFeed, SmartFeedState } from "../scripts/models/smart-feed"
+import { Tag, TagState } from "../scripts/models/tag"
 import { AnimationClassNames, Stack, FocusZone } from "@fluentui/react"
 
 export type MenuProps = {
@@ -13,13 +16,20 @@ export type MenuProps = {
     selected: string
     sources: SourceState
     groups: SourceGroup[]
+    smartFeeds: SmartFeedState
+    tags: TagState
     searchOn: boolean
     itemOn: boolean
     toggleMenu: () => void
     allArticles: (init?: boolean) => void
+    continueReading: () => void
     selectSourceGroup: (group: SourceGroup, menuKey: string) => void
     selectSource: (source: RSSSource) => void
+    selectSmartFeed: (feed: SmartFeed) => void
+    selectTag: (tag: Tag) => void
     groupContextMenu: (sids: number[], event: React.MouseEvent) => void
+    smartFeedContextMenu: (id: number, event: React.MouseEvent) => void
+    tagContextMenu: (id: number, event: React.MouseEvent) => void
     updateGroupExpansion: (
         event: React.MouseEvent<HTMLElement>,
         key: string,
@@ -59,8 +69,38 @@ export class Menu extends React.Component<MenuProps> {
                         this.props.allArticles(this.props.selected !== ALL),
                     url: null,
                 },
+                {
+                    name: intl.get("menu.continueReading"),
+                    ariaLabel: intl.get("menu.continueReading") + " ",
+                    key: CONTINUE_READING,
+                    icon: "ReadingMode",
+                    onClick: this.props.continueReading,
+                    url: null,
+                },
             ],
         },
+        {
+            name: intl.get("menu.smartFeeds"),
+            links: Object.values(this.props.smartFeeds).map(f => ({
+                name: f.name,
+                ariaLabel: f.name + this.countOverflow(f.unreadCount),
+                key: "f-" + f.id,
+                icon: "Filter",
+                onClick: () => this.props.selectSmartFeed(f),
+                url: null,
+            })),
+        },
+        {
+            name: intl.get("menu.tags"),
+            links: this.props.tags.map(t => ({
+                name: t.name,
+                ariaLabel: t.name + this.countOverflow(t.unreadCount),
+                key: "t-" + t.id,
+                icon: "Tag",
+                onClick: () => this.props.selectTag(t),
+                url: null,
+            })),
+        },
         {
             name: intl.get("menu.subscriptions"),
             links: this.props.groups
@@ -115,6 +155,12 @@ export class Menu extends React.Component<MenuProps> {
             sids = [parseInt(index)]
         } else if (type === "g") {
             sids = this.props.groups[parseInt(index)].sids
+        } else if (type === "f") {
+            this.props.smartFeedContextMenu(parseInt(index), event)
+            return
+        } else if (type === "t") {
+            this.props.tagContextMenu(parseInt(index), event)
+            return
         } else {
             return
         }
@@ -138,6 +184,7 @@ export class Menu extends React.Component<MenuProps> {
     }
 
     _onRenderGroupHeader = (group: INavLinkGroup): JSX.Element => {
+        if (group.links.length === 0) return null
         return (
             <p className={"subs-header " + AnimationClassNames.slideDownIn10}>
                 {group.name}
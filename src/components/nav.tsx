@@ -16,6 +16,7 @@ type NavProps = {
     logs: () => void
     views: () => void
     settings: () => void
+    flushOutbox: () => void
 }
 
 type NavState = {
@@ -154,6 +155,20 @@ class Nav extends React.Component<NavProps, NavState> {
                 </div>
                 <span className="title">{this.props.state.title}</span>
                 <div className="btn-group" style={{ float: "right" }}>
+                    {this.props.state.outboxCount > 0 && (
+                        <a
+                            className="btn"
+                            onClick={this.props.flushOutbox}
+                            title={intl.get("nav.pendingChanges", {
+                                count: this.props.state.outboxCount,
+                            })}
+                            style={{ width: "auto", padding: "0 8px" }}>
+                            <Icon iconName="CloudUpload" />
+                            <span style={{ fontSize: 12, marginLeft: 4 }}>
+                                {this.props.state.outboxCount}
+                            </span>
+                        </a>
+                    )}
                     <a
                         className={"btn" + this.fetching()}
                         onClick={this.fetch}
@@ -10,6 +10,8 @@ import AppTabContainer from "../containers/settings/app-container"
 import RulesTabContainer from "../containers/settings/rules-container"
 import ServiceTabContainer from "../containers/settings/service-container"
 import P2PLanSettings from "./settings/p2p-lan"
+import TranslationTab from "./settings/translation"
+import SiteRulesTab from "./settings/site-rules"
 import { initTouchBarWithTexts } from "../scripts/utils"
 
 type SettingsProps = {
@@ -92,6 +94,16 @@ class Settings extends React.Component<SettingsProps> {
                             itemIcon="CloudImportExport">
                             <ServiceTabContainer />
                         </PivotItem>
+                        <PivotItem
+                            headerText={intl.get("settings.translation")}
+                            itemIcon="Translate">
+                            <TranslationTab />
+                        </PivotItem>
+                        <PivotItem
+                            headerText={intl.get("settings.siteRules")}
+                            itemIcon="PageEdit">
+                            <SiteRulesTab />
+                        </PivotItem>
                         <PivotItem
                             headerText={intl.get("settings.app")}
                             itemIcon="Settings">
@@ -25,6 +25,7 @@ import {
     PrimaryButton,
 } from "@fluentui/react"
 import DangerButton from "../utils/danger-button"
+import type { OfflineArchiveStatus } from "../../bridges/offline-archive"
 
 type AppTabProps = {
     setLanguage: (option: string) => void
@@ -40,6 +41,7 @@ type AppTabState = {
     itemSize: string
     cacheSize: string
     deleteIndex: string
+    offlineArchive: OfflineArchiveStatus
 }
 
 class AppTab extends React.Component<AppTabProps, AppTabState> {
@@ -52,9 +54,11 @@ class AppTab extends React.Component<AppTabProps, AppTabState> {
             itemSize: null,
             cacheSize: null,
             deleteIndex: null,
+            offlineArchive: null,
         }
         this.getItemSize()
         this.getCacheSize()
+        this.getOfflineArchiveStatus()
     }
 
     getCacheSize = () => {
@@ -74,6 +78,40 @@ class AppTab extends React.Component<AppTabProps, AppTabState> {
         })
     }
 
+    getOfflineArchiveStatus = () => {
+        window.offlineArchive.getStatus().then(offlineArchive => {
+            this.setState({ offlineArchive })
+        })
+    }
+
+    offlineQuotaOptions = (): IDropdownOption[] => [
+        { key: 100, text: "100MB" },
+        { key: 250, text: "250MB" },
+        { key: 500, text: "500MB" },
+        { key: 1024, text: "1GB" },
+        { key: 2048, text: "2GB" },
+        { key: 5120, text: "5GB" },
+        { key: 0, text: intl.get("app.offlineNoLimit") },
+    ]
+    onOfflineQuotaChanged = (_, item: IDropdownOption) => {
+        window.offlineArchive
+            .setQuota(item.key as number)
+            .then(() => this.getOfflineArchiveStatus())
+    }
+
+    cleanupOfflineArchive = () => {
+        window.offlineArchive
+            .cleanup()
+            .then(() => this.getOfflineArchiveStatus())
+    }
+
+    clearOfflineArchive = () => {
+        this.setState({ offlineArchive: null })
+        window.offlineArchive
+            .clear()
+            .then(() => this.getOfflineArchiveStatus())
+    }
+
     themeChoices = (): IChoiceGroupOption[] => [
         { key: ThemeSettings.Default, text: intl.get("followSystem") },
         { key: ThemeSettings.Light, text: intl.get("app.lightTheme") },
@@ -306,6 +344,49 @@ class AppTab extends React.Component<AppTabProps, AppTabState> {
                     : intl.get("app.calculatingSize")}
             </span>
 
+            <Label>{intl.get("app.offlineArchive")}</Label>
+            <Stack horizontal verticalAlign="baseline">
+                <Stack.Item grow>
+                    <span>{intl.get("app.offlineQuota")}</span>
+                </Stack.Item>
+                <Stack.Item>
+                    <Dropdown
+                        disabled={this.state.offlineArchive === null}
+                        options={this.offlineQuotaOptions()}
+                        selectedKey={this.state.offlineArchive?.quota}
+                        onChange={this.onOfflineQuotaChanged}
+                        style={{ width: 120 }}
+                    />
+                </Stack.Item>
+            </Stack>
+            <Stack horizontal>
+                <Stack.Item>
+                    <DefaultButton
+                        text={intl.get("app.offlineCleanup")}
+                        disabled={this.state.offlineArchive === null}
+                        onClick={this.cleanupOfflineArchive}
+                    />
+                </Stack.Item>
+                <Stack.Item>
+                    <DangerButton
+                        text={intl.get("app.offlineClear")}
+                        disabled={
+                            this.state.offlineArchive === null ||
+                            this.state.offlineArchive.articles === 0
+                        }
+                        onClick={this.clearOfflineArchive}
+                    />
+                </Stack.Item>
+            </Stack>
+            <span className="settings-hint up">
+                {this.state.offlineArchive
+                    ? intl.get("app.offlineSize", {
+                          count: this.state.offlineArchive.articles,
+                          size: byteToMB(this.state.offlineArchive.bytes),
+                      })
+                    : intl.get("app.calculatingSize")}
+            </span>
+
             <Label>{intl.get("app.data")}</Label>
             <Stack horizontal>
                 <Stack.Item>
@@ -0,0 +1,358 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    Stack,
+    Dropdown,
+    IDropdownOption,
+    TextField,
+    DefaultButton,
+    IconButton,
+    IIconProps,
+} from "@fluentui/react"
+import {
+    RuleCondition,
+    ConditionTest,
+    ConditionField,
+    ConditionOperator,
+} from "../../scripts/models/rule"
+
+const fieldKeys = [
+    ConditionField.Title,
+    ConditionField.Snippet,
+    ConditionField.Content,
+    ConditionField.Creator,
+    ConditionField.Domain,
+    ConditionField.Age,
+    ConditionField.Thumbnail,
+]
+
+const textOperators = [
+    ConditionOperator.Contains,
+    ConditionOperator.Equals,
+    ConditionOperator.Regex,
+    ConditionOperator.Greater,
+    ConditionOperator.Less,
+    ConditionOperator.Exists,
+]
+
+function getOperators(field: ConditionField): ConditionOperator[] {
+    switch (field) {
+        case ConditionField.Age:
+            return [ConditionOperator.Greater, ConditionOperator.Less]
+        case ConditionField.Thumbnail:
+            return [ConditionOperator.Exists]
+        default:
+            return textOperators
+    }
+}
+
+function getOperatorText(field: ConditionField, operator: ConditionOperator) {
+    if (field === ConditionField.Age) {
+        return intl.get(
+            operator === ConditionOperator.Greater
+                ? "rules.operators.olderThan"
+                : "rules.operators.newerThan"
+        )
+    }
+    switch (operator) {
+        case ConditionOperator.Greater:
+            return intl.get("rules.operators.longerThan")
+        case ConditionOperator.Less:
+            return intl.get("rules.operators.shorterThan")
+        default:
+            return intl.get(`rules.operators.${operator}`)
+    }
+}
+
+export function newConditionTest(): ConditionTest {
+    return {
+        type: "test",
+        field: ConditionField.Title,
+        operator: ConditionOperator.Contains,
+        value: "",
+    }
+}
+
+// One line summary of a condition tree for the rules list
+export function describeCondition(cond: RuleCondition): string {
+    switch (cond.type) {
+        case "and":
+        case "or": {
+            const joined = cond.children
+                .map(describeCondition)
+                .join(` ${intl.get(`rules.${cond.type}`)} `)
+            return cond.children.length > 1 ? `(${joined})` : joined
+        }
+        case "not":
+            return `${intl.get("rules.not")} ${describeCondition(cond.child)}`
+        case "test": {
+            const parts = [
+                intl.get(`rules.fields.${cond.field}`),
+                getOperatorText(cond.field, cond.operator),
+            ]
+            if (cond.operator !== ConditionOperator.Exists)
+                parts.push(
+                    cond.operator === ConditionOperator.Greater ||
+                        cond.operator === ConditionOperator.Less
+                        ? cond.value
+                        : `"${cond.value}"`
+                )
+            if (cond.field === ConditionField.Age)
+                parts.push(intl.get("rules.days"))
+            return parts.join(" ")
+        }
+    }
+}
+
+type RuleConditionEditorProps = {
+    condition: RuleCondition
+    onChange: (condition: RuleCondition) => void
+    onDelete?: () => void // Not set for the root of the tree
+}
+
+class RuleConditionEditor extends React.Component<RuleConditionEditorProps> {
+    // Negation is a wrapper node, shown as a toggle on the wrapped condition
+    getInner = () =>
+        this.props.condition.type === "not"
+            ? this.props.condition.child
+            : this.props.condition
+
+    isNegated = () => this.props.condition.type === "not"
+
+    onInnerChange = (inner: RuleCondition) => {
+        this.props.onChange(
+            this.isNegated() ? { type: "not", child: inner } : inner
+        )
+    }
+
+    toggleNegation = () => {
+        this.props.onChange(
+            this.isNegated()
+                ? this.getInner()
+                : { type: "not", child: this.props.condition }
+        )
+    }
+
+    fieldOptions = (): IDropdownOption[] =>
+        fieldKeys.map(f => ({ key: f, text: intl.get(`rules.fields.${f}`) }))
+
+    operatorOptions = (field: ConditionField): IDropdownOption[] =>
+        getOperators(field).map(o => ({
+            key: o,
+            text: getOperatorText(field, o),
+        }))
+
+    onFieldChange = (cond: ConditionTest, field: ConditionField) => {
+        const operators = getOperators(field)
+        this.onInnerChange({
+            ...cond,
+            field: field,
+            operator: operators.includes(cond.operator)
+                ? cond.operator
+                : operators[0],
+        })
+    }
+
+    caseIconProps = (cond: ConditionTest): IIconProps => ({
+        title: intl.get("context.caseSensitive"),
+        children: "Aa",
+        style: {
+            fontSize: 12,
+            fontStyle: "normal",
+            cursor: "pointer",
+            pointerEvents: "unset",
+            color: cond.caseSensitive
+                ? "var(--black)"
+                : "var(--neutralTertiary)",
+            textDecoration: cond.caseSensitive ? "underline" : "",
+        },
+        onClick: () =>
+            this.onInnerChange({ ...cond, caseSensitive: !cond.caseSensitive }),
+    })
+
+    validateValue = (cond: ConditionTest) => () => {
+        const error = RuleCondition.validate(cond)
+        return error ? intl.get(error) : ""
+    }
+
+    renderNegation = () => (
+        <DefaultButton
+            toggle
+            checked={this.isNegated()}
+            text={intl.get("rules.not")}
+            onClick={this.toggleNegation}
+            style={{ minWidth: 0, padding: "0 8px" }}
+        />
+    )
+
+    renderDelete = () =>
+        this.props.onDelete && (
+            <IconButton
+                iconProps={{ iconName: "Delete" }}
+                title={intl.get("delete")}
+                onClick={this.props.onDelete}
+            />
+        )
+
+    renderTest = (cond: ConditionTest) => {
+        const isNumber =
+            cond.operator === ConditionOperator.Greater ||
+            cond.operator === ConditionOperator.Less
+        const isText = !isNumber && cond.operator !== ConditionOperator.Exists
+        return (
+            <Stack horizontal tokens={{ childrenGap: 8 }}>
+                <Stack.Item>{this.renderNegation()}</Stack.Item>
+                <Stack.Item>
+                    <Dropdown
+                        options={this.fieldOptions()}
+                        selectedKey={cond.field}
+                        onChange={(_, item) =>
+                            this.onFieldChange(cond, item.key as ConditionField)
+                        }
+                        style={{ width: 120 }}
+                    />
+                </Stack.Item>
+                <Stack.Item>
+                    <Dropdown
+                        options={this.operatorOptions(cond.field)}
+                        selectedKey={cond.operator}
+                        onChange={(_, item) =>
+                            this.onInnerChange({
+                                ...cond,
+                                operator: item.key as ConditionOperator,
+                            })
+                        }
+                        style={{ width: 140 }}
+                    />
+                </Stack.Item>
+                <Stack.Item grow>
+                    {(isText || isNumber) && (
+                        <TextField
+                            type={isNumber ? "number" : "text"}
+                            value={cond.value}
+                            iconProps={
+                                isText ? this.caseIconProps(cond) : undefined
+                            }
+                            suffix={
+                                isNumber && cond.field === ConditionField.Age
+                                    ? intl.get("rules.days")
+                                    : undefined
+                            }
+                            onGetErrorMessage={this.validateValue(cond)}
+                            validateOnLoad={false}
+                            onChange={(_, v) =>
+                                this.onInnerChange({ ...cond, value: v })
+                            }
+                        />
+                    )}
+                </Stack.Item>
+                <Stack.Item>{this.renderDelete()}</Stack.Item>
+            </Stack>
+        )
+    }
+
+    renderGroup = (cond: Extract<RuleCondition, { type: "and" | "or" }>) => {
+        const setChildren = (children: RuleCondition[]) =>
+            this.onInnerChange({ ...cond, children: children })
+        return (
+            <Stack tokens={{ childrenGap: 8 }}>
+                <Stack horizontal tokens={{ childrenGap: 8 }}>
+                    <Stack.Item>{this.renderNegation()}</Stack.Item>
+                    <Stack.Item>
+                        <Dropdown
+                            options={[
+                                { key: "and", text: intl.get("rules.all") },
+                                { key: "or", text: intl.get("rules.any") },
+                            ]}
+                            selectedKey={cond.type}
+                            onChange={(_, item) =>
+                                this.onInnerChange({
+                                    ...cond,
+                                    type: item.key as "and" | "or",
+                                })
+                            }
+                            style={{ width: 120 }}
+                        />
+                    </Stack.Item>
+                    <Stack.Item grow />
+                    <Stack.Item>
+                        <DefaultButton
+                            iconProps={{ iconName: "Add" }}
+                            text={intl.get("rules.addCondition")}
+                            onClick={() =>
+                                setChildren([
+                                    ...cond.children,
+                                    newConditionTest(),
+                                ])
+                            }
+                        />
+                    </Stack.Item>
+                    <Stack.Item>
+                        <DefaultButton
+                            iconProps={{ iconName: "BulletedTreeList" }}
+                            text={intl.get("rules.addGroup")}
+                            onClick={() =>
+                                setChildren([
+                                    ...cond.children,
+                                    {
+                                        type: "and",
+                                        children: [newConditionTest()],
+                                    },
+                                ])
+                            }
+                        />
+                    </Stack.Item>
+                    <Stack.Item>{this.renderDelete()}</Stack.Item>
+                </Stack>
+                <Stack
+                    tokens={{ childrenGap: 8 }}
+                    style={{
+                        marginLeft: 16,
+                        paddingLeft: 12,
+                        borderLeft: "2px solid var(--neutralLight)",
+                    }}>
+                    {cond.children.map((child, i) => (
+                        <RuleConditionEditor
+                            key={i}
+                            condition={child}
+                            onChange={c =>
+                                setChildren(
+                                    cond.children.map((o, j) =>
+                                        j === i ? c : o
+                                    )
+                                )
+                            }
+                            onDelete={() =>
+                                setChildren(
+                                    cond.children.filter((_, j) => j !== i)
+                                )
+                            }
+                        />
+                    ))}
+                </Stack>
+            </Stack>
+        )
+    }
+
+    render() {
+        const inner = this.getInner()
+        switch (inner.type) {
+            case "and":
+            case "or":
+                return this.renderGroup(inner)
+            case "test":
+                return this.renderTest(inner)
+            default:
+                // Double negation, edit the wrapped condition
+                return (
+                    <RuleConditionEditor
+                        condition={inner}
+                        onChange={this.onInnerChange}
+                        onDelete={this.props.onDelete}
+                    />
+                )
+        }
+    }
+}
+
+export default RuleConditionEditor
@@ -1,6 +1,10 @@
 import * as React from "react"
 import intl from "react-intl-universal"
-import { SourceState, RSSSource } from "../../scripts/models/source"
+import {
+    SourceState,
+    RSSSource,
+    SourceOpenTarget,
+} from "../../scripts/models/source"
 import {
     Stack,
     Label,
@@ -21,9 +25,27 @@ import {
     IDragDropEvents,
     Link,
     IIconProps,
+    Toggle,
+    ProgressIndicator,
 } from "@fluentui/react"
-import { SourceRule, RuleActions } from "../../scripts/models/rule"
-import { FilterType } from "../../scripts/models/feed"
+import {
+    SourceRule,
+    RuleActions,
+    RuleActionParams,
+    ItemAction,
+    getRulesForSource,
+    RuleCondition,
+    RulePreviewEntry,
+    previewRules,
+    isLocalWebhookUrl,
+} from "../../scripts/models/rule"
+import { ItemChange } from "../../bridges/db"
+import RuleConditionEditor, {
+    describeCondition,
+    newConditionTest,
+} from "./rule-condition"
+import { SourceGroup } from "../../schema-types"
+import { FeedFilter, FilterType } from "../../scripts/models/feed"
 import { MyParserItem, validateRegex } from "../../scripts/utils"
 import { RSSItem } from "../../scripts/models/item"
 
@@ -36,26 +58,53 @@ const actionKeyMap = {
     "h-false": "article.unhide",
     "n-true": "article.notify",
     "n-false": "article.dontNotify",
+    "t-true": "rules.addTag",
+    "o-true": "rules.setOpenTarget",
+    "p-true": "rules.forwardToPeer",
+    "w-true": "rules.postWebhook",
 }
 
+const openTargetKeyMap = {
+    [SourceOpenTarget.Local]: "sources.rssText",
+    [SourceOpenTarget.FullContent]: "article.loadFull",
+    [SourceOpenTarget.Webpage]: "sources.loadWebpage",
+    [SourceOpenTarget.External]: "openExternal",
+}
+
+type KnownPeer = { peerId: string; peerName: string; online: boolean }
+
 type RulesTabProps = {
     sources: SourceState
+    groups: SourceGroup[]
+    globalRules: SourceRule[]
     updateSourceRules: (source: RSSSource, rules: SourceRule[]) => void
+    updateGroupRules: (group: SourceGroup, rules: SourceRule[]) => void
+    updateGlobalRules: (rules: SourceRule[]) => void
+    applyRulePreview: (
+        entries: RulePreviewEntry[],
+        onProgress: (done: number, total: number) => void
+    ) => Promise<void>
 }
 
 type RulesTabState = {
-    sid: string
+    scope: string // "global", "g-" + group index or "s-" + source id
     selectedRules: number[]
     editIndex: number
     regex: string
     searchType: number
     caseSensitive: boolean
     match: boolean
+    condition: RuleCondition // Set when editing a compound condition
     actionKeys: string[]
+    params: RuleActionParams
+    peers: KnownPeer[]
     mockTitle: string
     mockCreator: string
     mockContent: string
     mockResult: string
+    preview: RulePreviewEntry[] // Set after a dry run of the selected rules
+    previewLoading: boolean
+    applyProgress: number // 0 to 1 while applying to existing items
 }
 
 class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
@@ -67,18 +116,24 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
     constructor(props) {
         super(props)
         this.state = {
-            sid: null,
+            scope: null,
             selectedRules: [],
             editIndex: -1,
             regex: "",
             searchType: 0,
             caseSensitive: false,
             match: true,
+            condition: null,
             actionKeys: [],
+            params: {},
+            peers: [],
             mockTitle: "",
             mockCreator: "",
             mockContent: "",
             mockResult: "",
+            preview: null,
+            previewLoading: false,
+            applyProgress: null,
         }
         this.rulesSelection = new Selection({
             getKey: (_, i) => i,
@@ -91,6 +146,15 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         this.rulesDragDropEvents = this.getRulesDragDropEvents()
     }
 
+    componentDidMount = async () => {
+        try {
+            const peers = await window.p2pLan.getKnownPeersWithStatus()
+            this.setState({ peers: peers })
+        } catch (err) {
+            console.error("[rules] Failed to load known peers:", err)
+        }
+    }
+
     getRulesDragDropEvents = (): IDragDropEvents => ({
         canDrop: () => true,
         canDrag: () => true,
@@ -110,7 +174,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
     })
 
     reorderRules = (item: SourceRule) => {
-        let rules = this.getSourceRules()
+        let rules = this.getScopeRules()
         let draggedItems = this.rulesSelection.isIndexSelected(
             this.rulesDraggedIndex
         )
@@ -122,8 +186,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
 
         items.splice(insertIndex, 0, ...draggedItems)
         this.rulesSelection.setAllSelected(false)
-        let source = this.props.sources[parseInt(this.state.sid)]
-        this.props.updateSourceRules(source, items)
+        this.updateScopeRules(items)
     }
 
     initRuleEdit = (rule: SourceRule = null) => {
@@ -139,11 +202,75 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
                 ? !(rule.filter.type & FilterType.CaseInsensitive)
                 : false,
             match: rule ? rule.match : true,
+            condition: (rule && rule.condition) || null,
             actionKeys: rule ? RuleActions.toKeys(rule.actions) : [],
+            params: rule && rule.params ? { ...rule.params } : {},
         })
     }
 
-    getSourceRules = () => this.props.sources[parseInt(this.state.sid)].rules
+    getScopeRules = (): SourceRule[] => {
+        const [type, id] = this.state.scope.split("-")
+        switch (type) {
+            case "global":
+                return this.props.globalRules
+            case "g":
+                return this.props.groups[parseInt(id)].rules
+            default:
+                return this.props.sources[parseInt(id)].rules
+        }
+    }
+
+    updateScopeRules = (rules: SourceRule[]) => {
+        this.setState({ preview: null })
+        const [type, id] = this.state.scope.split("-")
+        switch (type) {
+            case "global":
+                this.props.updateGlobalRules(rules)
+                break
+            case "g":
+                this.props.updateGroupRules(
+                    { ...this.props.groups[parseInt(id)], index: parseInt(id) },
+                    rules
+                )
+                break
+            default:
+                this.props.updateSourceRules(
+                    this.props.sources[parseInt(id)],
+                    rules
+                )
+        }
+    }
+
+    getScopeSids = (): number[] => {
+        const [type, id] = this.state.scope.split("-")
+        switch (type) {
+            case "global":
+                return Object.values(this.props.sources).map(s => s.sid)
+            case "g":
+                return this.props.groups[parseInt(id)].sids
+            default:
+                return [parseInt(id)]
+        }
+    }
+
+    // Rules that apply to items of the current scope, in precedence order
+    getEffectiveRules = (): SourceRule[] => {
+        const [type, id] = this.state.scope.split("-")
+        switch (type) {
+            case "global":
+                return this.props.globalRules
+            case "g":
+                return [
+                    ...this.props.globalRules,
+                    ...(this.props.groups[parseInt(id)].rules || []),
+                ]
+            default:
+                return getRulesForSource(
+                    this.props,
+                    this.props.sources[parseInt(id)]
+                )
+        }
+    }
 
     ruleColumns = (): IColumn[] => [
         {
@@ -152,7 +279,10 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
             name: intl.get("rules.regex"),
             minWidth: 100,
             maxWidth: 200,
-            onRender: (rule: SourceRule) => rule.filter.search,
+            onRender: (rule: SourceRule) =>
+                rule.condition
+                    ? describeCondition(rule.condition)
+                    : rule.filter.search,
         },
         {
             key: "actions",
@@ -160,27 +290,82 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
             minWidth: 100,
             onRender: (rule: SourceRule) =>
                 RuleActions.toKeys(rule.actions)
-                    .map(k => intl.get(actionKeyMap[k]))
+                    .map(k => this.describeAction(k, rule.params || {}))
                     .join(", "),
         },
     ]
 
+    describeAction = (key: string, params: RuleActionParams) => {
+        const text = intl.get(actionKeyMap[key])
+        switch (key) {
+            case "t-true":
+                return `${text} "${params.tag}"`
+            case "o-true":
+                return `${text} (${intl.get(
+                    openTargetKeyMap[params.openTarget]
+                )})`
+            case "p-true":
+                return `${text} (${params.peerName || params.peerId})`
+            case "w-true":
+                return `${text} (${params.webhook})`
+            default:
+                return text
+        }
+    }
+
     handleInputChange = event => {
         const name = event.target.name as "regex"
         this.setState({ [name]: event.target.value })
     }
 
-    sourceOptions = (): IDropdownOption[] =>
-        Object.entries(this.props.sources).map(([sid, s]) => ({
-            key: sid,
-            text: s.name,
-            data: { icon: s.iconurl },
-        }))
+    scopeOptions = (): IDropdownOption[] => {
+        const groups = this.props.groups
+            .map((group, index) => ({ group, index }))
+            .filter(({ group }) => group.isMultiple)
+            .map(({ group, index }) => ({
+                key: `g-${index}`,
+                text: group.name,
+                data: { iconName: "Folder" },
+            }))
+        return [
+            {
+                key: "global",
+                text: intl.get("rules.global"),
+                data: { iconName: "Globe" },
+            },
+            ...(groups.length > 0
+                ? [
+                      {
+                          key: "groups",
+                          text: intl.get("rules.groups"),
+                          itemType: DropdownMenuItemType.Header,
+                      },
+                      ...groups,
+                  ]
+                : []),
+            {
+                key: "sources",
+                text: intl.get("rules.sources"),
+                itemType: DropdownMenuItemType.Header,
+            },
+            ...Object.entries(this.props.sources).map(([sid, s]) => ({
+                key: `s-${sid}`,
+                text: s.name,
+                data: { icon: s.iconurl },
+            })),
+        ]
+    }
     onRenderSourceOption = (option: IDropdownOption) => (
         <div>
             {option.data && option.data.icon && (
                 <img src={option.data.icon} className="favicon dropdown" />
             )}
+            {option.data && option.data.iconName && (
+                <Icon
+                    iconName={option.data.iconName}
+                    style={{ marginRight: 8, verticalAlign: "middle" }}
+                />
+            )}
             <span>{option.text}</span>
         </div>
     )
@@ -191,13 +376,14 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         this.initRuleEdit()
         this.rulesSelection.setAllSelected(false)
         this.setState({
-            sid: item.key as string,
+            scope: item.key as string,
             selectedRules: [],
             editIndex: -1,
             mockTitle: "",
             mockCreator: "",
             mockContent: "",
             mockResult: "",
+            preview: null,
         })
     }
 
@@ -253,6 +439,53 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         }
     }
 
+    hasAction = (action: ItemAction) =>
+        this.state.actionKeys.includes(`${action}-true`)
+
+    setParams = (params: RuleActionParams) => {
+        this.setState(prevState => ({
+            params: { ...prevState.params, ...params },
+        }))
+    }
+
+    openTargetOptions = (): IDropdownOption[] =>
+        Object.entries(openTargetKeyMap).map(([k, t]) => ({
+            key: parseInt(k),
+            text: intl.get(t),
+        }))
+
+    peerOptions = (): IDropdownOption[] =>
+        this.state.peers.map(p => ({
+            key: p.peerId,
+            text: p.online
+                ? p.peerName
+                : intl.get("rules.offlinePeer", { name: p.peerName }),
+        }))
+    onPeerOptionChange = (_, item: IDropdownOption) => {
+        const peer = this.state.peers.find(p => p.peerId === item.key)
+        this.setParams({ peerId: peer.peerId, peerName: peer.peerName })
+    }
+
+    validateWebhookField = (value: string) => {
+        if (value.length === 0) return intl.get("emptyField")
+        else if (!isLocalWebhookUrl(value))
+            return intl.get("rules.badWebhook")
+        else return ""
+    }
+
+    // Actions with parameters can only be saved once they are filled in
+    missingParams = () => {
+        const params = this.state.params
+        return (
+            (this.hasAction(ItemAction.Tag) && !params.tag?.trim()) ||
+            (this.hasAction(ItemAction.OpenTarget) &&
+                params.openTarget === undefined) ||
+            (this.hasAction(ItemAction.Forward) && !params.peerId) ||
+            (this.hasAction(ItemAction.Webhook) &&
+                this.validateWebhookField(params.webhook || "") !== "")
+        )
+    }
+
     validateRegexField = (value: string) => {
         if (value.length === 0) return intl.get("emptyField")
         else if (validateRegex(value) === null)
@@ -260,45 +493,88 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         else return ""
     }
 
-    saveRule = () => {
+    getFilterType = () => {
         let filterType = FilterType.Default | FilterType.ShowHidden
         if (!this.state.caseSensitive) filterType |= FilterType.CaseInsensitive
         if (this.state.searchType === 1) filterType |= FilterType.FullSearch
         else if (this.state.searchType === 2)
             filterType |= FilterType.CreatorSearch
+        return filterType
+    }
+
+    // Switch between a single regex and a condition tree, keeping the regex
+    toggleCondition = () => {
+        if (this.state.condition) {
+            this.setState({ condition: null })
+        } else if (this.state.regex) {
+            const filter = new FeedFilter(
+                this.getFilterType(),
+                this.state.regex
+            )
+            this.setState({
+                condition: {
+                    type: "and",
+                    children: [
+                        RuleCondition.fromFilter(filter, this.state.match),
+                    ],
+                },
+            })
+        } else {
+            this.setState({
+                condition: { type: "and", children: [newConditionTest()] },
+            })
+        }
+    }
+
+    isConditionValid = () =>
+        this.state.condition
+            ? RuleCondition.validate(this.state.condition) === null
+            : this.state.regex.length > 0 &&
+              validateRegex(this.state.regex) !== null
+
+    saveRule = () => {
+        let filterType = this.getFilterType()
+        // Only keep the parameters of the selected actions
+        const params: RuleActionParams = {}
+        const p = this.state.params
+        if (this.hasAction(ItemAction.Tag)) params.tag = p.tag.trim()
+        if (this.hasAction(ItemAction.OpenTarget))
+            params.openTarget = p.openTarget
+        if (this.hasAction(ItemAction.Forward)) {
+            params.peerId = p.peerId
+            params.peerName = p.peerName
+        }
+        if (this.hasAction(ItemAction.Webhook)) params.webhook = p.webhook
         let rule = new SourceRule(
-            this.state.regex,
+            this.state.condition ? "" : this.state.regex,
             this.state.actionKeys,
             filterType,
-            this.state.match
+            this.state.match,
+            params,
+            this.state.condition || undefined
         )
-        let source = this.props.sources[parseInt(this.state.sid)]
-        let rules = source.rules ? [...source.rules] : []
+        let rules = this.getScopeRules() ? [...this.getScopeRules()] : []
         if (this.state.editIndex === -1) {
             rules.push(rule)
         } else {
             rules.splice(this.state.editIndex, 1, rule)
         }
-        this.props.updateSourceRules(source, rules)
+        this.updateScopeRules(rules)
         this.setState({ editIndex: -1 })
         this.initRuleEdit()
     }
     newRule = () => {
         this.initRuleEdit()
-        this.setState({ editIndex: this.getSourceRules().length })
+        this.setState({ editIndex: (this.getScopeRules() || []).length })
     }
     editRule = (rule: SourceRule, index: number) => {
         this.initRuleEdit(rule)
         this.setState({ editIndex: index })
     }
     deleteRules = () => {
-        let rules = this.getSourceRules()
+        let rules = [...this.getScopeRules()]
         for (let i of this.state.selectedRules) rules[i] = null
-        let source = this.props.sources[parseInt(this.state.sid)]
-        this.props.updateSourceRules(
-            source,
-            rules.filter(r => r !== null)
-        )
+        this.updateScopeRules(rules.filter(r => r !== null))
         this.initRuleEdit()
     }
 
@@ -319,10 +595,19 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
                 text: intl.get("edit"),
                 iconProps: { iconName: "Edit" },
                 onClick: () =>
-                    this.editRule(this.getSourceRules()[index], index),
+                    this.editRule(this.getScopeRules()[index], index),
             })
         }
         if (this.state.selectedRules.length > 0) {
+            items.push({
+                key: "preview",
+                text: intl.get("rules.preview"),
+                iconProps: { iconName: "Preview" },
+                disabled:
+                    this.state.previewLoading ||
+                    this.state.applyProgress !== null,
+                onClick: this.previewSelectedRules,
+            })
             items.push({
                 key: "del",
                 text: intl.get("delete"),
@@ -333,13 +618,101 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         return items
     }
 
+    previewSelectedRules = async () => {
+        const rules = this.getScopeRules()
+        const selected = [...this.state.selectedRules]
+            .sort((a, b) => a - b)
+            .map(i => rules[i])
+        this.setState({ previewLoading: true, preview: null })
+        try {
+            const preview = await previewRules(selected, this.getScopeSids())
+            this.setState({ preview: preview })
+        } finally {
+            this.setState({ previewLoading: false })
+        }
+    }
+
+    applyPreview = async () => {
+        this.setState({ applyProgress: 0 })
+        try {
+            await this.props.applyRulePreview(
+                this.state.preview,
+                (done, total) => this.setState({ applyProgress: done / total })
+            )
+            this.setState({ preview: null })
+        } catch (err) {
+            window.utils.showErrorBox(
+                intl.get("rules.applyError"),
+                String(err),
+                intl.get("context.copy")
+            )
+        } finally {
+            this.setState({ applyProgress: null })
+        }
+    }
+
+    describeChange = (change: ItemChange) => {
+        const result = []
+        if (change.hasRead !== undefined)
+            result.push(
+                intl.get(
+                    change.hasRead ? "article.markRead" : "article.markUnread"
+                )
+            )
+        if (change.starred !== undefined)
+            result.push(
+                intl.get(change.starred ? "article.star" : "article.unstar")
+            )
+        if (change.hidden !== undefined)
+            result.push(
+                intl.get(change.hidden ? "article.hide" : "article.unhide")
+            )
+        if (change.openTarget !== undefined)
+            result.push(
+                `${intl.get("rules.setOpenTarget")} (${intl.get(
+                    openTargetKeyMap[change.openTarget]
+                )})`
+            )
+        for (let tag of change.addTags || [])
+            result.push(`${intl.get("rules.addTag")} "${tag}"`)
+        return result.join(", ")
+    }
+
+    previewColumns = (): IColumn[] => [
+        {
+            isRowHeader: true,
+            key: "title",
+            name: intl.get("rules.title"),
+            minWidth: 160,
+            maxWidth: 280,
+            onRender: (entry: RulePreviewEntry) => entry.item.title,
+        },
+        {
+            key: "source",
+            name: intl.get("rules.source"),
+            minWidth: 80,
+            maxWidth: 140,
+            onRender: (entry: RulePreviewEntry) =>
+                this.props.sources[entry.item.source]?.name,
+        },
+        {
+            key: "change",
+            name: intl.get("rules.action"),
+            minWidth: 100,
+            onRender: (entry: RulePreviewEntry) =>
+                this.describeChange(entry.change),
+        },
+    ]
+
     testMockItem = () => {
         let parsed = { title: this.state.mockTitle }
-        let source = this.props.sources[parseInt(this.state.sid)]
+        let [type, id] = this.state.scope.split("-")
+        let source =
+            type === "s" ? this.props.sources[parseInt(id)] : new RSSSource("")
         let item = new RSSItem(parsed as MyParserItem, source)
         item.snippet = this.state.mockContent
         item.creator = this.state.mockCreator
-        SourceRule.applyAll(this.getSourceRules(), item)
+        SourceRule.applyAll(this.getEffectiveRules(), item)
         let result = []
         result.push(
             intl.get(item.hasRead ? "article.markRead" : "article.markUnread")
@@ -347,6 +720,28 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         if (item.starred) result.push(intl.get("article.star"))
         if (item.hidden) result.push(intl.get("article.hide"))
         if (item.notify) result.push(intl.get("article.notify"))
+        for (let tag of item.tags || [])
+            result.push(`${intl.get("rules.addTag")} "${tag}"`)
+        if (item.openTarget !== undefined)
+            result.push(
+                `${intl.get("rules.setOpenTarget")} (${intl.get(
+                    openTargetKeyMap[item.openTarget]
+                )})`
+            )
+        for (let effect of item.ruleEffects || []) {
+            if (effect.type === ItemAction.Forward) {
+                const peer = this.state.peers.find(
+                    p => p.peerId === effect.peerId
+                )
+                result.push(
+                    `${intl.get("rules.forwardToPeer")} (${
+                        peer ? peer.peerName : effect.peerId
+                    })`
+                )
+            } else {
+                result.push(`${intl.get("rules.postWebhook")} (${effect.url})`)
+            }
+        }
         this.setState({ mockResult: result.join(", ") })
     }
 
@@ -373,66 +768,91 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
         <div className="tab-body">
             <Stack horizontal tokens={{ childrenGap: 16 }}>
                 <Stack.Item>
-                    <Label>{intl.get("rules.source")}</Label>
+                    <Label>{intl.get("rules.scope")}</Label>
                 </Stack.Item>
                 <Stack.Item grow>
                     <Dropdown
-                        placeholder={intl.get("rules.selectSource")}
-                        options={this.sourceOptions()}
+                        placeholder={intl.get("rules.selectScope")}
+                        options={this.scopeOptions()}
                         onRenderOption={this.onRenderSourceOption}
                         onRenderTitle={this.onRenderSourceTitle}
-                        selectedKey={this.state.sid}
+                        selectedKey={this.state.scope}
                         onChange={this.onSourceOptionChange}
                     />
                 </Stack.Item>
             </Stack>
+            {this.state.scope && (
+                <span className="settings-hint up">
+                    {intl.get("rules.precedence")}
+                </span>
+            )}
 
-            {this.state.sid ? (
+            {this.state.scope ? (
                 this.state.editIndex > -1 ||
-                !this.getSourceRules() ||
-                this.getSourceRules().length === 0 ? (
+                !this.getScopeRules() ||
+                this.getScopeRules().length === 0 ? (
                     <>
                         <Label>
                             {intl.get(
                                 this.state.editIndex >= 0 &&
                                     this.state.editIndex <
-                                        this.getSourceRules().length
+                                        this.getScopeRules().length
                                     ? "edit"
                                     : "rules.new"
                             )}
                         </Label>
-                        <Stack horizontal>
-                            <Stack.Item>
+                        <Toggle
+                            label={intl.get("rules.compound")}
+                            inlineLabel
+                            checked={this.state.condition !== null}
+                            onChange={this.toggleCondition}
+                        />
+                        {this.state.condition ? (
+                            <>
                                 <Label>{intl.get("rules.if")}</Label>
-                            </Stack.Item>
-                            <Stack.Item>
-                                <Dropdown
-                                    options={this.searchOptions()}
-                                    selectedKey={this.state.searchType}
-                                    onChange={this.onSearchOptionChange}
-                                    style={{ width: 140 }}
-                                />
-                            </Stack.Item>
-                            <Stack.Item>
-                                <Dropdown
-                                    options={this.matchOptions()}
-                                    selectedKey={this.state.match ? 1 : 0}
-                                    onChange={this.onMatchOptionChange}
-                                    style={{ width: 130 }}
-                                />
-                            </Stack.Item>
-                            <Stack.Item grow>
-                                <TextField
-                                    name="regex"
-                                    placeholder={intl.get("rules.regex")}
-                                    iconProps={this.regexCaseIconProps()}
-                                    value={this.state.regex}
-                                    onGetErrorMessage={this.validateRegexField}
-                                    validateOnLoad={false}
-                                    onChange={this.handleInputChange}
+                                <RuleConditionEditor
+                                    condition={this.state.condition}
+                                    onChange={condition =>
+                                        this.setState({ condition: condition })
+                                    }
                                 />
-                            </Stack.Item>
-                        </Stack>
+                            </>
+                        ) : (
+                            <Stack horizontal>
+                                <Stack.Item>
+                                    <Label>{intl.get("rules.if")}</Label>
+                                </Stack.Item>
+                                <Stack.Item>
+                                    <Dropdown
+                                        options={this.searchOptions()}
+                                        selectedKey={this.state.searchType}
+                                        onChange={this.onSearchOptionChange}
+                                        style={{ width: 140 }}
+                                    />
+                                </Stack.Item>
+                                <Stack.Item>
+                                    <Dropdown
+                                        options={this.matchOptions()}
+                                        selectedKey={this.state.match ? 1 : 0}
+                                        onChange={this.onMatchOptionChange}
+                                        style={{ width: 130 }}
+                                    />
+                                </Stack.Item>
+                                <Stack.Item grow>
+                                    <TextField
+                                        name="regex"
+                                        placeholder={intl.get("rules.regex")}
+                                        iconProps={this.regexCaseIconProps()}
+                                        value={this.state.regex}
+                                        onGetErrorMessage={
+                                            this.validateRegexField
+                                        }
+                                        validateOnLoad={false}
+                                        onChange={this.handleInputChange}
+                                    />
+                                </Stack.Item>
+                            </Stack>
+                        )}
                         <Stack horizontal>
                             <Stack.Item>
                                 <Label>{intl.get("rules.then")}</Label>
@@ -450,14 +870,101 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
                                 />
                             </Stack.Item>
                         </Stack>
+                        {this.hasAction(ItemAction.Tag) && (
+                            <Stack horizontal>
+                                <Stack.Item>
+                                    <Label>{intl.get("rules.addTag")}</Label>
+                                </Stack.Item>
+                                <Stack.Item grow>
+                                    <TextField
+                                        placeholder={intl.get("rules.tagName")}
+                                        value={this.state.params.tag || ""}
+                                        onChange={(_, v) =>
+                                            this.setParams({ tag: v })
+                                        }
+                                    />
+                                </Stack.Item>
+                            </Stack>
+                        )}
+                        {this.hasAction(ItemAction.OpenTarget) && (
+                            <Stack horizontal>
+                                <Stack.Item>
+                                    <Label>
+                                        {intl.get("rules.setOpenTarget")}
+                                    </Label>
+                                </Stack.Item>
+                                <Stack.Item grow>
+                                    <Dropdown
+                                        placeholder={intl.get(
+                                            "sources.openTarget"
+                                        )}
+                                        options={this.openTargetOptions()}
+                                        selectedKey={
+                                            this.state.params.openTarget ?? null
+                                        }
+                                        onChange={(_, item) =>
+                                            this.setParams({
+                                                openTarget:
+                                                    item.key as SourceOpenTarget,
+                                            })
+                                        }
+                                    />
+                                </Stack.Item>
+                            </Stack>
+                        )}
+                        {this.hasAction(ItemAction.Forward) && (
+                            <Stack horizontal>
+                                <Stack.Item>
+                                    <Label>
+                                        {intl.get("rules.forwardToPeer")}
+                                    </Label>
+                                </Stack.Item>
+                                <Stack.Item grow>
+                                    <Dropdown
+                                        placeholder={intl.get(
+                                            this.state.peers.length > 0
+                                                ? "rules.selectPeer"
+                                                : "rules.noPeers"
+                                        )}
+                                        disabled={this.state.peers.length === 0}
+                                        options={this.peerOptions()}
+                                        selectedKey={
+                                            this.state.params.peerId || null
+                                        }
+                                        onChange={this.onPeerOptionChange}
+                                    />
+                                </Stack.Item>
+                            </Stack>
+                        )}
+                        {this.hasAction(ItemAction.Webhook) && (
+                            <Stack horizontal>
+                                <Stack.Item>
+                                    <Label>
+                                        {intl.get("rules.postWebhook")}
+                                    </Label>
+                                </Stack.Item>
+                                <Stack.Item grow>
+                                    <TextField
+                                        placeholder="https://"
+                                        value={this.state.params.webhook || ""}
+                                        onGetErrorMessage={
+                                            this.validateWebhookField
+                                        }
+                                        validateOnLoad={false}
+                                        onChange={(_, v) =>
+                                            this.setParams({ webhook: v })
+                                        }
+                                    />
+                                </Stack.Item>
+                            </Stack>
+                        )}
                         <Stack horizontal>
                             <Stack.Item>
                                 <PrimaryButton
                                     disabled={
-                                        this.state.regex.length == 0 ||
-                                        validateRegex(this.state.regex) ===
-                                            null ||
-                                        this.state.actionKeys.length == 0
+                                        !this.isConditionValid() ||
+                                        this.state.actionKeys.length == 0 ||
+                                        this.missingParams()
                                     }
                                     text={intl.get("confirm")}
                                     onClick={this.saveRule}
@@ -487,7 +994,7 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
                             <DetailsList
                                 compact
                                 columns={this.ruleColumns()}
-                                items={this.getSourceRules()}
+                                items={this.getScopeRules()}
                                 onItemInvoked={this.editRule}
                                 dragDropEvents={this.rulesDragDropEvents}
                                 setKey="selected"
@@ -499,6 +1006,78 @@ class RulesTab extends React.Component<RulesTabProps, RulesTabState> {
                             {intl.get("rules.hint")}
                         </span>
 
+                        {this.state.previewLoading && (
+                            <ProgressIndicator
+                                label={intl.get("rules.previewLoading")}
+                            />
+                        )}
+                        {this.state.preview && (
+                            <>
+                                <Label>
+                                    {intl.get("rules.previewCount", {
+                                        count: this.state.preview.length,
+                                    })}
+                                </Label>
+                                {this.state.preview.length > 0 && (
+                                    <div
+                                        style={{
+                                            maxHeight: 240,
+                                            overflowY: "auto",
+                                            position: "relative",
+                                        }}
+                                        data-is-scrollable>
+                                        <DetailsList
+                                            compact
+                                            columns={this.previewColumns()}
+                                            items={this.state.preview}
+                                            selectionMode={SelectionMode.none}
+                                        />
+                                    </div>
+                                )}
+                                {this.state.applyProgress !== null && (
+                                    <ProgressIndicator
+                                        label={intl.get("rules.applying")}
+                                        percentComplete={
+                                            this.state.applyProgress
+                                        }
+                                    />
+                                )}
+                                <span className="settings-hint up">
+                                    {intl.get("rules.previewHint")}
+                                </span>
+                                <Stack horizontal>
+                                    <Stack.Item>
+                                        <PrimaryButton
+                                            disabled={
+                                                this.state.preview.length ===
+                                                    0 ||
+                                                this.state.applyProgress !==
+                                                    null
+                                            }
+                                            text={intl.get(
+                                                "rules.applyExisting"
+                                            )}
+                                            onClick={this.applyPreview}
+                                        />
+                                    </Stack.Item>
+                                    <Stack.Item>
+                                        <DefaultButton
+                                            disabled={
+                                                this.state.applyProgress !==
+                                                null
+                                            }
+                                            text={intl.get("cancel")}
+                                            onClick={() =>
+                                                this.setState({
+                                                    preview: null,
+                                                })
+                                            }
+                                        />
+                                    </Stack.Item>
+                                </Stack>
+                            </>
+                        )}
+
                         <Label>{intl.get("rules.test")}</Label>
                         <Stack horizontal>
                             <Stack.Item grow>
@@ -0,0 +1,166 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import { Stack, Label, Toggle, TextField, DefaultButton } from "@fluentui/react"
+import DangerButton from "../utils/danger-button"
+import type { GReaderServerStatus } from "../../bridges/greader-server"
+
+type ServerModeState = {
+    status: GReaderServerStatus
+    address: string
+    port: string
+}
+
+const ADDRESS_REGEX = /^(\d{1,3}(\.\d{1,3}){3}|[0-9a-f:]*:[0-9a-f:]*)$/i
+
+// Settings of the Google Reader API server other clients sync with
+class ServerMode extends React.Component<{}, ServerModeState> {
+    constructor(props) {
+        super(props)
+        this.state = {
+            status: null,
+            address: "",
+            port: "",
+        }
+    }
+
+    componentDidMount() {
+        window.greaderServer.getStatus().then(this.setStatus)
+    }
+
+    setStatus = (status: GReaderServerStatus) => {
+        this.setState({
+            status: status,
+            address: status.address,
+            port: String(status.port),
+        })
+    }
+
+    handleInputChange = event => {
+        const name: string = event.target.name
+        // @ts-expect-error
+        this.setState({ [name]: event.target.value })
+    }
+
+    validatePort = (v: string) => {
+        const port = Number(v)
+        return Number.isInteger(port) && port > 0 && port < 65536
+    }
+
+    validateForm = () =>
+        ADDRESS_REGEX.test(this.state.address.trim()) &&
+        this.validatePort(this.state.port)
+
+    toggleEnabled = (_, checked: boolean) => {
+        window.greaderServer.setEnabled(checked).then(this.setStatus)
+    }
+
+    setAddress = (event: React.FormEvent) => {
+        event.preventDefault()
+        if (!this.validateForm()) return
+        window.greaderServer
+            .setAddress(this.state.address.trim(), Number(this.state.port))
+            .then(this.setStatus)
+    }
+
+    resetToken = () => {
+        window.greaderServer.resetToken().then(this.setStatus)
+    }
+
+    statusHint = () => {
+        const status = this.state.status
+        if (status.error) {
+            return intl.get("service.serverError", { error: status.error })
+        } else if (status.listening) {
+            return intl.get("service.serverListening", {
+                urls: status.urls.join(", "),
+            })
+        } else {
+            return intl.get("service.serverModeHint")
+        }
+    }
+
+    render = () =>
+        this.state.status && (
+            <>
+                <Stack horizontal verticalAlign="baseline">
+                    <Stack.Item grow>
+                        <Label>{intl.get("service.serverMode")}</Label>
+                    </Stack.Item>
+                    <Stack.Item>
+                        <Toggle
+                            checked={this.state.status.enabled}
+                            onChange={this.toggleEnabled}
+                        />
+                    </Stack.Item>
+                </Stack>
+                <span className="settings-hint up">{this.statusHint()}</span>
+                {this.state.status.enabled && (
+                    <>
+                        <form onSubmit={this.setAddress}>
+                            <Stack horizontal>
+                                <Stack.Item grow>
+                                    <TextField
+                                        label={intl.get("service.bindAddress")}
+                                        onGetErrorMessage={v =>
+                                            ADDRESS_REGEX.test(v.trim())
+                                                ? ""
+                                                : intl.get("service.badAddress")
+                                        }
+                                        validateOnLoad={false}
+                                        name="address"
+                                        value={this.state.address}
+                                        onChange={this.handleInputChange}
+                                    />
+                                </Stack.Item>
+                                <Stack.Item>
+                                    <TextField
+                                        label={intl.get("service.port")}
+                                        onGetErrorMessage={v =>
+                                            this.validatePort(v)
+                                                ? ""
+                                                : intl.get("service.badAddress")
+                                        }
+                                        validateOnLoad={false}
+                                        name="port"
+                                        value={this.state.port}
+                                        onChange={this.handleInputChange}
+                                        style={{ width: 80 }}
+                                    />
+                                </Stack.Item>
+                                <Stack.Item align="end">
+                                    <DefaultButton
+                                        disabled={!this.validateForm()}
+                                        type="submit"
+                                        text={intl.get("edit")}
+                                    />
+                                </Stack.Item>
+                            </Stack>
+                        </form>
+                        <span className="settings-hint up">
+                            {intl.get("service.bindAddressHint")}
+                        </span>
+                        <Stack horizontal>
+                            <Stack.Item grow>
+                                <TextField
+                                    label={intl.get("service.token")}
+                                    readOnly
+                                    value={this.state.status.token}
+                                />
+                            </Stack.Item>
+                            <Stack.Item align="end">
+                                <DangerButton
+                                    text={intl.get("service.resetToken")}
+                                    onClick={this.resetToken}
+                                />
+                            </Stack.Item>
+                        </Stack>
+                        <span className="settings-hint up">
+                            {intl.get("service.tokenHint")}
+                        </span>
+                    </>
+                )}
+            </>
+        )
+}
+
+export default ServerMode
@@ -1,30 +1,51 @@
 import * as React from "react"
 import intl from "react-intl-universal"
 import { ServiceConfigs, SyncService } from "../../schema-types"
-import { Stack, Icon, Link, Dropdown, IDropdownOption } from "@fluentui/react"
+import {
+    Stack,
+    Icon,
+    Link,
+    Dropdown,
+    IDropdownOption,
+    DefaultButton,
+} from "@fluentui/react"
+import {
+    getServiceAccountName,
+    newServiceAccountId,
+} from "../../scripts/models/service"
 import FeverConfigsTab from "./services/fever"
 import FeedbinConfigsTab from "./services/feedbin"
 import GReaderConfigsTab from "./services/greader"
 import InoreaderConfigsTab from "./services/inoreader"
 import MinifluxConfigsTab from "./services/miniflux"
 import NextcloudConfigsTab from "./services/nextcloud"
+import TtrssConfigsTab from "./services/ttrss"
+import ServerMode from "./server-mode"
 
 type ServiceTabProps = {
-    configs: ServiceConfigs
+    accounts: ServiceConfigs[]
     save: (configs: ServiceConfigs) => void
-    sync: () => Promise<void>
-    remove: () => Promise<void>
+    sync: (id: string) => Promise<void>
+    remove: (id: string) => Promise<void>
     blockActions: () => void
     authenticate: (configs: ServiceConfigs) => Promise<boolean>
     reauthenticate: (configs: ServiceConfigs) => Promise<ServiceConfigs>
 }
 
-export type ServiceConfigsTabProps = ServiceTabProps & {
+// Props of the tab editing a single account
+export type ServiceConfigsTabProps = Omit<
+    ServiceTabProps,
+    "accounts" | "sync" | "remove"
+> & {
+    configs: ServiceConfigs // Of type None for a new account
+    sync: () => Promise<void>
+    remove: () => Promise<void>
     exit: () => void
 }
 
 type ServiceTabState = {
     type: SyncService
+    id: string // Account being edited
 }
 
 export class ServiceTab extends React.Component<
@@ -34,7 +55,8 @@ export class ServiceTab extends React.Component<
     constructor(props: ServiceTabProps) {
         super(props)
         this.state = {
-            type: props.configs.type,
+            type: SyncService.None,
+            id: null,
         }
     }
 
@@ -45,6 +67,7 @@ export class ServiceTab extends React.Component<
         { key: SyncService.Inoreader, text: "Inoreader" },
         { key: SyncService.Miniflux, text: "Miniflux" },
         { key: SyncService.Nextcloud, text: "Nextcloud News API" },
+        { key: SyncService.TTRSS, text: "Tiny Tiny RSS" },
         { key: -1, text: intl.get("service.suggest") },
     ]
 
@@ -54,58 +77,50 @@ export class ServiceTab extends React.Component<
                 "https://github.com/yang991178/fluent-reader/issues/23"
             )
         } else {
-            this.setState({ type: option.key as number })
+            this.setState({
+                type: option.key as number,
+                id: newServiceAccountId(),
+            })
         }
     }
 
+    editAccount = (configs: ServiceConfigs) => {
+        this.setState({ type: configs.type, id: configs.id })
+    }
+
     exitConfigsTab = () => {
-        this.setState({ type: SyncService.None })
+        this.setState({ type: SyncService.None, id: null })
     }
 
     getConfigsTab = () => {
+        const id = this.state.id
+        const props: ServiceConfigsTabProps = {
+            configs: this.props.accounts.find(configs => configs.id === id) ?? {
+                type: SyncService.None,
+            },
+            save: configs => this.props.save({ ...configs, id: id }),
+            sync: () => this.props.sync(id),
+            remove: () => this.props.remove(id),
+            blockActions: this.props.blockActions,
+            authenticate: this.props.authenticate,
+            reauthenticate: this.props.reauthenticate,
+            exit: this.exitConfigsTab,
+        }
         switch (this.state.type) {
             case SyncService.Fever:
-                return (
-                    <FeverConfigsTab
-                        {...this.props}
-                        exit={this.exitConfigsTab}
-                    />
-                )
+                return <FeverConfigsTab {...props} />
             case SyncService.Feedbin:
-                return (
-                    <FeedbinConfigsTab
-                        {...this.props}
-                        exit={this.exitConfigsTab}
-                    />
-                )
+                return <FeedbinConfigsTab {...props} />
             case SyncService.GReader:
-                return (
-                    <GReaderConfigsTab
-                        {...this.props}
-                        exit={this.exitConfigsTab}
-                    />
-                )
+                return <GReaderConfigsTab {...props} />
             case SyncService.Inoreader:
-                return (
-                    <InoreaderConfigsTab
-                        {...this.props}
-                        exit={this.exitConfigsTab}
-                    />
-                )
+                return <InoreaderConfigsTab {...props} />
             case SyncService.Miniflux:
-                return (
-                    <MinifluxConfigsTab
-                        {...this.props}
-                        exit={this.exitConfigsTab}
-                    />
-                )
+                return <MinifluxConfigsTab {...props} />
             case SyncService.Nextcloud:
-                return (
-                    <NextcloudConfigsTab
-                        {...this.props}
-                        exit={this.exitConfigsTab}
-                    />
-                )
+                return <NextcloudConfigsTab {...props} />
+            case SyncService.TTRSS:
+                return <TtrssConfigsTab {...props} />
             default:
                 return null
         }
@@ -135,13 +150,50 @@ export class ServiceTab extends React.Component<
                             {intl.get("rules.help")}
                         </Link>
                     </span>
+                    {this.props.accounts.length > 0 && (
+                        <Stack
+                            style={{ marginTop: 32, width: 400 }}
+                            tokens={{ childrenGap: 8 }}>
+                            {this.props.accounts.map(configs => (
+                                <Stack
+                                    key={configs.id}
+                                    horizontal
+                                    verticalAlign="center"
+                                    tokens={{ childrenGap: 8 }}>
+                                    <Icon iconName="Cloud" />
+                                    <Stack.Item grow>
+                                        {getServiceAccountName(configs)}
+                                    </Stack.Item>
+                                    <DefaultButton
+                                        text={intl.get("service.sync")}
+                                        onClick={() =>
+                                            this.props.sync(configs.id)
+                                        }
+                                    />
+                                    <DefaultButton
+                                        text={intl.get("edit")}
+                                        onClick={() =>
+                                            this.editAccount(configs)
+                                        }
+                                    />
+                                </Stack>
+                            ))}
+                        </Stack>
+                    )}
                     <Dropdown
-                        placeHolder={intl.get("service.select")}
+                        placeHolder={
+                            this.props.accounts.length > 0
+                                ? intl.get("service.addAccount")
+                                : intl.get("service.select")
+                        }
                         options={this.serviceOptions()}
                         selectedKey={null}
                         onChange={this.onServiceOptionChange}
                         style={{ marginTop: 32, width: 180 }}
                     />
+                    <Stack.Item style={{ marginTop: 48, width: 400 }}>
+                        <ServerMode />
+                    </Stack.Item>
                 </Stack>
             ) : (
                 this.getConfigsTab()
@@ -0,0 +1,293 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    Stack,
+    Label,
+    TextField,
+    Dropdown,
+    IDropdownOption,
+    PrimaryButton,
+    DefaultButton,
+    MessageBar,
+    MessageBarType,
+} from "@fluentui/react"
+import { urlTest } from "../../scripts/utils"
+import DangerButton from "../utils/danger-button"
+import type { SiteRuleFile, SiteRuleTestResult } from "../../bridges/site-rules"
+
+const RULE_TEMPLATE = `{
+    "domains": ["example.com"],
+    "content": ["article"],
+    "strip": [".newsletter", "aside"],
+    "title": "h1",
+    "date": "time[datetime]",
+    "nextPage": "a[rel=next]",
+    "lazyImages": { "data-src": "src" }
+}
+`
+
+type SiteRulesTabState = {
+    files: SiteRuleFile[]
+    selected: string // File name, empty for a new file
+    editing: boolean
+    name: string
+    source: string
+    error: string
+    saved: boolean
+    testUrl: string
+    testing: boolean
+    testResult: SiteRuleTestResult
+}
+
+class SiteRulesTab extends React.Component<{}, SiteRulesTabState> {
+    constructor(props) {
+        super(props)
+        this.state = {
+            files: [],
+            selected: "",
+            editing: false,
+            name: "",
+            source: "",
+            error: null,
+            saved: false,
+            testUrl: "",
+            testing: false,
+            testResult: null,
+        }
+    }
+
+    componentDidMount = () => {
+        this.loadFiles()
+    }
+
+    loadFiles = async (selected?: string) => {
+        const files = await window.siteRules.list()
+        this.setState({ files })
+        const file = files.find(f => f.name === selected) || files[0]
+        if (file) this.selectFile(file)
+        else this.setState({ editing: false })
+    }
+
+    selectFile = (file: SiteRuleFile) => {
+        this.setState({
+            selected: file.name,
+            editing: true,
+            name: file.name,
+            source: file.source,
+            error: file.error || null,
+            saved: false,
+            testResult: null,
+        })
+    }
+
+    fileOptions = (): IDropdownOption[] =>
+        this.state.files.map(f => ({ key: f.name, text: f.name }))
+    onFileChange = (_, option: IDropdownOption) => {
+        const file = this.state.files.find(f => f.name === option.key)
+        if (file) this.selectFile(file)
+    }
+
+    newFile = () => {
+        this.setState({
+            selected: "",
+            editing: true,
+            name: "",
+            source: RULE_TEMPLATE,
+            error: null,
+            saved: false,
+            testResult: null,
+        })
+    }
+
+    saveFile = async () => {
+        const result = await window.siteRules.save(
+            this.state.name,
+            this.state.source
+        )
+        if (result.error) {
+            this.setState({ error: result.error, saved: false })
+        } else {
+            await this.loadFiles(result.name)
+            this.setState({ saved: true })
+        }
+    }
+
+    deleteFile = async () => {
+        await window.siteRules.remove(this.state.selected)
+        await this.loadFiles()
+    }
+
+    testRule = async () => {
+        this.setState({ testing: true, testResult: null })
+        const testResult = await window.siteRules.test(
+            this.state.source,
+            this.state.testUrl.trim(),
+            this.state.name
+        )
+        this.setState({ testing: false, testResult })
+    }
+
+    previewDocument = (result: SiteRuleTestResult) =>
+        `<!DOCTYPE html><html><head><base href="${this.state.testUrl
+            .trim()
+            .replace(/"/g, "&quot;")}">` +
+        `<style>body{font-family:sans-serif;font-size:14px;margin:12px}` +
+        `img,video,iframe{max-width:100%;height:auto}</style></head>` +
+        `<body>${result.content || ""}</body></html>`
+
+    renderTestResult = () => {
+        const result = this.state.testResult
+        if (!result) return null
+        if (result.error || result.noMatch) {
+            return (
+                <MessageBar
+                    style={{ marginTop: 8 }}
+                    messageBarType={MessageBarType.error}
+                >
+                    {result.error || intl.get("siteRules.noMatch")}
+                </MessageBar>
+            )
+        }
+        return (
+            <>
+                <span className="settings-hint up">
+                    {intl.get("siteRules.previewTitle", {
+                        title: result.title || "-",
+                    })}
+                    <br />
+                    {intl.get("siteRules.previewDate", {
+                        date: result.published
+                            ? new Date(result.published).toLocaleString()
+                            : "-",
+                    })}
+                    <br />
+                    {intl.get("siteRules.previewNextPage", {
+                        url: result.nextPage || "-",
+                    })}
+                </span>
+                <iframe
+                    sandbox=""
+                    srcDoc={this.previewDocument(result)}
+                    title={intl.get("siteRules.preview")}
+                    style={{
+                        width: "100%",
+                        height: 320,
+                        marginTop: 8,
+                        border: "1px solid var(--neutralQuaternaryAlt)",
+                        background: "#fff",
+                    }}
+                />
+            </>
+        )
+    }
+
+    render = () => (
+        <div className="tab-body">
+            <Label>{intl.get("siteRules.files")}</Label>
+            <Stack horizontal tokens={{ childrenGap: 8 }}>
+                <Stack.Item>
+                    <Dropdown
+                        placeholder={intl.get("siteRules.noFiles")}
+                        options={this.fileOptions()}
+                        selectedKey={this.state.selected || null}
+                        onChange={this.onFileChange}
+                        style={{ width: 200 }}
+                    />
+                </Stack.Item>
+                <Stack.Item>
+                    <DefaultButton
+                        text={intl.get("siteRules.new")}
+                        onClick={this.newFile}
+                    />
+                </Stack.Item>
+                <Stack.Item>
+                    <DangerButton
+                        text={intl.get("siteRules.delete")}
+                        disabled={!this.state.selected}
+                        onClick={this.deleteFile}
+                    />
+                </Stack.Item>
+                <Stack.Item>
+                    <DefaultButton
+                        text={intl.get("siteRules.openFolder")}
+                        onClick={() => window.siteRules.openFolder()}
+                    />
+                </Stack.Item>
+            </Stack>
+            <span className="settings-hint up">
+                {intl.get("siteRules.hint")}
+            </span>
+
+            {this.state.editing && (
+                <>
+                    <TextField
+                        label={intl.get("siteRules.fileName")}
+                        placeholder="example.com.json"
+                        disabled={!!this.state.selected}
+                        value={this.state.name}
+                        onChange={(_, name) =>
+                            this.setState({ name, saved: false })
+                        }
+                    />
+                    <TextField
+                        label={intl.get("siteRules.rule")}
+                        multiline
+                        rows={14}
+                        spellCheck={false}
+                        value={this.state.source}
+                        errorMessage={this.state.error}
+                        styles={{ field: { fontFamily: "monospace" } }}
+                        onChange={(_, source) =>
+                            this.setState({
+                                source,
+                                error: null,
+                                saved: false,
+                                testResult: null,
+                            })
+                        }
+                    />
+                    <Stack horizontal style={{ marginTop: 12 }}>
+                        <Stack.Item>
+                            <PrimaryButton
+                                disabled={!this.state.name.trim()}
+                                text={intl.get("siteRules.save")}
+                                onClick={this.saveFile}
+                            />
+                        </Stack.Item>
+                    </Stack>
+                    {this.state.saved && (
+                        <span className="settings-hint up">
+                            {intl.get("siteRules.saved")}
+                        </span>
+                    )}
+
+                    <Label>{intl.get("siteRules.test")}</Label>
+                    <Stack horizontal tokens={{ childrenGap: 8 }}>
+                        <Stack.Item grow>
+                            <TextField
+                                placeholder={intl.get("siteRules.testUrl")}
+                                value={this.state.testUrl}
+                                onChange={(_, testUrl) =>
+                                    this.setState({ testUrl })
+                                }
+                            />
+                        </Stack.Item>
+                        <Stack.Item>
+                            <DefaultButton
+                                disabled={
+                                    this.state.testing ||
+                                    !urlTest(this.state.testUrl.trim())
+                                }
+                                text={intl.get("siteRules.runTest")}
+                                onClick={this.testRule}
+                            />
+                        </Stack.Item>
+                    </Stack>
+                    {this.renderTestResult()}
+                </>
+            )}
+        </div>
+    )
+}
+
+export default SiteRulesTab
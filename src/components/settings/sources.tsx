@@ -17,14 +17,21 @@ import {
     MessageBar,
     MessageBarType,
     Toggle,
+    Icon,
+    TooltipHost,
 } from "@fluentui/react"
 import {
     SourceState,
     RSSSource,
     SourceOpenTarget,
+    getFetchStates,
 } from "../../scripts/models/source"
 import { urlTest } from "../../scripts/utils"
+import { ServiceConfigs } from "../../schema-types"
+import { getServiceAccountName } from "../../scripts/models/service"
 import DangerButton from "../utils/danger-button"
+import type { FetchStates } from "../../scripts/models/schedule"
+import { SourceFetchStateRow } from "../../bridges/db"
 
 // P2P shared feeds have serviceRef but should be treated as local feeds
 const P2P_SHARED_SERVICE_REF = "p2p-shared"
@@ -32,12 +39,20 @@ const isExternalService = (source: RSSSource): boolean => {
     return !!source.serviceRef && source.serviceRef !== P2P_SHARED_SERVICE_REF
 }
 
+const formatMinutes = (minutes: number) =>
+    minutes < 60
+        ? intl.get("time.minute", { m: Math.round(minutes) })
+        : minutes < 1440
+        ? intl.get("time.hour", { h: Math.round(minutes / 60) })
+        : intl.get("time.day", { d: Math.round(minutes / 1440) })
+
 type SourcesTabProps = {
     sources: SourceState
     serviceOn: boolean
     sids: number[]
+    accounts: ServiceConfigs[] // Accounts whose subscriptions can be edited
     acknowledgeSIDs: () => void
-    addSource: (url: string) => Promise<number>
+    addSource: (url: string, account?: string) => Promise<void>
     updateSourceName: (source: RSSSource, name: string) => void
     updateSourceIcon: (source: RSSSource, iconUrl: string) => Promise<void>
     updateSourceOpenTarget: (
@@ -54,6 +69,7 @@ type SourcesTabProps = {
     updateSourceDefaultZoom: (source: RSSSource, defaultZoom: number) => void
     updateSourcePersistCookies: (source: RSSSource, persistCookies: boolean) => void
     updateSourceTranslateTo: (source: RSSSource, translateTo: string | undefined) => void
+    updateSourceArchiveOffline: (source: RSSSource, archiveOffline: boolean) => void
 }
 
 type SourcesTabState = {
@@ -62,6 +78,7 @@ type SourcesTabState = {
     selectedSource: RSSSource
     selectedSources: RSSSource[]
     supportedLanguages: Record<string, string> | null
+    fetchStates: FetchStates | null
 }
 
 const enum EditDropdownKeys {
@@ -77,10 +94,12 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         super(props)
         this.state = {
             newUrl: "",
+            newSourceAccount: "",
             newSourceName: "",
             selectedSource: null,
             selectedSources: null,
             supportedLanguages: null,
+            fetchStates: null,
         }
         this.selection = new Selection({
             getKey: s => (s as RSSSource).sid,
@@ -113,6 +132,104 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                 this.setState({ supportedLanguages: langs })
             }
         })
+        this.loadFetchStates()
+    }
+
+    componentDidUpdate = (prevProps: SourcesTabProps) => {
+        // Source objects are replaced after every fetch
+        if (prevProps.sources !== this.props.sources) this.loadFetchStates()
+    }
+
+    loadFetchStates = async () => {
+        this.setState({ fetchStates: await getFetchStates() })
+    }
+
+    describeFetchState = (state: SourceFetchStateRow) => {
+        const lines = [
+            intl.get("sources.lastSuccess", {
+                time: state.lastSuccess
+                    ? new Date(state.lastSuccess).toLocaleString()
+                    : intl.get("sources.never"),
+            }),
+            intl.get("sources.failures", { count: state.consecutiveFailures }),
+        ]
+        if (state.avgLatency !== null)
+            lines.push(
+                intl.get("sources.avgLatency", {
+                    ms: Math.round(state.avgLatency),
+                })
+            )
+        if (state.consecutiveFailures > 0 && state.lastError)
+            lines.push(intl.get("sources.lastError", { error: state.lastError }))
+        if (state.cadence !== null)
+            lines.push(
+                intl.get("sources.cadence", {
+                    interval: formatMinutes(state.cadence),
+                })
+            )
+        if (state.feedTtl !== null)
+            lines.push(
+                intl.get("sources.feedTtl", {
+                    interval: formatMinutes(state.feedTtl),
+                })
+            )
+        if (state.retryUntil && new Date(state.retryUntil) > new Date())
+            lines.push(
+                intl.get("sources.retryAfter", {
+                    time: new Date(state.retryUntil).toLocaleString(),
+                })
+            )
+        return lines
+    }
+
+    renderNextFetch = (s: RSSSource) => {
+        const nextFetch = this.state.fetchStates?.[s.sid]?.nextFetch
+        if (s.serviceRef || !nextFetch) return null
+        const date = new Date(nextFetch)
+        return date <= new Date()
+            ? intl.get("sources.due")
+            : date.toLocaleString(undefined, {
+                  month: "short",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+              })
+    }
+
+    renderFetchStatus = (s: RSSSource) => {
+        const state = this.state.fetchStates?.[s.sid]
+        if (s.serviceRef || !state) return null
+        let iconName: string, color: string
+        if (state.consecutiveFailures === 0) {
+            iconName = "CompletedSolid"
+            color = "var(--green, #107c10)"
+        } else if (state.lastSuccess) {
+            iconName = "WarningSolid"
+            color = "#d83b01"
+        } else {
+            iconName = "StatusErrorFull"
+            color = "#a80000"
+        }
+        return (
+            <TooltipHost
+                content={this.describeFetchState(state).map((l, i) => (
+                    <div key={i}>{l}</div>
+                ))}>
+                <Icon iconName={iconName} style={{ color: color }} />
+                {state.consecutiveFailures > 0 && (
+                    <span style={{ marginLeft: 4 }}>
+                        {state.consecutiveFailures}
+                    </span>
+                )}
+            </TooltipHost>
+        )
+    }
+
+    resetFetchValidators = async () => {
+        await window.db.fetchState.resetValidators(
+            this.state.selectedSource.sid
+        )
+        this.loadFetchStates()
     }
 
     columns = (): IColumn[] => [
@@ -142,8 +259,41 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
             minWidth: 280,
             data: "string",
         },
+        {
+            key: "status",
+            name: intl.get("sources.status"),
+            minWidth: 48,
+            maxWidth: 64,
+            onRender: this.renderFetchStatus,
+        },
+        {
+            key: "nextFetch",
+            name: intl.get("sources.nextFetch"),
+            minWidth: 100,
+            maxWidth: 120,
+            onRender: this.renderNextFetch,
+        },
+    ]
+
+    accountOptions = (): IDropdownOption[] => [
+        { key: "", text: intl.get("sources.local") },
+        ...this.props.accounts.map(configs => ({
+            key: configs.id,
+            text: getServiceAccountName(configs),
+        })),
     ]
 
+    onAccountChange = (_, option: IDropdownOption) => {
+        this.setState({ newSourceAccount: option.key as string })
+    }
+
+    // Sources of the accounts are deleted on the service as well
+    isDeletable = (source: RSSSource) =>
+        !isExternalService(source) ||
+        this.props.accounts.some(
+            configs => configs.id === source.serviceAccount
+        )
+
     sourceEditOptions = (): IDropdownOption[] => [
         { key: EditDropdownKeys.Name, text: intl.get("name") },
         { key: EditDropdownKeys.Icon, text: intl.get("icon") },
@@ -220,6 +370,17 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         })
     }
 
+    onArchiveOfflineToggle = () => {
+        const newValue = !this.state.selectedSource.archiveOffline
+        this.props.updateSourceArchiveOffline(this.state.selectedSource, newValue)
+        this.setState({
+            selectedSource: {
+                ...this.state.selectedSource,
+                archiveOffline: newValue,
+            } as RSSSource,
+        })
+    }
+
     onTranslateToChange = (_, option: IDropdownOption) => {
         const translateTo = option.key === "" ? undefined : (option.key as string)
         this.props.updateSourceTranslateTo(this.state.selectedSource, translateTo)
@@ -290,9 +451,11 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
         let trimmed = this.state.newUrl.trim()
         if (urlTest(trimmed)) {
             // Errors are already handled in addSource() and displayed to the user
-            this.props.addSource(trimmed).catch(() => {
-                // Error already handled in Redux action - just suppress Promise rejection here
-            })
+            this.props
+                .addSource(trimmed, this.state.newSourceAccount || null)
+                .catch(() => {
+                    // Error already handled in Redux action - just suppress Promise rejection here
+                })
         }
     }
 
@@ -369,6 +532,16 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                             onChange={this.handleInputChange}
                         />
                     </Stack.Item>
+                    {this.props.accounts.length > 0 && (
+                        <Stack.Item>
+                            <Dropdown
+                                options={this.accountOptions()}
+                                selectedKey={this.state.newSourceAccount}
+                                onChange={this.onAccountChange}
+                                style={{ width: 200 }}
+                            />
+                        </Stack.Item>
+                    )}
                     <Stack.Item>
                         <PrimaryButton
                             disabled={!urlTest(this.state.newUrl.trim())}
@@ -393,7 +566,9 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                 <>
                     {isExternalService(this.state.selectedSource) && (
                         <MessageBar messageBarType={MessageBarType.info}>
-                            {intl.get("sources.serviceManaged")}
+                            {this.isDeletable(this.state.selectedSource)
+                                ? intl.get("sources.serviceEdited")
+                                : intl.get("sources.serviceManaged")}
                         </MessageBar>
                     )}
                     <Label>{intl.get("sources.selected")}</Label>
@@ -510,6 +685,44 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                                     />
                                 </Stack.Item>
                             </Stack>
+                            {this.state.fetchStates?.[
+                                this.state.selectedSource.sid
+                            ] && (
+                                <>
+                                    <Label>{intl.get("sources.fetchHealth")}</Label>
+                                    <Stack
+                                        horizontal
+                                        verticalAlign="center"
+                                        tokens={{ childrenGap: 16 }}>
+                                        <Stack.Item grow>
+                                            {this.describeFetchState(
+                                                this.state.fetchStates[
+                                                    this.state.selectedSource.sid
+                                                ]
+                                            ).map((l, i) => (
+                                                <div
+                                                    key={i}
+                                                    className="settings-hint">
+                                                    {l}
+                                                </div>
+                                            ))}
+                                        </Stack.Item>
+                                        <Stack.Item>
+                                            <DefaultButton
+                                                text={intl.get(
+                                                    "sources.resetValidators"
+                                                )}
+                                                title={intl.get(
+                                                    "sources.resetValidatorsHint"
+                                                )}
+                                                onClick={
+                                                    this.resetFetchValidators
+                                                }
+                                            />
+                                        </Stack.Item>
+                                    </Stack>
+                                </>
+                            )}
                         </>
                     )}
                     <ChoiceGroup
@@ -566,6 +779,17 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                             />
                         </Stack.Item>
                     </Stack>
+                    <Stack horizontal verticalAlign="baseline">
+                        <Stack.Item grow>
+                            <Label>{intl.get("sources.archiveOffline")}</Label>
+                        </Stack.Item>
+                        <Stack.Item>
+                            <Toggle
+                                checked={this.state.selectedSource.archiveOffline}
+                                onChange={this.onArchiveOfflineToggle}
+                            />
+                        </Stack.Item>
+                    </Stack>
                     <Stack horizontal verticalAlign="baseline">
                         <Stack.Item grow>
                             <Label>{intl.get("sources.translateTo")}</Label>
@@ -579,7 +803,7 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                             />
                         </Stack.Item>
                     </Stack>
-                    {!isExternalService(this.state.selectedSource) && (
+                    {this.isDeletable(this.state.selectedSource) && (
                         <Stack horizontal>
                             <Stack.Item>
                                 <DangerButton
@@ -602,7 +826,7 @@ class SourcesTab extends React.Component<SourcesTabProps, SourcesTabState> {
                 </>
             )}
             {this.state.selectedSources &&
-                (this.state.selectedSources.filter(s => isExternalService(s)).length ===
+                (this.state.selectedSources.filter(s => !this.isDeletable(s)).length ===
                 0 ? (
                     <>
                         <Label>{intl.get("sources.selectedMulti")}</Label>
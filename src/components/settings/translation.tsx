@@ -0,0 +1,293 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    Stack,
+    Label,
+    TextField,
+    Dropdown,
+    IDropdownOption,
+    PrimaryButton,
+    DefaultButton,
+    MessageBar,
+    MessageBarType,
+} from "@fluentui/react"
+import { urlTest, byteToMB } from "../../scripts/utils"
+import type {
+    ProviderConfig,
+    ProviderConfigField,
+    TranslationProviderInfo,
+} from "../../bridges/translation"
+
+type TranslationTabState = {
+    providers: TranslationProviderInfo[]
+    providerId: string
+    config: ProviderConfig
+    languages: Record<string, string>
+    testLang: string
+    testing: boolean
+    testResult: { translated?: string; error?: string }
+    saved: boolean
+    cacheStats: {
+        size: number
+        maxSize: number
+        bytes: number
+        maxBytes: number
+    }
+}
+
+class TranslationTab extends React.Component<{}, TranslationTabState> {
+    constructor(props) {
+        super(props)
+        this.state = {
+            providers: [],
+            providerId: null,
+            config: {},
+            languages: {},
+            testLang: "de",
+            testing: false,
+            testResult: null,
+            saved: false,
+            cacheStats: null,
+        }
+    }
+
+    componentDidMount = async () => {
+        const [providers, providerId] = await Promise.all([
+            window.translation.getProviders(),
+            window.translation.getProvider(),
+        ])
+        this.setState({ providers })
+        await this.loadProvider(providerId)
+        this.loadCacheStats()
+    }
+
+    loadProvider = async (providerId: string) => {
+        const [config, languages] = await Promise.all([
+            window.translation.getProviderConfig(providerId),
+            window.translation.getSupportedLanguages(),
+        ])
+        this.setState({
+            providerId,
+            config,
+            languages,
+            testLang:
+                this.state.testLang in languages
+                    ? this.state.testLang
+                    : Object.keys(languages)[0],
+            testResult: null,
+            saved: false,
+        })
+    }
+
+    loadCacheStats = () => {
+        window.translation.getCacheStats().then(cacheStats => {
+            this.setState({ cacheStats })
+        })
+    }
+
+    getProvider = () =>
+        this.state.providers.find(p => p.id === this.state.providerId)
+
+    providerOptions = (): IDropdownOption[] =>
+        this.state.providers.map(p => ({ key: p.id, text: p.name }))
+    onProviderChange = async (_, option: IDropdownOption) => {
+        const providerId = option.key as string
+        await window.translation.setProvider(providerId)
+        await this.loadProvider(providerId)
+    }
+
+    languageOptions = (): IDropdownOption[] =>
+        Object.entries(this.state.languages).map(([key, text]) => ({
+            key,
+            text,
+        }))
+
+    isFieldValid = (field: ProviderConfigField) => {
+        const value = (this.state.config[field.key] || "").trim()
+        if (!value) return !field.required
+        return field.type !== "url" || urlTest(value)
+    }
+    isConfigValid = () => this.getProvider().fields.every(this.isFieldValid)
+
+    onFieldChange = (key: string, value: string) => {
+        this.setState({
+            config: { ...this.state.config, [key]: value },
+            testResult: null,
+            saved: false,
+        })
+    }
+
+    saveConfig = async () => {
+        await window.translation.setProviderConfig(
+            this.state.providerId,
+            this.state.config
+        )
+        this.setState({ saved: true })
+    }
+
+    testConfig = async () => {
+        this.setState({ testing: true, testResult: null })
+        const testResult = await window.translation.testProvider(
+            this.state.providerId,
+            this.state.config,
+            this.state.testLang
+        )
+        this.setState({ testing: false, testResult })
+    }
+
+    clearCache = () => {
+        window.translation.clearCache().then(this.loadCacheStats)
+    }
+
+    describeProvider = (provider: TranslationProviderInfo) => {
+        const lines = [
+            provider.rateLimit.minDelay > 0
+                ? intl.get("translation.rateLimit", {
+                      s: provider.rateLimit.minDelay / 1000,
+                  })
+                : intl.get("translation.noRateLimit"),
+            provider.languages
+                ? intl.get("translation.someLanguages", {
+                      n: provider.languages.length,
+                  })
+                : intl.get("translation.allLanguages"),
+        ]
+        if (!provider.supportsHtml) lines.push(intl.get("translation.textOnly"))
+        return lines.join(" ")
+    }
+
+    renderField = (field: ProviderConfigField) => (
+        <TextField
+            key={this.state.providerId + field.key}
+            label={intl.get(field.label)}
+            required={field.required}
+            placeholder={field.placeholder}
+            description={
+                field.description &&
+                intl.get(field.description, { language: "{language}" })
+            }
+            type={field.type === "password" ? "password" : undefined}
+            canRevealPassword={field.type === "password"}
+            multiline={field.type === "multiline"}
+            rows={field.type === "multiline" ? 4 : undefined}
+            value={this.state.config[field.key] || ""}
+            onGetErrorMessage={v =>
+                field.type === "url" && v.trim() && !urlTest(v.trim())
+                    ? intl.get("app.badUrl")
+                    : ""
+            }
+            onChange={(_, v) => this.onFieldChange(field.key, v)}
+        />
+    )
+
+    render = () => {
+        const provider = this.getProvider()
+        return (
+            <div className="tab-body">
+                <Label>{intl.get("translation.provider")}</Label>
+                <Stack horizontal>
+                    <Stack.Item>
+                        <Dropdown
+                            options={this.providerOptions()}
+                            selectedKey={this.state.providerId}
+                            onChange={this.onProviderChange}
+                            style={{ width: 200 }}
+                        />
+                    </Stack.Item>
+                </Stack>
+                {provider && (
+                    <>
+                        <span className="settings-hint up">
+                            {this.describeProvider(provider)}
+                        </span>
+                        {provider.fields.length > 0 && (
+                            <Stack tokens={{ childrenGap: 8 }}>
+                                {provider.fields.map(this.renderField)}
+                            </Stack>
+                        )}
+                        <Stack
+                            horizontal
+                            verticalAlign="end"
+                            tokens={{ childrenGap: 8 }}
+                            style={{ marginTop: 12 }}>
+                            {provider.fields.length > 0 && (
+                                <Stack.Item>
+                                    <PrimaryButton
+                                        disabled={!this.isConfigValid()}
+                                        text={intl.get("translation.save")}
+                                        onClick={this.saveConfig}
+                                    />
+                                </Stack.Item>
+                            )}
+                            <Stack.Item>
+                                <Dropdown
+                                    label={intl.get("translation.testLanguage")}
+                                    options={this.languageOptions()}
+                                    selectedKey={this.state.testLang}
+                                    onChange={(_, option) =>
+                                        this.setState({
+                                            testLang: option.key as string,
+                                        })
+                                    }
+                                    style={{ width: 160 }}
+                                />
+                            </Stack.Item>
+                            <Stack.Item>
+                                <DefaultButton
+                                    disabled={
+                                        this.state.testing ||
+                                        !this.isConfigValid()
+                                    }
+                                    text={intl.get("translation.test")}
+                                    onClick={this.testConfig}
+                                />
+                            </Stack.Item>
+                        </Stack>
+                        {this.state.saved && (
+                            <span className="settings-hint up">
+                                {intl.get("translation.saved")}
+                            </span>
+                        )}
+                        {this.state.testResult && (
+                            <MessageBar
+                                style={{ marginTop: 8 }}
+                                messageBarType={
+                                    this.state.testResult.error
+                                        ? MessageBarType.error
+                                        : MessageBarType.success
+                                }>
+                                {this.state.testResult.error ||
+                                    this.state.testResult.translated}
+                            </MessageBar>
+                        )}
+                    </>
+                )}
+
+                <Label>{intl.get("translation.cache")}</Label>
+                <Stack horizontal>
+                    <Stack.Item>
+                        <DefaultButton
+                            text={intl.get("translation.clearCache")}
+                            disabled={
+                                !this.state.cacheStats ||
+                                this.state.cacheStats.size === 0
+                            }
+                            onClick={this.clearCache}
+                        />
+                    </Stack.Item>
+                </Stack>
+                {this.state.cacheStats && (
+                    <span className="settings-hint up">
+                        {intl.get("translation.cacheSize", {
+                            size: this.state.cacheStats.size,
+                            bytes: byteToMB(this.state.cacheStats.bytes),
+                            maxBytes: byteToMB(this.state.cacheStats.maxBytes),
+                        })}
+                    </span>
+                )}
+            </div>
+        )
+    }
+}
+
+export default TranslationTab
@@ -0,0 +1,167 @@
+import * as React from "react"
+import intl from "react-intl-universal"
+import {
+    Callout,
+    CommandBarButton,
+    DirectionalHint,
+    IconButton,
+    Label,
+    Link,
+    Stack,
+    Text,
+} from "@fluentui/react"
+import type {
+    TranslationJobInfo,
+    TranslationJobStatus,
+} from "../bridges/translation"
+import { setOverlayVisible } from "../scripts/overlay-visibility"
+
+type TranslationJobsProps = {
+    // The button is shown for translated articles and while jobs exist
+    translating: boolean
+}
+
+type TranslationJobsState = {
+    jobs: TranslationJobInfo[]
+    open: boolean
+}
+
+const BUTTON_ID = "translation-jobs-button"
+
+class TranslationJobs extends React.Component<
+    TranslationJobsProps,
+    TranslationJobsState
+> {
+    private unsubscribe: () => void = null
+
+    constructor(props) {
+        super(props)
+        this.state = { jobs: [], open: false }
+    }
+
+    componentDidMount = () => {
+        if (!window.translation) return
+        this.unsubscribe = window.translation.onJobsChanged(jobs =>
+            this.setState({ jobs })
+        )
+        window.translation.getJobs().then(jobs => this.setState({ jobs }))
+    }
+
+    componentWillUnmount = () => {
+        if (this.unsubscribe) this.unsubscribe()
+        if (this.state.open) setOverlayVisible("translation-jobs", false)
+    }
+
+    setOpen = (open: boolean) => {
+        this.setState({ open })
+        setOverlayVisible("translation-jobs", open)
+    }
+
+    getIcon = () => {
+        const { jobs } = this.state
+        if (jobs.some(j => j.status === "active")) return "Sync"
+        if (jobs.some(j => j.status === "failed")) return "Warning"
+        return "BulletedList"
+    }
+
+    renderJob = (job: TranslationJobInfo) => (
+        <Stack
+            key={job.id}
+            horizontal
+            verticalAlign="center"
+            tokens={{ childrenGap: 8 }}
+        >
+            <Stack.Item grow styles={{ root: { minWidth: 0 } }}>
+                <Text block nowrap title={job.title}>
+                    {job.title || intl.get("translation.untitledJob")}
+                </Text>
+                <Text
+                    block
+                    variant="small"
+                    style={{ color: "var(--neutralSecondary)" }}
+                >
+                    {job.error ||
+                        `${job.targetLang} · ${intl.get(
+                            job.priority === "current"
+                                ? "translation.priorityCurrent"
+                                : "translation.priorityPrefetch"
+                        )}`}
+                </Text>
+            </Stack.Item>
+            {job.status !== "failed" && (
+                <IconButton
+                    iconProps={{ iconName: "Cancel" }}
+                    title={intl.get("translation.cancelJob")}
+                    onClick={() => window.translation.cancelJob(job.id)}
+                />
+            )}
+        </Stack>
+    )
+
+    renderSection = (status: TranslationJobStatus) => {
+        const jobs = this.state.jobs.filter(j => j.status === status)
+        if (jobs.length === 0) return null
+        return (
+            <Stack key={status} tokens={{ childrenGap: 4 }}>
+                <Stack horizontal horizontalAlign="space-between">
+                    <Label>
+                        {intl.get(`translation.jobs_${status}`, {
+                            n: jobs.length,
+                        })}
+                    </Label>
+                    {status === "failed" && (
+                        <Link
+                            onClick={() => window.translation.clearFailedJobs()}
+                        >
+                            {intl.get("translation.clearFailed")}
+                        </Link>
+                    )}
+                </Stack>
+                {jobs.map(this.renderJob)}
+            </Stack>
+        )
+    }
+
+    render = () => {
+        const { jobs, open } = this.state
+        if (!this.props.translating && jobs.length === 0 && !open) return null
+        const running = jobs.filter(j => j.status !== "failed").length
+        return (
+            <>
+                <CommandBarButton
+                    id={BUTTON_ID}
+                    title={intl.get("translation.jobs", { n: running })}
+                    className={open ? "active" : ""}
+                    iconProps={{ iconName: this.getIcon() }}
+                    onClick={() => this.setOpen(!open)}
+                />
+                {open && (
+                    <Callout
+                        target={`#${BUTTON_ID}`}
+                        directionalHint={DirectionalHint.bottomRightEdge}
+                        onDismiss={() => this.setOpen(false)}
+                        styles={{
+                            calloutMain: {
+                                width: 320,
+                                maxHeight: 400,
+                                padding: "8px 12px",
+                            },
+                        }}
+                    >
+                        {jobs.length === 0 ? (
+                            <Text>{intl.get("translation.noJobs")}</Text>
+                        ) : (
+                            <Stack tokens={{ childrenGap: 8 }}>
+                                {(["active", "pending", "failed"] as const).map(
+                                    this.renderSection
+                                )}
+                            </Stack>
+                        )}
+                    </Callout>
+                )}
+            </>
+        )
+    }
+}
+
+export default TranslationJobs
@@ -19,12 +19,16 @@ type SearchState = {
 class ArticleSearch extends React.Component<SearchProps, SearchState> {
     debouncedSearch: (query: string) => void
     inputRef: React.RefObject<ISearchBox>
+    lastQuery: string
 
     constructor(props: SearchProps) {
         super(props)
         this.debouncedSearch = new Async().debounce((query: string) => {
             let regex = validateRegex(query)
-            if (regex !== null) props.dispatch(performSearch(query))
+            if (regex !== null) {
+                this.lastQuery = query
+                props.dispatch(performSearch(query))
+            }
         }, 750)
         this.inputRef = React.createRef<ISearchBox>()
         this.state = { query: props.initQuery }
@@ -39,6 +43,12 @@ class ArticleSearch extends React.Component<SearchProps, SearchState> {
         if (this.props.searchOn && !prevProps.searchOn) {
             this.setState({ query: this.props.initQuery })
             this.inputRef.current.focus()
+        } else if (
+            this.props.initQuery !== prevProps.initQuery &&
+            this.props.initQuery !== this.lastQuery
+        ) {
+            // Query replaced from elsewhere, e.g. by opening a smart feed
+            this.setState({ query: this.props.initQuery })
         }
     }
 
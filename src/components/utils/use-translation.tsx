@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from "react"
 import { RSSItem } from "../../scripts/models/item"
 import { RSSSource } from "../../scripts/models/source"
+import { getTranslationTarget } from "../../scripts/models/language"
 
 // In-memory cache for translated content (survives component re-renders)
 // Stores both the translated text AND whether it was actually translated or just fallback
@@ -19,7 +20,8 @@ export interface TranslatedContent {
 
 /**
  * Hook for on-demand translation of article title and snippet
- * Only translates when the component is visible and source has translateTo set
+ * Only translates when the component is visible, the source has translateTo set
+ * and the item isn't already written in that language
  */
 export function useTranslation(item: RSSItem, source: RSSSource): TranslatedContent {
     const [translatedTitle, setTranslatedTitle] = useState<string | null>(null)
@@ -28,7 +30,7 @@ export function useTranslation(item: RSSItem, source: RSSSource): TranslatedCont
     const [wasTranslated, setWasTranslated] = useState(false)
     const isMounted = useRef(true)
     
-    const targetLang = source.translateTo
+    const targetLang = getTranslationTarget(item, source)
     const shouldTranslate = !!targetLang
     
     useEffect(() => {
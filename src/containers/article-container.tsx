@@ -8,6 +8,9 @@ import {
     toggleStarred,
     toggleHidden,
     itemShortcuts,
+    addItemTag,
+    removeItemTag,
+    updateReadingStats,
 } from "../scripts/models/item"
 import { AppDispatch } from "../scripts/utils"
 import { dismissItem, showOffsetItem } from "../scripts/models/page"
@@ -47,14 +50,15 @@ const getItemId = (_state: RootState, props: ArticleContainerProps) => props.ite
 const getItems = (state: RootState) => state.items
 const getSources = (state: RootState) => state.sources
 const getMenuKey = (state: RootState) => state.app.menuKey  // List identity for prefetch validation
+const getTags = (state: RootState) => state.tags
 
 // Import ContextMenuType for comparison
 import { ContextMenuType } from "../scripts/models/app"
 
 const makeMapStateToProps = () => {
     return createSelector(
-        [getItem, getSource, getLocale, getMenuOpen, getSettingsOpen, getLogMenuOpen, getContextMenuType, getFeedId, getFeeds, getItemId, getItems, getSources, getMenuKey],
-        (item, source, locale, menuOpen, settingsOpen, logMenuOpen, contextMenuType, feedId, feeds, itemId, items, sources, menuKey) => {
+        [getItem, getSource, getLocale, getMenuOpen, getSettingsOpen, getLogMenuOpen, getContextMenuType, getFeedId, getFeeds, getItemId, getItems, getSources, getMenuKey, getTags],
+        (item, source, locale, menuOpen, settingsOpen, logMenuOpen, contextMenuType, feedId, feeds, itemId, items, sources, menuKey, tags) => {
             // Calculate article position in feed for ContentViewPool
             let articleIndex = -1
             let listLength = 0
@@ -95,6 +99,7 @@ const makeMapStateToProps = () => {
                 sources: sources,
                 // List identity for prefetch validation
                 menuKey: menuKey,
+                tags: tags,
             }
         }
     )
@@ -109,6 +114,10 @@ const mapDispatchToProps = (dispatch: AppDispatch) => {
         toggleHasRead: (item: RSSItem) =>
             dispatch(item.hasRead ? markUnread(item) : markRead(item)),
         toggleStarred: (item: RSSItem) => dispatch(toggleStarred(item)),
+        addTag: (item: RSSItem, tag: string) => dispatch(addItemTag(item, tag)),
+        removeTag: (item: RSSItem, tag: string) => dispatch(removeItemTag(item, tag)),
+        updateReadingStats: (item: RSSItem, content: string) =>
+            dispatch(updateReadingStats(item, content)),
         toggleHidden: (item: RSSItem) => {
             if (!item.hidden) dispatch(dismissItem())
             if (!item.hasRead && !item.hidden) dispatch(markRead(item))
@@ -15,6 +15,8 @@ import {
     toggleHidden,
     markAllRead,
     fetchItems,
+    addItemTag,
+    removeItemTag,
 } from "../scripts/models/item"
 import {
     showItem,
@@ -27,6 +29,8 @@ import { ViewType, ViewConfigs } from "../schema-types"
 import { FilterType } from "../scripts/models/feed"
 import { addSource, updateSourceDone, RSSSource } from "../scripts/models/source"
 import { removeSourceFromGroup } from "../scripts/models/group"
+import { saveSmartFeed, deleteSmartFeed } from "../scripts/models/smart-feed"
+import { Tag, deleteTag } from "../scripts/models/tag"
 
 const getContext = (state: RootState) => state.app.contextMenu
 const getViewType = (state: RootState) => state.page.viewType
@@ -34,10 +38,11 @@ const getFilter = (state: RootState) => state.page.filter
 const getViewConfigs = (state: RootState) => state.page.viewConfigs
 const getSources = (state: RootState) => state.sources
 const getGroups = (state: RootState) => state.groups
+const getTags = (state: RootState) => state.tags
 
 const mapStateToProps = createSelector(
-    [getContext, getViewType, getFilter, getViewConfigs, getSources, getGroups],
-    (context, viewType, filter, viewConfigs, sources, groups) => {
+    [getContext, getViewType, getFilter, getViewConfigs, getSources, getGroups, getTags],
+    (context, viewType, filter, viewConfigs, sources, groups, tags) => {
         switch (context.type) {
             case ContextMenuType.Item:
                 const item = context.target[0] as RSSItem
@@ -51,6 +56,7 @@ const mapStateToProps = createSelector(
                     source: source,
                     sources: sources,
                     groups: groups,
+                    tags: tags,
                 }
             case ContextMenuType.Text:
                 return {
@@ -65,6 +71,7 @@ const mapStateToProps = createSelector(
                     event: context.event,
                     viewType: viewType,
                     filter: filter.type,
+                    search: filter.search,
                 }
             case ContextMenuType.Group:
                 return {
@@ -74,6 +81,18 @@ const mapStateToProps = createSelector(
                     sources: sources,
                     groups: groups,
                 }
+            case ContextMenuType.SmartFeed:
+                return {
+                    type: context.type,
+                    event: context.event,
+                    smartFeedId: context.target[0] as number,
+                }
+            case ContextMenuType.Tag:
+                return {
+                    type: context.type,
+                    event: context.event,
+                    tag: tags.find(t => t.id === context.target[0]),
+                }
             case ContextMenuType.Image:
                 return {
                     type: context.type,
@@ -121,6 +140,11 @@ const mapDispatchToProps = dispatch => {
         subscribeFeed: (url: string, name?: string) => dispatch(addSource(url, name)),
         removeFromGroup: (groupIndex: number, sids: number[]) => dispatch(removeSourceFromGroup(groupIndex, sids)),
         updateSourceState: (source: RSSSource) => dispatch(updateSourceDone(source)),
+        saveSmartFeed: () => dispatch(saveSmartFeed()),
+        deleteSmartFeed: (id: number) => dispatch(deleteSmartFeed(id)),
+        addItemTag: (item: RSSItem, tag: string) => dispatch(addItemTag(item, tag)),
+        removeItemTag: (item: RSSItem, tag: string) => dispatch(removeItemTag(item, tag)),
+        deleteTag: (tag: Tag) => dispatch(deleteTag(tag)),
     }
 }
 
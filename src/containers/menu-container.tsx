@@ -1,34 +1,47 @@
 import { connect } from "react-redux"
+import intl from "react-intl-universal"
 import { createSelector } from "reselect"
 import { RootState } from "../scripts/reducer"
 import { Menu } from "../components/menu"
-import { toggleMenu, openGroupMenu } from "../scripts/models/app"
+import {
+    toggleMenu,
+    openGroupMenu,
+    openSmartFeedMenu,
+    openTagMenu,
+} from "../scripts/models/app"
 import { toggleGroupExpansion } from "../scripts/models/group"
 import { SourceGroup } from "../schema-types"
 import {
     selectAllArticles,
+    selectContinueReading,
     selectSources,
     toggleSearch,
 } from "../scripts/models/page"
 import { ViewType } from "../schema-types"
 import { initFeeds } from "../scripts/models/feed"
 import { RSSSource } from "../scripts/models/source"
+import { SmartFeed, selectSmartFeed } from "../scripts/models/smart-feed"
+import { Tag, selectTag } from "../scripts/models/tag"
 
 const getApp = (state: RootState) => state.app
 const getSources = (state: RootState) => state.sources
 const getGroups = (state: RootState) => state.groups
+const getSmartFeeds = (state: RootState) => state.smartFeeds
+const getTags = (state: RootState) => state.tags
 const getSearchOn = (state: RootState) => state.page.searchOn
 const getItemOn = (state: RootState) =>
     state.page.itemId !== null && state.page.viewType !== ViewType.List
 
 const mapStateToProps = createSelector(
-    [getApp, getSources, getGroups, getSearchOn, getItemOn],
-    (app, sources, groups, searchOn, itemOn) => ({
+    [getApp, getSources, getGroups, getSmartFeeds, getTags, getSearchOn, getItemOn],
+    (app, sources, groups, smartFeeds, tags, searchOn, itemOn) => ({
         status: app.sourceInit && !app.settings.display,
         display: app.menu,
         selected: app.menuKey,
         sources: sources,
         groups: groups.map((g, i) => ({ ...g, index: i })),
+        smartFeeds: smartFeeds,
+        tags: tags,
         searchOn: searchOn,
         itemOn: itemOn,
     })
@@ -40,6 +53,9 @@ const mapDispatchToProps = dispatch => ({
         window.contentViewPool?.onListChanged()
         dispatch(selectAllArticles(init)), dispatch(initFeeds())
     },
+    continueReading: () => {
+        dispatch(selectContinueReading(intl.get("menu.continueReading")))
+    },
     selectSourceGroup: (group: SourceGroup, menuKey: string) => {
         window.contentViewPool?.onListChanged()
         dispatch(selectSources(group.sids, menuKey, group.name))
@@ -50,9 +66,21 @@ const mapDispatchToProps = dispatch => ({
         dispatch(selectSources([source.sid], "s-" + source.sid, source.name))
         dispatch(initFeeds())
     },
+    selectSmartFeed: (feed: SmartFeed) => {
+        dispatch(selectSmartFeed(feed))
+    },
+    selectTag: (tag: Tag) => {
+        dispatch(selectTag(tag))
+    },
     groupContextMenu: (sids: number[], event: React.MouseEvent) => {
         dispatch(openGroupMenu(sids, event))
     },
+    smartFeedContextMenu: (id: number, event: React.MouseEvent) => {
+        dispatch(openSmartFeedMenu(id, event))
+    },
+    tagContextMenu: (id: number, event: React.MouseEvent) => {
+        dispatch(openTagMenu(id, event))
+    },
     updateGroupExpansion: (
         event: React.MouseEvent<HTMLElement>,
         key: string,
@@ -11,6 +11,7 @@ import {
     openMarkAllMenu,
 } from "../scripts/models/app"
 import { toggleSearch } from "../scripts/models/page"
+import { flushOutbox } from "../scripts/models/outbox"
 import { ViewType } from "../schema-types"
 import Nav from "../components/nav"
 
@@ -34,6 +35,7 @@ const mapDispatchToProps = dispatch => ({
     settings: () => dispatch(toggleSettings()),
     search: () => dispatch(toggleSearch()),
     markAllRead: () => dispatch(openMarkAllMenu()),
+    flushOutbox: () => dispatch(flushOutbox(true)),
 })
 
 const NavContainer = connect(mapStateToProps, mapDispatchToProps)(Nav)
@@ -10,14 +10,16 @@ import {
     removeSourceFromGroup,
     reorderSourceGroups,
 } from "../../scripts/models/group"
-import { SourceGroup, SyncService } from "../../schema-types"
-import { importGroups } from "../../scripts/models/service"
+import { SourceGroup } from "../../schema-types"
+import {
+    importGroups,
+    setServiceSourcesCategory,
+} from "../../scripts/models/service"
 import { AppDispatch } from "../../scripts/utils"
 
 const getSources = (state: RootState) => state.sources
 const getGroups = (state: RootState) => state.groups
-const getServiceOn = (state: RootState) =>
-    state.service.type !== SyncService.None
+const getServiceOn = (state: RootState) => state.service.length > 0
 
 const mapStateToProps = createSelector(
     [getSources, getGroups, getServiceOn],
@@ -32,12 +34,16 @@ const mapStateToProps = createSelector(
 const mapDispatchToProps = (dispatch: AppDispatch) => ({
     createGroup: (name: string) => dispatch(createSourceGroup(name)),
     updateGroup: (group: SourceGroup) => dispatch(updateSourceGroup(group)),
-    addToGroup: (groupIndex: number, sid: number) =>
-        dispatch(addSourceToGroup(groupIndex, sid)),
+    addToGroup: async (groupIndex: number, sid: number) => {
+        if (await dispatch(setServiceSourcesCategory([sid], groupIndex)))
+            dispatch(addSourceToGroup(groupIndex, sid))
+    },
     deleteGroup: (groupIndex: number) =>
         dispatch(deleteSourceGroup(groupIndex)),
-    removeFromGroup: (groupIndex: number, sids: number[]) =>
-        dispatch(removeSourceFromGroup(groupIndex, sids)),
+    removeFromGroup: async (groupIndex: number, sids: number[]) => {
+        if (await dispatch(setServiceSourcesCategory(sids, null)))
+            dispatch(removeSourceFromGroup(groupIndex, sids))
+    },
     reorderGroups: (groups: SourceGroup[]) =>
         dispatch(reorderSourceGroups(groups)),
     importGroups: () => dispatch(importGroups()),
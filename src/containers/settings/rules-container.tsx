@@ -4,19 +4,43 @@ import { RootState } from "../../scripts/reducer"
 import RulesTab from "../../components/settings/rules"
 import { AppDispatch } from "../../scripts/utils"
 import { RSSSource, updateSource } from "../../scripts/models/source"
-import { SourceRule } from "../../scripts/models/rule"
+import {
+    SourceRule,
+    RulePreviewEntry,
+    updateGlobalRules,
+    applyRulePreview,
+} from "../../scripts/models/rule"
+import { updateSourceGroup } from "../../scripts/models/group"
+import { SourceGroup } from "../../schema-types"
 
 const getSources = (state: RootState) => state.sources
+const getGroups = (state: RootState) => state.groups
+const getGlobalRules = (state: RootState) => state.globalRules
 
-const mapStateToProps = createSelector([getSources], sources => ({
-    sources: sources,
-}))
+const mapStateToProps = createSelector(
+    [getSources, getGroups, getGlobalRules],
+    (sources, groups, globalRules) => ({
+        sources: sources,
+        groups: groups,
+        globalRules: globalRules,
+    })
+)
 
 const mapDispatchToProps = (dispatch: AppDispatch) => ({
     updateSourceRules: (source: RSSSource, rules: SourceRule[]) => {
         source.rules = rules
         dispatch(updateSource(source))
     },
+    updateGroupRules: (group: SourceGroup, rules: SourceRule[]) => {
+        dispatch(updateSourceGroup({ ...group, rules: rules }))
+    },
+    updateGlobalRules: (rules: SourceRule[]) => {
+        dispatch(updateGlobalRules(rules))
+    },
+    applyRulePreview: (
+        entries: RulePreviewEntry[],
+        onProgress: (done: number, total: number) => void
+    ) => dispatch(applyRulePreview(entries, onProgress)),
 })
 
 const RulesTabContainer = connect(mapStateToProps, mapDispatchToProps)(RulesTab)
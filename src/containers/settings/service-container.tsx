@@ -14,15 +14,15 @@ import { saveSettings } from "../../scripts/models/app"
 
 const getService = (state: RootState) => state.service
 
-const mapStateToProps = createSelector([getService], service => ({
-    configs: service,
+const mapStateToProps = createSelector([getService], accounts => ({
+    accounts: accounts,
 }))
 
 const mapDispatchToProps = (dispatch: AppDispatch) => ({
     save: (configs: ServiceConfigs) => dispatch(saveServiceConfigs(configs)),
-    remove: () => dispatch(removeService()),
+    remove: (id: string) => dispatch(removeService(id)),
     blockActions: () => dispatch(saveSettings()),
-    sync: () => dispatch(syncWithService()),
+    sync: (id: string) => dispatch(syncWithService(false, id)),
     authenticate: async (configs: ServiceConfigs) => {
         const hooks = getServiceHooksFromType(configs.type)
         if (hooks.authenticate) return await hooks.authenticate(configs)
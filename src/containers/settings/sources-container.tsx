@@ -15,28 +15,41 @@ import {
 import { importOPML, exportOPML } from "../../scripts/models/group"
 import { AppDispatch, validateFavicon } from "../../scripts/utils"
 import { saveSettings, toggleSettings } from "../../scripts/models/app"
-import { SyncService } from "../../schema-types"
+import {
+    getServiceHooksFromType,
+    renameServiceSource,
+    subscribeWithService,
+    unsubscribeFromService,
+} from "../../scripts/models/service"
 
 const getSources = (state: RootState) => state.sources
-const getServiceOn = (state: RootState) =>
-    state.service.type !== SyncService.None
+const getServiceOn = (state: RootState) => state.service.length > 0
 const getSIDs = (state: RootState) => state.app.settings.sids
+const getAccounts = (state: RootState) => state.service
 
 const mapStateToProps = createSelector(
-    [getSources, getServiceOn, getSIDs],
-    (sources, serviceOn, sids) => ({
+    [getSources, getServiceOn, getSIDs, getAccounts],
+    (sources, serviceOn, sids, accounts) => ({
         sources: sources,
         serviceOn: serviceOn,
         sids: sids,
+        // Accounts sources can be subscribed to from here
+        accounts: accounts.filter(
+            configs => getServiceHooksFromType(configs.type).subscribe
+        ),
     })
 )
 
 const mapDispatchToProps = (dispatch: AppDispatch) => {
     return {
         acknowledgeSIDs: () => dispatch(toggleSettings(true)),
-        addSource: (url: string) => dispatch(addSource(url)),
-        updateSourceName: (source: RSSSource, name: string) => {
-            dispatch(updateSource({ ...source, name: name } as RSSSource))
+        addSource: async (url: string, account: string = null) => {
+            if (account) await dispatch(subscribeWithService(account, url))
+            else await dispatch(addSource(url))
+        },
+        updateSourceName: async (source: RSSSource, name: string) => {
+            if (await dispatch(renameServiceSource(source, name)))
+                dispatch(updateSource({ ...source, name: name } as RSSSource))
         },
         updateSourceIcon: async (source: RSSSource, iconUrl: string) => {
             dispatch(saveSettings())
@@ -95,9 +108,23 @@ const mapDispatchToProps = (dispatch: AppDispatch) => {
                 } as RSSSource)
             )
         },
-        deleteSource: (source: RSSSource) => dispatch(deleteSource(source)),
-        deleteSources: (sources: RSSSource[]) =>
-            dispatch(deleteSources(sources)),
+        updateSourceArchiveOffline: (source: RSSSource, archiveOffline: boolean) => {
+            dispatch(
+                updateSource({
+                    ...source,
+                    archiveOffline: archiveOffline,
+                } as RSSSource)
+            )
+            if (archiveOffline) window.offlineArchive.archivePending()
+        },
+        deleteSource: async (source: RSSSource) => {
+            if (await dispatch(unsubscribeFromService([source])))
+                dispatch(deleteSource(source))
+        },
+        deleteSources: async (sources: RSSSource[]) => {
+            if (await dispatch(unsubscribeFromService(sources)))
+                dispatch(deleteSources(sources))
+        },
         importOPML: () => dispatch(importOPML()),
         exportOPML: () => dispatch(exportOPML()),
         toggleSourceHidden: (source: RSSSource) =>
@@ -7,6 +7,7 @@ import { initP2P, registerP2PIpcHandlers } from "./main/p2p-share"
 import { initP2PLan, registerP2PLanIpcHandlers, shutdownP2P, onSystemSuspend, onSystemResume } from "./main/p2p-lan"
 import { registerTranslationIpc } from "./main/translation-service"
 import { initLogger, logError, logInfo } from "./main/logger"
+import { registerOfflineArchiveScheme } from "./main/offline-archive"
 
 // ===== Security Warnings =====
 // Suppress Content-Security-Policy warning for external websites loaded in ContentView
@@ -71,6 +72,9 @@ function init() {
     
     // Initialize Translation service
     registerTranslationIpc()
+
+    // Custom protocol of the offline archive, must exist before the app is ready
+    registerOfflineArchiveScheme()
 }
 
 init()
@@ -10,7 +10,13 @@ import { AppDispatch } from "./scripts/utils"
 import { applyThemeSettings } from "./scripts/settings"
 import { initApp, openTextMenu } from "./scripts/models/app"
 import { handleP2PFeedsChanged } from "./scripts/models/source"
-import { fetchItems } from "./scripts/models/item"
+import {
+    applyServedItemChanges,
+    applyServedMarkAllRead,
+    fetchItems,
+    setReadingProgress,
+    setReadingStats,
+} from "./scripts/models/item"
 
 window.settings.setProxy()
 
@@ -40,6 +46,20 @@ if (window.p2pLan) {
     })
 }
 
+// Reading progress stored by the article views, shown on the cards
+window.contentViewPool?.onReadingProgress((itemId, progress) => {
+    store.dispatch(setReadingProgress(itemId, progress))
+})
+window.contentViewPool?.onReadingStats((itemId, stats) => {
+    store.dispatch(setReadingStats(itemId, stats))
+})
+window.greaderServer?.onItemsChanged(changes => {
+    store.dispatch(applyServedItemChanges(changes))
+})
+window.greaderServer?.onMarkedAllRead((sids, date) => {
+    store.dispatch(applyServedMarkAllRead(sids, date && new Date(date)))
+})
+
 window.fontList = [""]
 window.utils.initFontList().then(fonts => {
     window.fontList.push(...fonts)
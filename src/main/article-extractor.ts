@@ -1,6 +1,30 @@
-import { ipcMain, app } from "electron"
-import { extract, extractFromHtml, addTransformations } from "@extractus/article-extractor"
+import { ipcMain, app, net } from "electron"
+import { extractFromHtml, addTransformations } from "@extractus/article-extractor"
+import type { ArticleData } from "@extractus/article-extractor"
 import { initializeCookieTransformations } from "./cookie-transformations"
+import { SiteRule, findSiteRule, applySiteRule, parseSiteRules, setupSiteRulesIPC } from "./site-rules"
+import { findNextPageLink, normalizePageUrl, stitchPages } from "./article-pagination"
+
+// Pages fetched at most for one paginated article
+const MAX_PAGES = 10
+// Milliseconds to load one page, and all pages of an article
+const PAGE_TIMEOUT = 20000
+const ARTICLE_TIMEOUT = 60000
+
+export interface ExtractedArticle extends ArticleData {
+    nextPage?: string // Found by a site rule
+    siteRule?: string // First domain of the rule applied
+    pages?: number // Pages stitched into the content
+}
+
+export interface SiteRuleTestResult {
+    title?: string
+    published?: string
+    nextPage?: string
+    content?: string
+    noMatch?: boolean // No rule of the source matches the URL
+    error?: string
+}
 
 /**
  * Site-specific transformations for article extraction
@@ -61,6 +85,92 @@ function setupExtractorTransformations() {
     ])
 }
 
+/**
+ * Extract an article from a downloaded page, applying the site rule for its
+ * domain first. Title and date found by the rule win over the extractor's.
+ */
+export async function extractArticle(html: string, url: string, rule: SiteRule = findSiteRule(url)): Promise<ExtractedArticle | null> {
+    if (!rule) return extractFromHtml(html, url)
+    const prepared = applySiteRule(html, url, rule)
+    const article = await extractFromHtml(prepared.html, url)
+    if (!article) return null
+    return {
+        ...article,
+        title: prepared.title || article.title,
+        published: prepared.published || article.published,
+        nextPage: prepared.nextPage,
+        siteRule: rule.domains[0],
+    }
+}
+
+/**
+ * Download a page, aborted after PAGE_TIMEOUT or once the signal aborts
+ */
+async function fetchPage(url: string, signal?: AbortSignal): Promise<string> {
+    const timeout = AbortSignal.timeout(PAGE_TIMEOUT)
+    const response = await net.fetch(url, {
+        signal: signal ? AbortSignal.any([timeout, signal]) : timeout,
+    })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return response.text()
+}
+
+/**
+ * Extract an article and follow its next page links, stitching up to
+ * MAX_PAGES pages into one. A later page that fails to load, or one still
+ * loading after ARTICLE_TIMEOUT, ends the article there. The first page is
+ * fetched unless its HTML is given.
+ */
+export async function extractArticlePages(url: string, html?: string): Promise<ExtractedArticle | null> {
+    const deadline = AbortSignal.timeout(ARTICLE_TIMEOUT)
+    if (html === undefined) html = await fetchPage(url, deadline)
+    const article = await extractArticle(html, url)
+    if (!article) return null
+    const pages = [article.content || ""]
+    const visited = new Set([normalizePageUrl(url)])
+    let pageUrl = url
+    let pageHtml = html
+    let nextPage = article.nextPage
+    while (pages.length < MAX_PAGES && !deadline.aborted) {
+        const next = nextPage || findNextPageLink(pageHtml, pageUrl)
+        if (!next || visited.has(normalizePageUrl(next))) break
+        visited.add(normalizePageUrl(next))
+        try {
+            pageHtml = await fetchPage(next, deadline)
+            const page = await extractArticle(pageHtml, next)
+            if (!page?.content) break
+            pages.push(page.content)
+            pageUrl = next
+            nextPage = page.nextPage
+        } catch (error) {
+            console.warn(`[article-extractor] Failed to load page ${pages.length + 1} of ${url}:`, error)
+            break
+        }
+    }
+    if (pages.length === 1) return article
+    return { ...article, content: stitchPages(pages, article.title), pages: pages.length }
+}
+
+/**
+ * Try an unsaved rule file on a page for the preview in the settings
+ */
+export async function testSiteRule(source: string, url: string, name: string): Promise<SiteRuleTestResult> {
+    try {
+        const rule = findSiteRule(url, parseSiteRules(source, (name || "").trim()))
+        if (!rule) return { noMatch: true }
+        const article = await extractArticle(await fetchPage(url), url, rule)
+        if (!article) throw new Error("No article content found")
+        return {
+            title: article.title,
+            published: article.published,
+            nextPage: article.nextPage,
+            content: article.content,
+        }
+    } catch (error: any) {
+        return { error: error?.message || String(error) }
+    }
+}
+
 /**
  * Register IPC handlers for article extraction
  * Allows renderer process to use article-extractor via IPC
@@ -72,6 +182,9 @@ export function setupArticleExtractorHandlers() {
     // Initialize site-specific extraction transformations
     setupExtractorTransformations()
 
+    // User-editable extraction rules
+    setupSiteRulesIPC()
+
     // Get application path for ContentView to load article.html
     ipcMain.handle("get-app-path", (event) => {
         try {
@@ -83,11 +196,10 @@ export function setupArticleExtractorHandlers() {
         }
     })
 
-    // Extract article from URL
+    // Extract article from URL, following its next page links
     ipcMain.handle("extract-article", async (event, url: string) => {
         try {
-            // Extract with minimal options - the library handles most cases well
-            const article = await extract(url)
+            const article = await extractArticlePages(url)
             return {
                 success: true,
                 data: article,
@@ -101,13 +213,13 @@ export function setupArticleExtractorHandlers() {
         }
     })
 
-    // Extract article from HTML content
+    // Extract article from HTML content, the following pages are fetched here
     ipcMain.handle("extract-article-html", async (event, html: string, url: string) => {
         try {
             // Extract article - returns content with text and basic formatting
             // Note: article-extractor doesn't preserve images by design for security/performance
             // Images can be re-injected if needed from the original HTML
-            const article = await extractFromHtml(html, url)
+            const article = await extractArticlePages(url, html)
             return {
                 success: true,
                 data: article,
@@ -120,5 +232,10 @@ export function setupArticleExtractorHandlers() {
             }
         }
     })
+
+    // Test a rule file from the settings against a URL
+    ipcMain.handle("site-rules:test", (event, source: string, url: string, name: string) => {
+        return testSiteRule(source, url, name)
+    })
 }
 
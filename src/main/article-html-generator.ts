@@ -6,6 +6,10 @@
  * - generateArticleHtml(): For FullContent mode with full HTML structure
  */
 
+import { BilingualMode } from "../schema-types"
+import { TranslatedSegment, renderBilingualContent, BILINGUAL_STYLES } from "../scripts/models/bilingual"
+import { PAGE_SEPARATOR_STYLES } from "../scripts/models/pagination"
+
 export interface ArticleRenderOptions {
     title: string
     date: Date
@@ -159,11 +163,22 @@ function normalizeRssContent(htmlContent: string): { images: Array<{src: string,
 // FULLCONTENT MODE - Full HTML structure for extracted content
 // ============================================================================
 
+function toDataUrl(html: string): string {
+    return `data:text/html;base64,${Buffer.from(html, 'utf-8').toString('base64')}`
+}
+
 /**
  * Generate article HTML for FullContent mode
  * This preserves the full HTML structure from the article extractor
  */
 export function generateArticleHtml(options: ArticleRenderOptions): string {
+    return toDataUrl(renderArticleDocument(options))
+}
+
+/**
+ * Article page as HTML document, for pages served without a data URL
+ */
+export function renderArticleDocument(options: ArticleRenderOptions): string {
     const { title, date, content, baseUrl, textDir, fontSize, fontFamily, locale } = options
     
     // Content analysis for comic/image mode
@@ -198,7 +213,7 @@ export function generateArticleHtml(options: ArticleRenderOptions): string {
 <head>
     <meta charset="UTF-8">
     <meta http-equiv="Content-Security-Policy"
-        content="default-src 'none'; script-src 'unsafe-inline'; img-src http: https: data:; style-src 'unsafe-inline'; frame-src http: https:; media-src http: https:; connect-src https: http:">
+        content="default-src 'none'; script-src 'unsafe-inline'; img-src http: https: data: fluent-archive:; style-src 'unsafe-inline'; frame-src http: https:; media-src http: https:; connect-src https: http:">
     <title>Article</title>
     <style>
 /* ====== FullContent Mode - Complex HTML Layout ====== */
@@ -255,6 +270,10 @@ article blockquote { border-left: 2px solid var(--gray); margin: 1em 0; padding:
 /* All images in #main (handles figure > img, p > img, etc.) */
 #main img { max-width: 100%; height: auto; }
 
+/* Bilingual View */
+${BILINGUAL_STYLES}
+/* Stitched Pages */
+${PAGE_SEPARATOR_STYLES}
 /* Dark Mode */
 @media (prefers-color-scheme: dark) {
   :root { --gray: #a19f9d; --primary: #4ba0e1; --primary-alt: #65aee6; }
@@ -352,19 +371,35 @@ window.__articleData = ${JSON.stringify({
 </body>
 </html>`
 
-    // Convert to base64 data URL
-    return `data:text/html;base64,${Buffer.from(htmlContent, 'utf-8').toString('base64')}`
+    return htmlContent
+}
+
+export type FullContentRenderOptions = ArticleRenderOptions & {
+    extractorTitle?: string
+    extractorDate?: Date
+    // Bilingual view: translated segments replace the content
+    bilingualMode?: BilingualMode
+    segments?: TranslatedSegment[]
+    originalTitle?: string
 }
 
 /**
  * Generate FullContent article HTML with extracted content
  * Wraps extracted content in semantic article structure
  */
-export function generateFullContentHtml(options: ArticleRenderOptions & { 
-    extractorTitle?: string
-    extractorDate?: Date 
-}): string {
-    const { title, date, content, baseUrl, textDir, fontSize, fontFamily, locale } = options
+export function generateFullContentHtml(options: FullContentRenderOptions): string {
+    return toDataUrl(renderFullContentDocument(options))
+}
+
+/**
+ * FullContent article page as HTML document, for pages served without a data URL
+ */
+export function renderFullContentDocument(options: FullContentRenderOptions): string {
+    const { title, date, baseUrl, textDir, fontSize, fontFamily, locale } = options
+    const bilingual = options.segments && options.bilingualMode && options.bilingualMode !== BilingualMode.Off
+    const content = bilingual
+        ? renderBilingualContent(options.segments, options.bilingualMode)
+        : options.content
     const extractorTitle = options.extractorTitle || title
     const extractorDate = options.extractorDate || date
     
@@ -379,6 +414,8 @@ export function generateFullContentHtml(options: ArticleRenderOptions & {
     const headerHtml = extractorTitle ? `
         <header>
             <h1>${escapeHtml(extractorTitle)}</h1>
+            ${bilingual && options.originalTitle && options.originalTitle !== extractorTitle
+                ? `<p class="bi-title-original">${escapeHtml(options.originalTitle)}</p>` : ""}
             ${dateStr ? `<p><time datetime="${extractorDate.toISOString()}">${dateStr}</time></p>` : ""}
         </header>
     ` : ""
@@ -399,7 +436,7 @@ export function generateFullContentHtml(options: ArticleRenderOptions & {
     
     // Use the base generator with wrapped content
     // For FullContent, don't show duplicate title/date in main header
-    return generateArticleHtml({
+    return renderArticleDocument({
         ...options,
         title: '',  // Don't show in main header (already in article header)
         content: wrappedContent
@@ -0,0 +1,151 @@
+/**
+ * Article Pagination
+ *
+ * Finds the link to the next page of a paginated article and stitches the
+ * extracted pages into one article body, dropping headers that every page
+ * repeats.
+ */
+
+import { DOMParser } from "linkedom"
+import { renderPageSeparator } from "../scripts/models/pagination"
+
+// "Next page" link texts in the languages of the app
+const NEXT_TEXT = /^(next|next page|weiter|nächste|nächste seite|suivant|page suivante|siguiente|successiva|volgende|następna|próxima|далее|следующая|次へ|下一页|下一頁|다음)?\s*[›»>→]*$/i
+const PAGINATION_CONTAINERS = ".pagination, .pager, .paging, .page-numbers, .pagenav, .page-nav, [class*=pagination], nav[aria-label*=agination]"
+// Query parameters commonly holding the page number
+const PAGE_PARAMS = ["page", "p", "pg", "seite"]
+// Wrappers the extractor puts around the blocks of a page
+const WRAPPER_TAGS = new Set(["DIV", "SECTION", "ARTICLE", "MAIN"])
+
+const domParser = new DOMParser()
+
+function parse(html: string) {
+    // linkedom's own types don't describe elements as DOM elements
+    return domParser.parseFromString(html, "text/html") as unknown as Document
+}
+
+/**
+ * URL without the fragment, to tell whether two links load the same page
+ */
+export function normalizePageUrl(url: string): string {
+    try {
+        const parsed = new URL(url)
+        parsed.hash = ""
+        return parsed.href
+    } catch {
+        return url
+    }
+}
+
+function getHost(url: string) {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "")
+}
+
+function resolve(href: string, baseUrl: string): string {
+    if (!href) return undefined
+    try {
+        const url = new URL(href, baseUrl)
+        return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined
+    } catch {
+        return undefined
+    }
+}
+
+// URLs the next page would have under common numbering schemes
+function getNumberedCandidates(url: string): Set<string> {
+    const candidates = new Set<string>()
+    const parsed = new URL(url)
+    parsed.hash = ""
+    const param = PAGE_PARAMS.find(p => /^\d+$/.test(parsed.searchParams.get(p) || ""))
+    for (const p of param ? [param] : ["page"]) {
+        const next = new URL(parsed.href)
+        next.searchParams.set(p, String(param ? parseInt(parsed.searchParams.get(p)) + 1 : 2))
+        candidates.add(next.href)
+    }
+    const pathPage = parsed.pathname.match(/^(.*\/page\/)(\d+)\/?$/)
+    const next = new URL(parsed.href)
+    next.pathname = pathPage
+        ? `${pathPage[1]}${parseInt(pathPage[2]) + 1}/`
+        : `${parsed.pathname.replace(/\/$/, "")}/page/2/`
+    candidates.add(next.href)
+    candidates.add(next.href.replace(/\/(\?|$)/, "$1"))
+    return candidates
+}
+
+/**
+ * Link to the next page of an article: a rel="next" link, a "next" link in
+ * a pagination block, or a link to the following page number.
+ */
+export function findNextPageLink(html: string, url: string): string | undefined {
+    let host: string
+    try {
+        host = getHost(url)
+    } catch {
+        return undefined
+    }
+    const document = parse(html)
+    const links: string[] = []
+    document.querySelectorAll("link[rel~=next], a[rel~=next]").forEach(element => {
+        links.push(element.getAttribute("href"))
+    })
+    document.querySelectorAll(PAGINATION_CONTAINERS).forEach(container => {
+        container.querySelectorAll("a[href]").forEach(element => {
+            const label = `${element.getAttribute("class") || ""} ${element.getAttribute("aria-label") || ""}`
+            const text = element.textContent.replace(/\s+/g, " ").trim()
+            if (/next/i.test(label) || (text && NEXT_TEXT.test(text))) links.push(element.getAttribute("href"))
+        })
+    })
+    const candidates = getNumberedCandidates(url)
+    document.querySelectorAll("a[href]").forEach(element => {
+        const href = resolve(element.getAttribute("href"), url)
+        if (href && candidates.has(normalizePageUrl(href))) links.push(href)
+    })
+    const current = normalizePageUrl(url)
+    for (const link of links) {
+        const href = resolve(link, url)
+        if (href && getHost(href) === host && normalizePageUrl(href) !== current) return href
+    }
+    return undefined
+}
+
+function getBlocks(root: Element): Element[] {
+    while (root.children.length === 1 && WRAPPER_TAGS.has(root.children[0].tagName)) {
+        root = root.children[0]
+    }
+    return Array.from(root.children)
+}
+
+// Text of a block, or its image sources if it has no text
+function getBlockKey(element: Element): string {
+    const text = element.textContent.replace(/\s+/g, " ").trim().toLowerCase()
+    if (text) return text
+    return Array.from(element.querySelectorAll("img"))
+        .map(img => img.getAttribute("src"))
+        .concat(element.tagName === "IMG" ? [element.getAttribute("src")] : [])
+        .filter(src => src)
+        .join(" ")
+}
+
+/**
+ * Join the extracted content of all pages with page separators. Blocks of
+ * later pages that repeat an earlier block or the title, such as headlines,
+ * bylines and lead images shown on every page, are dropped.
+ */
+export function stitchPages(pages: string[], title?: string): string {
+    if (pages.length <= 1) return pages[0] || ""
+    const seen = new Set<string>()
+    if (title) seen.add(title.replace(/\s+/g, " ").trim().toLowerCase())
+    return pages.map((html, i) => {
+        const document = parse(`<!DOCTYPE html><html><body>${html}</body></html>`)
+        const blocks = getBlocks(document.body)
+        const keys = blocks.map(getBlockKey)
+        if (i > 0) {
+            blocks.forEach((block, j) => {
+                if (keys[j] && seen.has(keys[j])) block.remove()
+            })
+        }
+        keys.forEach(key => key && seen.add(key))
+        const content = document.body.innerHTML
+        return i === 0 ? content : renderPageSeparator(i + 1, pages.length) + content
+    }).join("\n")
+}
@@ -17,9 +17,16 @@ import { ipcMain, BrowserWindow, Menu, clipboard, shell, nativeImage, net, app }
 import type { MenuItemConstructorOptions, Input } from "electron"
 import { CachedContentView, NavigationSettings, CachedViewStatus } from "./cached-content-view"
 import { isMobileUserAgentEnabled, isVisualZoomEnabled } from "./settings"
-import { extractFromHtml } from "@extractus/article-extractor"
+import { extractArticlePages } from "./article-extractor"
+import { getOfflineCopy, getOfflineUrl } from "./offline-archive"
+import { getReadingPosition, setReadingPosition, setItemReadingStats } from "./db-sqlite"
+import { isInProgress, ReadingPosition } from "../scripts/models/reading-position"
+import { getReadingStats } from "../scripts/models/reading-time"
 import { generateArticleHtml, generateFullContentHtml, textDirToString, TextDirection } from "./article-html-generator"
-import { translateText, translateHtml } from "./translation-service"
+import { translateContent } from "./translation-service"
+import { prioritizeTranslationJobs, cancelTranslationJobs, isTranslationCancelled } from "./translation-jobs"
+import { BilingualMode } from "../schema-types"
+import type { TranslatedSegment } from "../scripts/models/bilingual"
 import { createScopedLogger } from "./logger"
 import https from "https"
 import http from "http"
@@ -88,6 +95,7 @@ interface PrefetchArticleInfo {
     fontFamily: string
     locale: string
     translateTo?: string  // Target language for translation (e.g., 'de')
+    bilingualMode?: BilingualMode  // Show original and translation together
 }
 
 /**
@@ -143,6 +151,10 @@ export class ContentViewPool {
     private articleListLength: number = 0  // Total articles in list (legacy, for navigate() flow)
     private currentSourceId: number | null = null  // Current feed group/view ID for cache invalidation
     
+    // === Reading Position ===
+    // First document each view showed for its article; pages opened from it don't count
+    private readingDocuments: Map<number, { articleId: string, url: string }> = new Map()
+    
     // === Prefetch Timer ===
     private prefetchTimer: NodeJS.Timeout | null = null
     private pendingPrefetch: PrefetchRequest[] = []
@@ -850,6 +862,40 @@ export class ContentViewPool {
         return this.viewsByWebContentsId.get(wcId) ?? null
     }
     
+    /**
+     * Recount an item from its extracted full content, the cards follow
+     */
+    private updateReadingStats(articleId: string, content: string): void {
+        const itemId = Number(articleId)
+        const stats = getReadingStats(content)
+        if (!Number.isInteger(itemId) || stats.wordCount === 0) return
+        try {
+            if (setItemReadingStats(itemId, stats)) {
+                this.sendToRenderer('cvp-reading-stats', itemId, stats)
+            }
+        } catch (err) {
+            log.error(`Failed to store reading stats of ${articleId}:`, err)
+        }
+    }
+    
+    /**
+     * Item whose article a view's webContents shows, null for pages the
+     * reader navigated to from the article
+     */
+    private getReadingItemId(wc: Electron.WebContents): number | null {
+        const view = this.getViewByWebContentsId(wc.id)
+        const itemId = Number(view?.articleId)
+        if (!view?.articleId || !Number.isInteger(itemId)) return null
+        // Generated articles are data URLs, only their kind is kept
+        const url = wc.getURL().startsWith('data:') ? 'data:' : wc.getURL()
+        const document = this.readingDocuments.get(wc.id)
+        if (!document || document.articleId !== view.articleId) {
+            this.readingDocuments.set(wc.id, { articleId: view.articleId, url })
+            return itemId
+        }
+        return document.url === url ? itemId : null
+    }
+    
     // ========== Navigation ==========
     
     /**
@@ -916,6 +962,9 @@ export class ContentViewPool {
         this.articleListLength = listLength
         this.currentArticleId = articleId  // ArticleID-based tracking for prefetch
         
+        // A background translation of the opened article is now the most urgent one
+        prioritizeTranslationJobs(articleId)
+        
         // Log navigation info
         log.verbose(`Navigate to: ${articleId.substring(0, 8)} (index ${articleIndex}/${listLength}, direction: ${this.readingDirection})`)
         log.debug(`Pool status:`, this.views.map(v => 
@@ -1002,7 +1051,8 @@ export class ContentViewPool {
         
         // Load the article
         try {
-            await view.load(url, articleId, feedId, settings, isMobileUserAgentEnabled(), articleIndex)
+            // Offline, archived articles are served from the offline archive
+            await view.load(getOfflineUrl(articleId, url), articleId, feedId, settings, isMobileUserAgentEnabled(), articleIndex)
             
             // IMPORTANT: Check if this view is still the active one!
             // User may have navigated to another article while we were loading
@@ -1167,7 +1217,7 @@ export class ContentViewPool {
         }
         
         // Load in background
-        freeView.load(url, articleId, feedId, settings, isMobileUserAgentEnabled(), articleIndex)
+        freeView.load(getOfflineUrl(articleId, url), articleId, feedId, settings, isMobileUserAgentEnabled(), articleIndex)
             .then(() => {
                 // Remove from pending set after successful load
                 this.pendingPrefetchArticleIds.delete(articleId)
@@ -1256,29 +1306,43 @@ export class ContentViewPool {
         }
         
         try {
-            // Step 1: Fetch the webpage
-            log.debug(`FullContent: fetching ${articleInfo.itemLink}`)
-            const html = await this.fetchWebpage(articleInfo.itemLink)
+            // Step 1: Fetch the webpage - offline, the archived copy takes its place
+            const archived = await getOfflineCopy(articleId)
+            log.debug(`FullContent: ${archived ? 'reading archived copy of' : 'fetching'} ${articleInfo.itemLink}`)
+            const html = archived ? undefined : await this.fetchWebpage(articleInfo.itemLink)
             
-            // Step 2: Extract article content
+            // Step 2: Extract article content, stitching the following pages of paginated articles
             log.debug(`FullContent: extracting content`)
-            const extracted = await extractFromHtml(html, articleInfo.itemLink)
+            const extracted = archived ?? await extractArticlePages(articleInfo.itemLink, html)
             
             // Step 3: Use extracted content or fallback to RSS content
             let contentToUse = extracted?.content || articleInfo.itemContent || ''
             let titleToUse = extracted?.title || articleInfo.itemTitle
+            const originalTitle = titleToUse
+            let segments: TranslatedSegment[] = undefined
             
             // Step 4: Translate if source has translation enabled
             if (articleInfo.translateTo) {
                 log.debug(`FullContent: translating to ${articleInfo.translateTo}`)
                 log.debug(`FullContent: contentToUse BEFORE length=${contentToUse.length}`)
                 try {
-                    // Translate title
-                    titleToUse = await translateText(titleToUse, articleInfo.translateTo)
-                    // Translate content (HTML-aware)
-                    contentToUse = await translateHtml(contentToUse, articleInfo.translateTo)
+                    // Background job, moved up if the article is opened in the meantime
+                    // Content is translated paragraph by paragraph for the bilingual view
+                    const translation = await translateContent(
+                        articleId,
+                        titleToUse,
+                        contentToUse,
+                        articleInfo.translateTo,
+                        !!articleInfo.bilingualMode && articleInfo.bilingualMode !== BilingualMode.Off,
+                        "prefetch"
+                    )
+                    titleToUse = translation.title
+                    contentToUse = translation.content
+                    segments = translation.segments
                     log.debug(`FullContent: translation complete, length=${contentToUse.length}`)
                 } catch (translationError) {
+                    // The article left the prefetch window - abort the prefetch
+                    if (isTranslationCancelled(translationError)) throw translationError
                     log.error(`FullContent: translation failed:`, translationError)
                     // Keep original content on translation error
                 }
@@ -1295,7 +1359,10 @@ export class ContentViewPool {
                 fontFamily: articleInfo.fontFamily,
                 locale: articleInfo.locale,
                 extractorTitle: titleToUse,
-                extractorDate: extracted?.published ? new Date(extracted.published) : undefined
+                extractorDate: extracted?.published ? new Date(extracted.published) : undefined,
+                bilingualMode: articleInfo.bilingualMode,
+                segments,
+                originalTitle
             })
             
             log.debug(`FullContent: loading extracted content for ${articleId.substring(0, 8)}`)
@@ -1312,8 +1379,8 @@ export class ContentViewPool {
             this.onPrefetchComplete(articleId, articleIndex)
         } catch (err: any) {
             // ERR_FAILED (-2) is expected when prefetch is cancelled (view stopped for new navigation)
-            // Only log unexpected errors
-            if (err?.code !== 'ERR_FAILED') {
+            // and so is a cancelled translation job. Only log unexpected errors
+            if (err?.code !== 'ERR_FAILED' && !isTranslationCancelled(err)) {
                 log.error(`FullContent prefetch failed for ${articleId.substring(0, 8)}: ${this.formatErrorForLog(err)}`)
             }
             // Remove from pending set on failure too
@@ -1447,7 +1514,7 @@ export class ContentViewPool {
         }
         
         // Load in background (no articleIndex)
-        freeView.load(url, articleId, feedId, settings, isMobileUserAgentEnabled(), -1)
+        freeView.load(getOfflineUrl(articleId, url), articleId, feedId, settings, isMobileUserAgentEnabled(), -1)
             .then(() => {
                 this.pendingPrefetchArticleIds.delete(articleId)
                 this.onPrefetchComplete(articleId)
@@ -1522,24 +1589,37 @@ export class ContentViewPool {
         
         try {
             // Same extraction logic as prefetchFullContent
-            log.debug(`FullContentById: fetching ${articleInfo.itemLink}`)
-            const html = await this.fetchWebpage(articleInfo.itemLink)
+            const archived = await getOfflineCopy(articleId)
+            log.debug(`FullContentById: ${archived ? 'reading archived copy of' : 'fetching'} ${articleInfo.itemLink}`)
+            const html = archived ? undefined : await this.fetchWebpage(articleInfo.itemLink)
             
             log.debug(`FullContentById: extracting content`)
-            const extracted = await extractFromHtml(html, articleInfo.itemLink)
+            const extracted = archived ?? await extractArticlePages(articleInfo.itemLink, html)
             
             // Use extracted content or fallback to RSS content
             let contentToUse = extracted?.content || articleInfo.itemContent || ''
             let titleToUse = extracted?.title || articleInfo.itemTitle
+            const originalTitle = titleToUse
+            let segments: TranslatedSegment[] = undefined
             
             // Apply translation if configured
             if (articleInfo.translateTo) {
                 log.debug(`FullContentById: translating to ${articleInfo.translateTo}`)
                 try {
-                    titleToUse = await translateText(titleToUse, articleInfo.translateTo)
-                    contentToUse = await translateHtml(contentToUse, articleInfo.translateTo)
+                    const translation = await translateContent(
+                        articleId,
+                        titleToUse,
+                        contentToUse,
+                        articleInfo.translateTo,
+                        !!articleInfo.bilingualMode && articleInfo.bilingualMode !== BilingualMode.Off,
+                        "prefetch"
+                    )
+                    titleToUse = translation.title
+                    contentToUse = translation.content
+                    segments = translation.segments
                     log.debug(`FullContentById: translation complete`)
                 } catch (translationError) {
+                    if (isTranslationCancelled(translationError)) throw translationError
                     log.error(`FullContentById: translation failed:`, translationError)
                     // Keep original content on translation error
                 }
@@ -1555,7 +1635,10 @@ export class ContentViewPool {
                 fontFamily: articleInfo.fontFamily,
                 locale: articleInfo.locale,
                 extractorTitle: titleToUse,
-                extractorDate: extracted?.published ? new Date(extracted.published) : undefined
+                extractorDate: extracted?.published ? new Date(extracted.published) : undefined,
+                bilingualMode: articleInfo.bilingualMode,
+                segments,
+                originalTitle
             })
             
             log.debug(`FullContentById: loading extracted content for ${articleId.substring(0, 8)}`)
@@ -1567,7 +1650,7 @@ export class ContentViewPool {
             this.pendingPrefetchArticleIds.delete(articleId)
             this.onPrefetchComplete(articleId)
         } catch (err: any) {
-            if (err?.code !== 'ERR_FAILED') {
+            if (err?.code !== 'ERR_FAILED' && !isTranslationCancelled(err)) {
                 log.error(`FullContentById prefetch failed for ${articleId.substring(0, 8)}: ${this.formatErrorForLog(err)}`)
             }
             this.pendingPrefetchArticleIds.delete(articleId)
@@ -1752,6 +1835,18 @@ export class ContentViewPool {
         }
     }
     
+    /**
+     * Cancel background translations except for the given articles
+     */
+    private cancelPrefetchTranslations(keepArticleIds: string[] = []): void {
+        const cancelled = cancelTranslationJobs(job =>
+            job.priority === 'prefetch' && !keepArticleIds.includes(job.articleId)
+        )
+        if (cancelled > 0) {
+            log.debug(`Cancelled ${cancelled} prefetch translation job(s)`)
+        }
+    }
+    
     /**
      * DEAD CODE: This function is defined but never called.
      * Consider removing if cache invalidation on source change is not needed,
@@ -1923,6 +2018,9 @@ export class ContentViewPool {
         // Track all targets
         this.prefetchTargetIds = [...targetIds]
         
+        // Stop translating articles that left the prefetch window
+        this.cancelPrefetchTranslations(targetIds)
+        
         // Check which targets are already cached
         for (const targetId of targetIds) {
             if (this.isArticleIdReady(targetId)) {
@@ -3087,6 +3185,23 @@ export class ContentViewPool {
             // console.log(message)
         })
         
+        // Reading position to restore once a view has loaded its article
+        ipcMain.handle('cvp-get-reading-position', (event) => {
+            const itemId = this.getReadingItemId(event.sender)
+            if (itemId === null) return null
+            const position = getReadingPosition(itemId)
+            return position && isInProgress(position.progress) ? position : null
+        })
+        
+        // Reading position reported by the active view while scrolling
+        ipcMain.on('cvp-reading-position', (event, position: ReadingPosition) => {
+            const itemId = this.getReadingItemId(event.sender)
+            if (itemId === null || typeof position?.progress !== 'number') return
+            const progress = Math.min(1, Math.max(0, position.progress))
+            setReadingPosition(itemId, { ...position, progress })
+            this.sendToRenderer('cvp-reading-progress', itemId, progress)
+        })
+        
         // Navigate to article
         ipcMain.handle('cvp-navigate', async (event, articleId, url, feedId, settings, index, listLength, sourceId, menuKey) => {
             // console.log(`[ContentViewPool] IPC cvp-navigate received: articleId=${articleId}, index=${index}, source=${sourceId}, menuKey=${menuKey}`)
@@ -10,12 +10,16 @@
 import Database from "better-sqlite3"
 import { app, ipcMain } from "electron"
 import path from "path"
+import { READING_STARTED, READING_FINISHED } from "../scripts/models/reading-position"
+import type { ReadingPosition } from "../scripts/models/reading-position"
+import type { ReadingStats } from "../scripts/models/reading-time"
+import { P2P_SHARED_SERVICE_REF, getSourceAccount } from "../scripts/models/service-account"
 
 // Database instance
 let db: Database.Database | null = null
 
 // Schema version for migrations
-const SCHEMA_VERSION = 7
+const SCHEMA_VERSION = 21
 
 // Types matching the Lovefield models
 export interface SourceRow {
@@ -36,6 +40,8 @@ export interface SourceRow {
     translateTo: string | null  // Target language code for translation
     translationMode: number  // 0 = Inline, 1 = GoogleUrl
     sortAscending: number  // SQLite boolean (0/1) - sort oldest first when unread filter active
+    archiveOffline: number  // SQLite boolean (0/1) - store new items for offline reading
+    serviceAccount: string | null  // Id of the sync account the source belongs to
 }
 
 export interface ItemRow {
@@ -54,6 +60,13 @@ export interface ItemRow {
     hidden: number  // SQLite boolean (0/1)
     notify: number  // SQLite boolean (0/1)
     serviceRef: string | null
+    openTarget?: number | null  // Overrides the source's openTarget when set
+    lang?: string | null  // Detected language code, NULL if unknown
+    wordCount?: number | null  // Of the feed content, or of the full content once extracted
+    readingTime?: number | null  // Estimated minutes, NULL if not counted yet
+    searchSnippet?: string | null  // Only set by full-text queries: excerpt around the match
+    tags?: string | null  // JSON array of tag names, only set by queryItems/getItemById
+    readingProgress?: number | null  // Scroll percentage read, only set by queryItems/getItemById
 }
 
 /**
@@ -77,6 +90,9 @@ export function initDatabase(): Database.Database {
     
     // Enable WAL mode for better concurrent access
     db.pragma("journal_mode = WAL")
+
+    // Must be registered before any statement touches the FTS triggers
+    registerSqlFunctions()
     
     // Create tables
     createTables()
@@ -87,6 +103,97 @@ export function initDatabase(): Database.Database {
     return db
 }
 
+/**
+ * Strip HTML tags from article content before it is indexed.
+ * Registered as SQL function so FTS triggers and the index source view can use it.
+ */
+function stripHtmlForIndex(html: string | null): string {
+    if (!html) return ""
+    return html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+        .replace(/<[^>]*>/g, " ")
+        .replace(/&nbsp;/g, " ")
+        .replace(/&amp;/g, "&")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\s+/g, " ")
+        .trim()
+}
+
+// Compiled patterns of regex searches, null for invalid ones
+const searchRegexes = new Map<string, RegExp | null>()
+
+/**
+ * Test a column against a regex search, registered as SQL function so regex
+ * searches are filtered, paged and counted by SQLite like plain searches
+ */
+function matchSearchRegex(pattern: string, flags: string, text: string | null): number {
+    const key = `${flags}/${pattern}`
+    if (!searchRegexes.has(key)) {
+        if (searchRegexes.size >= 100) searchRegexes.clear()
+        try {
+            searchRegexes.set(key, new RegExp(pattern, flags))
+        } catch {
+            searchRegexes.set(key, null)
+        }
+    }
+    const regex = searchRegexes.get(key)
+    return regex && text !== null && regex.test(text) ? 1 : 0
+}
+
+/**
+ * Register custom SQL functions (must happen on every connection)
+ */
+function registerSqlFunctions(): void {
+    if (!db) throw new Error("Database not initialized")
+    db.function("fts_strip_html", { deterministic: true }, (html: string | null) => stripHtmlForIndex(html))
+    db.function("search_regex", { deterministic: true }, matchSearchRegex)
+}
+
+/**
+ * Create the FTS5 full-text index over items.
+ * 
+ * External-content table backed by a view, so the index stores only tokens and
+ * snippet() reads the HTML-stripped content on demand. Triggers keep it in sync;
+ * the update trigger only fires for indexed columns (not for hasRead/starred).
+ */
+function createSearchIndex(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE VIEW IF NOT EXISTS items_fts_source AS
+            SELECT _id, title, snippet, creator, fts_strip_html(content) AS content FROM items
+    `)
+
+    db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
+            title, snippet, creator, content,
+            content = 'items_fts_source',
+            content_rowid = '_id',
+            tokenize = 'unicode61 remove_diacritics 2'
+        )
+    `)
+
+    db.exec(`
+        CREATE TRIGGER IF NOT EXISTS items_fts_ai AFTER INSERT ON items BEGIN
+            INSERT INTO items_fts (rowid, title, snippet, creator, content)
+            VALUES (new._id, new.title, new.snippet, new.creator, fts_strip_html(new.content));
+        END;
+        CREATE TRIGGER IF NOT EXISTS items_fts_ad AFTER DELETE ON items BEGIN
+            INSERT INTO items_fts (items_fts, rowid, title, snippet, creator, content)
+            VALUES ('delete', old._id, old.title, old.snippet, old.creator, fts_strip_html(old.content));
+        END;
+        CREATE TRIGGER IF NOT EXISTS items_fts_au AFTER UPDATE OF title, snippet, creator, content ON items BEGIN
+            INSERT INTO items_fts (items_fts, rowid, title, snippet, creator, content)
+            VALUES ('delete', old._id, old.title, old.snippet, old.creator, fts_strip_html(old.content));
+            INSERT INTO items_fts (rowid, title, snippet, creator, content)
+            VALUES (new._id, new.title, new.snippet, new.creator, fts_strip_html(new.content));
+        END;
+    `)
+}
+
 /**
  * Create database tables if they don't exist
  */
@@ -119,7 +226,9 @@ function createTables(): void {
             persistCookies INTEGER NOT NULL DEFAULT 0,
             translateTo TEXT,
             translationMode INTEGER NOT NULL DEFAULT 0,
-            sortAscending INTEGER NOT NULL DEFAULT 0
+            sortAscending INTEGER NOT NULL DEFAULT 0,
+            archiveOffline INTEGER NOT NULL DEFAULT 0,
+            serviceAccount TEXT
         )
     `)
 
@@ -141,6 +250,10 @@ function createTables(): void {
             hidden INTEGER NOT NULL DEFAULT 0,
             notify INTEGER NOT NULL DEFAULT 0,
             serviceRef TEXT,
+            openTarget INTEGER,
+            lang TEXT,
+            wordCount INTEGER,
+            readingTime INTEGER,
             FOREIGN KEY (source) REFERENCES sources(sid) ON DELETE CASCADE
         )
     `)
@@ -189,6 +302,202 @@ function createTables(): void {
     db.exec(`
         CREATE INDEX IF NOT EXISTS idx_known_peers_roomCode ON p2p_known_peers(roomCode);
     `)
+
+    // Full-text search index (FTS5) over items
+    createSearchIndex()
+
+    // Smart feeds (saved searches shown as virtual feeds in the menu)
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS smart_feeds (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            name TEXT NOT NULL,
+            search TEXT NOT NULL,
+            filterType INTEGER NOT NULL,
+            sids TEXT,
+            createdAt TEXT NOT NULL
+        )
+    `)
+
+    // User-defined tags (many-to-many with items)
+    createTagTables()
+
+    // HTTP validators and fetch health per source
+    createFetchStateTable()
+
+    // Translations that survive restarts
+    createTranslationCacheTable()
+
+    // Articles stored for offline reading
+    createOfflineArchiveTables()
+
+    // How far articles have been read
+    createReadingPositionsTable()
+
+    // Changes waiting to be sent to the sync service
+    createSyncOutboxTable()
+}
+
+/**
+ * Create the tags and item_tags tables. Foreign keys aren't enforced, so a
+ * trigger removes the tag links of deleted items.
+ */
+function createTagTables(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+            createdAt TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS item_tags (
+            itemId INTEGER NOT NULL,
+            tagId INTEGER NOT NULL,
+            PRIMARY KEY (itemId, tagId)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_item_tags_tagId ON item_tags(tagId);
+
+        CREATE TRIGGER IF NOT EXISTS items_tags_ad AFTER DELETE ON items BEGIN
+            DELETE FROM item_tags WHERE itemId = old._id;
+        END;
+    `)
+}
+
+/**
+ * Create the source_fetch_state table, one row per source once it has been
+ * fetched. A trigger removes the row when its source is deleted.
+ */
+function createFetchStateTable(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS source_fetch_state (
+            sid INTEGER PRIMARY KEY,
+            etag TEXT,
+            lastModified TEXT,
+            contentHash TEXT,
+            lastAttempt TEXT,
+            lastSuccess TEXT,
+            consecutiveFailures INTEGER NOT NULL DEFAULT 0,
+            avgLatency REAL,
+            lastError TEXT,
+            nextFetch TEXT,
+            cadence REAL,
+            feedTtl REAL,
+            retryUntil TEXT
+        );
+
+        CREATE TRIGGER IF NOT EXISTS sources_fetch_state_ad AFTER DELETE ON sources BEGIN
+            DELETE FROM source_fetch_state WHERE sid = old.sid;
+        END;
+    `)
+}
+
+/**
+ * Create the translation_cache table. Entries are keyed by a hash of the
+ * original text, so the cache holds translations and not the originals.
+ */
+function createTranslationCacheTable(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS translation_cache (
+            hash TEXT NOT NULL,
+            targetLang TEXT NOT NULL,
+            provider TEXT NOT NULL,
+            translated TEXT NOT NULL,
+            size INTEGER NOT NULL,
+            createdAt TEXT NOT NULL,
+            lastUsed TEXT NOT NULL,
+            PRIMARY KEY (hash, targetLang, provider)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_translation_cache_last_used ON translation_cache(lastUsed);
+    `)
+}
+
+/**
+ * Create the offline archive tables. Article content and images are files
+ * named by their SHA-256 hash, offline_blobs lists them and offline_articles
+ * references them per item. A trigger removes the archived copy of deleted
+ * items, their files are removed by the next cleanup.
+ */
+function createOfflineArchiveTables(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS offline_articles (
+            itemId INTEGER PRIMARY KEY,
+            link TEXT NOT NULL,
+            title TEXT NOT NULL,
+            published TEXT,
+            contentHash TEXT NOT NULL,
+            assets TEXT NOT NULL,
+            size INTEGER NOT NULL,
+            pinned INTEGER NOT NULL DEFAULT 0,
+            createdAt TEXT NOT NULL,
+            lastAccessed TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS offline_blobs (
+            hash TEXT PRIMARY KEY,
+            mime TEXT NOT NULL,
+            size INTEGER NOT NULL
+        );
+
+        CREATE TRIGGER IF NOT EXISTS items_offline_ad AFTER DELETE ON items BEGIN
+            DELETE FROM offline_articles WHERE itemId = old._id;
+        END;
+    `)
+}
+
+/**
+ * Create the reading_positions table: how far each item has been read, and
+ * the element at the top of the view to return to. Removed with the item.
+ */
+function createReadingPositionsTable(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS reading_positions (
+            itemId INTEGER PRIMARY KEY,
+            progress REAL NOT NULL,
+            anchor TEXT,
+            updatedAt TEXT NOT NULL
+        );
+
+        CREATE TRIGGER IF NOT EXISTS items_reading_positions_ad AFTER DELETE ON items BEGIN
+            DELETE FROM reading_positions WHERE itemId = old._id;
+        END;
+    `)
+}
+
+/**
+ * Create the sync_outbox table: read and star changes of service items in the
+ * order they were made, kept until the sync service accepted them.
+ * Not tied to local items, the service only knows them by serviceRef and
+ * the account they belong to.
+ */
+function createSyncOutboxTable(): void {
+    if (!db) throw new Error("Database not initialized")
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_outbox (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            action TEXT NOT NULL,
+            serviceAccount TEXT,
+            serviceRef TEXT,
+            payload TEXT,
+            createdAt TEXT NOT NULL,
+            attempts INTEGER NOT NULL DEFAULT 0,
+            nextAttempt TEXT,
+            lastError TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sync_outbox_serviceRef ON sync_outbox(serviceRef);
+    `)
 }
 
 /**
@@ -289,6 +598,151 @@ function runMigrations(): void {
             }
         }
 
+        // Migration to v8: Build FTS5 index for items created before the index existed
+        if (currentVersion < 8) {
+            console.log("[db-sqlite] Migration v8: Building FTS5 full-text index for items")
+            createSearchIndex()
+            db.exec(`INSERT INTO items_fts (items_fts) VALUES ('rebuild')`)
+        }
+
+        // Migration to v9: Add smart_feeds table for saved searches
+        if (currentVersion < 9) {
+            console.log("[db-sqlite] Migration v9: Adding smart_feeds table")
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS smart_feeds (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    search TEXT NOT NULL,
+                    filterType INTEGER NOT NULL,
+                    sids TEXT,
+                    createdAt TEXT NOT NULL
+                )
+            `)
+        }
+
+        // Migration to v10: Add tags and item_tags tables
+        if (currentVersion < 10) {
+            console.log("[db-sqlite] Migration v10: Adding tags and item_tags tables")
+            createTagTables()
+        }
+
+        // Migration to v11: Add per-item openTarget override (NULL = use the source's setting)
+        if (currentVersion < 11) {
+            console.log("[db-sqlite] Migration v11: Adding openTarget column to items")
+            const tableInfo = db.prepare("PRAGMA table_info(items)").all() as Array<{ name: string }>
+            const columnNames = tableInfo.map(c => c.name)
+            
+            if (!columnNames.includes("openTarget")) {
+                db.exec(`ALTER TABLE items ADD COLUMN openTarget INTEGER`)
+            }
+        }
+
+        // Migration to v12: Add conditional fetch validators and fetch health per source
+        if (currentVersion < 12) {
+            console.log("[db-sqlite] Migration v12: Adding source_fetch_state table")
+            createFetchStateTable()
+        }
+
+        // Migration to v13: Add adaptive fetch schedule to source_fetch_state
+        if (currentVersion < 13) {
+            console.log("[db-sqlite] Migration v13: Adding fetch schedule columns to source_fetch_state")
+            const tableInfo = db.prepare("PRAGMA table_info(source_fetch_state)").all() as Array<{ name: string }>
+            const columnNames = tableInfo.map(c => c.name)
+            
+            if (!columnNames.includes("nextFetch")) {
+                db.exec(`ALTER TABLE source_fetch_state ADD COLUMN nextFetch TEXT`)
+            }
+            if (!columnNames.includes("cadence")) {
+                db.exec(`ALTER TABLE source_fetch_state ADD COLUMN cadence REAL`)
+            }
+            if (!columnNames.includes("feedTtl")) {
+                db.exec(`ALTER TABLE source_fetch_state ADD COLUMN feedTtl REAL`)
+            }
+            if (!columnNames.includes("retryUntil")) {
+                db.exec(`ALTER TABLE source_fetch_state ADD COLUMN retryUntil TEXT`)
+            }
+        }
+
+        // Migration to v14: Add persistent translation cache
+        if (currentVersion < 14) {
+            console.log("[db-sqlite] Migration v14: Adding translation_cache table")
+            createTranslationCacheTable()
+        }
+
+        // Migration to v15: Add detected language per item (NULL = unknown or not detected yet)
+        if (currentVersion < 15) {
+            console.log("[db-sqlite] Migration v15: Adding lang column to items")
+            const tableInfo = db.prepare("PRAGMA table_info(items)").all() as Array<{ name: string }>
+            const columnNames = tableInfo.map(c => c.name)
+            
+            if (!columnNames.includes("lang")) {
+                db.exec(`ALTER TABLE items ADD COLUMN lang TEXT`)
+            }
+        }
+
+        // Migration to v16: Add offline archive tables and the per-source archive option
+        if (currentVersion < 16) {
+            console.log("[db-sqlite] Migration v16: Adding offline archive tables")
+            const tableInfo = db.prepare("PRAGMA table_info(sources)").all() as Array<{ name: string }>
+            const columnNames = tableInfo.map(c => c.name)
+            
+            if (!columnNames.includes("archiveOffline")) {
+                db.exec(`ALTER TABLE sources ADD COLUMN archiveOffline INTEGER NOT NULL DEFAULT 0`)
+            }
+            createOfflineArchiveTables()
+        }
+
+        // Migration to v17: Add reading positions
+        if (currentVersion < 17) {
+            console.log("[db-sqlite] Migration v17: Adding reading_positions table")
+            createReadingPositionsTable()
+        }
+
+        // Migration to v18: Add word count and reading time per item (NULL = not counted yet)
+        if (currentVersion < 18) {
+            console.log("[db-sqlite] Migration v18: Adding wordCount and readingTime columns to items")
+            const tableInfo = db.prepare("PRAGMA table_info(items)").all() as Array<{ name: string }>
+            const columnNames = tableInfo.map(c => c.name)
+            
+            if (!columnNames.includes("wordCount")) {
+                db.exec(`ALTER TABLE items ADD COLUMN wordCount INTEGER`)
+            }
+            if (!columnNames.includes("readingTime")) {
+                db.exec(`ALTER TABLE items ADD COLUMN readingTime INTEGER`)
+            }
+        }
+
+        // Migration to v19: Add the outbox of changes for sync services
+        if (currentVersion < 19) {
+            console.log("[db-sqlite] Migration v19: Adding sync_outbox table")
+            createSyncOutboxTable()
+        }
+
+        // Migration to v20: Tag sources and outbox actions with their sync account.
+        // The single service of older versions becomes the account "default"
+        if (currentVersion < 20) {
+            console.log("[db-sqlite] Migration v20: Adding serviceAccount columns to sources and sync_outbox")
+            const tableInfo = db.prepare("PRAGMA table_info(sources)").all() as Array<{ name: string }>
+            const columnNames = tableInfo.map(c => c.name)
+            
+            if (!columnNames.includes("serviceAccount")) {
+                db.exec(`ALTER TABLE sources ADD COLUMN serviceAccount TEXT`)
+                db.prepare("UPDATE sources SET serviceAccount = 'default' WHERE serviceRef IS NOT NULL AND serviceRef != ?")
+                    .run(P2P_SHARED_SERVICE_REF)
+            }
+            const outboxInfo = db.prepare("PRAGMA table_info(sync_outbox)").all() as Array<{ name: string }>
+            if (!outboxInfo.some(c => c.name === "serviceAccount")) {
+                db.exec(`ALTER TABLE sync_outbox ADD COLUMN serviceAccount TEXT`)
+                db.exec(`UPDATE sync_outbox SET serviceAccount = 'default'`)
+            }
+        }
+
+        // Migration to v21: Count cached translations in UTF-8 bytes instead of characters
+        if (currentVersion < 21) {
+            console.log("[db-sqlite] Migration v21: Recounting translation cache sizes in bytes")
+            db.exec(`UPDATE translation_cache SET size = length(CAST(translated AS BLOB))`)
+        }
+
         // Update schema version
         if (currentVersion === 0) {
             db.prepare("INSERT INTO schema_version (version) VALUES (?)").run(SCHEMA_VERSION)
@@ -337,8 +791,8 @@ export function insertSource(source: Omit<SourceRow, "sid"> & { sid?: number }):
     if (!db) throw new Error("Database not initialized")
     
     const stmt = db.prepare(`
-        INSERT INTO sources (sid, url, iconurl, name, openTarget, defaultZoom, lastFetched, serviceRef, fetchFrequency, rules, textDir, hidden, mobileMode, persistCookies, translateTo, translationMode, sortAscending)
-        VALUES (@sid, @url, @iconurl, @name, @openTarget, @defaultZoom, @lastFetched, @serviceRef, @fetchFrequency, @rules, @textDir, @hidden, @mobileMode, @persistCookies, @translateTo, @translationMode, @sortAscending)
+        INSERT INTO sources (sid, url, iconurl, name, openTarget, defaultZoom, lastFetched, serviceRef, fetchFrequency, rules, textDir, hidden, mobileMode, persistCookies, translateTo, translationMode, sortAscending, archiveOffline, serviceAccount)
+        VALUES (@sid, @url, @iconurl, @name, @openTarget, @defaultZoom, @lastFetched, @serviceRef, @fetchFrequency, @rules, @textDir, @hidden, @mobileMode, @persistCookies, @translateTo, @translationMode, @sortAscending, @archiveOffline, @serviceAccount)
     `)
     
     const result = stmt.run({
@@ -358,7 +812,9 @@ export function insertSource(source: Omit<SourceRow, "sid"> & { sid?: number }):
         persistCookies: source.persistCookies,
         translateTo: source.translateTo ?? null,
         translationMode: source.translationMode ?? 0,
-        sortAscending: source.sortAscending ?? 0
+        sortAscending: source.sortAscending ?? 0,
+        archiveOffline: source.archiveOffline ?? 0,
+        serviceAccount: getSourceAccount(source)
     })
     
     return result.lastInsertRowid as number
@@ -401,8 +857,8 @@ export function bulkInsertSources(sources: SourceRow[]): number[] {
     if (!db) throw new Error("Database not initialized")
     
     const stmt = db.prepare(`
-        INSERT INTO sources (sid, url, iconurl, name, openTarget, defaultZoom, lastFetched, serviceRef, fetchFrequency, rules, textDir, hidden, mobileMode, persistCookies, translateTo, translationMode, sortAscending)
-        VALUES (@sid, @url, @iconurl, @name, @openTarget, @defaultZoom, @lastFetched, @serviceRef, @fetchFrequency, @rules, @textDir, @hidden, @mobileMode, @persistCookies, @translateTo, @translationMode, @sortAscending)
+        INSERT INTO sources (sid, url, iconurl, name, openTarget, defaultZoom, lastFetched, serviceRef, fetchFrequency, rules, textDir, hidden, mobileMode, persistCookies, translateTo, translationMode, sortAscending, archiveOffline, serviceAccount)
+        VALUES (@sid, @url, @iconurl, @name, @openTarget, @defaultZoom, @lastFetched, @serviceRef, @fetchFrequency, @rules, @textDir, @hidden, @mobileMode, @persistCookies, @translateTo, @translationMode, @sortAscending, @archiveOffline, @serviceAccount)
     `)
     
     const insertMany = db.transaction((sources: SourceRow[]) => {
@@ -425,7 +881,9 @@ export function bulkInsertSources(sources: SourceRow[]): number[] {
                 persistCookies: source.persistCookies,
                 translateTo: source.translateTo ?? null,
                 translationMode: source.translationMode ?? 0,
-                sortAscending: source.sortAscending ?? 0
+                sortAscending: source.sortAscending ?? 0,
+                archiveOffline: source.archiveOffline ?? 0,
+                serviceAccount: getSourceAccount(source)
             })
             ids.push(result.lastInsertRowid as number)
         }
@@ -439,9 +897,6 @@ export function bulkInsertSources(sources: SourceRow[]): number[] {
 // P2P SHARED FEED OPERATIONS
 // ============================================
 
-/** ServiceRef value for P2P shared feeds - prevents auto-fetching */
-export const P2P_SHARED_SERVICE_REF = "p2p-shared"
-
 /** Default group name for P2P shared feeds */
 export const P2P_GROUP_NAME = "P2P Geteilt"
 
@@ -512,9 +967,19 @@ export function convertP2PFeedToActive(sid: number): void {
 // ITEM OPERATIONS
 // ============================================
 
+// Tag names of an item as a JSON array, selected alongside items.*
+const ITEM_TAGS_COLUMN = `(
+    SELECT json_group_array(tags.name) FROM item_tags
+    JOIN tags ON tags.id = item_tags.tagId WHERE item_tags.itemId = items._id
+) AS tags`
+
+const ITEM_PROGRESS_COLUMN = `(
+    SELECT progress FROM reading_positions WHERE reading_positions.itemId = items._id
+) AS readingProgress`
+
 export function getItemById(id: number): ItemRow | undefined {
     if (!db) throw new Error("Database not initialized")
-    return db.prepare("SELECT * FROM items WHERE _id = ?").get(id) as ItemRow | undefined
+    return db.prepare(`SELECT items.*, ${ITEM_TAGS_COLUMN}, ${ITEM_PROGRESS_COLUMN} FROM items WHERE _id = ?`).get(id) as ItemRow | undefined
 }
 
 export function getItemsBySource(sourceId: number, limit?: number, offset?: number): ItemRow[] {
@@ -556,8 +1021,8 @@ export function insertItem(item: Omit<ItemRow, "_id">): number {
     if (!db) throw new Error("Database not initialized")
     
     const stmt = db.prepare(`
-        INSERT INTO items (source, title, link, date, fetchedDate, thumb, content, snippet, creator, hasRead, starred, hidden, notify, serviceRef)
-        VALUES (@source, @title, @link, @date, @fetchedDate, @thumb, @content, @snippet, @creator, @hasRead, @starred, @hidden, @notify, @serviceRef)
+        INSERT INTO items (source, title, link, date, fetchedDate, thumb, content, snippet, creator, hasRead, starred, hidden, notify, serviceRef, openTarget, lang, wordCount, readingTime)
+        VALUES (@source, @title, @link, @date, @fetchedDate, @thumb, @content, @snippet, @creator, @hasRead, @starred, @hidden, @notify, @serviceRef, @openTarget, @lang, @wordCount, @readingTime)
     `)
     
     const result = stmt.run({
@@ -574,7 +1039,11 @@ export function insertItem(item: Omit<ItemRow, "_id">): number {
         starred: item.starred,
         hidden: item.hidden,
         notify: item.notify,
-        serviceRef: item.serviceRef ?? null
+        serviceRef: item.serviceRef ?? null,
+        openTarget: item.openTarget ?? null,
+        lang: item.lang ?? null,
+        wordCount: item.wordCount ?? null,
+        readingTime: item.readingTime ?? null
     })
     
     return result.lastInsertRowid as number
@@ -585,8 +1054,8 @@ export function insertItems(items: Omit<ItemRow, "_id">[]): number[] {
     if (items.length === 0) return []
     
     const stmt = db.prepare(`
-        INSERT INTO items (source, title, link, date, fetchedDate, thumb, content, snippet, creator, hasRead, starred, hidden, notify, serviceRef)
-        VALUES (@source, @title, @link, @date, @fetchedDate, @thumb, @content, @snippet, @creator, @hasRead, @starred, @hidden, @notify, @serviceRef)
+        INSERT INTO items (source, title, link, date, fetchedDate, thumb, content, snippet, creator, hasRead, starred, hidden, notify, serviceRef, openTarget, lang, wordCount, readingTime)
+        VALUES (@source, @title, @link, @date, @fetchedDate, @thumb, @content, @snippet, @creator, @hasRead, @starred, @hidden, @notify, @serviceRef, @openTarget, @lang, @wordCount, @readingTime)
     `)
     
     const insertMany = db.transaction((items: Omit<ItemRow, "_id">[]) => {
@@ -606,7 +1075,11 @@ export function insertItems(items: Omit<ItemRow, "_id">[]): number[] {
                 starred: item.starred,
                 hidden: item.hidden,
                 notify: item.notify,
-                serviceRef: item.serviceRef ?? null
+                serviceRef: item.serviceRef ?? null,
+                openTarget: item.openTarget ?? null,
+                lang: item.lang ?? null,
+                wordCount: item.wordCount ?? null,
+                readingTime: item.readingTime ?? null
             })
             ids.push(result.lastInsertRowid as number)
         }
@@ -628,6 +1101,19 @@ export function updateItem(id: number, updates: Partial<ItemRow>): void {
     stmt.run({ ...updates, _id: id })
 }
 
+/**
+ * Store the word count and reading time of an item, e.g. after its full
+ * content was extracted. Returns whether they changed.
+ */
+export function setItemReadingStats(itemId: number, stats: ReadingStats): boolean {
+    if (!db) throw new Error("Database not initialized")
+    const result = db.prepare(`
+        UPDATE items SET wordCount = ?, readingTime = ?
+        WHERE _id = ? AND (wordCount IS NOT ? OR readingTime IS NOT ?)
+    `).run(stats.wordCount, stats.readingTime, itemId, stats.wordCount, stats.readingTime)
+    return result.changes > 0
+}
+
 export function deleteItem(id: number): void {
     if (!db) throw new Error("Database not initialized")
     db.prepare("DELETE FROM items WHERE _id = ?").run(id)
@@ -653,8 +1139,8 @@ export function bulkInsertItems(items: ItemRow[]): number[] {
     if (items.length === 0) return []
     
     const stmt = db.prepare(`
-        INSERT INTO items (_id, source, title, link, date, fetchedDate, thumb, content, snippet, creator, hasRead, starred, hidden, notify, serviceRef)
-        VALUES (@_id, @source, @title, @link, @date, @fetchedDate, @thumb, @content, @snippet, @creator, @hasRead, @starred, @hidden, @notify, @serviceRef)
+        INSERT INTO items (_id, source, title, link, date, fetchedDate, thumb, content, snippet, creator, hasRead, starred, hidden, notify, serviceRef, openTarget, lang, wordCount, readingTime)
+        VALUES (@_id, @source, @title, @link, @date, @fetchedDate, @thumb, @content, @snippet, @creator, @hasRead, @starred, @hidden, @notify, @serviceRef, @openTarget, @lang, @wordCount, @readingTime)
     `)
     
     const insertMany = db.transaction((items: ItemRow[]) => {
@@ -675,7 +1161,11 @@ export function bulkInsertItems(items: ItemRow[]): number[] {
                 starred: item.starred,
                 hidden: item.hidden,
                 notify: item.notify,
-                serviceRef: item.serviceRef ?? null
+                serviceRef: item.serviceRef ?? null,
+                openTarget: item.openTarget ?? null,
+                lang: item.lang ?? null,
+                wordCount: item.wordCount ?? null,
+                readingTime: item.readingTime ?? null
             })
             ids.push(result.lastInsertRowid as number)
         }
@@ -685,6 +1175,50 @@ export function bulkInsertItems(items: ItemRow[]): number[] {
     return insertMany(items)
 }
 
+/**
+ * Changes computed for one stored item, e.g. by applying rules retroactively.
+ * Omitted fields stay untouched; tags are only ever added.
+ */
+export interface ItemChange {
+    _id: number
+    hasRead?: number
+    starred?: number
+    hidden?: number
+    openTarget?: number | null
+    addTags?: string[]
+}
+
+const ITEM_CHANGE_BATCH_SIZE = 500
+
+/**
+ * Apply item changes in batches, one transaction per batch. Yields to the
+ * event loop between batches so the main process stays responsive.
+ * Returns the number of items that were updated.
+ */
+export async function applyItemChanges(
+    changes: ItemChange[],
+    onProgress?: (done: number, total: number) => void
+): Promise<number> {
+    if (!db) throw new Error("Database not initialized")
+    
+    const applyBatch = db.transaction((batch: ItemChange[]) => {
+        for (const change of batch) {
+            const { _id, addTags, ...updates } = change
+            updateItem(_id, updates)
+            for (const tag of addTags || []) addItemTag(_id, tag)
+        }
+    })
+    
+    for (let i = 0; i < changes.length; i += ITEM_CHANGE_BATCH_SIZE) {
+        applyBatch(changes.slice(i, i + ITEM_CHANGE_BATCH_SIZE))
+        const done = Math.min(i + ITEM_CHANGE_BATCH_SIZE, changes.length)
+        onProgress?.(done, changes.length)
+        await new Promise(resolve => setImmediate(resolve))
+    }
+    console.log(`[db-sqlite] Applied changes to ${changes.length} items`)
+    return changes.length
+}
+
 export function markItemRead(id: number, hasRead: boolean = true): void {
     if (!db) throw new Error("Database not initialized")
     db.prepare("UPDATE items SET hasRead = ? WHERE _id = ?").run(hasRead ? 1 : 0, id)
@@ -785,58 +1319,177 @@ export function findArticleByLink(link: string): { articleId: number, sourceId:
 export interface ItemQueryOptions {
     sourceIds?: number[]
     unreadOnly?: boolean
+    readOnly?: boolean
     starredOnly?: boolean
     hiddenOnly?: boolean
     searchTerm?: string
+    searchMode?: SearchMode
+    searchRegex?: boolean  // searchTerm is a regular expression, matched without the FTS index
+    caseInsensitive?: boolean  // Only for regex searches, plain searches always ignore case
     hasServiceRef?: boolean
+    serviceAccount?: string  // Only items of sources of this sync account
+    tags?: string[]
+    inProgress?: boolean  // Only items read partway, for "continue reading"
+    maxReadingTime?: number  // Only items counted and read in at most this many minutes
+    fetchedAfter?: string  // ISO date strings, both exclusive
+    fetchedBefore?: string
     limit?: number
     offset?: number
-    orderBy?: "date" | "fetchedDate"
+    orderBy?: "date" | "fetchedDate" | "relevance" | "readingTime"
     orderDir?: "ASC" | "DESC"
 }
 
-export function queryItems(options: ItemQueryOptions = {}): ItemRow[] {
-    if (!db) throw new Error("Database not initialized")
-    
+/**
+ * Which indexed columns a search term is matched against
+ * - title: title only (default)
+ * - full: title, snippet and content
+ * - creator: author only
+ */
+export type SearchMode = "title" | "full" | "creator"
+
+const SEARCH_MODE_COLUMNS: Record<SearchMode, string> = {
+    title: "{title}",
+    full: "{title snippet content}",
+    creator: "{creator}",
+}
+
+// Columns a regex search is tested against
+const REGEX_SEARCH_COLUMNS: Record<SearchMode, string[]> = {
+    title: ["items.title"],
+    full: ["items.title", "items.snippet", "items.content"],
+    creator: ["items.creator"],
+}
+
+/**
+ * Build an FTS5 MATCH expression from free user input.
+ * Every word becomes a quoted prefix term, so FTS syntax characters in the
+ * input can't break the query. Returns null if the input has no words.
+ */
+function buildFtsQuery(term: string, mode: SearchMode): string | null {
+    const words = term.match(/[\p{L}\p{N}_]+/gu)
+    if (!words) return null
+    const terms = words.map(w => `"${w}"*`).join(" ")
+    return `${SEARCH_MODE_COLUMNS[mode]} : (${terms})`
+}
+
+/**
+ * Build FROM/WHERE clauses shared by queryItems and countItems
+ */
+function buildItemQuery(options: ItemQueryOptions): { from: string; where: string; params: any[]; ftsQuery: string | null } {
     const conditions: string[] = []
     const params: any[] = []
     
+    const mode = options.searchMode || "title"
+    // The words of a regex aren't the words it matches, e.g. "d" for \d+
+    const ftsQuery = options.searchTerm && !options.searchRegex
+        ? buildFtsQuery(options.searchTerm, mode)
+        : null
+    if (options.searchTerm && options.searchRegex) {
+        const flags = options.caseInsensitive ? "i" : ""
+        const tests = REGEX_SEARCH_COLUMNS[mode].map(column => `search_regex(?, ?, ${column})`)
+        conditions.push(`(${tests.join(" OR ")})`)
+        for (const _ of tests) params.push(options.searchTerm, flags)
+    } else if (ftsQuery) {
+        conditions.push("items_fts MATCH ?")
+        params.push(ftsQuery)
+    } else if (options.searchTerm) {
+        // No indexable words (e.g. only punctuation) - fall back to substring match
+        conditions.push("(items.title LIKE ? OR items.snippet LIKE ?)")
+        const term = `%${options.searchTerm}%`
+        params.push(term, term)
+    }
+    
     if (options.sourceIds && options.sourceIds.length > 0) {
         const placeholders = options.sourceIds.map(() => "?").join(",")
-        conditions.push(`source IN (${placeholders})`)
+        conditions.push(`items.source IN (${placeholders})`)
         params.push(...options.sourceIds)
     }
     
     if (options.unreadOnly) {
-        conditions.push("hasRead = 0")
+        conditions.push("items.hasRead = 0")
+    }
+    
+    if (options.readOnly) {
+        conditions.push("items.hasRead = 1")
     }
     
     if (options.starredOnly) {
-        conditions.push("starred = 1")
+        conditions.push("items.starred = 1")
     }
     
     if (options.hiddenOnly !== undefined) {
-        conditions.push(`hidden = ${options.hiddenOnly ? 1 : 0}`)
+        conditions.push(`items.hidden = ${options.hiddenOnly ? 1 : 0}`)
     }
     
-    if (options.searchTerm) {
-        conditions.push("(title LIKE ? OR snippet LIKE ?)")
-        const term = `%${options.searchTerm}%`
-        params.push(term, term)
+    if (options.hasServiceRef) {
+        conditions.push("items.serviceRef IS NOT NULL")
     }
     
-    if (options.hasServiceRef) {
-        conditions.push("serviceRef IS NOT NULL")
+    if (options.serviceAccount) {
+        conditions.push("items.source IN (SELECT sid FROM sources WHERE serviceAccount = ?)")
+        params.push(options.serviceAccount)
     }
     
-    let query = "SELECT * FROM items"
-    if (conditions.length > 0) {
-        query += " WHERE " + conditions.join(" AND ")
+    // Items must carry every requested tag
+    for (const tag of options.tags || []) {
+        conditions.push(`items._id IN (
+            SELECT item_tags.itemId FROM item_tags
+            JOIN tags ON tags.id = item_tags.tagId WHERE tags.name = ?
+        )`)
+        params.push(tag)
+    }
+    
+    if (options.inProgress) {
+        conditions.push(`items._id IN (
+            SELECT itemId FROM reading_positions WHERE progress >= ? AND progress < ?
+        )`)
+        params.push(READING_STARTED, READING_FINISHED)
+    }
+    
+    if (options.maxReadingTime !== undefined) {
+        conditions.push("items.readingTime IS NOT NULL AND items.readingTime <= ?")
+        params.push(options.maxReadingTime)
     }
     
-    const orderBy = options.orderBy || "date"
+    if (options.fetchedAfter) {
+        conditions.push("items.fetchedDate > ?")
+        params.push(options.fetchedAfter)
+    }
+    
+    if (options.fetchedBefore) {
+        conditions.push("items.fetchedDate < ?")
+        params.push(options.fetchedBefore)
+    }
+    
+    const from = ftsQuery
+        ? "FROM items_fts JOIN items ON items._id = items_fts.rowid"
+        : "FROM items"
+    const where = conditions.length > 0 ? " WHERE " + conditions.join(" AND ") : ""
+    return { from, where, params, ftsQuery }
+}
+
+export function queryItems(options: ItemQueryOptions = {}): ItemRow[] {
+    if (!db) throw new Error("Database not initialized")
+    
+    const { from, where, params, ftsQuery } = buildItemQuery(options)
+    
+    // Snippet only makes sense when the match can be in the body text
+    const snippetColumn = ftsQuery && options.searchMode === "full"
+        ? `, snippet(items_fts, -1, '', '', '…', 32) AS searchSnippet`
+        : ""
+    let query = `SELECT items.*, ${ITEM_TAGS_COLUMN}, ${ITEM_PROGRESS_COLUMN}${snippetColumn} ${from}${where}`
+    
     const orderDir = options.orderDir || "DESC"
-    query += ` ORDER BY ${orderBy} ${orderDir}`
+    if (options.orderBy === "relevance" && ftsQuery) {
+        // bm25() is lower for better matches; ties broken by date
+        query += ` ORDER BY bm25(items_fts) ASC, items.date DESC`
+    } else if (options.orderBy === "readingTime") {
+        // Shortest first, items not counted yet last; ties keep the date order
+        query += ` ORDER BY items.readingTime IS NULL, items.readingTime ASC, items.date ${orderDir}`
+    } else {
+        const orderBy = options.orderBy === "fetchedDate" ? "fetchedDate" : "date"
+        query += ` ORDER BY items.${orderBy} ${orderDir}`
+    }
     
     if (options.limit) {
         query += ` LIMIT ${options.limit}`
@@ -848,25 +1501,583 @@ export function queryItems(options: ItemQueryOptions = {}): ItemRow[] {
     return db.prepare(query).all(...params) as ItemRow[]
 }
 
+/**
+ * Count items matching the same options as queryItems (limit/offset/order are ignored)
+ */
+export function countItems(options: ItemQueryOptions = {}): number {
+    if (!db) throw new Error("Database not initialized")
+    
+    const { from, where, params } = buildItemQuery(options)
+    const row = db.prepare(`SELECT COUNT(*) as count ${from}${where}`).get(...params) as { count: number }
+    return row.count
+}
+
 // ============================================
-// P2P PENDING SHARES OPERATIONS
+// TAG OPERATIONS
 // ============================================
 
-export interface PendingShareRow {
+export interface TagRow {
     id: number
-    peerId: string
-    peerName: string
-    url: string
-    title: string
-    feedName: string | null
-    feedUrl: string | null
-    feedIconUrl: string | null
+    name: string
     createdAt: string
-    attempts: number
-    lastAttempt: string | null
+    itemCount: number
+    unreadCount: number
 }
 
-/**
+export interface ItemTagRow {
+    itemId: number
+    tag: string
+}
+
+export function getAllTags(): TagRow[] {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare(`
+        SELECT tags.*,
+            COUNT(items._id) as itemCount,
+            COALESCE(SUM(items.hasRead = 0 AND items.hidden = 0), 0) as unreadCount
+        FROM tags
+        LEFT JOIN item_tags ON item_tags.tagId = tags.id
+        LEFT JOIN items ON items._id = item_tags.itemId
+        GROUP BY tags.id
+        ORDER BY tags.name COLLATE NOCASE ASC
+    `).all() as TagRow[]
+}
+
+export function getItemTags(itemId: number): string[] {
+    if (!db) throw new Error("Database not initialized")
+    const rows = db.prepare(`
+        SELECT tags.name FROM item_tags
+        JOIN tags ON tags.id = item_tags.tagId
+        WHERE item_tags.itemId = ?
+        ORDER BY tags.name COLLATE NOCASE ASC
+    `).all(itemId) as { name: string }[]
+    return rows.map(r => r.name)
+}
+
+/**
+ * Tag an item, creating the tag if needed. Returns the item's tags.
+ */
+export function addItemTag(itemId: number, name: string): string[] {
+    if (!db) throw new Error("Database not initialized")
+    
+    const tag = name.trim()
+    if (!tag) return getItemTags(itemId)
+    
+    db.transaction(() => {
+        db!.prepare("INSERT OR IGNORE INTO tags (name, createdAt) VALUES (?, ?)")
+            .run(tag, new Date().toISOString())
+        db!.prepare(`
+            INSERT OR IGNORE INTO item_tags (itemId, tagId)
+            SELECT ?, id FROM tags WHERE name = ?
+        `).run(itemId, tag)
+    })()
+    return getItemTags(itemId)
+}
+
+/**
+ * Remove a tag from an item. Returns the item's remaining tags.
+ */
+export function removeItemTag(itemId: number, name: string): string[] {
+    if (!db) throw new Error("Database not initialized")
+    
+    db.prepare(`
+        DELETE FROM item_tags
+        WHERE itemId = ? AND tagId IN (SELECT id FROM tags WHERE name = ?)
+    `).run(itemId, name)
+    return getItemTags(itemId)
+}
+
+/**
+ * Rename a tag. Renaming to the name of another tag (in any case) merges
+ * the tag into that one.
+ */
+export function renameTag(id: number, name: string): void {
+    if (!db) throw new Error("Database not initialized")
+    
+    const tag = name.trim()
+    if (!tag) return
+    
+    db.transaction(() => {
+        const existing = db!.prepare("SELECT id FROM tags WHERE name = ? AND id != ?")
+            .get(tag, id) as { id: number } | undefined
+        if (existing) {
+            db!.prepare(`
+                INSERT OR IGNORE INTO item_tags (itemId, tagId)
+                SELECT itemId, ? FROM item_tags WHERE tagId = ?
+            `).run(existing.id, id)
+            db!.prepare("DELETE FROM item_tags WHERE tagId = ?").run(id)
+            db!.prepare("DELETE FROM tags WHERE id = ?").run(id)
+        } else {
+            db!.prepare("UPDATE tags SET name = ? WHERE id = ?").run(tag, id)
+        }
+    })()
+}
+
+export function deleteTag(id: number): void {
+    if (!db) throw new Error("Database not initialized")
+    
+    db.transaction(() => {
+        db!.prepare("DELETE FROM item_tags WHERE tagId = ?").run(id)
+        db!.prepare("DELETE FROM tags WHERE id = ?").run(id)
+    })()
+}
+
+export function getAllItemTags(): ItemTagRow[] {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare(`
+        SELECT item_tags.itemId, tags.name as tag FROM item_tags
+        JOIN tags ON tags.id = item_tags.tagId
+    `).all() as ItemTagRow[]
+}
+
+export function bulkInsertItemTags(rows: ItemTagRow[]): void {
+    if (!db) throw new Error("Database not initialized")
+    
+    const insertTag = db.prepare("INSERT OR IGNORE INTO tags (name, createdAt) VALUES (?, ?)")
+    const linkTag = db.prepare(`
+        INSERT OR IGNORE INTO item_tags (itemId, tagId)
+        SELECT ?, id FROM tags WHERE name = ?
+    `)
+    const insertMany = db.transaction((rows: ItemTagRow[]) => {
+        const now = new Date().toISOString()
+        for (const row of rows) {
+            insertTag.run(row.tag, now)
+            linkTag.run(row.itemId, row.tag)
+        }
+    })
+    insertMany(rows)
+}
+
+export function deleteAllTags(): void {
+    if (!db) throw new Error("Database not initialized")
+    db.exec(`
+        DELETE FROM item_tags;
+        DELETE FROM tags;
+    `)
+}
+
+// ============================================
+// SMART FEED OPERATIONS
+// ============================================
+
+export interface SmartFeedRow {
+    id: number
+    name: string
+    search: string
+    filterType: number
+    sids: string | null  // JSON array of source ids, null = all sources
+    createdAt: string
+}
+
+export function getAllSmartFeeds(): SmartFeedRow[] {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT * FROM smart_feeds ORDER BY id ASC").all() as SmartFeedRow[]
+}
+
+export function insertSmartFeed(feed: Omit<SmartFeedRow, "id" | "createdAt">): number {
+    if (!db) throw new Error("Database not initialized")
+    
+    const result = db.prepare(`
+        INSERT INTO smart_feeds (name, search, filterType, sids, createdAt)
+        VALUES (@name, @search, @filterType, @sids, @createdAt)
+    `).run({
+        name: feed.name,
+        search: feed.search,
+        filterType: feed.filterType,
+        sids: feed.sids ?? null,
+        createdAt: new Date().toISOString()
+    })
+    
+    return result.lastInsertRowid as number
+}
+
+// Columns a smart feed update may set, the keys come over IPC
+const SMART_FEED_UPDATE_COLUMNS = new Set(["name", "search", "filterType", "sids"])
+
+export function updateSmartFeed(id: number, updates: Partial<SmartFeedRow>): void {
+    if (!db) throw new Error("Database not initialized")
+    
+    const fields = Object.keys(updates)
+    const invalid = fields.filter(k => !SMART_FEED_UPDATE_COLUMNS.has(k))
+    if (invalid.length > 0) throw new Error(`Invalid smart feed fields: ${invalid.join(", ")}`)
+    if (fields.length === 0) return
+    
+    const setClause = fields.map(f => `${f} = @${f}`).join(", ")
+    db.prepare(`UPDATE smart_feeds SET ${setClause} WHERE id = @id`).run({ ...updates, id })
+}
+
+export function deleteSmartFeed(id: number): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare("DELETE FROM smart_feeds WHERE id = ?").run(id)
+}
+
+export function bulkInsertSmartFeeds(feeds: SmartFeedRow[]): void {
+    if (!db) throw new Error("Database not initialized")
+    
+    const stmt = db.prepare(`
+        INSERT INTO smart_feeds (id, name, search, filterType, sids, createdAt)
+        VALUES (@id, @name, @search, @filterType, @sids, @createdAt)
+    `)
+    const insertMany = db.transaction((feeds: SmartFeedRow[]) => {
+        for (const feed of feeds) {
+            stmt.run({
+                id: feed.id ?? null,
+                name: feed.name,
+                search: feed.search,
+                filterType: feed.filterType,
+                sids: feed.sids ?? null,
+                createdAt: feed.createdAt ?? new Date().toISOString()
+            })
+        }
+    })
+    insertMany(feeds)
+}
+
+export function deleteAllSmartFeeds(): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare("DELETE FROM smart_feeds").run()
+}
+
+// ============================================
+// SOURCE FETCH STATE OPERATIONS
+// ============================================
+
+/**
+ * HTTP validators of the last successful fetch and fetch health of a source
+ */
+export interface SourceFetchStateRow {
+    sid: number
+    etag: string | null
+    lastModified: string | null
+    contentHash: string | null
+    lastAttempt: string | null
+    lastSuccess: string | null
+    consecutiveFailures: number
+    avgLatency: number | null  // Moving average in milliseconds
+    lastError: string | null
+    nextFetch: string | null
+    cadence: number | null  // Typical minutes between new items
+    feedTtl: number | null  // Minutes from <ttl> or sy:updatePeriod
+    retryUntil: string | null  // From a Retry-After header
+}
+
+export interface FetchResult {
+    ok: boolean
+    latency: number  // Milliseconds
+    notModified?: boolean  // 304 or unchanged content
+    etag?: string | null
+    lastModified?: string | null
+    contentHash?: string | null
+    error?: string
+    nextFetch: string
+    cadence?: number | null  // Kept from the last fetch when undefined
+    feedTtl?: number | null  // Kept from the last fetch when undefined
+    retryUntil?: string | null
+}
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.2
+
+export function getSourceFetchState(sid: number): SourceFetchStateRow | undefined {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT * FROM source_fetch_state WHERE sid = ?").get(sid) as SourceFetchStateRow | undefined
+}
+
+export function getAllSourceFetchStates(): SourceFetchStateRow[] {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT * FROM source_fetch_state").all() as SourceFetchStateRow[]
+}
+
+/**
+ * Record the outcome of a fetch. Validators are only replaced by a fetch
+ * that returned new content; failures keep them for the next attempt.
+ */
+export function recordFetchResult(sid: number, result: FetchResult): void {
+    if (!db) throw new Error("Database not initialized")
+    
+    const prev = getSourceFetchState(sid)
+    const now = new Date().toISOString()
+    const keepValidators = !result.ok
+    const row: SourceFetchStateRow = {
+        sid: sid,
+        etag: keepValidators ? prev?.etag ?? null : result.etag ?? null,
+        lastModified: keepValidators ? prev?.lastModified ?? null : result.lastModified ?? null,
+        contentHash: keepValidators ? prev?.contentHash ?? null : result.contentHash ?? null,
+        lastAttempt: now,
+        lastSuccess: result.ok ? now : prev?.lastSuccess ?? null,
+        consecutiveFailures: result.ok ? 0 : (prev?.consecutiveFailures ?? 0) + 1,
+        avgLatency: prev?.avgLatency == null
+            ? result.latency
+            : prev.avgLatency * (1 - LATENCY_SMOOTHING) + result.latency * LATENCY_SMOOTHING,
+        lastError: result.ok ? null : result.error ?? null,
+        nextFetch: result.nextFetch,
+        cadence: result.cadence !== undefined ? result.cadence : prev?.cadence ?? null,
+        feedTtl: result.feedTtl !== undefined ? result.feedTtl : prev?.feedTtl ?? null,
+        retryUntil: result.retryUntil ?? null,
+    }
+    db.prepare(`
+        INSERT OR REPLACE INTO source_fetch_state
+            (sid, etag, lastModified, contentHash, lastAttempt, lastSuccess, consecutiveFailures, avgLatency, lastError, nextFetch, cadence, feedTtl, retryUntil)
+        VALUES
+            (@sid, @etag, @lastModified, @contentHash, @lastAttempt, @lastSuccess, @consecutiveFailures, @avgLatency, @lastError, @nextFetch, @cadence, @feedTtl, @retryUntil)
+    `).run(row)
+}
+
+export interface FetchValidators {
+    etag: string | null
+    lastModified: string | null
+    contentHash: string | null
+}
+
+/**
+ * Store the validators of a download once its new items are stored, so the
+ * items aren't skipped as unchanged if storing them fails
+ */
+export function saveFetchValidators(sid: number, validators: FetchValidators): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare(`
+        UPDATE source_fetch_state SET etag = ?, lastModified = ?, contentHash = ? WHERE sid = ?
+    `).run(validators.etag, validators.lastModified, validators.contentHash, sid)
+}
+
+/**
+ * Forget the validators of a source so the next fetch downloads it in full
+ */
+export function resetFetchValidators(sid: number): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare(`
+        UPDATE source_fetch_state SET etag = NULL, lastModified = NULL, contentHash = NULL WHERE sid = ?
+    `).run(sid)
+}
+
+// ============================================
+// TRANSLATION CACHE OPERATIONS
+// ============================================
+
+export interface TranslationCacheStats {
+    entries: number
+    bytes: number  // UTF-8 bytes of all cached translations
+}
+
+/**
+ * Look up a cached translation and mark it as recently used
+ */
+export function getCachedTranslation(hash: string, targetLang: string, provider: string): string | null {
+    if (!db) throw new Error("Database not initialized")
+    const row = db.prepare(`
+        SELECT translated FROM translation_cache WHERE hash = ? AND targetLang = ? AND provider = ?
+    `).get(hash, targetLang, provider) as { translated: string } | undefined
+    if (!row) return null
+    db.prepare(`
+        UPDATE translation_cache SET lastUsed = ? WHERE hash = ? AND targetLang = ? AND provider = ?
+    `).run(new Date().toISOString(), hash, targetLang, provider)
+    return row.translated
+}
+
+export function putCachedTranslation(hash: string, targetLang: string, provider: string, translated: string): void {
+    if (!db) throw new Error("Database not initialized")
+    const now = new Date().toISOString()
+    db.prepare(`
+        INSERT OR REPLACE INTO translation_cache (hash, targetLang, provider, translated, size, createdAt, lastUsed)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(hash, targetLang, provider, translated, Buffer.byteLength(translated, "utf8"), now, now)
+}
+
+/**
+ * Delete the least recently used translations until the cache is within
+ * both limits, sizes in UTF-8 bytes. Returns the number of deleted entries.
+ */
+export function evictTranslationCache(maxEntries: number, maxBytes: number): number {
+    if (!db) throw new Error("Database not initialized")
+    const result = db.prepare(`
+        DELETE FROM translation_cache WHERE rowid IN (
+            SELECT rowid FROM (
+                SELECT rowid,
+                    ROW_NUMBER() OVER (ORDER BY lastUsed DESC) AS position,
+                    SUM(size) OVER (ORDER BY lastUsed DESC ROWS UNBOUNDED PRECEDING) AS total
+                FROM translation_cache
+            ) WHERE position > ? OR total > ?
+        )
+    `).run(maxEntries, maxBytes)
+    return result.changes
+}
+
+export function getTranslationCacheStats(): TranslationCacheStats {
+    if (!db) throw new Error("Database not initialized")
+    const row = db.prepare(`
+        SELECT COUNT(*) AS entries, COALESCE(SUM(size), 0) AS bytes FROM translation_cache
+    `).get() as TranslationCacheStats
+    return row
+}
+
+export function clearCachedTranslations(): void {
+    if (!db) throw new Error("Database not initialized")
+    db.exec("DELETE FROM translation_cache")
+}
+
+// ============================================
+// OFFLINE ARCHIVE OPERATIONS
+// ============================================
+
+export interface OfflineArticleRow {
+    itemId: number
+    link: string
+    title: string
+    published: string | null
+    contentHash: string
+    assets: string  // JSON array of blob hashes
+    size: number  // Bytes of the content and all of its assets
+    pinned: number  // SQLite boolean (0/1) - archived by hand, evicted last
+    createdAt: string
+    lastAccessed: string
+}
+
+export interface OfflineBlobRow {
+    hash: string
+    mime: string
+    size: number
+}
+
+export interface OfflineArchiveStats {
+    articles: number
+    bytes: number  // Bytes of all stored files
+}
+
+export function getOfflineArticle(itemId: number): OfflineArticleRow | undefined {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT * FROM offline_articles WHERE itemId = ?").get(itemId) as OfflineArticleRow | undefined
+}
+
+export function hasOfflineArticle(itemId: number): boolean {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT 1 FROM offline_articles WHERE itemId = ?").get(itemId) !== undefined
+}
+
+export function touchOfflineArticle(itemId: number): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare("UPDATE offline_articles SET lastAccessed = ? WHERE itemId = ?").run(new Date().toISOString(), itemId)
+}
+
+export function putOfflineArticle(row: OfflineArticleRow): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare(`
+        INSERT OR REPLACE INTO offline_articles (itemId, link, title, published, contentHash, assets, size, pinned, createdAt, lastAccessed)
+        VALUES (@itemId, @link, @title, @published, @contentHash, @assets, @size, @pinned, @createdAt, @lastAccessed)
+    `).run(row)
+}
+
+export function deleteOfflineArticle(itemId: number): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare("DELETE FROM offline_articles WHERE itemId = ?").run(itemId)
+}
+
+export function deleteAllOfflineArticles(): void {
+    if (!db) throw new Error("Database not initialized")
+    db.exec("DELETE FROM offline_articles")
+}
+
+export function getOfflineBlob(hash: string): OfflineBlobRow | undefined {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT * FROM offline_blobs WHERE hash = ?").get(hash) as OfflineBlobRow | undefined
+}
+
+export function putOfflineBlob(hash: string, mime: string, size: number): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare("INSERT OR IGNORE INTO offline_blobs (hash, mime, size) VALUES (?, ?, ?)").run(hash, mime, size)
+}
+
+/**
+ * Files no archived article refers to anymore
+ */
+export function getUnreferencedOfflineBlobs(): string[] {
+    if (!db) throw new Error("Database not initialized")
+    const rows = db.prepare(`
+        SELECT hash FROM offline_blobs
+        WHERE hash NOT IN (SELECT contentHash FROM offline_articles)
+        AND hash NOT IN (SELECT value FROM offline_articles, json_each(offline_articles.assets))
+    `).all() as { hash: string }[]
+    return rows.map(r => r.hash)
+}
+
+export function deleteOfflineBlobs(hashes: string[]): void {
+    if (!db) throw new Error("Database not initialized")
+    const stmt = db.prepare("DELETE FROM offline_blobs WHERE hash = ?")
+    db.transaction((hashes: string[]) => {
+        for (const hash of hashes) stmt.run(hash)
+    })(hashes)
+}
+
+/**
+ * Archived items in the order they are evicted: automatically archived
+ * ones first, then the least recently read
+ */
+export function getOfflineEvictionOrder(): number[] {
+    if (!db) throw new Error("Database not initialized")
+    const rows = db.prepare(`
+        SELECT itemId FROM offline_articles ORDER BY pinned ASC, lastAccessed ASC
+    `).all() as { itemId: number }[]
+    return rows.map(r => r.itemId)
+}
+
+/**
+ * Newest items of sources archived for offline reading without a copy yet
+ */
+export function getItemsToArchive(limit: number): ItemRow[] {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare(`
+        SELECT items.* FROM items JOIN sources ON items.source = sources.sid
+        WHERE sources.archiveOffline = 1
+        AND items._id NOT IN (SELECT itemId FROM offline_articles)
+        ORDER BY items.date DESC LIMIT ?
+    `).all(limit) as ItemRow[]
+}
+
+export function getOfflineArchiveStats(): OfflineArchiveStats {
+    if (!db) throw new Error("Database not initialized")
+    const articles = (db.prepare("SELECT COUNT(*) AS count FROM offline_articles").get() as { count: number }).count
+    const bytes = (db.prepare("SELECT COALESCE(SUM(size), 0) AS bytes FROM offline_blobs").get() as { bytes: number }).bytes
+    return { articles, bytes }
+}
+
+// ============================================
+// READING POSITION OPERATIONS
+// ============================================
+
+export function getReadingPosition(itemId: number): ReadingPosition | undefined {
+    if (!db) throw new Error("Database not initialized")
+    const row = db.prepare("SELECT progress, anchor FROM reading_positions WHERE itemId = ?").get(itemId) as
+        { progress: number; anchor: string | null } | undefined
+    if (!row) return undefined
+    return { progress: row.progress, anchor: row.anchor ? JSON.parse(row.anchor) : undefined }
+}
+
+export function setReadingPosition(itemId: number, position: ReadingPosition): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare(`
+        INSERT OR REPLACE INTO reading_positions (itemId, progress, anchor, updatedAt)
+        VALUES (?, ?, ?, ?)
+    `).run(itemId, position.progress, position.anchor ? JSON.stringify(position.anchor) : null, new Date().toISOString())
+}
+
+// ============================================
+// P2P PENDING SHARES OPERATIONS
+// ============================================
+
+export interface PendingShareRow {
+    id: number
+    peerId: string
+    peerName: string
+    url: string
+    title: string
+    feedName: string | null
+    feedUrl: string | null
+    feedIconUrl: string | null
+    createdAt: string
+    attempts: number
+    lastAttempt: string | null
+}
+
+/**
  * Add a pending share to the queue
  */
 export function addPendingShare(
@@ -1157,28 +2368,31 @@ export function getUnreadServiceRefs(sourceIds: number[], beforeDate?: string, a
     return rows.map(r => r.serviceRef)
 }
 
+// serviceRefs are only unique within the sync account of the item's source
+const SERVICE_ITEM_CONDITION = "serviceRef = ? AND source IN (SELECT sid FROM sources WHERE serviceAccount = ?)"
+
 /**
  * Mark items as read by their serviceRef
  */
-export function markReadByServiceRef(serviceRef: string): void {
+export function markReadByServiceRef(serviceAccount: string, serviceRef: string): void {
     if (!db) throw new Error("Database not initialized")
-    db.prepare("UPDATE items SET hasRead = 1 WHERE serviceRef = ?").run(serviceRef)
+    db.prepare(`UPDATE items SET hasRead = 1 WHERE ${SERVICE_ITEM_CONDITION}`).run(serviceRef, serviceAccount)
 }
 
 /**
  * Mark items as unread by their serviceRef
  */
-export function markUnreadByServiceRef(serviceRef: string): void {
+export function markUnreadByServiceRef(serviceAccount: string, serviceRef: string): void {
     if (!db) throw new Error("Database not initialized")
-    db.prepare("UPDATE items SET hasRead = 0 WHERE serviceRef = ?").run(serviceRef)
+    db.prepare(`UPDATE items SET hasRead = 0 WHERE ${SERVICE_ITEM_CONDITION}`).run(serviceRef, serviceAccount)
 }
 
 /**
  * Set starred status by serviceRef
  */
-export function setStarredByServiceRef(serviceRef: string, starred: boolean): void {
+export function setStarredByServiceRef(serviceAccount: string, serviceRef: string, starred: boolean): void {
     if (!db) throw new Error("Database not initialized")
-    db.prepare("UPDATE items SET starred = ? WHERE serviceRef = ?").run(starred ? 1 : 0, serviceRef)
+    db.prepare(`UPDATE items SET starred = ? WHERE ${SERVICE_ITEM_CONDITION}`).run(starred ? 1 : 0, serviceRef, serviceAccount)
 }
 
 /**
@@ -1202,6 +2416,124 @@ export function getItemsForSync(): ItemRow[] {
     return rows
 }
 
+// ============================================
+// SYNC OUTBOX OPERATIONS
+// ============================================
+
+export type OutboxAction = "read" | "unread" | "star" | "unstar" | "markAllRead"
+
+export interface OutboxRow {
+    id: number
+    action: OutboxAction
+    serviceAccount: string
+    serviceRef: string | null  // Item the action is about, null for markAllRead
+    payload: string | null  // JSON arguments of markAllRead
+    createdAt: string
+    attempts: number
+    nextAttempt: string | null  // Not retried before this time after a failure
+    lastError: string | null
+}
+
+// Actions that undo each other while neither has been sent
+const OUTBOX_OPPOSITES: Partial<Record<OutboxAction, OutboxAction>> = {
+    read: "unread",
+    unread: "read",
+    star: "unstar",
+    unstar: "star",
+}
+
+// Actions being sent right now, the service may apply them any moment
+const sendingOutboxIds = new Set<number>()
+
+/**
+ * Queue an action for a sync account. An item action that is already
+ * queued is kept once; one that undoes a queued action removes both,
+ * unless that action is being sent.
+ * Returns the number of queued actions.
+ */
+export function enqueueOutboxAction(serviceAccount: string, action: OutboxAction, serviceRef: string | null, payload?: string): number {
+    if (!db) throw new Error("Database not initialized")
+    const enqueue = db.transaction(() => {
+        const opposite = OUTBOX_OPPOSITES[action]
+        if (opposite && serviceRef !== null) {
+            const pending = db.prepare(`
+                SELECT id, action FROM sync_outbox
+                WHERE serviceAccount = ? AND serviceRef = ? AND action IN (?, ?)
+                ORDER BY id DESC LIMIT 1
+            `).get(serviceAccount, serviceRef, action, opposite) as { id: number; action: OutboxAction } | undefined
+            if (pending?.action === action) return
+            if (pending && !sendingOutboxIds.has(pending.id)) {
+                db.prepare("DELETE FROM sync_outbox WHERE id = ?").run(pending.id)
+                return
+            }
+        }
+        db.prepare(`
+            INSERT INTO sync_outbox (action, serviceAccount, serviceRef, payload, createdAt)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(action, serviceAccount, serviceRef, payload ?? null, new Date().toISOString())
+    })
+    enqueue()
+    return getOutboxCount()
+}
+
+/**
+ * Queued actions in the order they were made
+ */
+export function getOutboxActions(): OutboxRow[] {
+    if (!db) throw new Error("Database not initialized")
+    return db.prepare("SELECT * FROM sync_outbox ORDER BY id").all() as OutboxRow[]
+}
+
+/**
+ * Mark an action as being sent, until it is completed or failed
+ */
+export function startOutboxAction(id: number): void {
+    sendingOutboxIds.add(id)
+}
+
+export function completeOutboxAction(id: number): void {
+    if (!db) throw new Error("Database not initialized")
+    sendingOutboxIds.delete(id)
+    db.prepare("DELETE FROM sync_outbox WHERE id = ?").run(id)
+}
+
+/**
+ * Record a failed attempt, the action is retried after nextAttempt
+ */
+export function failOutboxAction(id: number, error: string, nextAttempt: string): void {
+    if (!db) throw new Error("Database not initialized")
+    sendingOutboxIds.delete(id)
+    db.prepare(`
+        UPDATE sync_outbox SET attempts = attempts + 1, nextAttempt = ?, lastError = ?
+        WHERE id = ?
+    `).run(nextAttempt, error, id)
+}
+
+export function getOutboxCount(): number {
+    if (!db) throw new Error("Database not initialized")
+    return (db.prepare("SELECT COUNT(*) AS count FROM sync_outbox").get() as { count: number }).count
+}
+
+/**
+ * Items of an account with queued changes, the service's state of them is outdated
+ */
+export function getOutboxServiceRefs(serviceAccount: string): string[] {
+    if (!db) throw new Error("Database not initialized")
+    const rows = db.prepare(`
+        SELECT DISTINCT serviceRef FROM sync_outbox
+        WHERE serviceAccount = ? AND serviceRef IS NOT NULL
+    `).all(serviceAccount) as { serviceRef: string }[]
+    return rows.map(r => r.serviceRef)
+}
+
+/**
+ * Drop the queued actions of an account, e.g. when it is removed
+ */
+export function clearOutbox(serviceAccount: string): void {
+    if (!db) throw new Error("Database not initialized")
+    db.prepare("DELETE FROM sync_outbox WHERE serviceAccount = ?").run(serviceAccount)
+}
+
 /**
  * Clear all data from the database
  * Used during import to start fresh
@@ -1213,6 +2545,13 @@ export function clearAll(): void {
         DELETE FROM items;
         DELETE FROM sources;
         DELETE FROM p2p_pending_shares;
+        DELETE FROM smart_feeds;
+        DELETE FROM item_tags;
+        DELETE FROM tags;
+        DELETE FROM source_fetch_state;
+        DELETE FROM offline_articles;
+        DELETE FROM reading_positions;
+        DELETE FROM sync_outbox;
     `)
     
     console.log("[db-sqlite] Cleared all data from database")
@@ -1255,6 +2594,7 @@ export function setupDatabaseIPC(): void {
     ipcMain.handle("db:items:insert", (_, item) => insertItem(item))
     ipcMain.handle("db:items:insertMany", (_, items) => insertItems(items))
     ipcMain.handle("db:items:update", (_, id: number, updates) => updateItem(id, updates))
+    ipcMain.handle("db:items:setReadingStats", (_, id: number, stats: ReadingStats) => setItemReadingStats(id, stats))
     ipcMain.handle("db:items:delete", (_, id: number) => deleteItem(id))
     ipcMain.handle("db:items:deleteBySource", (_, sourceId: number) => deleteItemsBySource(sourceId))
     ipcMain.handle("db:items:deleteAll", () => deleteAllItems())
@@ -1267,6 +2607,40 @@ export function setupDatabaseIPC(): void {
     ipcMain.handle("db:items:exists", (_, sourceId: number, title: string, date: string) => 
         itemExists(sourceId, title, date))
     ipcMain.handle("db:items:query", (_, options: ItemQueryOptions) => queryItems(options))
+    ipcMain.handle("db:items:applyChanges", (event, jobId: string, changes: ItemChange[]) =>
+        applyItemChanges(changes, (done, total) => {
+            if (!event.sender.isDestroyed())
+                event.sender.send("db:items:applyProgress", jobId, done, total)
+        }))
+    ipcMain.handle("db:items:count", (_, options: ItemQueryOptions) => countItems(options))
+
+    // Tag operations
+    ipcMain.handle("db:tags:getAll", () => getAllTags())
+    ipcMain.handle("db:tags:getForItem", (_, itemId: number) => getItemTags(itemId))
+    ipcMain.handle("db:tags:addToItem", (_, itemId: number, name: string) => addItemTag(itemId, name))
+    ipcMain.handle("db:tags:removeFromItem", (_, itemId: number, name: string) => removeItemTag(itemId, name))
+    ipcMain.handle("db:tags:rename", (_, id: number, name: string) => renameTag(id, name))
+    ipcMain.handle("db:tags:delete", (_, id: number) => deleteTag(id))
+    ipcMain.handle("db:tags:getAllItemTags", () => getAllItemTags())
+    ipcMain.handle("db:tags:bulkInsertItemTags", (_, rows: ItemTagRow[]) => bulkInsertItemTags(rows))
+    ipcMain.handle("db:tags:deleteAll", () => deleteAllTags())
+
+    // Smart feed operations
+    ipcMain.handle("db:smartFeeds:getAll", () => getAllSmartFeeds())
+    ipcMain.handle("db:smartFeeds:insert", (_, feed) => insertSmartFeed(feed))
+    ipcMain.handle("db:smartFeeds:update", (_, id: number, updates) => updateSmartFeed(id, updates))
+    ipcMain.handle("db:smartFeeds:delete", (_, id: number) => deleteSmartFeed(id))
+    ipcMain.handle("db:smartFeeds:bulkInsert", (_, feeds) => bulkInsertSmartFeeds(feeds))
+    ipcMain.handle("db:smartFeeds:deleteAll", () => deleteAllSmartFeeds())
+    
+    // Source fetch state operations
+    ipcMain.handle("db:fetchState:get", (_, sid: number) => getSourceFetchState(sid))
+    ipcMain.handle("db:fetchState:getAll", () => getAllSourceFetchStates())
+    ipcMain.handle("db:fetchState:record", (_, sid: number, result: FetchResult) =>
+        recordFetchResult(sid, result))
+    ipcMain.handle("db:fetchState:saveValidators", (_, sid: number, validators: FetchValidators) =>
+        saveFetchValidators(sid, validators))
+    ipcMain.handle("db:fetchState:resetValidators", (_, sid: number) => resetFetchValidators(sid))
 
     // Utility operations
     ipcMain.handle("db:getUnreadCounts", () => getUnreadCounts())
@@ -1276,12 +2650,26 @@ export function setupDatabaseIPC(): void {
     // Service sync operations
     ipcMain.handle("db:items:getUnreadServiceRefs", (_, sourceIds: number[], beforeDate?: string, afterDate?: string) =>
         getUnreadServiceRefs(sourceIds, beforeDate, afterDate))
-    ipcMain.handle("db:items:markReadByServiceRef", (_, serviceRef: string) => markReadByServiceRef(serviceRef))
-    ipcMain.handle("db:items:markUnreadByServiceRef", (_, serviceRef: string) => markUnreadByServiceRef(serviceRef))
-    ipcMain.handle("db:items:setStarredByServiceRef", (_, serviceRef: string, starred: boolean) => 
-        setStarredByServiceRef(serviceRef, starred))
+    ipcMain.handle("db:items:markReadByServiceRef", (_, serviceAccount: string, serviceRef: string) =>
+        markReadByServiceRef(serviceAccount, serviceRef))
+    ipcMain.handle("db:items:markUnreadByServiceRef", (_, serviceAccount: string, serviceRef: string) =>
+        markUnreadByServiceRef(serviceAccount, serviceRef))
+    ipcMain.handle("db:items:setStarredByServiceRef", (_, serviceAccount: string, serviceRef: string, starred: boolean) => 
+        setStarredByServiceRef(serviceAccount, serviceRef, starred))
     ipcMain.handle("db:items:deleteOlderThan", (_, date: string) => deleteOlderThan(date))
     ipcMain.handle("db:items:getForSync", () => getItemsForSync())
+
+    // Sync outbox operations
+    ipcMain.handle("db:outbox:enqueue", (_, serviceAccount: string, action: OutboxAction, serviceRef: string | null, payload?: string) =>
+        enqueueOutboxAction(serviceAccount, action, serviceRef, payload))
+    ipcMain.handle("db:outbox:getActions", () => getOutboxActions())
+    ipcMain.handle("db:outbox:start", (_, id: number) => startOutboxAction(id))
+    ipcMain.handle("db:outbox:complete", (_, id: number) => completeOutboxAction(id))
+    ipcMain.handle("db:outbox:fail", (_, id: number, error: string, nextAttempt: string) =>
+        failOutboxAction(id, error, nextAttempt))
+    ipcMain.handle("db:outbox:count", () => getOutboxCount())
+    ipcMain.handle("db:outbox:getServiceRefs", (_, serviceAccount: string) => getOutboxServiceRefs(serviceAccount))
+    ipcMain.handle("db:outbox:clear", (_, serviceAccount: string) => clearOutbox(serviceAccount))
     ipcMain.handle("db:clearAll", () => clearAll())
 
     // P2P Pending Shares operations
@@ -0,0 +1,441 @@
+import { ipcMain, net } from "electron"
+import { createHash } from "crypto"
+import Parser from "rss-parser"
+import { DOMParser } from "linkedom"
+import {
+    itemExists,
+    getSourceFetchState,
+    recordFetchResult,
+    FetchValidators,
+} from "./db-sqlite"
+import { SourceRule } from "../scripts/models/rule-engine"
+import {
+    estimateCadence,
+    getNextFetch,
+    limitConcurrency,
+} from "../scripts/models/schedule"
+import { detectItemLanguage } from "../scripts/models/language"
+import { getReadingStats } from "../scripts/models/reading-time"
+import type { ItemData } from "../scripts/models/item-data"
+
+/**
+ * Feed fetch service
+ *
+ * Downloads and parses feeds in the main process so that big refreshes
+ * don't block the renderer. New items are deduplicated against SQLite and
+ * run through the rules of their source; only the results and progress
+ * events are sent back to the renderer, which stores the items.
+ */
+
+export interface FeedFetchRequest {
+    sid: number
+    url: string
+    fetchFrequency: number
+    rules: SourceRule[]  // Global, group and source rules in order
+}
+
+export interface FeedFetchOptions {
+    defaultInterval: number  // Minutes, for feeds without enough history
+    // The main process has no translations, so texts come with the request
+    untitledText: string
+    networkErrorText: string
+    parseErrorText: string
+}
+
+export interface FeedFetchResult {
+    sid: number
+    items: ItemData[]
+    error?: string
+    // Validators of a download with new items, saved by the renderer once
+    // the items are stored
+    validators?: FetchValidators
+}
+
+export interface FeedMetaData {
+    title?: string
+    error?: string
+}
+
+const rssParser = new Parser({
+    customFields: {
+        feed: ["ttl", "sy:updatePeriod", "sy:updateFrequency"],
+        item: [
+            "thumb",
+            "image",
+            ["content:encoded", "fullContent"],
+            ["media:content", "mediaContent", { keepArray: true }],
+        ],
+    },
+})
+type ParsedFeed = Awaited<ReturnType<typeof rssParser.parseString>>
+type ParsedItem = ParsedFeed["items"][number]
+
+const domParser = new DOMParser()
+
+type FeedValidators = {
+    etag?: string | null
+    lastModified?: string | null
+    contentHash?: string | null
+}
+
+type ConditionalFeed = FeedValidators & {
+    // null if the feed is unchanged since the validators were stored
+    feed: ParsedFeed | null
+    ttl?: number | null  // Minutes the publisher asks clients to wait
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+const CHARSET_RE = /charset=([^()<>@,;:\"/[\]?.=\s]*)/i
+const XML_ENCODING_RE = /^<\?xml.+encoding="(.+?)".*?\?>/i
+
+async function decodeFeedResponse(response: Response): Promise<string> {
+    const buffer = await response.arrayBuffer()
+    const ctype = response.headers.get("content-type")
+    let content = new TextDecoder("utf-8").decode(buffer)
+    let charset = ctype && CHARSET_RE.test(ctype)
+        ? CHARSET_RE.exec(ctype)[1]
+        : XML_ENCODING_RE.test(content) && XML_ENCODING_RE.exec(content)[1]
+    charset = charset && charset.trim().toLowerCase()
+    // Only decode again if the charset differs from UTF-8
+    if (charset && charset.replace(/-/g, "") !== "utf8") {
+        try {
+            content = new TextDecoder(charset).decode(buffer)
+        } catch {
+            console.warn(`[feed-fetcher] Invalid charset "${charset}", using UTF-8 instead`)
+        }
+    }
+    return content
+}
+
+const UPDATE_PERIODS = {
+    hourly: 60,
+    daily: 1440,
+    weekly: 10080,
+    monthly: 43200,
+    yearly: 525600,
+}
+
+// Polling hint of a feed from RSS <ttl> or the syndication module
+function getFeedTtl(feed: { [key: string]: any }): number | null {
+    const ttl = parseInt(feed.ttl)
+    if (ttl > 0) return ttl
+    const period = UPDATE_PERIODS[String(feed["sy:updatePeriod"]).trim()]
+    if (period) {
+        const frequency = parseInt(feed["sy:updateFrequency"]) || 1
+        return period / Math.max(frequency, 1)
+    }
+    return null
+}
+
+// Seconds to wait from a Retry-After header, given as a delay or a date
+function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null
+    if (/^\d+$/.test(value.trim())) return parseInt(value)
+    const date = Date.parse(value)
+    if (isNaN(date)) return null
+    return Math.max(0, (date - Date.now()) / 1000)
+}
+
+/**
+ * Fetch a feed with conditional request headers. Servers without ETag or
+ * Last-Modified support are caught by comparing the hash of the body.
+ */
+async function fetchFeed(
+    url: string,
+    validators: FeedValidators,
+    options: FeedFetchOptions
+): Promise<ConditionalFeed> {
+    const headers: Record<string, string> = {}
+    if (validators.etag) headers["If-None-Match"] = validators.etag
+    if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified
+    let response: Response
+    try {
+        response = await net.fetch(url, {
+            credentials: "omit",
+            cache: "no-store",  // Bypass HTTP cache, validators are sent explicitly
+            headers: headers,
+        })
+    } catch {
+        throw new Error(options.networkErrorText)
+    }
+    if (response.status === 304) {
+        return { ...validators, feed: null }
+    } else if (response.ok) {
+        const text = await decodeFeedResponse(response)
+        const state: FeedValidators = {
+            etag: response.headers.get("ETag"),
+            lastModified: response.headers.get("Last-Modified"),
+            contentHash: createHash("sha256").update(text).digest("hex"),
+        }
+        if (state.contentHash === validators.contentHash) {
+            return { ...state, feed: null }
+        }
+        let feed: ParsedFeed
+        try {
+            feed = await rssParser.parseString(text)
+        } catch {
+            throw new Error(options.parseErrorText)
+        }
+        return { ...state, feed: feed, ttl: getFeedTtl(feed) }
+    } else {
+        // Servers under load or rate limiting tell us when to come back
+        throw Object.assign(
+            new Error(response.status + " " + response.statusText),
+            { retryAfter: parseRetryAfter(response.headers.get("Retry-After")) }
+        )
+    }
+}
+
+// ============================================
+// ITEMS
+// ============================================
+
+// linkedom only builds a document around fragments inside a body
+function parseHTML(html: string) {
+    return domParser.parseFromString(
+        `<!DOCTYPE html><html><body>${html}</body></html>`,
+        "text/html"
+    )
+}
+
+function htmlDecode(input: string) {
+    return parseHTML(input).body.textContent
+}
+
+function resolveFeedItemLink(item: ParsedItem, sourceUrl: string): string {
+    if (!item.link) return ""
+
+    let parsedItemUrl: URL
+    let parsedSourceUrl: URL
+    try {
+        parsedItemUrl = new URL(item.link)
+        parsedSourceUrl = new URL(sourceUrl)
+    } catch {
+        return item.link
+    }
+
+    const isFollowItFeed = parsedSourceUrl.hostname === "follow.it"
+    const isFollowItTrackingLink = parsedItemUrl.hostname === "api.follow.it"
+    if (!isFollowItFeed || !isFollowItTrackingLink) return item.link
+
+    for (let field of ["content", "fullContent"]) {
+        const html = item[field]
+        if (!html || typeof html !== "string") continue
+
+        const dom = parseHTML(html)
+        const links = dom.querySelectorAll("a[href]")
+        for (let anchor of links) {
+            const href = anchor.getAttribute("href")
+            if (!href) continue
+
+            try {
+                const candidate = new URL(href, sourceUrl)
+                if (
+                    (candidate.protocol === "https:" || candidate.protocol === "http:") &&
+                    candidate.hostname !== "follow.it" &&
+                    candidate.hostname !== "api.follow.it"
+                ) {
+                    return candidate.toString()
+                }
+            } catch {
+                continue
+            }
+        }
+    }
+
+    return item.link
+}
+
+function getThumb(parsed: ParsedItem, content: string, link: string): string {
+    let thumb: string
+    if (parsed.thumb) {
+        thumb = parsed.thumb
+    } else if (parsed.image?.$?.url) {
+        thumb = parsed.image.$.url
+    } else if (parsed.image && typeof parsed.image === "string") {
+        thumb = parsed.image
+    } else if (parsed.mediaContent) {
+        const images = parsed.mediaContent.filter(
+            c => c.$ && c.$.medium === "image" && c.$.url
+        )
+        if (images.length > 0) thumb = images[0].$.url
+    }
+    if (!thumb) {
+        // First image of the content, relative to the article's site
+        const src = parseHTML(content).querySelector("img")?.getAttribute("src")
+        if (src) {
+            try {
+                thumb = new URL(src, link.split("/").slice(0, 3).join("/")).href
+            } catch {}
+        }
+    }
+    if (thumb && !thumb.startsWith("https://") && !thumb.startsWith("http://")) {
+        return undefined
+    }
+    return thumb
+}
+
+// Same fields as the RSSItem constructor in the renderer
+function createItem(parsed: ParsedItem, request: FeedFetchRequest, options: FeedFetchOptions): ItemData {
+    for (let field of ["title", "link", "creator"]) {
+        const content = parsed[field]
+        if (content && typeof content !== "string") delete parsed[field]
+    }
+    const fetchedDate = new Date()
+    return {
+        source: request.sid,
+        title: parsed.title || options.untitledText,
+        link: resolveFeedItemLink(parsed, request.url),
+        fetchedDate: fetchedDate,
+        date: new Date(parsed.isoDate ?? parsed.pubDate ?? fetchedDate),
+        creator: parsed.creator,
+        hasRead: false,
+        starred: false,
+        hidden: false,
+        notify: false,
+    } as ItemData
+}
+
+function parseContent(item: ItemData, parsed: ParsedItem) {
+    for (let field of ["thumb", "content", "fullContent"]) {
+        const content = parsed[field]
+        if (content && typeof content !== "string") delete parsed[field]
+    }
+    if (parsed.fullContent) {
+        item.content = parsed.fullContent
+        item.snippet = htmlDecode(parsed.fullContent)
+    } else {
+        item.content = parsed.content || ""
+        item.snippet = htmlDecode(parsed.contentSnippet || "")
+    }
+    const thumb = getThumb(parsed, item.content, item.link)
+    if (thumb) item.thumb = thumb
+    Object.assign(item, getReadingStats(item.content))
+}
+
+// New items of a feed with the rules applied, skipping stored ones
+function checkItems(feed: ParsedFeed, request: FeedFetchRequest, options: FeedFetchOptions): ItemData[] {
+    const items = new Array<ItemData>()
+    for (let parsed of feed.items) {
+        const item = createItem(parsed, request, options)
+        if (itemExists(item.source, item.title, item.date.toISOString())) continue
+        parseContent(item, parsed)
+        item.lang = detectItemLanguage(item) ?? undefined
+        SourceRule.applyAll(request.rules, item)
+        items.push(item)
+    }
+    return items
+}
+
+// ============================================
+// FETCH JOBS
+// ============================================
+
+async function fetchSource(request: FeedFetchRequest, options: FeedFetchOptions): Promise<FeedFetchResult> {
+    const state = getSourceFetchState(request.sid)
+    const start = Date.now()
+    try {
+        const result = await fetchFeed(request.url, state ?? {}, options)
+        const latency = Date.now() - start
+        const items = result.feed === null ? [] : checkItems(result.feed, request, options)
+        // Unchanged feeds keep the cadence and ttl of the last download
+        const cadence = result.feed === null
+            ? state?.cadence ?? null
+            : estimateCadence(result.feed.items.map(i => new Date(i.isoDate ?? i.pubDate)))
+        const feedTtl = result.feed === null ? state?.feedTtl ?? null : result.ttl
+        const schedule = getNextFetch(request, {
+            cadence: cadence,
+            feedTtl: feedTtl,
+            failures: 0,
+            defaultInterval: options.defaultInterval,
+        })
+        const validators: FetchValidators = {
+            etag: result.etag ?? null,
+            lastModified: result.lastModified ?? null,
+            contentHash: result.contentHash ?? null,
+        }
+        // New items keep the old validators until they are stored, otherwise
+        // a failed insert would leave them behind as unchanged
+        const stored = items.length > 0
+            ? {
+                etag: state?.etag ?? null,
+                lastModified: state?.lastModified ?? null,
+                contentHash: state?.contentHash ?? null,
+            }
+            : validators
+        recordFetchResult(request.sid, {
+            ok: true,
+            latency: latency,
+            notModified: result.feed === null,
+            ...stored,
+            nextFetch: schedule.nextFetch.toISOString(),
+            cadence: cadence,
+            feedTtl: feedTtl,
+        })
+        return items.length > 0
+            ? { sid: request.sid, items: items, validators: validators }
+            : { sid: request.sid, items: items }
+    } catch (e) {
+        const errorMsg = e instanceof Error ? e.message : String(e)
+        console.error(`[feed-fetcher] Error fetching ${request.url}: ${errorMsg}`)
+        const schedule = getNextFetch(request, {
+            cadence: state?.cadence ?? null,
+            feedTtl: state?.feedTtl ?? null,
+            failures: (state?.consecutiveFailures ?? 0) + 1,
+            retryAfter: e?.retryAfter,
+            defaultInterval: options.defaultInterval,
+        })
+        recordFetchResult(request.sid, {
+            ok: false,
+            latency: Date.now() - start,
+            error: errorMsg,
+            nextFetch: schedule.nextFetch.toISOString(),
+            retryUntil: schedule.retryUntil?.toISOString() ?? null,
+        })
+        return { sid: request.sid, items: [], error: errorMsg }
+    }
+}
+
+/**
+ * Fetch sources with a concurrency cap, reporting each finished source
+ */
+export async function fetchSources(
+    requests: FeedFetchRequest[],
+    options: FeedFetchOptions,
+    onProgress?: (result: FeedFetchResult, done: number, total: number) => void
+): Promise<FeedFetchResult[]> {
+    let done = 0
+    return Promise.all(
+        limitConcurrency(requests.map(request => async () => {
+            const result = await fetchSource(request, options)
+            onProgress?.(result, ++done, requests.length)
+            return result
+        }))
+    )
+}
+
+/**
+ * Title of a feed, used to validate and name a new source
+ */
+export async function fetchMetaData(url: string, options: FeedFetchOptions): Promise<FeedMetaData> {
+    try {
+        const result = await fetchFeed(url, {}, options)
+        return { title: result.feed.title }
+    } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e) }
+    }
+}
+
+export function setupFeedFetcherIPC(): void {
+    ipcMain.handle("fetcher:run", (event, jobId: string, requests: FeedFetchRequest[], options: FeedFetchOptions) =>
+        fetchSources(requests, options, (result, done, total) => {
+            // Items are returned with the job, progress only names the source
+            if (!event.sender.isDestroyed())
+                event.sender.send("fetcher:progress", jobId, result.sid, result.error ?? null, done, total)
+        }))
+    ipcMain.handle("fetcher:metadata", (_, url: string, options: FeedFetchOptions) =>
+        fetchMetaData(url, options))
+}
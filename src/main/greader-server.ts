@@ -0,0 +1,562 @@
+/**
+ * Server Mode
+ *
+ * Optional HTTP server serving the library through a subset of the Google
+ * Reader API, so mobile clients can sync read and star states directly with
+ * the desktop app over the LAN: ClientLogin, user-info, token,
+ * subscription/list, stream/contents, edit-tag and mark-all-as-read.
+ *
+ * Clients log in with any user name and the access token as password, and
+ * send the token back with every request. Changes made by clients are
+ * written to the database and reported to the renderer, which passes them
+ * on to the sync services of the items.
+ */
+
+import { ipcMain } from "electron"
+import crypto from "crypto"
+import http from "http"
+import os from "os"
+import { store, getSourceGroups } from "./settings"
+import { WindowManager } from "./window"
+import {
+    enqueueOutboxAction,
+    getAllSources,
+    getItemById,
+    getUnreadServiceRefs,
+    markAllRead,
+    queryItems,
+    updateItem,
+    ItemQueryOptions,
+    ItemRow,
+    SourceRow,
+} from "./db-sqlite"
+
+const ENABLED_STORE_KEY = "greaderServerEnabled"
+const ADDRESS_STORE_KEY = "greaderServerAddress"
+const PORT_STORE_KEY = "greaderServerPort"
+const TOKEN_STORE_KEY = "greaderServerToken"
+
+// Only reachable from this computer until set to a LAN address or 0.0.0.0
+const DEFAULT_ADDRESS = "127.0.0.1"
+const DEFAULT_PORT = 8765
+
+const READING_LIST = "user/-/state/com.google/reading-list"
+const READ_TAG = "user/-/state/com.google/read"
+const STARRED_TAG = "user/-/state/com.google/starred"
+const KEPT_UNREAD_TAG = "user/-/state/com.google/kept-unread"
+const LABEL_PREFIX = "user/-/label/"
+const FEED_PREFIX = "feed/"
+const ITEM_ID_PREFIX = "tag:google.com,2005:reader/item/"
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 1000
+const MAX_BODY_SIZE = 1024 * 1024
+
+export interface GReaderServerStatus {
+    enabled: boolean
+    address: string
+    port: number
+    token: string
+    listening: boolean
+    error?: string
+    urls: string[] // Addresses clients can connect to
+}
+
+/**
+ * Read or star state of an item changed by a client
+ */
+export interface ServedItemChange {
+    _id: number
+    source: number
+    serviceRef: string | null
+    hasRead?: boolean
+    starred?: boolean
+}
+
+class HTTPError extends Error {
+    constructor(public status: number, message: string) {
+        super(message)
+    }
+}
+
+let server: http.Server = null
+let serverError: string = null
+let windowManager: WindowManager = null
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+function resetToken(): string {
+    const token = crypto.randomBytes(16).toString("hex")
+    store.set(TOKEN_STORE_KEY, token)
+    return token
+}
+
+function getToken(): string {
+    const token = store.get(TOKEN_STORE_KEY, null) as string | null
+    return token || resetToken()
+}
+
+function getAddress(): string {
+    return store.get(ADDRESS_STORE_KEY, DEFAULT_ADDRESS) as string
+}
+
+function getPort(): number {
+    return store.get(PORT_STORE_KEY, DEFAULT_PORT) as number
+}
+
+function isEnabled(): boolean {
+    return store.get(ENABLED_STORE_KEY, false) as boolean
+}
+
+function getServerUrls(address: string, port: number): string[] {
+    if (address !== "0.0.0.0" && address !== "::") {
+        return [`http://${address}:${port}`]
+    }
+    const urls = new Array<string>()
+    for (const infos of Object.values(os.networkInterfaces())) {
+        for (const info of infos || []) {
+            if (info.family === "IPv4" && !info.internal) {
+                urls.push(`http://${info.address}:${port}`)
+            }
+        }
+    }
+    return urls
+}
+
+export function getGReaderServerStatus(): GReaderServerStatus {
+    const address = getAddress()
+    const port = getPort()
+    return {
+        enabled: isEnabled(),
+        address: address,
+        port: port,
+        token: getToken(),
+        listening: server !== null && server.listening,
+        error: serverError ?? undefined,
+        urls: getServerUrls(address, port),
+    }
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+function isAuthorized(token: string): boolean {
+    const expected = Buffer.from(getToken())
+    const actual = Buffer.from(token || "")
+    return (
+        actual.length === expected.length &&
+        crypto.timingSafeEqual(actual, expected)
+    )
+}
+
+function getAuthToken(req: http.IncomingMessage): string {
+    const header = req.headers.authorization || ""
+    const match = header.match(/^(?:GoogleLogin auth=|Bearer )(.+)$/)
+    return match ? match[1].trim() : ""
+}
+
+function readParams(req: http.IncomingMessage, url: URL): Promise<URLSearchParams> {
+    return new Promise((resolve, reject) => {
+        const chunks = new Array<Buffer>()
+        let size = 0
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length
+            if (size > MAX_BODY_SIZE) {
+                reject(new HTTPError(413, "Request too large"))
+                req.destroy()
+            } else {
+                chunks.push(chunk)
+            }
+        })
+        req.on("end", () => {
+            // Parameters may come in the query, the form body or both
+            const params = new URLSearchParams(url.search)
+            const body = new URLSearchParams(Buffer.concat(chunks).toString("utf-8"))
+            for (const [key, value] of body) params.append(key, value)
+            resolve(params)
+        })
+        req.on("error", reject)
+    })
+}
+
+function sendText(res: http.ServerResponse, status: number, text: string): void {
+    res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" })
+    res.end(text)
+}
+
+function sendJSON(res: http.ServerResponse, data: object): void {
+    res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" })
+    res.end(JSON.stringify(data))
+}
+
+function toItemId(id: number): string {
+    return ITEM_ID_PREFIX + id.toString(16).padStart(16, "0")
+}
+
+/**
+ * Items are referred to either by the long form or by the decimal short form
+ */
+function parseItemId(id: string): number {
+    const parsed = id.startsWith(ITEM_ID_PREFIX)
+        ? parseInt(id.slice(ITEM_ID_PREFIX.length), 16)
+        : /^\d+$/.test(id)
+            ? parseInt(id, 10)
+            : NaN
+    if (Number.isNaN(parsed)) throw new HTTPError(400, `Invalid item id ${id}`)
+    return parsed
+}
+
+/**
+ * Query options of the items in a stream, null for unknown streams
+ */
+function getStreamQuery(streamId: string): ItemQueryOptions | null {
+    // Clients may use their user id in place of "-"
+    const stream = streamId.replace(/^user\/[^/]+\//, "user/-/")
+    if (stream === READING_LIST) return {}
+    if (stream === STARRED_TAG) return { starredOnly: true }
+    if (stream === READ_TAG) return { readOnly: true }
+    if (stream.startsWith(FEED_PREFIX)) {
+        const sid = parseInt(stream.slice(FEED_PREFIX.length))
+        return Number.isNaN(sid) ? null : { sourceIds: [sid] }
+    }
+    if (stream.startsWith(LABEL_PREFIX)) {
+        const name = stream.slice(LABEL_PREFIX.length)
+        const group = getSourceGroups().find(g => g.isMultiple && g.name === name)
+        if (!group) return null
+        // An empty list would match all sources
+        return { sourceIds: group.sids.length > 0 ? group.sids : [-1] }
+    }
+    return null
+}
+
+function getGroupLabels(): Map<number, string> {
+    const labels = new Map<number, string>()
+    for (const group of getSourceGroups()) {
+        if (!group.isMultiple) continue
+        for (const sid of group.sids) labels.set(sid, LABEL_PREFIX + group.name)
+    }
+    return labels
+}
+
+function handleSubscriptionList(res: http.ServerResponse): void {
+    const labels = getGroupLabels()
+    const subscriptions = getAllSources().map(source => {
+        const label = labels.get(source.sid)
+        return {
+            id: FEED_PREFIX + source.sid,
+            title: source.name,
+            url: source.url,
+            htmlUrl: source.url,
+            iconUrl: source.iconurl || "",
+            categories: label
+                ? [{ id: label, label: label.slice(LABEL_PREFIX.length) }]
+                : [],
+        }
+    })
+    sendJSON(res, { subscriptions })
+}
+
+function itemToJSON(item: ItemRow, source: SourceRow, label: string) {
+    const fetched = new Date(item.fetchedDate).getTime()
+    const published = Math.floor(new Date(item.date).getTime() / 1000)
+    const categories = [READING_LIST]
+    if (item.hasRead) categories.push(READ_TAG)
+    if (item.starred) categories.push(STARRED_TAG)
+    if (label) categories.push(label)
+    return {
+        id: toItemId(item._id),
+        crawlTimeMsec: String(fetched),
+        timestampUsec: String(fetched * 1000),
+        published: published,
+        updated: published,
+        title: item.title,
+        canonical: [{ href: item.link }],
+        alternate: [{ href: item.link, type: "text/html" }],
+        summary: { direction: "ltr", content: item.content },
+        author: item.creator || "",
+        categories: categories,
+        origin: {
+            streamId: FEED_PREFIX + item.source,
+            title: source?.name || "",
+            htmlUrl: source?.url || "",
+        },
+    }
+}
+
+function handleStreamContents(
+    res: http.ServerResponse,
+    streamId: string,
+    params: URLSearchParams
+): void {
+    const query = getStreamQuery(streamId)
+    if (query === null) throw new HTTPError(404, `Unknown stream ${streamId}`)
+    const count = Math.min(
+        MAX_PAGE_SIZE,
+        parseInt(params.get("n")) || DEFAULT_PAGE_SIZE
+    )
+    // The continuation is the offset of the next page
+    const offset = parseInt(params.get("c")) || 0
+    const options: ItemQueryOptions = {
+        ...query,
+        hiddenOnly: false,
+        orderBy: "fetchedDate",
+        orderDir: params.get("r") === "o" ? "ASC" : "DESC",
+        limit: count + 1,
+        offset: offset,
+    }
+    const exclude = params.get("xt")
+    if (exclude && exclude.endsWith("/state/com.google/read")) options.unreadOnly = true
+    const include = params.get("it")
+    if (include && include.endsWith("/state/com.google/starred")) options.starredOnly = true
+    if (include && include.endsWith("/state/com.google/read")) options.readOnly = true
+    const olderThan = parseInt(params.get("ot"))
+    if (olderThan) options.fetchedAfter = new Date(olderThan * 1000).toISOString()
+    const newerThan = parseInt(params.get("nt"))
+    if (newerThan) options.fetchedBefore = new Date(newerThan * 1000).toISOString()
+
+    const rows = queryItems(options)
+    const sources = new Map(getAllSources().map(s => [s.sid, s]))
+    const labels = getGroupLabels()
+    const items = rows
+        .slice(0, count)
+        .map(row => itemToJSON(row, sources.get(row.source), labels.get(row.source)))
+    const result: any = {
+        id: streamId,
+        updated: Math.floor(Date.now() / 1000),
+        items: items,
+    }
+    if (rows.length > count) result.continuation = String(offset + count)
+    sendJSON(res, result)
+}
+
+function notifyRenderer(channel: string, ...args: any[]): void {
+    if (windowManager?.hasWindow()) {
+        windowManager.mainWindow.webContents.send(channel, ...args)
+    }
+}
+
+/**
+ * Store the changes and queue them for the sync accounts, so they are sent
+ * even without a main window. The renderer only updates its state.
+ */
+function applyChanges(changes: ServedItemChange[]): void {
+    if (changes.length === 0) return
+    const accounts = new Map<number, string>()
+    for (const source of getAllSources()) {
+        if (source.serviceAccount) accounts.set(source.sid, source.serviceAccount)
+    }
+    for (const change of changes) {
+        const updates: Partial<ItemRow> = {}
+        if (change.hasRead !== undefined) updates.hasRead = change.hasRead ? 1 : 0
+        if (change.starred !== undefined) updates.starred = change.starred ? 1 : 0
+        updateItem(change._id, updates)
+        const account = accounts.get(change.source)
+        if (!account || !change.serviceRef) continue
+        if (change.hasRead !== undefined) {
+            enqueueOutboxAction(account, change.hasRead ? "read" : "unread", change.serviceRef)
+        }
+        if (change.starred !== undefined) {
+            enqueueOutboxAction(account, change.starred ? "star" : "unstar", change.serviceRef)
+        }
+    }
+    notifyRenderer("greader-server:itemsChanged", changes)
+}
+
+/**
+ * Queue one markAllRead action per sync account of the sources, like the
+ * renderer does for its own "mark all as read". Must run before the items
+ * are marked, the unread items covered are looked up now.
+ */
+function queueMarkAllRead(sids: number[], date: string): void {
+    const selected = new Set(sids)
+    const accounts = new Map<string, number[]>()
+    for (const source of getAllSources()) {
+        if (!selected.has(source.sid) || !source.serviceAccount) continue
+        if (!accounts.has(source.serviceAccount)) accounts.set(source.serviceAccount, [])
+        accounts.get(source.serviceAccount).push(source.sid)
+    }
+    for (const [account, accountSids] of accounts) {
+        const payload = {
+            sids: accountSids,
+            date: date,
+            before: true,
+            refs: getUnreadServiceRefs(accountSids, date),
+        }
+        enqueueOutboxAction(account, "markAllRead", null, JSON.stringify(payload))
+    }
+}
+
+function handleEditTag(res: http.ServerResponse, params: URLSearchParams): void {
+    const add = params.getAll("a")
+    const remove = params.getAll("r")
+    const normalize = (tag: string) => tag.replace(/^user\/[^/]+\//, "user/-/")
+    const hasTag = (tags: string[], tag: string) => tags.some(t => normalize(t) === tag)
+    let hasRead: boolean
+    if (hasTag(add, READ_TAG) || hasTag(remove, KEPT_UNREAD_TAG)) hasRead = true
+    else if (hasTag(remove, READ_TAG) || hasTag(add, KEPT_UNREAD_TAG)) hasRead = false
+    let starred: boolean
+    if (hasTag(add, STARRED_TAG)) starred = true
+    else if (hasTag(remove, STARRED_TAG)) starred = false
+
+    const changes = new Array<ServedItemChange>()
+    for (const id of params.getAll("i")) {
+        const item = getItemById(parseItemId(id))
+        if (!item) continue
+        const change: ServedItemChange = {
+            _id: item._id,
+            source: item.source,
+            serviceRef: item.serviceRef,
+        }
+        if (hasRead !== undefined && Boolean(item.hasRead) !== hasRead) change.hasRead = hasRead
+        if (starred !== undefined && Boolean(item.starred) !== starred) change.starred = starred
+        if (change.hasRead !== undefined || change.starred !== undefined) changes.push(change)
+    }
+    applyChanges(changes)
+    sendText(res, 200, "OK")
+}
+
+function handleMarkAllAsRead(res: http.ServerResponse, params: URLSearchParams): void {
+    const streamId = params.get("s")
+    const query = streamId ? getStreamQuery(streamId) : null
+    if (query === null) throw new HTTPError(404, `Unknown stream ${streamId}`)
+    if (query.starredOnly) throw new HTTPError(400, "Only feeds, labels and the reading list can be marked as read")
+    if (query.readOnly) return sendText(res, 200, "OK")
+    const sids = query.sourceIds ?? getAllSources().map(source => source.sid)
+    // Items newer than the client last looked at stay unread
+    const timestamp = parseInt(params.get("ts"))
+    const date = timestamp ? new Date(Math.floor(timestamp / 1000)).toISOString() : undefined
+    // Items arriving before the outbox action is sent weren't seen either
+    queueMarkAllRead(sids, date ?? new Date().toISOString())
+    markAllRead(sids, date)
+    notifyRenderer("greader-server:markedAllRead", sids, date ?? null)
+    sendText(res, 200, "OK")
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url, "http://localhost")
+    const params = await readParams(req, url)
+    const path = url.pathname
+
+    if (path === "/accounts/ClientLogin") {
+        if (!isAuthorized(params.get("Passwd"))) {
+            sendText(res, 401, "Error=BadAuthentication\n")
+            return
+        }
+        const token = getToken()
+        sendText(res, 200, `SID=${token}\nLSID=${token}\nAuth=${token}\n`)
+        return
+    }
+
+    if (!path.startsWith("/reader/api/0/")) throw new HTTPError(404, "Not found")
+    if (!isAuthorized(getAuthToken(req))) throw new HTTPError(401, "Unauthorized")
+    const endpoint = path.slice("/reader/api/0/".length)
+
+    if (endpoint === "user-info") {
+        sendJSON(res, {
+            userId: "1",
+            userName: "Fluent Reader",
+            userProfileId: "1",
+            userEmail: "",
+        })
+    } else if (endpoint === "token") {
+        sendText(res, 200, getToken())
+    } else if (endpoint === "subscription/list") {
+        handleSubscriptionList(res)
+    } else if (endpoint === "stream/contents" || endpoint.startsWith("stream/contents/")) {
+        const streamId = endpoint === "stream/contents"
+            ? params.get("s") || READING_LIST
+            : decodeURIComponent(endpoint.slice("stream/contents/".length))
+        handleStreamContents(res, streamId, params)
+    } else if (endpoint === "edit-tag" && req.method === "POST") {
+        handleEditTag(res, params)
+    } else if (endpoint === "mark-all-as-read" && req.method === "POST") {
+        handleMarkAllAsRead(res, params)
+    } else {
+        throw new HTTPError(404, "Not found")
+    }
+}
+
+function startServer(): Promise<void> {
+    return new Promise(resolve => {
+        serverError = null
+        const address = getAddress()
+        const port = getPort()
+        const instance = http.createServer((req, res) => {
+            handleRequest(req, res).catch(error => {
+                const status = error instanceof HTTPError ? error.status : 500
+                if (status === 500) console.error("[greader-server] Request failed:", error)
+                if (!res.headersSent) sendText(res, status, error.message || String(error))
+            })
+        })
+        instance.on("error", (error: NodeJS.ErrnoException) => {
+            console.error("[greader-server] Server error:", error)
+            serverError = error.code || error.message
+            if (server === instance) server = null
+            resolve()
+        })
+        instance.listen(port, address, () => {
+            console.log(`[greader-server] Listening on ${address}:${port}`)
+            resolve()
+        })
+        server = instance
+    })
+}
+
+function stopServer(): Promise<void> {
+    return new Promise(resolve => {
+        if (!server) return resolve()
+        const instance = server
+        server = null
+        instance.close(() => resolve())
+        // Keep-alive connections of clients would hold the server open
+        instance.closeAllConnections?.()
+    })
+}
+
+async function restartServer(): Promise<GReaderServerStatus> {
+    await stopServer()
+    serverError = null
+    if (isEnabled()) await startServer()
+    return getGReaderServerStatus()
+}
+
+export function stopGReaderServer(): Promise<void> {
+    return stopServer()
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+/**
+ * Start the server if it's enabled and register IPC handlers for the
+ * renderer. Requires the database to be initialized, changes made by
+ * clients are sent to the main window of the manager.
+ */
+export function setupGReaderServer(manager: WindowManager): void {
+    windowManager = manager
+    ipcMain.handle("greader-server:getStatus", () => getGReaderServerStatus())
+
+    ipcMain.handle("greader-server:setEnabled", (_, enabled: boolean) => {
+        store.set(ENABLED_STORE_KEY, enabled)
+        return restartServer()
+    })
+
+    ipcMain.handle("greader-server:setAddress", (_, address: string, port: number) => {
+        store.set(ADDRESS_STORE_KEY, address)
+        store.set(PORT_STORE_KEY, port)
+        return restartServer()
+    })
+
+    ipcMain.handle("greader-server:resetToken", () => {
+        resetToken()
+        return getGReaderServerStatus()
+    })
+
+    if (isEnabled()) {
+        startServer()
+    }
+}
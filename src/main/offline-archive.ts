@@ -0,0 +1,468 @@
+/**
+ * Offline Archive
+ *
+ * Copies of articles for reading without a connection. The extracted article
+ * and its images are stored content-addressed (SHA-256) in the
+ * "offline-archive" folder of the user data directory and referenced from
+ * the offline_articles table. Items of sources with "archive for offline" on
+ * are archived in the background after fetching, single items on request.
+ *
+ * Archived images are served through the fluent-archive:// protocol,
+ * fluent-archive://article/<id> renders a whole archived article for views
+ * that would otherwise load the page from the web.
+ */
+
+import { app, ipcMain, net, protocol, session } from "electron"
+import { DOMParser } from "linkedom"
+import crypto from "crypto"
+import fs from "fs"
+import path from "path"
+import { store } from "./settings"
+import { extractArticlePages, ExtractedArticle } from "./article-extractor"
+import { renderFullContentDocument, textDirToString } from "./article-html-generator"
+import {
+    getItemById,
+    getSourceById,
+    getOfflineArticle,
+    hasOfflineArticle,
+    putOfflineArticle,
+    touchOfflineArticle,
+    deleteOfflineArticle,
+    deleteAllOfflineArticles,
+    getOfflineBlob,
+    putOfflineBlob,
+    getUnreferencedOfflineBlobs,
+    deleteOfflineBlobs,
+    getOfflineEvictionOrder,
+    getItemsToArchive,
+    getOfflineArchiveStats,
+    OfflineArchiveStats,
+} from "./db-sqlite"
+
+export const OFFLINE_ARCHIVE_SCHEME = "fluent-archive"
+
+const ARCHIVE_DIR = "offline-archive"
+const QUOTA_STORE_KEY = "offlineArchiveQuota"
+const DEFAULT_QUOTA = 500 // MB
+
+// Images downloaded at most for one article, larger ones stay online-only
+const MAX_IMAGES = 40
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024
+// Items of archived sources handled per background run
+const MAX_PENDING_ITEMS = 50
+// Delay of the cleanup after startup, to stay out of the way of the first fetch
+const STARTUP_CLEANUP_DELAY = 60 * 1000
+
+const domParser = new DOMParser()
+let archiving: Promise<number> = null
+let pendingRequested = false
+// Items that failed to archive this session, not retried until restart
+const failedItems = new Set<number>()
+// Files written by each archive run that hasn't stored its article yet
+const heldBlobs = new Set<Set<string>>()
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+/**
+ * Storage quota in MB, 0 for no limit
+ */
+export function getOfflineArchiveQuota(): number {
+    return store.get(QUOTA_STORE_KEY, DEFAULT_QUOTA)
+}
+
+export async function setOfflineArchiveQuota(quota: number): Promise<void> {
+    store.set(QUOTA_STORE_KEY, quota)
+    await enforceQuota()
+}
+
+// =============================================================================
+// Blob Store
+// =============================================================================
+
+function getArchiveDir(): string {
+    return path.join(app.getPath("userData"), ARCHIVE_DIR)
+}
+
+function getBlobPath(hash: string): string {
+    return path.join(getArchiveDir(), hash.substring(0, 2), hash)
+}
+
+function isHeld(hash: string): boolean {
+    return Array.from(heldBlobs).some(held => held.has(hash))
+}
+
+/**
+ * Store a file, identical files are stored once. Returns its hash. The file
+ * is kept from cleanups as long as the held set is in use.
+ */
+async function writeBlob(data: Buffer, mime: string, held: Set<string>): Promise<string> {
+    const hash = crypto.createHash("sha256").update(data).digest("hex")
+    held.add(hash)
+    const blobPath = getBlobPath(hash)
+    if (!getOfflineBlob(hash) || !fs.existsSync(blobPath)) {
+        await fs.promises.mkdir(path.dirname(blobPath), { recursive: true })
+        await fs.promises.writeFile(blobPath, data)
+        putOfflineBlob(hash, mime, data.length)
+    }
+    return hash
+}
+
+async function readBlob(hash: string): Promise<Buffer> {
+    return fs.promises.readFile(getBlobPath(hash))
+}
+
+function assetUrl(hash: string): string {
+    return `${OFFLINE_ARCHIVE_SCHEME}://asset/${hash}`
+}
+
+// =============================================================================
+// Archiving
+// =============================================================================
+
+function resolveUrl(url: string, baseUrl: string): string {
+    try {
+        const resolved = new URL(url, baseUrl)
+        return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.href : null
+    } catch {
+        return null
+    }
+}
+
+async function downloadImage(url: string): Promise<{ data: Buffer; mime: string }> {
+    const response = await net.fetch(url)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const mime = (response.headers.get("content-type") || "").split(";")[0].trim()
+    if (!mime.startsWith("image/")) throw new Error(`Not an image: ${mime}`)
+    if (Number(response.headers.get("content-length")) > MAX_IMAGE_SIZE) throw new Error("Image too large")
+    const data = Buffer.from(await response.arrayBuffer())
+    if (data.length > MAX_IMAGE_SIZE) throw new Error("Image too large")
+    return { data, mime }
+}
+
+/**
+ * Download the images of an article and point them to the archive. Images
+ * that fail to download keep their web address.
+ */
+async function archiveImages(content: string, baseUrl: string, held: Set<string>): Promise<{ content: string; assets: string[] }> {
+    // linkedom's own types don't describe elements as DOM elements
+    const document = domParser.parseFromString(
+        `<html><body>${content}</body></html>`, "text/html"
+    ) as unknown as Document
+    // Responsive variants would be loaded from the web instead of the archive
+    document.querySelectorAll("picture source").forEach(element => element.remove())
+
+    const downloads = new Map<string, Promise<string>>()
+    const assets: string[] = []
+    for (const image of Array.from(document.querySelectorAll("img"))) {
+        const srcset = image.getAttribute("srcset")
+        const src = image.getAttribute("src") || (srcset && srcset.trim().split(/\s+/)[0])
+        const url = src && resolveUrl(src, baseUrl)
+        image.removeAttribute("srcset")
+        image.removeAttribute("sizes")
+        image.removeAttribute("loading")
+        if (!url) continue
+        if (!downloads.has(url)) {
+            if (downloads.size >= MAX_IMAGES) continue
+            downloads.set(url, downloadImage(url)
+                .then(({ data, mime }) => writeBlob(data, mime, held))
+                .catch(error => {
+                    console.warn(`[offline-archive] Image not archived ${url}:`, error?.message || error)
+                    return null
+                }))
+        }
+        const hash = await downloads.get(url)
+        if (hash) {
+            image.setAttribute("src", assetUrl(hash))
+            if (!assets.includes(hash)) assets.push(hash)
+        } else {
+            image.setAttribute("src", url)
+        }
+    }
+    return { content: document.body.innerHTML, assets }
+}
+
+/**
+ * Extract an item's article with all of its pages and store it together with
+ * its images. Items archived by hand are pinned and evicted last.
+ */
+export async function archiveItem(itemId: number, pinned = false): Promise<void> {
+    const item = getItemById(itemId)
+    if (!item) throw new Error(`Item ${itemId} not found`)
+    if (!item.link) throw new Error(`Item ${itemId} has no link`)
+    const article = await extractArticlePages(item.link)
+    const extracted = article?.content || item.content
+    if (!extracted) throw new Error("No article content found")
+
+    const held = new Set<string>()
+    heldBlobs.add(held)
+    try {
+        const { content, assets } = await archiveImages(extracted, item.link, held)
+        const data = Buffer.from(content, "utf-8")
+        const contentHash = await writeBlob(data, "text/html", held)
+        const size = assets.reduce((sum, hash) => sum + (getOfflineBlob(hash)?.size || 0), data.length)
+        const existing = getOfflineArticle(itemId)
+        const now = new Date().toISOString()
+        putOfflineArticle({
+            itemId,
+            link: item.link,
+            title: article?.title || item.title,
+            published: article?.published || null,
+            contentHash,
+            assets: JSON.stringify(assets),
+            size,
+            pinned: pinned || existing?.pinned ? 1 : 0,
+            createdAt: now,
+            lastAccessed: existing?.lastAccessed || now,
+        })
+    } finally {
+        heldBlobs.delete(held)
+    }
+    failedItems.delete(itemId)
+    await enforceQuota(itemId)
+}
+
+export async function removeArchivedItem(itemId: number): Promise<void> {
+    deleteOfflineArticle(itemId)
+    await cleanupOfflineArchive()
+}
+
+async function runPending(): Promise<number> {
+    let archived = 0
+    do {
+        pendingRequested = false
+        const items = getItemsToArchive(MAX_PENDING_ITEMS + failedItems.size)
+            .filter(item => !failedItems.has(item._id))
+            .slice(0, MAX_PENDING_ITEMS)
+        for (const item of items) {
+            if (!net.isOnline()) return archived
+            try {
+                await archiveItem(item._id)
+                archived++
+            } catch (error: any) {
+                failedItems.add(item._id)
+                console.warn(`[offline-archive] Failed to archive ${item.link}:`, error?.message || error)
+            }
+        }
+    } while (pendingRequested)
+    return archived
+}
+
+/**
+ * Archive new items of sources archived for offline reading, one at a time.
+ * A call while a run is going on makes the run look for new items again.
+ */
+export function archivePendingItems(): Promise<number> {
+    if (archiving) {
+        pendingRequested = true
+        return archiving
+    }
+    if (!net.isOnline()) return Promise.resolve(0)
+    archiving = runPending().finally(() => {
+        archiving = null
+    })
+    return archiving
+}
+
+// =============================================================================
+// Quota and Cleanup
+// =============================================================================
+
+/**
+ * Delete files no archived article refers to anymore
+ */
+export async function cleanupOfflineArchive(): Promise<number> {
+    const hashes = getUnreferencedOfflineBlobs().filter(hash => !isHeld(hash))
+    deleteOfflineBlobs(hashes)
+    for (const hash of hashes) {
+        await fs.promises.rm(getBlobPath(hash), { force: true })
+    }
+    return hashes.length
+}
+
+/**
+ * Evict articles until the archive fits the quota: automatically archived
+ * ones before pinned ones, the least recently read first
+ */
+export async function enforceQuota(keepItemId?: number): Promise<void> {
+    const quota = getOfflineArchiveQuota() * 1024 * 1024
+    if (quota <= 0) return
+    let { bytes } = getOfflineArchiveStats()
+    while (bytes > quota) {
+        // Article sizes count shared images for each article, so recheck after cleaning up
+        let estimate = bytes
+        let evicted = false
+        for (const itemId of getOfflineEvictionOrder()) {
+            if (estimate <= quota) break
+            if (itemId === keepItemId) continue
+            estimate -= getOfflineArticle(itemId)?.size || 0
+            deleteOfflineArticle(itemId)
+            evicted = true
+        }
+        await cleanupOfflineArchive()
+        if (!evicted) break
+        bytes = getOfflineArchiveStats().bytes
+    }
+}
+
+export async function clearOfflineArchive(): Promise<void> {
+    deleteAllOfflineArticles()
+    await cleanupOfflineArchive()
+}
+
+export function getOfflineArchiveStatus(): OfflineArchiveStats & { quota: number } {
+    return { ...getOfflineArchiveStats(), quota: getOfflineArchiveQuota() }
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+function toItemId(articleId: string | number): number {
+    const itemId = Number(articleId)
+    return Number.isInteger(itemId) ? itemId : null
+}
+
+/**
+ * The archived copy of an item in the form the extractor returns articles
+ */
+export async function readArchivedArticle(itemId: number): Promise<ExtractedArticle | null> {
+    const row = getOfflineArticle(itemId)
+    if (!row) return null
+    try {
+        const content = (await readBlob(row.contentHash)).toString("utf-8")
+        touchOfflineArticle(itemId)
+        return { url: row.link, title: row.title, published: row.published, content }
+    } catch (error) {
+        console.warn(`[offline-archive] Archived copy of item ${itemId} is missing:`, error)
+        return null
+    }
+}
+
+/**
+ * The archived copy to show instead of the web page while offline, null if
+ * online or if the article isn't archived
+ */
+export async function getOfflineCopy(articleId: string): Promise<ExtractedArticle | null> {
+    const itemId = toItemId(articleId)
+    if (itemId === null || net.isOnline()) return null
+    return readArchivedArticle(itemId)
+}
+
+/**
+ * Address of the archived article page to load instead of a web page while
+ * offline, the URL itself otherwise
+ */
+export function getOfflineUrl(articleId: string, url: string): string {
+    const itemId = toItemId(articleId)
+    if (itemId === null || !/^https?:/.test(url) || net.isOnline() || !hasOfflineArticle(itemId)) return url
+    return `${OFFLINE_ARCHIVE_SCHEME}://article/${itemId}`
+}
+
+function getLocale(): string {
+    const locale = store.get("locale", "default")
+    return locale === "default" ? app.getLocale() : locale
+}
+
+async function renderArchivedArticle(itemId: number): Promise<string> {
+    const article = await readArchivedArticle(itemId)
+    if (!article) return null
+    const item = getItemById(itemId)
+    const source = item && getSourceById(item.source)
+    return renderFullContentDocument({
+        title: article.title,
+        date: new Date(item?.date || Date.now()),
+        content: article.content,
+        baseUrl: article.url,
+        textDir: textDirToString(source?.textDir ?? 0),
+        fontSize: store.get("fontSize", 16),
+        fontFamily: store.get("fontFamily", ""),
+        locale: getLocale(),
+        extractorTitle: article.title,
+        extractorDate: article.published ? new Date(article.published) : undefined,
+    })
+}
+
+async function handleArchiveRequest(request: Request): Promise<Response> {
+    const { host, pathname } = new URL(request.url)
+    const key = pathname.replace(/^\//, "")
+    try {
+        if (host === "asset") {
+            const blob = /^[0-9a-f]{64}$/.test(key) && getOfflineBlob(key)
+            if (blob) {
+                return new Response(new Uint8Array(await readBlob(key)), {
+                    headers: { "Content-Type": blob.mime },
+                })
+            }
+        } else if (host === "article") {
+            const itemId = toItemId(key)
+            const html = itemId !== null && await renderArchivedArticle(itemId)
+            if (html) {
+                return new Response(html, {
+                    headers: { "Content-Type": "text/html; charset=utf-8" },
+                })
+            }
+        }
+    } catch (error) {
+        console.error(`[offline-archive] Failed to serve ${request.url}:`, error)
+    }
+    return new Response("Not found", { status: 404 })
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+/**
+ * Must be called before the app is ready
+ */
+export function registerOfflineArchiveScheme(): void {
+    protocol.registerSchemesAsPrivileged([{
+        scheme: OFFLINE_ARCHIVE_SCHEME,
+        privileges: { standard: true, secure: true, supportFetchAPI: true },
+    }])
+}
+
+/**
+ * Serve the archive to article views and register IPC handlers for the
+ * renderer. Requires the database to be initialized.
+ */
+export function setupOfflineArchive(): void {
+    for (const ses of [session.defaultSession, session.fromPartition("sandbox")]) {
+        ses.protocol.handle(OFFLINE_ARCHIVE_SCHEME, handleArchiveRequest)
+    }
+
+    ipcMain.on("offline-archive:has", (event, itemId: number) => {
+        event.returnValue = hasOfflineArticle(itemId)
+    })
+
+    ipcMain.handle("offline-archive:archive", async (_, itemId: number) => {
+        try {
+            await archiveItem(itemId, true)
+            return {}
+        } catch (error: any) {
+            return { error: error?.message || String(error) }
+        }
+    })
+
+    ipcMain.handle("offline-archive:remove", (_, itemId: number) => removeArchivedItem(itemId))
+
+    ipcMain.handle("offline-archive:getArticle", (_, itemId: number) => readArchivedArticle(itemId))
+
+    ipcMain.handle("offline-archive:archivePending", () => archivePendingItems())
+
+    ipcMain.handle("offline-archive:getStatus", () => getOfflineArchiveStatus())
+
+    ipcMain.handle("offline-archive:setQuota", (_, quota: number) => setOfflineArchiveQuota(quota))
+
+    ipcMain.handle("offline-archive:cleanup", () => cleanupOfflineArchive())
+
+    ipcMain.handle("offline-archive:clear", () => clearOfflineArchive())
+
+    setTimeout(() => {
+        cleanupOfflineArchive().catch(error => {
+            console.error("[offline-archive] Cleanup failed:", error)
+        })
+    }, STARTUP_CLEANUP_DELAY)
+}
@@ -8,7 +8,9 @@ import {
     SyncService,
     ServiceConfigs,
     ViewConfigs,
+    BilingualMode,
 } from "../schema-types"
+import type { SourceRule } from "../scripts/models/rule-engine"
 import { ipcMain, session, nativeTheme, app } from "electron"
 import { WindowManager } from "./window"
 
@@ -22,6 +24,14 @@ ipcMain.on("get-groups", event => {
     event.returnValue = store.get(GROUPS_STORE_KEY, [])
 })
 
+const GLOBAL_RULES_STORE_KEY = "globalRules"
+ipcMain.handle("set-global-rules", (_, rules: SourceRule[]) => {
+    store.set(GLOBAL_RULES_STORE_KEY, rules)
+})
+ipcMain.on("get-global-rules", event => {
+    event.returnValue = store.get(GLOBAL_RULES_STORE_KEY, [])
+})
+
 const MENU_STORE_KEY = "menuOn"
 ipcMain.on("get-menu", event => {
     event.returnValue = store.get(MENU_STORE_KEY, false)
@@ -155,13 +165,29 @@ ipcMain.handle("set-search-engine", (_, engine: SearchEngines) => {
 })
 
 const SERVICE_CONFIGS_STORE_KEY = "serviceConfigs"
-ipcMain.on("get-service-configs", event => {
-    event.returnValue = store.get(SERVICE_CONFIGS_STORE_KEY, {
-        type: SyncService.None,
-    })
+const SERVICE_ACCOUNTS_STORE_KEY = "serviceAccounts"
+// Id of the account migrated from the single service of older versions,
+// the database migration tags its sources with the same id
+const LEGACY_SERVICE_ACCOUNT = "default"
+function getServiceAccounts(): ServiceConfigs[] {
+    if (!store.has(SERVICE_ACCOUNTS_STORE_KEY)) {
+        const configs = store.get(SERVICE_CONFIGS_STORE_KEY, {
+            type: SyncService.None,
+        })
+        store.set(
+            SERVICE_ACCOUNTS_STORE_KEY,
+            configs.type === SyncService.None
+                ? []
+                : [{ ...configs, id: LEGACY_SERVICE_ACCOUNT }]
+        )
+    }
+    return store.get(SERVICE_ACCOUNTS_STORE_KEY)
+}
+ipcMain.on("get-service-accounts", event => {
+    event.returnValue = getServiceAccounts()
 })
-ipcMain.handle("set-service-configs", (_, configs: ServiceConfigs) => {
-    store.set(SERVICE_CONFIGS_STORE_KEY, configs)
+ipcMain.handle("set-service-accounts", (_, accounts: ServiceConfigs[]) => {
+    store.set(SERVICE_ACCOUNTS_STORE_KEY, accounts)
 })
 
 const FILTER_TYPE_STORE_KEY = "filterType"
@@ -292,6 +318,15 @@ export function isVisualZoomEnabled(): boolean {
     return store.get(VISUAL_ZOOM_STORE_KEY, false) as boolean
 }
 
+// Bilingual article view (original and translation side by side)
+const BILINGUAL_MODE_STORE_KEY = "bilingualMode"
+ipcMain.on("get-bilingual-mode", event => {
+    event.returnValue = store.get(BILINGUAL_MODE_STORE_KEY, BilingualMode.Off)
+})
+ipcMain.handle("set-bilingual-mode", (_, mode: BilingualMode) => {
+    store.set(BILINGUAL_MODE_STORE_KEY, mode)
+})
+
 // Mobile User-Agent (global setting - sends mobile UA to server)
 const MOBILE_USER_AGENT_STORE_KEY = "mobileUserAgentEnabled"
 ipcMain.on("get-mobile-user-agent", event => {
@@ -0,0 +1,341 @@
+/**
+ * Site Extraction Rules
+ *
+ * Declarative per-domain fixes for full content extraction. Rules are JSON
+ * or YAML files in the "site-rules" folder of the user data directory, each
+ * holding one rule or an array of rules, and are applied to the downloaded
+ * page before @extractus/article-extractor sees it:
+ *
+ * {
+ *     "domains": ["example.com"],
+ *     "content": ["article .story-body"],
+ *     "strip": [".newsletter-signup", "aside"],
+ *     "title": "h1.headline",
+ *     "date": "time[datetime]",
+ *     "nextPage": "a.pagination-next",
+ *     "lazyImages": { "data-src": "src", "data-srcset": "srcset" }
+ * }
+ */
+
+import { app, ipcMain, shell } from "electron"
+import { DOMParser } from "linkedom"
+import yaml from "js-yaml"
+import fs from "fs"
+import path from "path"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SiteRule {
+    domains: string[] // Matches the domain and all of its subdomains
+    content?: string[] // Elements holding the article, in page order
+    strip?: string[] // Elements removed before extraction
+    title?: string
+    date?: string // datetime or content attribute, or the text
+    nextPage?: string // Link to the next page of the article
+    lazyImages?: Record<string, string> // Source attribute -> target attribute
+}
+
+export interface SiteRuleFile {
+    name: string
+    source: string
+    error?: string
+}
+
+export interface SiteRuleResult {
+    html: string
+    title?: string
+    published?: string
+    nextPage?: string
+}
+
+const RULES_DIR = "site-rules"
+const FILE_NAME = /^[\w.-]+\.(json|ya?ml)$/
+const YAML_FILE = /\.ya?ml$/
+const ATTRIBUTE_NAME = /^[a-zA-Z_][\w-]*$/
+
+const domParser = new DOMParser()
+let rules: SiteRule[] = null
+let watcher: fs.FSWatcher = null
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function isStringArray(value: any): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === "string")
+}
+
+function checkSelector(selector: string) {
+    const document = domParser.parseFromString("<html><body></body></html>", "text/html")
+    try {
+        document.querySelector(selector)
+    } catch {
+        throw new Error(`Invalid selector "${selector}"`)
+    }
+}
+
+function parseSelectors(value: any, key: string): string[] {
+    if (value === undefined) return undefined
+    const selectors = typeof value === "string" ? [value] : value
+    if (!isStringArray(selectors)) throw new Error(`"${key}" must be a selector or a list of selectors`)
+    selectors.forEach(checkSelector)
+    return selectors
+}
+
+function parseSelector(value: any, key: string): string {
+    if (value === undefined) return undefined
+    if (typeof value !== "string") throw new Error(`"${key}" must be a selector`)
+    checkSelector(value)
+    return value
+}
+
+function parseRule(value: any): SiteRule {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error("A rule must be an object")
+    }
+    const domains = typeof value.domains === "string" ? [value.domains] : value.domains
+    if (!isStringArray(domains) || domains.length === 0) {
+        throw new Error(`"domains" must list at least one domain`)
+    }
+    const rule: SiteRule = {
+        domains: domains.map(d => d.trim().toLowerCase().replace(/^\*\./, "")),
+        content: parseSelectors(value.content, "content"),
+        strip: parseSelectors(value.strip, "strip"),
+        title: parseSelector(value.title, "title"),
+        date: parseSelector(value.date, "date"),
+        nextPage: parseSelector(value.nextPage, "nextPage"),
+    }
+    if (value.lazyImages !== undefined) {
+        const lazyImages = value.lazyImages
+        if (typeof lazyImages !== "object" || lazyImages === null || Array.isArray(lazyImages)
+            || !Object.entries(lazyImages).every(([from, to]) =>
+                ATTRIBUTE_NAME.test(from) && typeof to === "string" && ATTRIBUTE_NAME.test(to))) {
+            throw new Error(`"lazyImages" must map attribute names to attribute names`)
+        }
+        rule.lazyImages = lazyImages
+    }
+    return rule
+}
+
+/**
+ * Rules of a file, throws with a readable message if any of them is invalid.
+ * Files named .yaml or .yml are read as YAML, all others as JSON.
+ */
+export function parseSiteRules(source: string, name = ""): SiteRule[] {
+    let value: any
+    if (YAML_FILE.test(name)) {
+        try {
+            value = yaml.load(source, { schema: yaml.JSON_SCHEMA })
+        } catch (error: any) {
+            throw new Error(`Invalid YAML: ${error.message}`)
+        }
+    } else {
+        try {
+            value = JSON.parse(source)
+        } catch (error: any) {
+            throw new Error(`Invalid JSON: ${error.message}`)
+        }
+    }
+    const values = Array.isArray(value) ? value : [value]
+    return values.map((v, i) => {
+        try {
+            return parseRule(v)
+        } catch (error: any) {
+            throw new Error(values.length > 1 ? `Rule ${i + 1}: ${error.message}` : error.message)
+        }
+    })
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+export function getSiteRulesDir(): string {
+    const dir = path.join(app.getPath("userData"), RULES_DIR)
+    fs.mkdirSync(dir, { recursive: true })
+    return dir
+}
+
+function toFileName(name: string) {
+    name = (name || "").trim()
+    if (!/\.(json|ya?ml)$/.test(name)) name += ".json"
+    if (!FILE_NAME.test(name)) throw new Error(`Invalid file name "${name}"`)
+    return name
+}
+
+/**
+ * Rule files with their source, files that fail to parse carry the error
+ */
+export function listSiteRuleFiles(): SiteRuleFile[] {
+    const dir = getSiteRulesDir()
+    return fs.readdirSync(dir)
+        .filter(name => FILE_NAME.test(name))
+        .sort()
+        .map(name => {
+            const source = fs.readFileSync(path.join(dir, name), "utf-8")
+            try {
+                parseSiteRules(source, name)
+                return { name, source }
+            } catch (error: any) {
+                return { name, source, error: error.message }
+            }
+        })
+}
+
+/**
+ * Validate and write a rule file, returns the file name used
+ */
+export function saveSiteRuleFile(name: string, source: string): string {
+    name = toFileName(name)
+    parseSiteRules(source, name)
+    fs.writeFileSync(path.join(getSiteRulesDir(), name), source, "utf-8")
+    rules = null
+    return name
+}
+
+export function deleteSiteRuleFile(name: string): void {
+    fs.rmSync(path.join(getSiteRulesDir(), toFileName(name)), { force: true })
+    rules = null
+}
+
+/**
+ * Rules of all valid files, reloaded once the folder changes
+ */
+export function getSiteRules(): SiteRule[] {
+    if (rules === null) {
+        rules = []
+        for (const file of listSiteRuleFiles()) {
+            if (file.error) {
+                console.warn(`[site-rules] Skipping ${file.name}: ${file.error}`)
+            } else {
+                rules.push(...parseSiteRules(file.source, file.name))
+            }
+        }
+        if (!watcher) {
+            try {
+                watcher = fs.watch(getSiteRulesDir(), () => { rules = null })
+            } catch (error) {
+                console.warn("[site-rules] Cannot watch rule folder:", error)
+            }
+        }
+    }
+    return rules
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * The rule for a page, rules for more specific domains win
+ */
+export function findSiteRule(url: string, candidates: SiteRule[] = getSiteRules()): SiteRule | undefined {
+    let host: string
+    try {
+        host = new URL(url).hostname.toLowerCase()
+    } catch {
+        return undefined
+    }
+    let best: SiteRule = undefined
+    let bestLength = 0
+    for (const rule of candidates) {
+        for (const domain of rule.domains) {
+            if ((host === domain || host.endsWith("." + domain)) && domain.length > bestLength) {
+                best = rule
+                bestLength = domain.length
+            }
+        }
+    }
+    return best
+}
+
+function parseDate(element: Element): string {
+    const value = element.getAttribute("datetime") || element.getAttribute("content") || element.textContent
+    const date = new Date((value || "").trim())
+    return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+function resolveLink(element: Element, baseUrl: string): string {
+    const href = element.getAttribute("href")
+    if (!href) return undefined
+    try {
+        return new URL(href, baseUrl).href
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Apply a rule to a page. Metadata is read before anything is stripped;
+ * if content selectors match, the body is replaced by the matched elements.
+ */
+export function applySiteRule(html: string, url: string, rule: SiteRule): SiteRuleResult {
+    // linkedom's own types don't describe elements as DOM elements
+    const document = domParser.parseFromString(html, "text/html") as unknown as Document
+    const result: SiteRuleResult = { html }
+
+    const titleElement = rule.title && document.querySelector(rule.title)
+    if (titleElement) result.title = titleElement.textContent.replace(/\s+/g, " ").trim() || undefined
+    const dateElement = rule.date && document.querySelector(rule.date)
+    if (dateElement) result.published = parseDate(dateElement)
+    const nextElement = rule.nextPage && document.querySelector(rule.nextPage)
+    if (nextElement) result.nextPage = resolveLink(nextElement, url)
+
+    for (const selector of rule.strip || []) {
+        document.querySelectorAll(selector).forEach(element => element.remove())
+    }
+    for (const [from, to] of Object.entries(rule.lazyImages || {})) {
+        document.querySelectorAll(`[${from}]`).forEach(element => {
+            element.setAttribute(to, element.getAttribute(from))
+        })
+    }
+
+    const matches: Element[] = []
+    for (const selector of rule.content || []) {
+        document.querySelectorAll(selector).forEach(element => {
+            if (!matches.some(m => m === element || m.contains(element))) matches.push(element)
+        })
+    }
+    if (matches.length > 0) {
+        // Keep <head>, the extractor reads metadata from it
+        const head = document.querySelector("head")
+        result.html = `<html><head>${head ? head.innerHTML : ""}</head><body><article>`
+            + matches.map(m => m.outerHTML).join("\n")
+            + "</article></body></html>"
+    } else {
+        result.html = document.toString()
+    }
+    return result
+}
+
+// =============================================================================
+// IPC
+// =============================================================================
+
+/**
+ * Register IPC handlers for the rule editor in the settings
+ */
+export function setupSiteRulesIPC(): void {
+    ipcMain.handle("site-rules:list", () => {
+        rules = null
+        return listSiteRuleFiles()
+    })
+
+    ipcMain.handle("site-rules:save", (_, name: string, source: string) => {
+        try {
+            return { name: saveSiteRuleFile(name, source) }
+        } catch (error: any) {
+            return { error: error?.message || String(error) }
+        }
+    })
+
+    ipcMain.handle("site-rules:delete", (_, name: string) => {
+        deleteSiteRuleFile(name)
+    })
+
+    ipcMain.handle("site-rules:openFolder", async () => {
+        await shell.openPath(getSiteRulesDir())
+    })
+}
@@ -0,0 +1,288 @@
+/**
+ * Translation Jobs
+ *
+ * Article translations run as jobs that can be listed and cancelled. The
+ * article being read is translated first, articles prefetched by the
+ * ContentViewPool are translated in the background and cancelled when they
+ * leave the prefetch window. Provider requests made while a job runs are
+ * attributed to it, so the rate-limited provider queues can order them by
+ * job priority.
+ */
+
+import { BrowserWindow } from "electron"
+import { AsyncLocalStorage } from "async_hooks"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TranslationJobPriority = "current" | "prefetch"
+export type TranslationJobStatus = "pending" | "active" | "failed"
+
+export interface TranslationJobInfo {
+    id: number
+    articleId: string
+    title: string
+    targetLang: string
+    priority: TranslationJobPriority
+    status: TranslationJobStatus
+    error?: string
+    createdAt: number
+}
+
+export interface TranslationJob extends TranslationJobInfo {
+    key: string
+    cancelled: boolean
+    errors: string[] // Requests that fell back to the original text
+    run: () => Promise<any>
+    promise: Promise<any>
+    resolve: (value: any) => void
+    reject: (error: any) => void
+}
+
+export interface TranslationJobRequest {
+    key: string // Jobs with the same key are merged
+    articleId: string
+    title: string
+    targetLang: string
+    priority: TranslationJobPriority
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Background jobs running at once; the current article never waits for them
+const MAX_ACTIVE_JOBS = 2
+// Failed jobs kept for the status panel
+const MAX_FAILED_JOBS = 20
+
+const PRIORITY_RANK: Record<TranslationJobPriority, number> = {
+    current: 0,
+    prefetch: 1,
+}
+
+const CANCELLED_MESSAGE = "Translation cancelled"
+
+let jobs: TranslationJob[] = []
+let nextJobId = 1
+const jobContext = new AsyncLocalStorage<TranslationJob>()
+
+// =============================================================================
+// Job Context
+// =============================================================================
+
+/**
+ * The job the calling code runs in, undefined outside of jobs
+ */
+export function getCurrentJob(): TranslationJob | undefined {
+    return jobContext.getStore()
+}
+
+/**
+ * Queue rank of a request, lower runs first. Requests outside of jobs are
+ * made for something on screen and rank like the current article.
+ */
+export function getJobRank(job: TranslationJob | undefined): number {
+    return job ? PRIORITY_RANK[job.priority] : PRIORITY_RANK.current
+}
+
+export function isTranslationCancelled(error: any): boolean {
+    return error?.message === CANCELLED_MESSAGE
+}
+
+export function cancelledError(): Error {
+    return new Error(CANCELLED_MESSAGE)
+}
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+function toJobInfo(job: TranslationJob): TranslationJobInfo {
+    const {
+        id,
+        articleId,
+        title,
+        targetLang,
+        priority,
+        status,
+        error,
+        createdAt,
+    } = job
+    return {
+        id,
+        articleId,
+        title,
+        targetLang,
+        priority,
+        status,
+        error,
+        createdAt,
+    }
+}
+
+function compareJobs(a: TranslationJob, b: TranslationJob) {
+    return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.id - b.id
+}
+
+function notifyJobsChanged(): void {
+    const jobInfos = getTranslationJobs()
+    for (const window of BrowserWindow.getAllWindows()) {
+        if (!window.isDestroyed())
+            window.webContents.send("translation:jobsChanged", jobInfos)
+    }
+}
+
+function removeJob(job: TranslationJob): void {
+    jobs = jobs.filter(j => j !== job)
+}
+
+function startJobs(): void {
+    let active = jobs.filter(j => j.status === "active").length
+    for (const job of jobs
+        .filter(j => j.status === "pending")
+        .sort(compareJobs)) {
+        if (job.priority !== "current" && active >= MAX_ACTIVE_JOBS) break
+        active++
+        runJob(job)
+    }
+}
+
+async function runJob(job: TranslationJob): Promise<void> {
+    job.status = "active"
+    notifyJobsChanged()
+    try {
+        const result = await jobContext.run(job, job.run)
+        if (job.cancelled) throw cancelledError()
+        if (job.errors.length > 0) {
+            // Partly untranslated results are still shown, the job is kept to tell why
+            job.status = "failed"
+            job.error = job.errors[0]
+        } else {
+            removeJob(job)
+        }
+        job.resolve(result)
+    } catch (error: any) {
+        if (job.cancelled) {
+            removeJob(job)
+        } else {
+            job.status = "failed"
+            job.error = error?.message || String(error)
+        }
+        job.reject(job.cancelled ? cancelledError() : error)
+    }
+    const failed = jobs.filter(j => j.status === "failed")
+    if (failed.length > MAX_FAILED_JOBS) {
+        const dropped = new Set(
+            failed.slice(0, failed.length - MAX_FAILED_JOBS)
+        )
+        jobs = jobs.filter(j => !dropped.has(j))
+    }
+    notifyJobsChanged()
+    startJobs()
+}
+
+/**
+ * Run a translation as a job. A job with the same key that is still pending
+ * or running is reused and moved up if the new request is more urgent.
+ */
+export function runTranslationJob<T>(
+    request: TranslationJobRequest,
+    run: () => Promise<T>
+): Promise<T> {
+    const existing = jobs.find(
+        j => j.key === request.key && j.status !== "failed" && !j.cancelled
+    )
+    if (existing) {
+        if (
+            PRIORITY_RANK[request.priority] < PRIORITY_RANK[existing.priority]
+        ) {
+            existing.priority = request.priority
+            notifyJobsChanged()
+            startJobs()
+        }
+        return existing.promise
+    }
+    const job = {
+        ...request,
+        id: nextJobId++,
+        status: "pending",
+        createdAt: Date.now(),
+        cancelled: false,
+        errors: [],
+        run,
+    } as TranslationJob
+    job.promise = new Promise<T>((resolve, reject) => {
+        job.resolve = resolve
+        job.reject = reject
+    })
+    // Nobody may wait for prefetch jobs that end up cancelled
+    job.promise.catch(() => {})
+    jobs.push(job)
+    notifyJobsChanged()
+    startJobs()
+    return job.promise
+}
+
+/**
+ * Move the jobs of an article to the front, e.g. once it is opened
+ */
+export function prioritizeTranslationJobs(articleId: string): void {
+    let changed = false
+    for (const job of jobs) {
+        if (
+            job.articleId === articleId &&
+            job.priority !== "current" &&
+            job.status !== "failed"
+        ) {
+            job.priority = "current"
+            changed = true
+        }
+    }
+    if (changed) {
+        notifyJobsChanged()
+        startJobs()
+    }
+}
+
+/**
+ * Cancel pending and running jobs matching the filter. Running jobs stop
+ * before their next provider request.
+ */
+export function cancelTranslationJobs(
+    filter: (job: TranslationJobInfo) => boolean
+): number {
+    const cancelled = jobs.filter(
+        j => j.status !== "failed" && !j.cancelled && filter(toJobInfo(j))
+    )
+    for (const job of cancelled) {
+        job.cancelled = true
+        if (job.status === "pending") {
+            removeJob(job)
+            job.reject(cancelledError())
+        }
+    }
+    if (cancelled.length > 0) notifyJobsChanged()
+    return cancelled.length
+}
+
+export function clearFailedTranslationJobs(): void {
+    jobs = jobs.filter(j => j.status !== "failed")
+    notifyJobsChanged()
+}
+
+/**
+ * Running jobs first, then pending ones by priority, then failed ones
+ */
+export function getTranslationJobs(): TranslationJobInfo[] {
+    const order: Record<TranslationJobStatus, number> = {
+        active: 0,
+        pending: 1,
+        failed: 2,
+    }
+    return jobs
+        .filter(j => !j.cancelled)
+        .sort((a, b) => order[a.status] - order[b.status] || compareJobs(a, b))
+        .map(toJobInfo)
+}
@@ -0,0 +1,349 @@
+/**
+ * Translation Providers
+ *
+ * Every backend describes itself with a config schema, rate limits and the
+ * languages it can translate into. The translation service only talks to
+ * the registry, and the settings UI is generated from the same descriptions.
+ */
+
+import translate from "google-translate-api-x"
+
+// =============================================================================
+// Provider Interface
+// =============================================================================
+
+export type ProviderConfig = { [key: string]: string }
+
+export interface ProviderConfigField {
+    key: string
+    label: string // i18n key, translated by the settings UI
+    type: "text" | "url" | "password" | "multiline"
+    required?: boolean
+    placeholder?: string
+    defaultValue?: string
+    description?: string // i18n key
+}
+
+export interface ProviderRateLimit {
+    minDelay: number // Milliseconds between two requests
+    cooldown: number // Milliseconds to pause after being rate limited
+}
+
+export interface TranslationProviderInfo {
+    id: string
+    name: string
+    fields: ProviderConfigField[]
+    rateLimit: ProviderRateLimit
+    maxChunkSize: number | null // Characters per request, null if unlimited
+    chunkInBytes?: boolean // maxChunkSize counts UTF-8 bytes instead
+    supportsHtml: boolean
+    languages: string[] | null // Target language codes, null for all
+}
+
+export interface TranslationProvider extends TranslationProviderInfo {
+    translate(
+        text: string,
+        targetLang: string,
+        format: "text" | "html",
+        config: ProviderConfig
+    ): Promise<string>
+}
+
+/**
+ * Supported languages for translation
+ * Key = language code, Value = display name
+ */
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+    "de": "Deutsch",
+    "en": "English",
+    "es": "Español",
+    "fr": "Français",
+    "it": "Italiano",
+    "ja": "日本語",
+    "ko": "한국어",
+    "nl": "Nederlands",
+    "pl": "Polski",
+    "pt": "Português",
+    "ru": "Русский",
+    "zh-CN": "简体中文",
+    "zh-TW": "繁體中文",
+    "ar": "العربية",
+    "hi": "हिन्दी",
+    "tr": "Türkçe",
+    "uk": "Українська",
+    "vi": "Tiếng Việt",
+    "th": "ไทย",
+    "sv": "Svenska",
+    "da": "Dansk",
+    "fi": "Suomi",
+    "no": "Norsk",
+    "cs": "Čeština",
+    "hu": "Magyar",
+    "ro": "Română",
+    "el": "Ελληνικά",
+    "he": "עברית",
+    "id": "Bahasa Indonesia"
+}
+
+async function postJson(url: string, body: any, headers: Record<string, string> = {}): Promise<any> {
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body)
+    })
+    if (!response.ok) {
+        const errorText = await response.text().catch(() => "Unknown error")
+        throw new Error(`${response.status}: ${errorText}`)
+    }
+    return response.json()
+}
+
+function trimSlash(url: string) {
+    return url.replace(/\/+$/, "")
+}
+
+// =============================================================================
+// Google Translate (unofficial, via google-translate-api-x)
+// =============================================================================
+
+const googleProvider: TranslationProvider = {
+    id: "google",
+    name: "Google Translate",
+    fields: [],
+    rateLimit: { minDelay: 2000, cooldown: 60000 },
+    // Google has ~5000 char limit, use less for safety
+    maxChunkSize: 4000,
+    supportsHtml: false,
+    languages: null,
+    translate: async (text, targetLang) => {
+        const result = await translate(text, { to: targetLang })
+        return result.text
+    }
+}
+
+// =============================================================================
+// LibreTranslate (self-hosted or public instance)
+// =============================================================================
+
+const libreTranslateProvider: TranslationProvider = {
+    id: "libretranslate",
+    name: "LibreTranslate",
+    fields: [
+        {
+            key: "url",
+            label: "translation.fields.serverUrl",
+            type: "url",
+            required: true,
+            defaultValue: "http://192.168.0.141:5050"  // Default local instance
+        },
+        { key: "apiKey", label: "translation.fields.apiKey", type: "password" }
+    ],
+    rateLimit: { minDelay: 0, cooldown: 60000 },
+    maxChunkSize: null,
+    supportsHtml: true,
+    languages: null,
+    translate: async (text, targetLang, format, config) => {
+        const body: any = {
+            q: text,
+            source: "auto",  // Auto-detect source language
+            target: targetLang,
+            format: format
+        }
+        if (config.apiKey) body.api_key = config.apiKey
+        const result = await postJson(`${trimSlash(config.url)}/translate`, body)
+        return result.translatedText
+    }
+}
+
+// =============================================================================
+// DeepL API and compatible endpoints
+// =============================================================================
+
+// DeepL names some target languages by region or script
+const DEEPL_LANGUAGES: Record<string, string> = {
+    "en": "EN-US",
+    "pt": "PT-PT",
+    "zh-CN": "ZH-HANS",
+    "zh-TW": "ZH-HANT",
+    "no": "NB",
+}
+
+const deepLProvider: TranslationProvider = {
+    id: "deepl",
+    name: "DeepL",
+    fields: [
+        {
+            key: "url",
+            label: "translation.fields.apiUrl",
+            type: "url",
+            required: true,
+            defaultValue: "https://api-free.deepl.com",
+            description: "translation.fields.deepLUrlHint"
+        },
+        { key: "apiKey", label: "translation.fields.authKey", type: "password", required: true }
+    ],
+    rateLimit: { minDelay: 500, cooldown: 60000 },
+    // DeepL rejects request bodies above 128 KiB
+    maxChunkSize: 60000,
+    chunkInBytes: true,
+    supportsHtml: true,
+    languages: Object.keys(SUPPORTED_LANGUAGES).filter(
+        lang => !["hi", "vi", "th", "he"].includes(lang)
+    ),
+    translate: async (text, targetLang, format, config) => {
+        const body: any = {
+            text: [text],
+            target_lang: DEEPL_LANGUAGES[targetLang] || targetLang.toUpperCase()
+        }
+        if (format === "html") body.tag_handling = "html"
+        const result = await postJson(`${trimSlash(config.url)}/v2/translate`, body, {
+            "Authorization": `DeepL-Auth-Key ${config.apiKey}`
+        })
+        return result.translations[0].text
+    }
+}
+
+// =============================================================================
+// OpenAI-compatible chat completions (hosted or local LLM servers)
+// =============================================================================
+
+const DEFAULT_PROMPT =
+    "Translate the user's message into {language}. Keep all HTML tags, " +
+    "attributes and links unchanged. Reply with the translation only."
+
+const openAIProvider: TranslationProvider = {
+    id: "openai",
+    name: "OpenAI-compatible",
+    fields: [
+        {
+            key: "url",
+            label: "translation.fields.apiBaseUrl",
+            type: "url",
+            required: true,
+            defaultValue: "http://localhost:11434/v1",
+            description: "translation.fields.openAIUrlHint"
+        },
+        { key: "apiKey", label: "translation.fields.apiKey", type: "password" },
+        { key: "model", label: "translation.fields.model", type: "text", required: true, placeholder: "llama3.1" },
+        {
+            key: "prompt",
+            label: "translation.fields.prompt",
+            type: "multiline",
+            defaultValue: DEFAULT_PROMPT,
+            description: "translation.fields.promptHint"
+        }
+    ],
+    rateLimit: { minDelay: 0, cooldown: 30000 },
+    // Stay well inside the context window of small local models
+    maxChunkSize: 4000,
+    supportsHtml: true,
+    languages: null,
+    translate: async (text, targetLang, _, config) => {
+        const language = SUPPORTED_LANGUAGES[targetLang] || targetLang
+        const prompt = (config.prompt || DEFAULT_PROMPT).replace(/\{language\}/g, language)
+        const headers: Record<string, string> = {}
+        if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`
+        const result = await postJson(`${trimSlash(config.url)}/chat/completions`, {
+            model: config.model,
+            temperature: 0,
+            messages: [
+                { role: "system", content: prompt },
+                { role: "user", content: text }
+            ]
+        }, headers)
+        const content: string = result.choices?.[0]?.message?.content
+        if (typeof content !== "string") throw new Error("Empty completion")
+        return content.trim()
+    }
+}
+
+// =============================================================================
+// Local dictionary (pass-through for testing)
+// =============================================================================
+
+function parseDictionary(entries: string) {
+    const dictionary = new Map<string, string>()
+    for (let line of (entries || "").split("\n")) {
+        const separator = line.indexOf("=")
+        if (separator < 0) continue
+        const word = line.substring(0, separator).trim().toLowerCase()
+        if (word) dictionary.set(word, line.substring(separator + 1).trim())
+    }
+    return dictionary
+}
+
+const dictionaryProvider: TranslationProvider = {
+    id: "dictionary",
+    name: "Local dictionary",
+    fields: [
+        {
+            key: "entries",
+            label: "translation.fields.dictionary",
+            type: "multiline",
+            placeholder: "hello = hallo",
+            description: "translation.fields.dictionaryHint"
+        }
+    ],
+    rateLimit: { minDelay: 0, cooldown: 0 },
+    maxChunkSize: null,
+    supportsHtml: false,
+    languages: null,
+    translate: async (text, _, __, config) => {
+        const dictionary = parseDictionary(config.entries)
+        if (dictionary.size === 0) return text
+        return text.replace(/[\p{L}\p{N}'-]+/gu, word =>
+            dictionary.get(word.toLowerCase()) ?? word
+        )
+    }
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const providers = new Map<string, TranslationProvider>()
+
+export function registerTranslationProvider(provider: TranslationProvider): void {
+    providers.set(provider.id, provider)
+}
+
+export function getTranslationProviderById(id: string): TranslationProvider | undefined {
+    return providers.get(id)
+}
+
+export function getTranslationProviders(): TranslationProvider[] {
+    return Array.from(providers.values())
+}
+
+/**
+ * Description of a provider without its functions, safe to send over IPC
+ */
+export function toProviderInfo(provider: TranslationProvider): TranslationProviderInfo {
+    const { translate: _, ...info } = provider
+    return info
+}
+
+/**
+ * Stored config of a provider, with defaults for fields never set
+ */
+export function withDefaults(provider: TranslationProvider, config: ProviderConfig = {}): ProviderConfig {
+    const result: ProviderConfig = {}
+    for (let field of provider.fields) {
+        result[field.key] = config[field.key] ?? field.defaultValue ?? ""
+    }
+    return result
+}
+
+export function getMissingFields(provider: TranslationProvider, config: ProviderConfig): string[] {
+    return provider.fields
+        .filter(field => field.required && !(config[field.key] || "").trim())
+        .map(field => field.key)
+}
+
+[
+    googleProvider,
+    libreTranslateProvider,
+    deepLProvider,
+    openAIProvider,
+    dictionaryProvider,
+].forEach(registerTranslationProvider)
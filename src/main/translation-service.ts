@@ -1,169 +1,314 @@
 /**
  * Translation Service for Main Process
  * 
- * Supports multiple translation providers:
- * 1. Google Translate (unofficial, via google-translate-api-x)
- * 2. LibreTranslate (self-hosted or public instance)
+ * Translates through the active provider of the registry in
+ * translation-providers.ts, e.g. Google Translate, LibreTranslate, DeepL or
+ * an OpenAI-compatible endpoint. Requests to each provider are serialized
+ * and rate-limited according to the limits it declares, requests of the
+ * article being read go first (see translation-jobs.ts).
  */
 
-import translate from "google-translate-api-x"
 import { ipcMain } from "electron"
+import { createHash } from "crypto"
+import { DOMParser } from "linkedom"
+import { store } from "./settings"
+import {
+    getCachedTranslation,
+    putCachedTranslation,
+    evictTranslationCache,
+    getTranslationCacheStats,
+    clearCachedTranslations,
+} from "./db-sqlite"
+import {
+    ProviderConfig,
+    TranslationProvider,
+    SUPPORTED_LANGUAGES,
+    getTranslationProviderById,
+    getTranslationProviders,
+    getMissingFields,
+    toProviderInfo,
+    withDefaults,
+} from "./translation-providers"
+import type { TranslatedSegment } from "../scripts/models/bilingual"
+import {
+    TranslationJob,
+    TranslationJobPriority,
+    getCurrentJob,
+    getJobRank,
+    runTranslationJob,
+    cancelTranslationJobs,
+    clearFailedTranslationJobs,
+    getTranslationJobs,
+    isTranslationCancelled,
+    cancelledError,
+} from "./translation-jobs"
+
+export { SUPPORTED_LANGUAGES }
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-export type TranslationProvider = "google" | "libretranslate"
+const PROVIDER_STORE_KEY = "translationProvider"
+const PROVIDER_CONFIGS_STORE_KEY = "translationProviderConfigs"
+const DEFAULT_PROVIDER = "libretranslate"  // Default to LibreTranslate for local testing
 
-interface LibreTranslateConfig {
-    url: string
-    apiKey?: string
+/**
+ * Get the active provider, falling back to the default for unknown ids
+ */
+function getActiveProvider(): TranslationProvider {
+    return getTranslationProviderById(store.get(PROVIDER_STORE_KEY, DEFAULT_PROVIDER))
+        ?? getTranslationProviderById(DEFAULT_PROVIDER)
 }
 
-// Current provider and configuration
-let currentProvider: TranslationProvider = "libretranslate"  // Default to LibreTranslate for local testing
-let libreTranslateConfig: LibreTranslateConfig = {
-    url: "http://192.168.0.141:5050",  // Default local instance
-    apiKey: undefined
+/**
+ * Set the translation provider
+ */
+export function setTranslationProvider(id: string): boolean {
+    if (!getTranslationProviderById(id)) return false
+    store.set(PROVIDER_STORE_KEY, id)
+    console.log(`[translation-service] Provider set to: ${id}`)
+    return true
 }
 
 /**
- * Set the translation provider
+ * Get current provider
  */
-export function setTranslationProvider(provider: TranslationProvider): void {
-    currentProvider = provider
-    console.log(`[translation-service] Provider set to: ${provider}`)
+export function getTranslationProvider(): string {
+    return getActiveProvider().id
 }
 
 /**
- * Configure LibreTranslate instance
+ * Get the config of a provider, with defaults for fields never set
  */
-export function setLibreTranslateConfig(config: LibreTranslateConfig): void {
-    libreTranslateConfig = config
-    console.log(`[translation-service] LibreTranslate configured: ${config.url}`)
+export function getProviderConfig(id: string): ProviderConfig {
+    const provider = getTranslationProviderById(id)
+    if (!provider) return {}
+    return withDefaults(provider, store.get(PROVIDER_CONFIGS_STORE_KEY, {})[id])
 }
 
 /**
- * Get current provider
+ * Store the config of a provider, keeping only the fields it declares
+ */
+export function setProviderConfig(id: string, config: ProviderConfig): boolean {
+    const provider = getTranslationProviderById(id)
+    if (!provider) return false
+    const configs = store.get(PROVIDER_CONFIGS_STORE_KEY, {})
+    configs[id] = withDefaults(provider, config)
+    store.set(PROVIDER_CONFIGS_STORE_KEY, configs)
+    console.log(`[translation-service] ${provider.name} configured`)
+    return true
+}
+
+// Translations are cached in SQLite so they survive restarts and don't
+// spend rate-limited quota twice
+const MAX_CACHE_ENTRIES = 20000
+const MAX_CACHE_BYTES = 50 * 1024 * 1024
+// Evict least recently used entries after this many inserts
+const EVICT_INTERVAL = 100
+let insertsSinceEviction = 0
+
+interface CacheKey {
+    hash: string
+    targetLang: string
+    provider: string
+}
+
+/**
+ * Read a cached translation - a cache that can't be read counts as a miss
  */
-export function getTranslationProvider(): TranslationProvider {
-    return currentProvider
+function readCache(key: CacheKey): string | null {
+    try {
+        return getCachedTranslation(key.hash, key.targetLang, key.provider)
+    } catch (error: any) {
+        console.error("[translation-service] Cache read failed:", error?.message || error)
+        return null
+    }
 }
 
-// Simple in-memory cache to avoid translating the same content twice
-const translationCache = new Map<string, string>()
-const MAX_CACHE_SIZE = 500
+function cacheTranslation(key: CacheKey, translated: string): void {
+    try {
+        putCachedTranslation(key.hash, key.targetLang, key.provider, translated)
+        if (++insertsSinceEviction >= EVICT_INTERVAL) {
+            insertsSinceEviction = 0
+            const evicted = evictTranslationCache(MAX_CACHE_ENTRIES, MAX_CACHE_BYTES)
+            if (evicted > 0) console.log(`[translation-service] Evicted ${evicted} cached translations`)
+        }
+    } catch (error: any) {
+        console.error("[translation-service] Cache write failed:", error?.message || error)
+    }
+}
+
+interface QueuedRequest {
+    job: TranslationJob | undefined
+    seq: number
+    run: () => Promise<void>
+}
 
-// Global rate limiter - serialize all translation requests
-let translationQueue: Promise<void> = Promise.resolve()
-let baseDelay = 2000  // Start with 2 seconds between requests
-const MIN_DELAY = 2000  // Minimum 2 seconds between requests (be conservative!)
+// Per-provider rate limiter - serialize all requests to the same provider
+interface RateLimiter {
+    pending: QueuedRequest[]
+    running: boolean
+    delay: number
+    lastRequestTime: number
+    consecutiveErrors: number
+    // If we hit the rate limit, stop trying for a while
+    rateLimitedUntil: number
+}
 const MAX_DELAY = 60000 // Maximum 60 seconds delay
-let consecutiveErrors = 0
-let lastRequestTime = 0
+const rateLimiters = new Map<string, RateLimiter>()
+let requestSeq = 0
+
+function getRateLimiter(provider: TranslationProvider): RateLimiter {
+    let limiter = rateLimiters.get(provider.id)
+    if (!limiter) {
+        limiter = {
+            pending: [],
+            running: false,
+            delay: provider.rateLimit.minDelay,
+            lastRequestTime: 0,
+            consecutiveErrors: 0,
+            rateLimitedUntil: 0,
+        }
+        rateLimiters.set(provider.id, limiter)
+    }
+    return limiter
+}
+
+function isRateLimitError(error: any): boolean {
+    return error?.message?.includes('Too Many Requests') ||
+        error?.message?.includes('429') ||
+        error?.message?.includes('rate limit')
+}
 
 /**
- * Add a translation request to the global queue
+ * Run queued requests one at a time, the most urgent job first
+ */
+async function drainQueue(limiter: RateLimiter): Promise<void> {
+    if (limiter.running) return
+    limiter.running = true
+    while (limiter.pending.length > 0) {
+        // Jobs can be moved up while their requests wait
+        limiter.pending.sort((a, b) => getJobRank(a.job) - getJobRank(b.job) || a.seq - b.seq)
+        await limiter.pending.shift().run()
+    }
+    limiter.running = false
+}
+
+/**
+ * Add a translation request to the queue of its provider
  * This ensures requests are serialized and rate-limited with exponential backoff
  */
-async function queueTranslation<T>(fn: () => Promise<T>): Promise<T> {
+async function queueTranslation<T>(provider: TranslationProvider, fn: () => Promise<T>): Promise<T> {
+    const limiter = getRateLimiter(provider)
+    const minDelay = provider.rateLimit.minDelay
+    const job = getCurrentJob()
     return new Promise((resolve, reject) => {
-        translationQueue = translationQueue.then(async () => {
+        const run = async () => {
+            // Drop requests of jobs cancelled while waiting
+            if (job?.cancelled) {
+                reject(cancelledError())
+                return
+            }
+            
             // Calculate delay based on time since last request and error count
-            const now = Date.now()
-            const timeSinceLastRequest = now - lastRequestTime
-            const requiredDelay = baseDelay - timeSinceLastRequest
+            const requiredDelay = limiter.delay - (Date.now() - limiter.lastRequestTime)
             
             if (requiredDelay > 0) {
                 await new Promise(r => setTimeout(r, requiredDelay))
             }
             
             try {
-                lastRequestTime = Date.now()
+                limiter.lastRequestTime = Date.now()
                 const result = await fn()
                 
                 // Success - gradually reduce delay
-                consecutiveErrors = 0
-                if (baseDelay > MIN_DELAY) {
-                    baseDelay = Math.max(MIN_DELAY, baseDelay * 0.9)
+                limiter.consecutiveErrors = 0
+                if (limiter.delay > minDelay) {
+                    limiter.delay = Math.max(minDelay, limiter.delay * 0.9)
                 }
                 
                 resolve(result)
             } catch (error: any) {
-                // Check for rate limiting error
-                if (error?.message?.includes('Too Many Requests') || error?.message?.includes('429')) {
-                    consecutiveErrors++
+                if (isRateLimitError(error)) {
+                    limiter.consecutiveErrors++
                     // Exponential backoff
-                    baseDelay = Math.min(MAX_DELAY, baseDelay * 2)
-                    console.log(`[translation-service] Rate limited! Increasing delay to ${baseDelay}ms (errors: ${consecutiveErrors})`)
+                    limiter.delay = Math.min(MAX_DELAY, Math.max(limiter.delay * 2, 1000))
+                    console.log(`[translation-service] Rate limited by ${provider.name}! Increasing delay to ${limiter.delay}ms (errors: ${limiter.consecutiveErrors})`)
                 }
                 reject(error)
             }
-        })
+        }
+        limiter.pending.push({ job, seq: requestSeq++, run })
+        drainQueue(limiter)
     })
 }
 
 /**
- * Supported languages for translation
- * Key = language code, Value = display name
+ * Languages the active provider can translate into
  */
-export const SUPPORTED_LANGUAGES: Record<string, string> = {
-    "de": "Deutsch",
-    "en": "English",
-    "es": "Español",
-    "fr": "Français",
-    "it": "Italiano",
-    "ja": "日本語",
-    "ko": "한국어",
-    "nl": "Nederlands",
-    "pl": "Polski",
-    "pt": "Português",
-    "ru": "Русский",
-    "zh-CN": "简体中文",
-    "zh-TW": "繁體中文",
-    "ar": "العربية",
-    "hi": "हिन्दी",
-    "tr": "Türkçe",
-    "uk": "Українська",
-    "vi": "Tiếng Việt",
-    "th": "ไทย",
-    "sv": "Svenska",
-    "da": "Dansk",
-    "fi": "Suomi",
-    "no": "Norsk",
-    "cs": "Čeština",
-    "hu": "Magyar",
-    "ro": "Română",
-    "el": "Ελληνικά",
-    "he": "עברית",
-    "id": "Bahasa Indonesia"
+export function getSupportedLanguages(): Record<string, string> {
+    const languages = getActiveProvider().languages
+    if (!languages) return SUPPORTED_LANGUAGES
+    const result: Record<string, string> = {}
+    for (let lang of languages) {
+        if (lang in SUPPORTED_LANGUAGES) result[lang] = SUPPORTED_LANGUAGES[lang]
+    }
+    return result
 }
 
 /**
  * Create a cache key for translation
+ * - The provider part includes a hash of the config fields that change the
+ *   output, like the server URL, model or prompt, so editing them doesn't
+ *   serve translations made with the old settings. Keys are left out.
  */
-function getCacheKey(text: string, targetLang: string): string {
-    // Use hash for longer texts to save memory
-    if (text.length > 100) {
-        let hash = 0
-        for (let i = 0; i < text.length; i++) {
-            const char = text.charCodeAt(i)
-            hash = ((hash << 5) - hash) + char
-            hash = hash & hash // Convert to 32bit integer
-        }
-        return `${targetLang}:${hash}:${text.length}`
+function getCacheKey(provider: TranslationProvider, text: string, targetLang: string): CacheKey {
+    const config = getProviderConfig(provider.id)
+    const values = provider.fields
+        .filter(field => field.type !== "password")
+        .map(field => [field.key, config[field.key] || ""])
+    return {
+        hash: createHash("sha256").update(text).digest("hex"),
+        targetLang,
+        provider: values.length > 0
+            ? `${provider.id}:${createHash("sha256").update(JSON.stringify(values)).digest("hex").substring(0, 16)}`
+            : provider.id,
     }
-    return `${targetLang}:${text}`
 }
 
-// Maximum characters per translation chunk (Google has ~5000 char limit, use less for safety)
-const MAX_CHUNK_SIZE = 4000
+/**
+ * Size of a text as counted against the provider's maxChunkSize
+ */
+function chunkSize(provider: TranslationProvider, text: string): number {
+    return provider.chunkInBytes ? Buffer.byteLength(text, "utf8") : text.length
+}
+
+/**
+ * Number of leading characters of text within maxSize, without splitting
+ * surrogate pairs
+ */
+function fittingLength(text: string, maxSize: number, measure: (text: string) => number): number {
+    let low = 1
+    let high = Math.min(text.length, maxSize)
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if (measure(text.substring(0, mid)) <= maxSize) low = mid
+        else high = mid - 1
+    }
+    if (low > 1 && /[\uD800-\uDBFF]/.test(text[low - 1])) low--
+    return low
+}
 
 /**
  * Split text into chunks at sentence boundaries
  */
-function splitTextIntoChunks(text: string, maxSize: number): string[] {
-    if (text.length <= maxSize) {
+function splitTextIntoChunks(
+    text: string,
+    maxSize: number,
+    measure: (text: string) => number = text => text.length
+): string[] {
+    if (measure(text) <= maxSize) {
         return [text]
     }
     
@@ -171,27 +316,28 @@ function splitTextIntoChunks(text: string, maxSize: number): string[] {
     let remaining = text
     
     while (remaining.length > 0) {
-        if (remaining.length <= maxSize) {
+        if (measure(remaining) <= maxSize) {
             chunks.push(remaining)
             break
         }
         
         // Find a good break point (sentence end, newline, or space)
-        let breakPoint = maxSize
+        const limit = fittingLength(remaining, maxSize, measure)
+        let breakPoint = limit
         
         // Try to find sentence end (. ! ?)
-        const sentenceEnd = remaining.substring(0, maxSize).lastIndexOf('. ')
-        if (sentenceEnd > maxSize * 0.5) {
+        const sentenceEnd = remaining.substring(0, limit).lastIndexOf('. ')
+        if (sentenceEnd > limit * 0.5) {
             breakPoint = sentenceEnd + 1
         } else {
             // Try newline
-            const newlinePos = remaining.substring(0, maxSize).lastIndexOf('\n')
-            if (newlinePos > maxSize * 0.5) {
+            const newlinePos = remaining.substring(0, limit).lastIndexOf('\n')
+            if (newlinePos > limit * 0.5) {
                 breakPoint = newlinePos + 1
             } else {
                 // Try space
-                const spacePos = remaining.substring(0, maxSize).lastIndexOf(' ')
-                if (spacePos > maxSize * 0.3) {
+                const spacePos = remaining.substring(0, limit).lastIndexOf(' ')
+                if (spacePos > limit * 0.3) {
                     breakPoint = spacePos + 1
                 }
             }
@@ -204,72 +350,6 @@ function splitTextIntoChunks(text: string, maxSize: number): string[] {
     return chunks
 }
 
-// Track rate limit state globally - if we hit rate limit, stop trying for a while
-let rateLimitedUntil = 0
-const RATE_LIMIT_COOLDOWN = 60000 // Wait 60 seconds after rate limit before trying again
-
-/**
- * Check if we're currently in rate limit cooldown
- */
-function isRateLimited(): boolean {
-    return Date.now() < rateLimitedUntil
-}
-
-// =============================================================================
-// LibreTranslate Implementation
-// =============================================================================
-
-/**
- * Translate text using LibreTranslate API
- */
-async function translateWithLibreTranslate(
-    text: string, 
-    targetLang: string, 
-    format: "text" | "html" = "text"
-): Promise<string> {
-    const url = `${libreTranslateConfig.url}/translate`
-    
-    const body: any = {
-        q: text,
-        source: "auto",  // Auto-detect source language
-        target: targetLang,
-        format: format
-    }
-    
-    // Add API key if configured
-    if (libreTranslateConfig.apiKey) {
-        body.api_key = libreTranslateConfig.apiKey
-    }
-    
-    const response = await fetch(url, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json"
-        },
-        body: JSON.stringify(body)
-    })
-    
-    if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error")
-        throw new Error(`LibreTranslate error ${response.status}: ${errorText}`)
-    }
-    
-    const result = await response.json()
-    return result.translatedText
-}
-
-// =============================================================================
-// Google Translate Implementation (via queue/rate limiter)
-// =============================================================================
-
-/**
- * Translate text using Google Translate (unofficial)
- */
-async function translateWithGoogle(text: string, targetLang: string): Promise<string> {
-    const result = await queueTranslation(() => translate(text, { to: targetLang }))
-    return result.text
-}
-
 // =============================================================================
 // Unified Translation with Fallback
 // =============================================================================
@@ -279,41 +359,55 @@ async function translateWithGoogle(text: string, targetLang: string): Promise<st
  * Uses the currently configured provider
  */
 async function translateWithFallback(
+    provider: TranslationProvider,
     text: string, 
     targetLang: string,
     format: "text" | "html" = "text"
 ): Promise<{ translated: string; wasTranslated: boolean }> {
-    // For Google: Check rate limit cooldown
-    if (currentProvider === "google" && isRateLimited()) {
-        console.log(`[translation-service] Still in rate limit cooldown, returning original text`)
+    const limiter = getRateLimiter(provider)
+    const job = getCurrentJob()
+    // Reasons for falling back are shown with the job in the status panel
+    const fallback = (reason: string) => {
+        job?.errors.push(reason)
         return { translated: text, wasTranslated: false }
     }
+    if (job?.cancelled) {
+        return { translated: text, wasTranslated: false }
+    }
+    if (Date.now() < limiter.rateLimitedUntil) {
+        console.log(`[translation-service] Still in rate limit cooldown, returning original text`)
+        return fallback(`Rate limited by ${provider.name}`)
+    }
+    if (provider.languages && !provider.languages.includes(targetLang)) {
+        console.log(`[translation-service] ${provider.name} does not support ${targetLang}, returning original text`)
+        return fallback(`${provider.name} does not support ${targetLang}`)
+    }
+    const config = getProviderConfig(provider.id)
+    const missing = getMissingFields(provider, config)
+    if (missing.length > 0) {
+        console.log(`[translation-service] ${provider.name} is missing ${missing.join(", ")}, returning original text`)
+        return fallback(`${provider.name} is missing ${missing.join(", ")}`)
+    }
     
     try {
-        let translated: string
-        
-        if (currentProvider === "libretranslate") {
-            translated = await translateWithLibreTranslate(text, targetLang, format)
-        } else {
-            translated = await translateWithGoogle(text, targetLang)
-        }
-        
+        const translated = await queueTranslation(provider, () =>
+            provider.translate(text, targetLang, format, config)
+        )
         return { translated, wasTranslated: true }
     } catch (error: any) {
-        const isRateLimit = error?.message?.includes('Too Many Requests') || 
-                           error?.message?.includes('429') ||
-                           error?.message?.includes('rate limit')
-        
-        if (isRateLimit && currentProvider === "google") {
-            // Set cooldown period - don't try translating for a while
-            rateLimitedUntil = Date.now() + RATE_LIMIT_COOLDOWN
-            console.log(`[translation-service] Rate limited! Returning original text. Cooldown until ${new Date(rateLimitedUntil).toLocaleTimeString()}`)
+        if (isTranslationCancelled(error)) {
             return { translated: text, wasTranslated: false }
         }
+        if (isRateLimitError(error) && provider.rateLimit.cooldown > 0) {
+            // Set cooldown period - don't try translating for a while
+            limiter.rateLimitedUntil = Date.now() + provider.rateLimit.cooldown
+            console.log(`[translation-service] Rate limited! Returning original text. Cooldown until ${new Date(limiter.rateLimitedUntil).toLocaleTimeString()}`)
+            return fallback(`Rate limited by ${provider.name}`)
+        }
         
         // Other error - log and return original
-        console.error(`[translation-service] Translation error (${currentProvider}):`, error?.message || error)
-        return { translated: text, wasTranslated: false }
+        console.error(`[translation-service] Translation error (${provider.id}):`, error?.message || error)
+        return fallback(error?.message || String(error))
     }
 }
 
@@ -326,56 +420,29 @@ async function translateWithFallback(
 export async function translateText(text: string, targetLang: string): Promise<string> {
     if (!text || !targetLang) return text
     
+    const provider = getActiveProvider()
+    
     // Check cache first
-    const cacheKey = getCacheKey(text, targetLang)
-    const cached = translationCache.get(cacheKey)
+    const cacheKey = getCacheKey(provider, text, targetLang)
+    const cached = readCache(cacheKey)
     if (cached) {
         return cached
     }
     
     try {
-        // LibreTranslate has no text length limit - send directly
-        // Google has ~5000 char limit - use chunking
-        if (currentProvider === "libretranslate") {
-            const { translated, wasTranslated } = await translateWithFallback(text, targetLang)
-            
-            if (wasTranslated) {
-                if (translationCache.size >= MAX_CACHE_SIZE) {
-                    const keysToDelete = Array.from(translationCache.keys()).slice(0, 100)
-                    keysToDelete.forEach(key => translationCache.delete(key))
-                }
-                translationCache.set(cacheKey, translated)
-            }
-            
-            return translated
-        }
+        // Split long text into chunks if the provider limits the request size
+        const chunks = provider.maxChunkSize
+            ? splitTextIntoChunks(text, provider.maxChunkSize, text => chunkSize(provider, text))
+            : [text]
         
-        // Google: Split long text into chunks
-        const chunks = splitTextIntoChunks(text, MAX_CHUNK_SIZE)
-        
-        if (chunks.length === 1) {
-            // Single chunk - translate with fallback
-            const { translated, wasTranslated } = await translateWithFallback(text, targetLang)
-            
-            if (wasTranslated) {
-                if (translationCache.size >= MAX_CACHE_SIZE) {
-                    const keysToDelete = Array.from(translationCache.keys()).slice(0, 100)
-                    keysToDelete.forEach(key => translationCache.delete(key))
-                }
-                translationCache.set(cacheKey, translated)
-            }
-            
-            return translated
+        if (chunks.length > 1) {
+            console.log(`[translation-service] Splitting long text into ${chunks.length} chunks (${provider.id})`)
         }
-        
-        // Multiple chunks - translate each with fallback (Google only)
-        console.log(`[translation-service] Splitting long text into ${chunks.length} chunks (Google)`)
         const translatedChunks: string[] = []
         let allTranslated = true
         
-        for (let i = 0; i < chunks.length; i++) {
-            const chunk = chunks[i]
-            const { translated, wasTranslated } = await translateWithFallback(chunk, targetLang)
+        for (const chunk of chunks) {
+            const { translated, wasTranslated } = await translateWithFallback(provider, chunk, targetLang)
             translatedChunks.push(translated)
             if (!wasTranslated) allTranslated = false
         }
@@ -383,11 +450,7 @@ export async function translateText(text: string, targetLang: string): Promise<s
         const translated = translatedChunks.join('')
         
         if (allTranslated) {
-            if (translationCache.size >= MAX_CACHE_SIZE) {
-                const keysToDelete = Array.from(translationCache.keys()).slice(0, 100)
-                keysToDelete.forEach(key => translationCache.delete(key))
-            }
-            translationCache.set(cacheKey, translated)
+            cacheTranslation(cacheKey, translated)
         }
         
         return translated
@@ -398,73 +461,135 @@ export async function translateText(text: string, targetLang: string): Promise<s
     }
 }
 
+type HtmlPart = { type: 'tag' | 'text', content: string }
+
+/**
+ * Split HTML into parts: tags and text
+ */
+function splitHtmlParts(html: string): HtmlPart[] {
+    const parts: HtmlPart[] = []
+    let currentIndex = 0
+    
+    // Regex to find HTML tags
+    const tagRegex = /<[^>]+>/g
+    let match
+    
+    while ((match = tagRegex.exec(html)) !== null) {
+        // Add text before tag
+        if (match.index > currentIndex) {
+            const text = html.substring(currentIndex, match.index)
+            if (text.trim()) {
+                parts.push({ type: 'text', content: text })
+            } else {
+                parts.push({ type: 'tag', content: text }) // Preserve whitespace
+            }
+        }
+        // Add tag
+        parts.push({ type: 'tag', content: match[0] })
+        currentIndex = match.index + match[0].length
+    }
+    
+    // Add remaining text after last tag
+    if (currentIndex < html.length) {
+        const text = html.substring(currentIndex)
+        if (text.trim()) {
+            parts.push({ type: 'text', content: text })
+        } else {
+            parts.push({ type: 'tag', content: text })
+        }
+    }
+    
+    return parts
+}
+
+// Joins the texts of a batch, providers keep both in place
+const HTML_SEPARATOR = "<hr data-segment>"
+const TEXT_SEPARATOR = "\n\n"
+
+/**
+ * Translate several texts in as few requests as the provider's chunk size
+ * allows. The texts are joined with a separator and the translation is split
+ * on it again, a chunk that comes back with a different number of parts is
+ * translated text by text instead. Texts that couldn't be translated are null.
+ */
+async function translateBatch(
+    provider: TranslationProvider,
+    texts: string[],
+    targetLang: string,
+    format: "text" | "html"
+): Promise<Array<string | null>> {
+    const separator = format === "html" ? HTML_SEPARATOR : TEXT_SEPARATOR
+    const results: Array<string | null> = texts.map(() => null)
+    
+    const translateOne = async (index: number) => {
+        const { translated, wasTranslated } = await translateWithFallback(provider, texts[index], targetLang, format)
+        if (wasTranslated) results[index] = translated
+    }
+    const translateChunk = async (indices: number[]) => {
+        if (indices.length === 1) return translateOne(indices[0])
+        const joined = indices.map(i => texts[i]).join(separator)
+        const { translated, wasTranslated } = await translateWithFallback(provider, joined, targetLang, format)
+        if (!wasTranslated) return
+        const parts = format === "html"
+            ? translated.split(/<hr data-segment[^>]*>/i)
+            : translated.split(/\n\s*\n/)
+        if (parts.length === indices.length) {
+            indices.forEach((index, i) => results[index] = parts[i].trim())
+        } else {
+            console.log(`[translation-service] Batch of ${indices.length} came back in ${parts.length} parts, translating one by one`)
+            for (const index of indices) await translateOne(index)
+        }
+    }
+    
+    let chunk: number[] = []
+    let size = 0
+    for (let i = 0; i < texts.length; i++) {
+        const length = chunkSize(provider, texts[i] + separator)
+        if (chunk.length > 0 && provider.maxChunkSize && size + length > provider.maxChunkSize) {
+            await translateChunk(chunk)
+            chunk = []
+            size = 0
+        }
+        chunk.push(i)
+        size += length
+    }
+    if (chunk.length > 0) await translateChunk(chunk)
+    return results
+}
+
 /**
  * Translate HTML content while preserving tags
- * - LibreTranslate: Uses native HTML format support
- * - Google: Manually parses and translates text nodes
+ * - Providers with HTML support get the markup as a whole if it fits
+ * - Otherwise text nodes are parsed out and translated separately
  */
 export async function translateHtml(html: string, targetLang: string): Promise<string> {
     if (!html || !targetLang) return html
     
-    console.log(`[translation-service] translateHtml: provider=${currentProvider}, targetLang=${targetLang}, htmlLength=${html.length}`)
+    const provider = getActiveProvider()
+    
+    console.log(`[translation-service] translateHtml: provider=${provider.id}, targetLang=${targetLang}, htmlLength=${html.length}`)
     
     // Check cache for entire HTML
-    const cacheKey = getCacheKey(html, targetLang)
-    const cached = translationCache.get(cacheKey)
+    const cacheKey = getCacheKey(provider, html, targetLang)
+    const cached = readCache(cacheKey)
     if (cached) {
         console.log(`[translation-service] translateHtml: CACHE HIT`)
         return cached
     }
     
     try {
-        // LibreTranslate: Handle HTML natively, no length limit
-        if (currentProvider === "libretranslate") {
-            const { translated, wasTranslated } = await translateWithFallback(html, targetLang, "html")
+        if (provider.supportsHtml && (!provider.maxChunkSize || chunkSize(provider, html) <= provider.maxChunkSize)) {
+            const { translated, wasTranslated } = await translateWithFallback(provider, html, targetLang, "html")
             
             if (wasTranslated) {
-                if (translationCache.size >= MAX_CACHE_SIZE) {
-                    const keysToDelete = Array.from(translationCache.keys()).slice(0, 100)
-                    keysToDelete.forEach(key => translationCache.delete(key))
-                }
-                translationCache.set(cacheKey, translated)
+                cacheTranslation(cacheKey, translated)
             }
             
             return translated
         }
         
-        // Google: Parse HTML and translate text nodes separately
-        // Split HTML into parts: tags and text
-        const parts: Array<{ type: 'tag' | 'text', content: string }> = []
-        let currentIndex = 0
-        
-        // Regex to find HTML tags
-        const tagRegex = /<[^>]+>/g
-        let match
-        
-        while ((match = tagRegex.exec(html)) !== null) {
-            // Add text before tag
-            if (match.index > currentIndex) {
-                const text = html.substring(currentIndex, match.index)
-                if (text.trim()) {
-                    parts.push({ type: 'text', content: text })
-                } else {
-                    parts.push({ type: 'tag', content: text }) // Preserve whitespace
-                }
-            }
-            // Add tag
-            parts.push({ type: 'tag', content: match[0] })
-            currentIndex = match.index + match[0].length
-        }
-        
-        // Add remaining text after last tag
-        if (currentIndex < html.length) {
-            const text = html.substring(currentIndex)
-            if (text.trim()) {
-                parts.push({ type: 'text', content: text })
-            } else {
-                parts.push({ type: 'tag', content: text })
-            }
-        }
+        // Parse HTML and translate text nodes separately
+        const parts = splitHtmlParts(html)
         
         // Collect all text parts for batch translation
         const textParts = parts.filter(p => p.type === 'text' && p.content.trim().length > 0)
@@ -474,7 +599,6 @@ export async function translateHtml(html: string, targetLang: string): Promise<s
         }
         
         // Batch translate all text parts
-        // google-translate-api-x supports array input
         const textsToTranslate = textParts.map(p => p.content)
         
         // Translate in batches to avoid rate limits
@@ -508,11 +632,7 @@ export async function translateHtml(html: string, targetLang: string): Promise<s
         const translatedHtml = translatedParts.join('')
         
         // Cache the result
-        if (translationCache.size >= MAX_CACHE_SIZE) {
-            const keysToDelete = Array.from(translationCache.keys()).slice(0, 100)
-            keysToDelete.forEach(key => translationCache.delete(key))
-        }
-        translationCache.set(cacheKey, translatedHtml)
+        cacheTranslation(cacheKey, translatedHtml)
         
         return translatedHtml
     } catch (error) {
@@ -521,6 +641,174 @@ export async function translateHtml(html: string, targetLang: string): Promise<s
     }
 }
 
+// Elements that are translated and shown next to their translation as a whole
+const SEGMENT_TAGS = new Set([
+    "P", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "DL", "LI",
+    "BLOCKQUOTE", "PRE", "FIGURE", "TABLE", "HR", "IMG", "PICTURE", "VIDEO", "IFRAME"
+])
+// Wrappers that are dropped when they contain further blocks
+const CONTAINER_TAGS = new Set([
+    "DIV", "SECTION", "ARTICLE", "MAIN", "HEADER", "FOOTER", "ASIDE"
+])
+
+const domParser = new DOMParser()
+
+function hasSegmentChild(element: Element) {
+    return Array.from(element.children).some(
+        child => SEGMENT_TAGS.has(child.tagName) || CONTAINER_TAGS.has(child.tagName)
+    )
+}
+
+/**
+ * Split HTML into block-level segments in document order.
+ * Loose text and inline elements between blocks are grouped into paragraphs.
+ */
+export function splitHtmlSegments(html: string): string[] {
+    // linkedom only builds a document around fragments inside a body
+    const dom = domParser.parseFromString(
+        `<!DOCTYPE html><html><body>${html}</body></html>`,
+        "text/html"
+    )
+    const segments: string[] = []
+    const walk = (parent: Element) => {
+        let inline = ""
+        const flush = () => {
+            if (inline.trim()) segments.push(`<p>${inline.trim()}</p>`)
+            inline = ""
+        }
+        for (const node of Array.from(parent.childNodes)) {
+            if (node.nodeType === 1) {
+                const element = node as Element
+                if (CONTAINER_TAGS.has(element.tagName) && hasSegmentChild(element)) {
+                    flush()
+                    walk(element)
+                } else if (SEGMENT_TAGS.has(element.tagName) || CONTAINER_TAGS.has(element.tagName)) {
+                    flush()
+                    segments.push(element.outerHTML)
+                } else if (element.tagName !== "SCRIPT" && element.tagName !== "STYLE") {
+                    inline += element.outerHTML
+                }
+            } else if (node.nodeType === 3) {
+                inline += node.textContent
+                    .replace(/&/g, "&amp;")
+                    .replace(/</g, "&lt;")
+                    .replace(/>/g, "&gt;")
+            }
+        }
+        flush()
+    }
+    walk(dom.body)
+    return segments
+}
+
+/**
+ * Translate HTML paragraph by paragraph for the bilingual view.
+ * Each segment is cached on its own, segments without text are kept as-is.
+ * Uncached segments are sent in batches up to the provider's chunk size,
+ * providers without HTML support get the text nodes of all of them instead.
+ */
+export async function translateHtmlSegments(html: string, targetLang: string): Promise<TranslatedSegment[]> {
+    const provider = getActiveProvider()
+    const segments = splitHtmlSegments(html || "")
+    const result: TranslatedSegment[] = segments.map(original => ({ original, translated: null }))
+    const fits = (text: string) => !provider.maxChunkSize || chunkSize(provider, text) <= provider.maxChunkSize
+    
+    const pending: number[] = []
+    segments.forEach((original, index) => {
+        const text = original.replace(/<[^>]*>/g, "").replace(/&nbsp;/g, " ").trim()
+        if (!text) return
+        const cached = readCache(getCacheKey(provider, original, targetLang))
+        if (cached) result[index].translated = cached
+        else pending.push(index)
+    })
+    
+    if (provider.supportsHtml) {
+        const batched = pending.filter(index => fits(segments[index]))
+        const translated = await translateBatch(provider, batched.map(index => segments[index]), targetLang, "html")
+        batched.forEach((index, i) => {
+            if (translated[i] !== null) {
+                cacheTranslation(getCacheKey(provider, segments[index], targetLang), translated[i])
+            }
+            result[index].translated = translated[i] ?? segments[index]
+        })
+        // Segments longer than a chunk are split up by translateHtml
+        for (const index of pending.filter(index => !fits(segments[index]))) {
+            result[index].translated = await translateHtml(segments[index], targetLang)
+        }
+        return result
+    }
+    
+    // Texts with blank lines would be split apart, long ones are chunked by
+    // translateText
+    const parts = pending.map(index => splitHtmlParts(segments[index]))
+    const texts: string[] = []
+    for (const part of parts.flat()) {
+        const text = part.content.trim()
+        if (part.type === 'text' && fits(text) && !/\n\s*\n/.test(text)) texts.push(text)
+    }
+    const translated = await translateBatch(provider, texts, targetLang, "text")
+    let textIndex = 0
+    for (let i = 0; i < pending.length; i++) {
+        const index = pending[i]
+        let complete = true
+        const translatedParts: string[] = []
+        for (const part of parts[i]) {
+            const text = part.content.trim()
+            if (part.type === 'tag') {
+                translatedParts.push(part.content)
+            } else if (fits(text) && !/\n\s*\n/.test(text)) {
+                const translatedText = translated[textIndex++]
+                if (translatedText === null) complete = false
+                // Keep the whitespace around the text, providers trim it
+                translatedParts.push(part.content.replace(text, () => translatedText ?? text))
+            } else {
+                translatedParts.push(await translateText(part.content, targetLang))
+            }
+        }
+        result[index].translated = translatedParts.join('')
+        if (complete) {
+            cacheTranslation(getCacheKey(provider, segments[index], targetLang), result[index].translated)
+        }
+    }
+    return result
+}
+
+export interface ContentTranslation {
+    title: string
+    content: string
+    segments?: TranslatedSegment[] // Only for the bilingual view, content is untouched then
+}
+
+/**
+ * Translate the title and full content of an article as a job, so it shows
+ * up in the status panel and can be cancelled. The same article, language
+ * and content share one job.
+ */
+export function translateContent(
+    articleId: string,
+    title: string,
+    html: string,
+    targetLang: string,
+    bilingual: boolean,
+    priority: TranslationJobPriority
+): Promise<ContentTranslation> {
+    const hash = createHash("sha256").update(title || "").update("\0").update(html || "").digest("hex")
+    return runTranslationJob({
+        key: `${articleId}:${targetLang}:${bilingual ? "bilingual" : "translated"}:${hash}`,
+        articleId,
+        title,
+        targetLang,
+        priority
+    }, async () => {
+        const translatedTitle = await translateText(title, targetLang)
+        if (bilingual) {
+            const segments = await translateHtmlSegments(html, targetLang)
+            return { title: translatedTitle, content: html, segments }
+        }
+        return { title: translatedTitle, content: await translateHtml(html, targetLang) }
+    })
+}
+
 /**
  * Translate article content (title, snippet, and HTML content)
  */
@@ -544,6 +832,7 @@ export async function translateArticle(
     
     try {
         // Translate sequentially to respect rate limits
+        // Each part is looked up in the persistent cache on its own
         // Title first (small text, quick)
         const translatedTitle = await translateText(title, targetLang)
         
@@ -570,16 +859,42 @@ export async function translateArticle(
  * Clear the translation cache
  */
 export function clearTranslationCache(): void {
-    translationCache.clear()
+    clearCachedTranslations()
+    insertsSinceEviction = 0
 }
 
 /**
  * Get cache statistics
  */
-export function getCacheStats(): { size: number, maxSize: number } {
+export function getCacheStats(): { size: number, maxSize: number, bytes: number, maxBytes: number } {
+    const stats = getTranslationCacheStats()
     return {
-        size: translationCache.size,
-        maxSize: MAX_CACHE_SIZE
+        size: stats.entries,
+        maxSize: MAX_CACHE_ENTRIES,
+        bytes: stats.bytes,
+        maxBytes: MAX_CACHE_BYTES
+    }
+}
+
+const TEST_SAMPLE = "The quick brown fox jumps over the lazy dog."
+
+/**
+ * Check a provider config by translating a short sample
+ */
+export async function testProvider(
+    id: string,
+    config: ProviderConfig,
+    targetLang: string
+): Promise<{ translated?: string, error?: string }> {
+    const provider = getTranslationProviderById(id)
+    if (!provider) return { error: `Unknown provider: ${id}` }
+    const fullConfig = withDefaults(provider, config)
+    const missing = getMissingFields(provider, fullConfig)
+    if (missing.length > 0) return { error: `Missing: ${missing.join(", ")}` }
+    try {
+        return { translated: await provider.translate(TEST_SAMPLE, targetLang, "text", fullConfig) }
+    } catch (error: any) {
+        return { error: error?.message || String(error) }
     }
 }
 
@@ -587,10 +902,7 @@ export function getCacheStats(): { size: number, maxSize: number } {
  * Register IPC handlers for translation service
  */
 export function registerTranslationIpc(): void {
-    console.log(`[translation-service] Initializing with provider: ${currentProvider}`)
-    if (currentProvider === "libretranslate") {
-        console.log(`[translation-service] LibreTranslate URL: ${libreTranslateConfig.url}`)
-    }
+    console.log(`[translation-service] Initializing with provider: ${getTranslationProvider()}`)
     
     // Translate text
     ipcMain.handle("translation:translateText", async (_, text: string, targetLang: string) => {
@@ -603,13 +915,41 @@ export function registerTranslationIpc(): void {
     })
     
     // Translate article
+    // Translate an article as a job of the article being read
+    ipcMain.handle("translation:translateContent", async (_, articleId: string, title: string, html: string, targetLang: string, bilingual: boolean) => {
+        return translateContent(articleId, title, html, targetLang, bilingual, "current")
+    })
+    
+    // Translation job queue for the status panel
+    ipcMain.handle("translation:getJobs", async () => {
+        return getTranslationJobs()
+    })
+    
+    ipcMain.handle("translation:cancelJob", async (_, id: number) => {
+        return cancelTranslationJobs(job => job.id === id) > 0
+    })
+    
+    // Cancel the current article's jobs when navigating away from it
+    ipcMain.handle("translation:cancelArticleJobs", async (_, articleId: string) => {
+        return cancelTranslationJobs(job => job.articleId === articleId && job.priority === "current")
+    })
+    
+    ipcMain.handle("translation:clearFailedJobs", async () => {
+        clearFailedTranslationJobs()
+    })
+    
+    // Translate HTML into paragraph-aligned segments
+    ipcMain.handle("translation:translateHtmlSegments", async (_, html: string, targetLang: string) => {
+        return translateHtmlSegments(html, targetLang)
+    })
+    
     ipcMain.handle("translation:translateArticle", async (_, title: string, snippet: string, content: string, targetLang: string) => {
         return translateArticle(title, snippet, content, targetLang)
     })
     
     // Get supported languages
     ipcMain.handle("translation:getSupportedLanguages", async () => {
-        return SUPPORTED_LANGUAGES
+        return getSupportedLanguages()
     })
     
     // Clear cache
@@ -623,10 +963,14 @@ export function registerTranslationIpc(): void {
         return getCacheStats()
     })
     
+    // List registered providers with their config schemas
+    ipcMain.handle("translation:getProviders", async () => {
+        return getTranslationProviders().map(toProviderInfo)
+    })
+    
     // Set translation provider
-    ipcMain.handle("translation:setProvider", async (_, provider: TranslationProvider) => {
-        setTranslationProvider(provider)
-        return true
+    ipcMain.handle("translation:setProvider", async (_, id: string) => {
+        return setTranslationProvider(id)
     })
     
     // Get current provider
@@ -634,14 +978,18 @@ export function registerTranslationIpc(): void {
         return getTranslationProvider()
     })
     
-    // Configure LibreTranslate
-    ipcMain.handle("translation:setLibreTranslateConfig", async (_, url: string, apiKey?: string) => {
-        setLibreTranslateConfig({ url, apiKey })
-        return true
+    // Get provider config
+    ipcMain.handle("translation:getProviderConfig", async (_, id: string) => {
+        return getProviderConfig(id)
+    })
+    
+    // Configure provider
+    ipcMain.handle("translation:setProviderConfig", async (_, id: string, config: ProviderConfig) => {
+        return setProviderConfig(id, config)
     })
     
-    // Get LibreTranslate config
-    ipcMain.handle("translation:getLibreTranslateConfig", async () => {
-        return libreTranslateConfig
+    // Translate a sample with an unsaved config, bypassing queue and cache
+    ipcMain.handle("translation:testProvider", async (_, id: string, config: ProviderConfig, targetLang: string) => {
+        return testProvider(id, config, targetLang)
     })
 }
@@ -4,6 +4,10 @@ import fs = require("fs")
 import { TouchBarTexts } from "../schema-types"
 import { initMainTouchBar } from "./touchbar"
 import fontList = require("font-list")
+import { isLocalWebhookUrl } from "../scripts/models/rule-engine"
+
+// Webhooks answering slower than this are given up on
+const WEBHOOK_TIMEOUT = 10000
 
 export function setUtilsListeners(manager: WindowManager) {
     async function openExternal(url: string, background = false) {
@@ -166,6 +170,22 @@ export function setUtilsListeners(manager: WindowManager) {
     // ContentView uses native Electron Menu.popup() for context menu (see content-view-manager.ts)
     // ContentView handles its own errors and keyboard events via IPC
 
+    // POST a JSON payload from the main process, so local endpoints don't need CORS headers
+    ipcMain.handle("post-webhook", async (_, url: string, payload: any) => {
+        if (!isLocalWebhookUrl(url)) {
+            throw new Error(`Webhook URL is not on the local network: ${url}`)
+        }
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+            // A redirect could lead off the local network
+            redirect: "error",
+        })
+        return response.status
+    })
+
     ipcMain.handle("write-clipboard", (_, text) => {
         clipboard.writeText(text)
     })
@@ -5,6 +5,9 @@ import { setThemeListener } from "./settings"
 import { setUtilsListeners } from "./utils"
 import { setupArticleExtractorHandlers } from "./article-extractor"
 import { setupDatabaseIPC, initDatabase, closeDatabase } from "./db-sqlite"
+import { setupFeedFetcherIPC } from "./feed-fetcher"
+import { setupOfflineArchive } from "./offline-archive"
+import { setupGReaderServer, stopGReaderServer } from "./greader-server"
 import {
     loadCookiesForHost,
     saveCookiesForHost,
@@ -98,6 +101,7 @@ export class WindowManager {
         app.on("before-quit", () => {
             // Destroy content view pool
             destroyContentViewPool()
+            stopGReaderServer()
             closeDatabase()
         })
     }
@@ -110,6 +114,9 @@ export class WindowManager {
         // Initialize SQLite database and IPC handlers
         initDatabase()
         setupDatabaseIPC()
+        setupFeedFetcherIPC()
+        setupOfflineArchive()
+        setupGReaderServer(this)
 
         // Handle zoom requests from preload (mouse wheel, pinch zoom)
         // The preload applies zoom locally for immediate feedback,
@@ -7,6 +7,10 @@ import { p2pBridge } from "./bridges/p2p"
 import { p2pLanBridge } from "./bridges/p2p-lan"
 import { contentViewPoolBridge } from "./bridges/content-view-pool"
 import translationBridge from "./bridges/translation"
+import fetcherBridge from "./bridges/fetcher"
+import siteRulesBridge from "./bridges/site-rules"
+import offlineArchiveBridge from "./bridges/offline-archive"
+import greaderServerBridge from "./bridges/greader-server"
 
 contextBridge.exposeInMainWorld("settings", settingsBridge)
 contextBridge.exposeInMainWorld("db", dbBridge)
@@ -16,6 +20,10 @@ contextBridge.exposeInMainWorld("p2pLan", p2pLanBridge)
 // Pool is now the only ContentView implementation
 contextBridge.exposeInMainWorld("contentViewPool", contentViewPoolBridge)
 contextBridge.exposeInMainWorld("translation", translationBridge)
+contextBridge.exposeInMainWorld("fetcher", fetcherBridge)
+contextBridge.exposeInMainWorld("siteRules", siteRulesBridge)
+contextBridge.exposeInMainWorld("offlineArchive", offlineArchiveBridge)
+contextBridge.exposeInMainWorld("greaderServer", greaderServerBridge)
 
 // ipcRenderer for ContentView Pool communication (restricted to required channels)
 const limitedIpcRenderer = {
@@ -1336,6 +1336,82 @@ try {
     }
   });
 
+  // ============================================
+  // Reading Position
+  // ============================================
+  // Progress and the block at the top of the viewport are reported while
+  // scrolling; the main process stores them per article and hands them back
+  // when the article is opened again.
+  
+  const READING_ANCHOR_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figure, img';
+  let readingPositionRestored = false;
+  let readingPositionTimer = null;
+  
+  function getReadingProgress(ctx) {
+    const maxScroll = ctx.container.scrollHeight - ctx.viewportHeight;
+    // Pages that fit the viewport are read as soon as they are shown
+    return maxScroll > 0 ? Math.min(1, ctx.scrollTop / maxScroll) : 1;
+  }
+  
+  function getAnchorText(element) {
+    return (element.textContent || element.getAttribute('src') || '').trim().slice(0, 80);
+  }
+  
+  // First block whose bottom is below the top of the viewport
+  function getReadingAnchor(ctx) {
+    const blocks = document.querySelectorAll(READING_ANCHOR_SELECTOR);
+    for (let index = 0; index < blocks.length; index++) {
+      const top = getAbsoluteTop(blocks[index], ctx);
+      if (top + blocks[index].offsetHeight > ctx.scrollTop) {
+        return { index, text: getAnchorText(blocks[index]) };
+      }
+    }
+    return undefined;
+  }
+  
+  function restoreReadingPosition(position) {
+    const ctx = getScrollContext();
+    const scroll = (top) => ctx.container === document.documentElement
+      ? window.scrollTo({ top, behavior: 'instant' })
+      : ctx.container.scrollTo({ top, behavior: 'instant' });
+    // Prefer the anchor, unless the page changed since it was stored
+    if (position.anchor) {
+      const element = document.querySelectorAll(READING_ANCHOR_SELECTOR)[position.anchor.index];
+      if (element && getAnchorText(element) === position.anchor.text) {
+        scroll(getAbsoluteTop(element, ctx));
+        return;
+      }
+    }
+    scroll(position.progress * (ctx.container.scrollHeight - ctx.viewportHeight));
+  }
+  
+  function reportReadingPosition() {
+    readingPositionTimer = null;
+    const ctx = getScrollContext();
+    sendIfActive('cvp-reading-position', {
+      progress: getReadingProgress(ctx),
+      anchor: getReadingAnchor(ctx)
+    });
+  }
+  
+  // Capture phase: the zoom container's scroll events don't bubble
+  document.addEventListener('scroll', () => {
+    // Scrolling before the stored position is restored would overwrite it
+    if (!readingPositionRestored || !isActiveView) return;
+    if (readingPositionTimer) clearTimeout(readingPositionTimer);
+    readingPositionTimer = setTimeout(reportReadingPosition, 1000);
+  }, true);
+  
+  window.addEventListener('load', async () => {
+    try {
+      const position = await ipcRenderer.invoke('cvp-get-reading-position');
+      if (position) restoreReadingPosition(position);
+    } catch (e) {
+      console.log('[ContentPreload] Could not restore reading position:', e);
+    }
+    readingPositionRestored = true;
+  });
+
   // ============================================
   // Site-specific cleanup for normal web browsing
   // ============================================
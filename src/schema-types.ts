@@ -1,8 +1,11 @@
+import type { SourceRule } from "./scripts/models/rule-engine"
+
 export class SourceGroup {
     isMultiple: boolean
     sids: number[]
     name?: string
     expanded?: boolean
+    rules?: SourceRule[] // Applied to every source of a multiple group
     index?: number // available only from menu or groups tab container
 
     constructor(sids: number[], name: string = null) {
@@ -38,6 +41,12 @@ export const enum ThemeSettings {
     Dark = "dark",
 }
 
+export const enum BilingualMode {
+    Off = "off",
+    Interleaved = "interleaved",
+    SideBySide = "side-by-side",
+}
+
 export const enum SearchEngines {
     Google,
     Bing,
@@ -61,9 +70,11 @@ export const enum SyncService {
     Inoreader,
     Miniflux,
     Nextcloud,
+    TTRSS,
 }
 export interface ServiceConfigs {
     type: SyncService
+    id?: string // Account id, sources of the account are tagged with it
     importGroups?: boolean
 }
 
@@ -89,12 +100,14 @@ export type SchemaTypes = {
     view: ViewType
     locale: string
     sourceGroups: SourceGroup[]
+    globalRules: SourceRule[]
     fontSize: number
     fontFamily: string
     menuOn: boolean
     fetchInterval: number
     searchEngine: SearchEngines
-    serviceConfigs: ServiceConfigs
+    serviceConfigs: ServiceConfigs // Single account of older versions
+    serviceAccounts: ServiceConfigs[]
     filterType: number
     listViewConfigs: ViewConfigs
     useNeDB: boolean
@@ -104,4 +117,10 @@ export type SchemaTypes = {
     p2pRoomCode: string | null
     p2pDisplayName: string
     p2pPeerId: string | null
+    // Translation settings
+    translationProvider: string
+    translationProviderConfigs: { [id: string]: { [key: string]: string } }
+    bilingualMode: BilingualMode
+    // Offline archive storage quota in MB, 0 for no limit
+    offlineArchiveQuota: number
 }
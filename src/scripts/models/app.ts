@@ -8,8 +8,10 @@ import {
     initSources,
     SourceOpenTarget,
     updateFavicon,
+    getFetchStates,
 } from "./source"
 import { RSSItem, ItemActionTypes, FETCH_ITEMS, fetchItems } from "./item"
+import { isFetchDue } from "./schedule"
 import {
     ActionStatus,
     AppThunk,
@@ -35,6 +37,13 @@ import {
 import { getCurrentLocale, setThemeDefaultFont } from "../settings"
 import locales from "../i18n/_locales"
 import { SYNC_SERVICE, ServiceActionTypes } from "./service"
+import { initSmartFeeds } from "./smart-feed"
+import { updateTags } from "./tag"
+import {
+    SET_OUTBOX_COUNT,
+    OutboxActionTypes,
+    updateOutboxCount,
+} from "./outbox"
 
 export const enum ContextMenuType {
     Hidden,
@@ -44,6 +53,8 @@ export const enum ContextMenuType {
     Group,
     Image,
     MarkRead,
+    SmartFeed,
+    Tag,
 }
 
 export const enum AppLogType {
@@ -86,6 +97,7 @@ export class AppState {
     sourceInit = false
     feedInit = false
     syncing = false
+    outboxCount = 0 // Read and star changes not yet sent to the service
     fetchingItems = false
     fetchingProgress = 0
     fetchingTotal = 0
@@ -126,6 +138,8 @@ export const OPEN_VIEW_MENU = "OPEN_VIEW_MENU"
 export const OPEN_GROUP_MENU = "OPEN_GROUP_MENU"
 export const OPEN_IMAGE_MENU = "OPEN_IMAGE_MENU"
 export const OPEN_MARK_ALL_MENU = "OPEN_MARK_ALL_MENU"
+export const OPEN_SMART_FEED_MENU = "OPEN_SMART_FEED_MENU"
+export const OPEN_TAG_MENU = "OPEN_TAG_MENU"
 
 interface CloseContextMenuAction {
     type: typeof CLOSE_CONTEXT_MENU
@@ -158,6 +172,18 @@ interface OpenGroupMenuAction {
     sids: number[]
 }
 
+interface OpenSmartFeedMenuAction {
+    type: typeof OPEN_SMART_FEED_MENU
+    event: MouseEvent
+    id: number
+}
+
+interface OpenTagMenuAction {
+    type: typeof OPEN_TAG_MENU
+    event: MouseEvent
+    id: number
+}
+
 interface OpenImageMenuAction {
     type: typeof OPEN_IMAGE_MENU
     position: [number, number]
@@ -171,6 +197,8 @@ export type ContextMenuActionTypes =
     | OpenGroupMenuAction
     | OpenImageMenuAction
     | OpenMarkAllMenuAction
+    | OpenSmartFeedMenuAction
+    | OpenTagMenuAction
 
 export const TOGGLE_LOGS = "TOGGLE_LOGS"
 export const PUSH_NOTIFICATION = "PUSH_NOTIFICATION"
@@ -279,6 +307,28 @@ export function openGroupMenu(
     }
 }
 
+export function openSmartFeedMenu(
+    id: number,
+    event: React.MouseEvent
+): ContextMenuActionTypes {
+    return {
+        type: OPEN_SMART_FEED_MENU,
+        event: event.nativeEvent,
+        id: id,
+    }
+}
+
+export function openTagMenu(
+    id: number,
+    event: React.MouseEvent
+): ContextMenuActionTypes {
+    return {
+        type: OPEN_TAG_MENU,
+        event: event.nativeEvent,
+        id: id,
+    }
+}
+
 export function openImageMenu(
     position: [number, number]
 ): ContextMenuActionTypes {
@@ -349,23 +399,43 @@ function freeMemory(): AppThunk {
 }
 
 let fetchTimeout: NodeJS.Timeout
-export function setupAutoFetch(): AppThunk {
-    return (dispatch, getState) => {
+let lastFullFetch = Date.now()
+/**
+ * Wake up for the earliest scheduled source. Services and the sources due
+ * at that time are fetched together once the global interval has passed.
+ */
+export function setupAutoFetch(): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
         clearTimeout(fetchTimeout)
-        const setupTimeout = (interval?: number) => {
-            if (!interval) interval = window.settings.getFetchInterval()
-            if (interval) {
-                fetchTimeout = setTimeout(() => {
-                    let state = getState()
-                    if (!state.app.settings.display) {
-                        if (!state.app.fetchingItems) dispatch(fetchItems(true))
-                    } else {
-                        setupTimeout(1)
-                    }
-                }, interval * 60000)
-            }
+        const interval = window.settings.getFetchInterval()
+        if (!interval) return
+        const fetchStates = await getFetchStates()
+        let wake = lastFullFetch + interval * 60000
+        for (let source of Object.values(getState().sources)) {
+            const nextFetch = fetchStates[source.sid]?.nextFetch
+            if (!source.serviceRef && nextFetch)
+                wake = Math.min(wake, new Date(nextFetch).getTime())
         }
-        setupTimeout()
+        clearTimeout(fetchTimeout)
+        fetchTimeout = setTimeout(() => {
+            let state = getState()
+            if (state.app.settings.display || state.app.fetchingItems) {
+                fetchTimeout = setTimeout(
+                    () => dispatch(setupAutoFetch()),
+                    60000
+                )
+            } else if (Date.now() >= lastFullFetch + interval * 60000) {
+                lastFullFetch = Date.now()
+                dispatch(fetchItems(true))
+            } else {
+                const sids = Object.values(state.sources)
+                    .filter(
+                        s => !s.serviceRef && isFetchDue(fetchStates[s.sid])
+                    )
+                    .map(s => s.sid)
+                dispatch(fetchItems(true, sids))
+            }
+        }, Math.max(wake - Date.now(), 60000))
     }
 }
 
@@ -444,8 +514,11 @@ export function initApp(): AppThunk {
         await dispatch(initIntl())
         if (window.utils.platform === "darwin") initTouchBarWithTexts()
         await dispatch(initSources())
+        await dispatch(initSmartFeeds())
+        await dispatch(updateTags())
         await dispatch(initFeeds())
         dispatch(selectAllArticles())
+        await dispatch(updateOutboxCount())
         await dispatch(fetchItems())
         dispatch(updateFavicon())
     }
@@ -466,6 +539,7 @@ export function appReducer(
         | PageActionTypes
         | SourceGroupActionTypes
         | ServiceActionTypes
+        | OutboxActionTypes
 ): AppState {
     switch (action.type) {
         case INIT_INTL:
@@ -559,6 +633,11 @@ export function appReducer(
                         syncing: false,
                     }
             }
+        case SET_OUTBOX_COUNT:
+            return {
+                ...state,
+                outboxCount: action.count,
+            }
         case FETCH_ITEMS:
             switch (action.status) {
                 case ActionStatus.Request:
@@ -677,6 +756,24 @@ export function appReducer(
                     target: action.sids,
                 },
             }
+        case OPEN_SMART_FEED_MENU:
+            return {
+                ...state,
+                contextMenu: {
+                    type: ContextMenuType.SmartFeed,
+                    event: action.event,
+                    target: [action.id],
+                },
+            }
+        case OPEN_TAG_MENU:
+            return {
+                ...state,
+                contextMenu: {
+                    type: ContextMenuType.Tag,
+                    event: action.event,
+                    target: [action.id],
+                },
+            }
         case OPEN_IMAGE_MENU:
             return {
                 ...state,
@@ -0,0 +1,35 @@
+import { BilingualMode } from "../../schema-types"
+
+export interface TranslatedSegment {
+    original: string
+    translated: string | null // null if the segment has no text to translate
+}
+
+/**
+ * Article body with every original block next to its translation, either
+ * stacked paragraph by paragraph or in two columns. Segments without text,
+ * such as images, span both columns once.
+ */
+export function renderBilingualContent(
+    segments: TranslatedSegment[],
+    mode: BilingualMode
+) {
+    const rows = segments.map(segment =>
+        segment.translated === null
+            ? `<div class="bi-shared">${segment.original}</div>`
+            : `<div class="bi-pair"><div class="bi-original">${segment.original}</div><div class="bi-translated">${segment.translated}</div></div>`
+    )
+    return `<div class="bilingual ${mode}">${rows.join("\n")}</div>`
+}
+
+// Shared by the article pages generated in main and in the renderer
+export const BILINGUAL_STYLES = `
+.bilingual .bi-original > :first-child, .bilingual .bi-translated > :first-child { margin-top: 0; }
+.bilingual .bi-pair { margin: 1em 0; }
+.bilingual .bi-pair > div > :last-child { margin-bottom: 0; }
+.bilingual.interleaved .bi-translated { margin-top: 0.5em; padding-inline-start: 12px; border-inline-start: 2px solid var(--primary); }
+.bilingual.side-by-side .bi-pair { display: grid; grid-template-columns: minmax(0, 1fr) minmax(0, 1fr); column-gap: 24px; }
+.bilingual.side-by-side .bi-original { color: var(--gray); }
+.bi-title-original { color: var(--gray); font-size: 1rem; margin-top: -0.5em; }
+body.vertical .bilingual.side-by-side .bi-pair { display: block; }
+`
@@ -1,4 +1,4 @@
-import { ItemQueryOptions, ItemRow } from "../../bridges/db"
+import { ItemRow } from "../../bridges/db"
 import {
     SourceActionTypes,
     INIT_SOURCES,
@@ -17,6 +17,9 @@ import {
 } from "./item"
 import { ActionStatus, AppThunk, mergeSortedArrays } from "../utils"
 import { PageActionTypes, SELECT_PAGE, PageType, APPLY_FILTER } from "./page"
+import { FilterType, FeedFilter } from "./filter"
+
+export { FilterType, FeedFilter, isRegexSearch } from "./filter"
 
 // Helper: Check if feed should sort ascending (oldest first)
 // Only applies when: 1) unread filter active, 2) single source, 3) source has sortAscending enabled
@@ -33,84 +36,6 @@ export function shouldSortAscending(feed: RSSFeed, sources: SourceState): boolea
     return source?.sortAscending ?? false
 }
 
-export enum FilterType {
-    None,
-    ShowRead = 1 << 0,
-    ShowNotStarred = 1 << 1,
-    ShowHidden = 1 << 2,
-    FullSearch = 1 << 3,
-    CaseInsensitive = 1 << 4,
-    CreatorSearch = 1 << 5,
-
-    Default = ShowRead | ShowNotStarred,
-    UnreadOnly = ShowNotStarred,
-    StarredOnly = ShowRead,
-    Toggles = ShowHidden | FullSearch | CaseInsensitive,
-}
-export class FeedFilter {
-    type: FilterType
-    search: string
-
-    constructor(type: FilterType = null, search = "") {
-        if (
-            type === null &&
-            (type = window.settings.getFilterType()) === null
-        ) {
-            type = FilterType.Default | FilterType.CaseInsensitive
-        }
-        this.type = type
-        this.search = search
-    }
-
-    // Convert FeedFilter to SQLite ItemQueryOptions
-    static toQueryOptions(filter: FeedFilter, sids: number[], sortAscending = false): ItemQueryOptions {
-        let type = filter.type
-        const options: ItemQueryOptions = {
-            sourceIds: sids,
-            orderBy: "date",
-            orderDir: sortAscending ? "ASC" : "DESC"
-        }
-        
-        if (!(type & FilterType.ShowRead)) {
-            options.unreadOnly = true
-        }
-        if (!(type & FilterType.ShowNotStarred)) {
-            options.starredOnly = true
-        }
-        if (!(type & FilterType.ShowHidden)) {
-            options.hiddenOnly = false
-        }
-        if (filter.search !== "") {
-            // Note: SQLite search is case-insensitive by default
-            // Full search includes snippet, title-only is just title
-            options.searchTerm = filter.search
-        }
-        
-        return options
-    }
-
-    static testItem(filter: FeedFilter, item: RSSItem) {
-        let type = filter.type
-        let flag = true
-        if (!(type & FilterType.ShowRead)) flag = flag && !item.hasRead
-        if (!(type & FilterType.ShowNotStarred)) flag = flag && item.starred
-        if (!(type & FilterType.ShowHidden)) flag = flag && !item.hidden
-        if (filter.search !== "") {
-            const flags = type & FilterType.CaseInsensitive ? "i" : ""
-            const regex = RegExp(filter.search, flags)
-            if (type & FilterType.FullSearch) {
-                flag =
-                    flag && (regex.test(item.title) || regex.test(item.snippet))
-            } else if (type & FilterType.CreatorSearch) {
-                flag = flag && regex.test(item.creator || "")
-            } else {
-                flag = flag && regex.test(item.title)
-            }
-        }
-        return Boolean(flag)
-    }
-}
-
 export const ALL = "ALL"
 export const SOURCE = "SOURCE"
 
@@ -133,7 +58,13 @@ function rowToItem(row: ItemRow): RSSItem {
         starred: row.starred === 1,
         hidden: row.hidden === 1,
         notify: row.notify === 1,
-        serviceRef: row.serviceRef ?? undefined
+        serviceRef: row.serviceRef ?? undefined,
+        openTarget: row.openTarget ?? undefined,
+        searchSnippet: row.searchSnippet ?? undefined,
+        tags: row.tags ? JSON.parse(row.tags) : [],
+        wordCount: row.wordCount ?? undefined,
+        readingTime: row.readingTime ?? undefined,
+        readingProgress: row.readingProgress ?? undefined,
     } as RSSItem
 }
 
@@ -153,7 +84,10 @@ export class RSSFeed {
         this.iids = []
         this.loaded = false
         this.allLoaded = false
-        this.filter = filter === null ? new FeedFilter() : filter
+        this.filter =
+            filter === null
+                ? new FeedFilter(window.settings.getFilterType())
+                : filter
         this.sortAscending = false
     }
 
@@ -163,18 +97,9 @@ export class RSSFeed {
         options.limit = LOAD_QUANTITY
         options.offset = skip
         
+        // Regex searches are tested by SQLite too, so pages stay full
         const rows = await window.db.items.query(options)
-        
-        // Apply additional filtering for regex search if needed
-        // SQLite LIKE doesn't support regex, so we filter in memory for complex searches
-        let items = rows.map(rowToItem)
-        
-        // Apply regex filter if search has special characters
-        if (feed.filter.search !== "" && /[.*+?^${}()|[\]\\]/.test(feed.filter.search)) {
-            items = items.filter(item => FeedFilter.testItem(feed.filter, item))
-        }
-        
-        return items
+        return rows.map(rowToItem)
     }
 }
 
@@ -0,0 +1,156 @@
+import type { ItemQueryOptions } from "../../bridges/db"
+import type { ItemData } from "./item-data"
+import { isInProgress } from "./reading-position"
+import { isShortRead, SHORT_READ_MINUTES } from "./reading-time"
+
+// Kept free of renderer imports, rule filters are also evaluated by the
+// fetch service in the main process
+
+export enum FilterType {
+    None,
+    ShowRead = 1 << 0,
+    ShowNotStarred = 1 << 1,
+    ShowHidden = 1 << 2,
+    FullSearch = 1 << 3,
+    CaseInsensitive = 1 << 4,
+    CreatorSearch = 1 << 5,
+    RelevanceSort = 1 << 6,
+    ShortReads = 1 << 7,
+    ShortestFirst = 1 << 8,
+
+    Default = ShowRead | ShowNotStarred,
+    UnreadOnly = ShowNotStarred,
+    StarredOnly = ShowRead,
+    Toggles = ShowHidden |
+        FullSearch |
+        CaseInsensitive |
+        RelevanceSort |
+        ShortReads |
+        ShortestFirst,
+}
+
+const REGEX_SPECIAL_CHARS = /[.*+?^${}()|[\]\\]/
+
+// Same normalization as the SQLite FTS tokenizer (case and diacritics are ignored)
+const normalizeForSearch = (text: string) =>
+    text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase()
+
+export function isRegexSearch(search: string) {
+    return REGEX_SPECIAL_CHARS.test(search)
+}
+export function validateRegex(regex: string, flags = ""): RegExp {
+    try {
+        return new RegExp(regex, flags)
+    } catch {
+        return null
+    }
+}
+
+export class FeedFilter {
+    type: FilterType
+    search: string
+    tags: string[] // Items must carry all of these tags
+    inProgress?: boolean // Only partially read items, regardless of their read state
+
+    // Feeds pass the filter type saved in the settings, null if there's none
+    constructor(type: FilterType = null, search = "", tags: string[] = []) {
+        if (type === null) {
+            type = FilterType.Default | FilterType.CaseInsensitive
+        }
+        this.type = type
+        this.search = search
+        this.tags = tags
+    }
+
+    // Convert FeedFilter to SQLite ItemQueryOptions
+    static toQueryOptions(filter: FeedFilter, sids: number[], sortAscending = false): ItemQueryOptions {
+        let type = filter.type
+        const options: ItemQueryOptions = {
+            // Feeds list their sources, an empty list would match all items,
+            // e.g. for smart feeds whose sources have all been deleted
+            sourceIds: sids.length > 0 ? sids : [-1],
+            orderBy: "date",
+            orderDir: sortAscending ? "ASC" : "DESC"
+        }
+        
+        if (!(type & FilterType.ShowRead) && !filter.inProgress) {
+            options.unreadOnly = true
+        }
+        if (!(type & FilterType.ShowNotStarred)) {
+            options.starredOnly = true
+        }
+        if (!(type & FilterType.ShowHidden)) {
+            options.hiddenOnly = false
+        }
+        if (filter.search !== "") {
+            // Note: SQLite full-text search is case-insensitive by default
+            // Full search includes snippet and content, title-only is just title
+            options.searchTerm = filter.search
+            if (type & FilterType.FullSearch) options.searchMode = "full"
+            else if (type & FilterType.CreatorSearch) options.searchMode = "creator"
+            else options.searchMode = "title"
+            if (isRegexSearch(filter.search)) {
+                options.searchRegex = true
+                options.caseInsensitive = Boolean(type & FilterType.CaseInsensitive)
+            } else if (type & FilterType.RelevanceSort) {
+                options.orderBy = "relevance"
+            }
+        }
+        if (filter.tags?.length > 0) {
+            options.tags = filter.tags
+        }
+        if (filter.inProgress) {
+            options.inProgress = true
+        }
+        if (type & FilterType.ShortReads) {
+            options.maxReadingTime = SHORT_READ_MINUTES
+        }
+        if (type & FilterType.ShortestFirst && options.orderBy === "date") {
+            options.orderBy = "readingTime"
+        }
+        
+        return options
+    }
+
+    /**
+     * Test an item against the filter.
+     * With fullText (feeds), plain searches use the same word-prefix semantics as
+     * the SQLite FTS index so items found by the index aren't dismissed again.
+     * Regex searches, and all rule filters (fullText = false), use the regex.
+     */
+    static testItem(filter: FeedFilter, item: ItemData, fullText = true) {
+        let type = filter.type
+        let flag = true
+        if (!(type & FilterType.ShowRead) && !filter.inProgress) flag = flag && !item.hasRead
+        if (!(type & FilterType.ShowNotStarred)) flag = flag && item.starred
+        if (!(type & FilterType.ShowHidden)) flag = flag && !item.hidden
+        if (filter.tags?.length > 0) {
+            const tags = (item.tags || []).map(t => t.toLowerCase())
+            flag = flag && filter.tags.every(t => tags.includes(t.toLowerCase()))
+        }
+        if (filter.inProgress) flag = flag && isInProgress(item.readingProgress)
+        if (type & FilterType.ShortReads) flag = flag && isShortRead(item.readingTime)
+        if (filter.search !== "") {
+            let fields: string[]
+            if (type & FilterType.FullSearch) {
+                fields = fullText
+                    ? [item.title, item.snippet, item.content]
+                    : [item.title, item.snippet]
+            } else if (type & FilterType.CreatorSearch) {
+                fields = [item.creator || ""]
+            } else {
+                fields = [item.title]
+            }
+            if (fullText && !isRegexSearch(filter.search)) {
+                const text = normalizeForSearch(fields.join(" "))
+                const words = normalizeForSearch(filter.search).match(/[\p{L}\p{N}_]+/gu) || []
+                flag = flag && words.every(w => text.includes(w))
+            } else {
+                const flags = type & FilterType.CaseInsensitive ? "i" : ""
+                const regex = RegExp(filter.search, flags)
+                flag = flag && fields.some(f => regex.test(f))
+            }
+        }
+        return Boolean(flag)
+    }
+}
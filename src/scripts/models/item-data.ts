@@ -0,0 +1,38 @@
+import type { RuleEffect } from "./rule-engine"
+
+// Shared with the main process, which builds items from fetched feeds and
+// runs rules on them. Kept free of renderer imports, RSSItem in item.ts adds
+// the constructor used in the renderer.
+
+export enum SourceOpenTarget {
+    Local,
+    Webpage,
+    External,
+    FullContent,
+}
+
+export interface ItemData {
+    _id: number
+    source: number
+    title: string
+    link: string
+    date: Date
+    fetchedDate: Date
+    thumb?: string
+    content: string
+    snippet: string
+    creator?: string
+    hasRead: boolean
+    starred: boolean
+    hidden: boolean
+    notify: boolean
+    serviceRef?: string
+    searchSnippet?: string // Excerpt around a full-text search match (not persisted)
+    tags?: string[] // User-defined tags, stored in the item_tags table
+    openTarget?: SourceOpenTarget // Set by rules, overrides the source's open target
+    lang?: string // Detected language of title and snippet
+    ruleEffects?: RuleEffect[] // Outbound rule actions awaiting insertion (not persisted)
+    readingProgress?: number // Scroll percentage reached in the article view, 0 to 1
+    wordCount?: number
+    readingTime?: number // Estimated minutes, recounted once the full content is extracted
+}
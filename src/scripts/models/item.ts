@@ -1,14 +1,23 @@
 import intl from "react-intl-universal"
 import type { MyParserItem } from "../utils"
 import { ItemRow } from "../../bridges/db"
+import type { ServedItemChange } from "../../bridges/greader-server"
 import {
-    domParser,
-    htmlDecode,
     ActionStatus,
     AppThunk,
     platformCtrl,
 } from "../utils"
-import { RSSSource, updateSource, updateUnreadCounts } from "./source"
+import {
+    RSSSource,
+    SourceOpenTarget,
+    getFeedFetchOptions,
+    getFetchStates,
+    saveFetchValidators,
+    updateSource,
+    updateUnreadCounts,
+} from "./source"
+import { applyRuleEffects, getRulesForSource } from "./rule"
+import type { ItemData } from "./item-data"
 import { FeedActionTypes, INIT_FEED, LOAD_MORE, dismissItems } from "./feed"
 import {
     pushNotification,
@@ -17,29 +26,27 @@ import {
     FREE_MEMORY,
 } from "./app"
 import {
-    getServiceHooks,
     syncWithService,
     ServiceActionTypes,
     SYNC_LOCAL_ITEMS,
 } from "./service"
-
+import {
+    flushOutbox,
+    queueItemAction,
+    queueMarkAllRead,
+    updateOutboxCount,
+} from "./outbox"
+import { updateSmartFeedCounts } from "./smart-feed"
+import { updateTags } from "./tag"
+import { isFetchBlocked, isFetchDue } from "./schedule"
+import { detectItemLanguage } from "./language"
+import { getReadingStats, ReadingStats } from "./reading-time"
+
+// The fields are declared in item-data.ts, which the main process shares
+export interface RSSItem extends ItemData {}
 export class RSSItem {
-    _id: number
-    source: number
-    title: string
-    link: string
-    date: Date
-    fetchedDate: Date
-    thumb?: string
-    content: string
-    snippet: string
-    creator?: string
-    hasRead: boolean
-    starred: boolean
-    hidden: boolean
-    notify: boolean
-    serviceRef?: string
-
+    // Feeds are parsed by the fetch service in the main process, this only
+    // builds items from hand-written input such as the rule tester
     constructor(item: MyParserItem, source: RSSSource) {
         for (let field of ["title", "link", "creator"]) {
             const content = item[field]
@@ -47,7 +54,7 @@ export class RSSItem {
         }
         this.source = source.sid
         this.title = item.title || intl.get("article.untitled")
-        this.link = resolveFeedItemLink(item, source)
+        this.link = item.link || ""
         this.fetchedDate = new Date()
         this.date = new Date(item.isoDate ?? item.pubDate ?? this.fetchedDate)
         this.creator = item.creator
@@ -56,95 +63,6 @@ export class RSSItem {
         this.hidden = false
         this.notify = false
     }
-
-    static parseContent(item: RSSItem, parsed: MyParserItem) {
-        for (let field of ["thumb", "content", "fullContent"]) {
-            const content = parsed[field]
-            if (content && typeof content !== "string") delete parsed[field]
-        }
-        if (parsed.fullContent) {
-            item.content = parsed.fullContent
-            item.snippet = htmlDecode(parsed.fullContent)
-        } else {
-            item.content = parsed.content || ""
-            item.snippet = htmlDecode(parsed.contentSnippet || "")
-        }
-        if (parsed.thumb) {
-            item.thumb = parsed.thumb
-        } else if (parsed.image?.$?.url) {
-            item.thumb = parsed.image.$.url
-        } else if (parsed.image && typeof parsed.image === "string") {
-            item.thumb = parsed.image
-        } else if (parsed.mediaContent) {
-            let images = parsed.mediaContent.filter(
-                c => c.$ && c.$.medium === "image" && c.$.url
-            )
-            if (images.length > 0) item.thumb = images[0].$.url
-        }
-        if (!item.thumb) {
-            let dom = domParser.parseFromString(item.content, "text/html")
-            let baseEl = dom.createElement("base")
-            baseEl.setAttribute(
-                "href",
-                item.link.split("/").slice(0, 3).join("/")
-            )
-            dom.head.append(baseEl)
-            let img = dom.querySelector("img")
-            if (img && img.src) item.thumb = img.src
-        }
-        if (
-            item.thumb &&
-            !item.thumb.startsWith("https://") &&
-            !item.thumb.startsWith("http://")
-        ) {
-            delete item.thumb
-        }
-    }
-}
-
-function resolveFeedItemLink(item: MyParserItem, source: RSSSource): string {
-    if (!item.link) return ""
-
-    let parsedItemUrl: URL
-    let parsedSourceUrl: URL
-    try {
-        parsedItemUrl = new URL(item.link)
-        parsedSourceUrl = new URL(source.url)
-    } catch {
-        return item.link
-    }
-
-    const isFollowItFeed = parsedSourceUrl.hostname === "follow.it"
-    const isFollowItTrackingLink = parsedItemUrl.hostname === "api.follow.it"
-    if (!isFollowItFeed || !isFollowItTrackingLink) return item.link
-
-    for (let field of ["content", "fullContent"]) {
-        const html = item[field]
-        if (!html || typeof html !== "string") continue
-
-        const dom = domParser.parseFromString(html, "text/html")
-        const links = dom.querySelectorAll("a[href]")
-        for (let anchor of links) {
-            const href = anchor.getAttribute("href")
-            if (!href) continue
-
-            try {
-                const candidate = new URL(href, source.url)
-                if (
-                    (candidate.protocol === "https:" ||
-                        candidate.protocol === "http:") &&
-                    candidate.hostname !== "follow.it" &&
-                    candidate.hostname !== "api.follow.it"
-                ) {
-                    return candidate.toString()
-                }
-            } catch {
-                continue
-            }
-        }
-    }
-
-    return item.link
 }
 
 export type ItemState = {
@@ -157,6 +75,9 @@ export const MARK_ALL_READ = "MARK_ALL_READ"
 export const MARK_UNREAD = "MARK_UNREAD"
 export const TOGGLE_STARRED = "TOGGLE_STARRED"
 export const TOGGLE_HIDDEN = "TOGGLE_HIDDEN"
+export const SET_ITEM_TAGS = "SET_ITEM_TAGS"
+export const SET_READING_PROGRESS = "SET_READING_PROGRESS"
+export const SET_READING_STATS = "SET_READING_STATS"
 
 interface FetchItemsAction {
     type: typeof FETCH_ITEMS
@@ -195,6 +116,24 @@ interface ToggleHiddenAction {
     item: RSSItem
 }
 
+interface SetItemTagsAction {
+    type: typeof SET_ITEM_TAGS
+    item: RSSItem
+    tags: string[]
+}
+
+interface SetReadingProgressAction {
+    type: typeof SET_READING_PROGRESS
+    itemId: number
+    progress: number
+}
+
+interface SetReadingStatsAction {
+    type: typeof SET_READING_STATS
+    itemId: number
+    stats: ReadingStats
+}
+
 export type ItemActionTypes =
     | FetchItemsAction
     | MarkReadAction
@@ -202,6 +141,9 @@ export type ItemActionTypes =
     | MarkUnreadAction
     | ToggleStarredAction
     | ToggleHiddenAction
+    | SetItemTagsAction
+    | SetReadingProgressAction
+    | SetReadingStatsAction
 
 export function fetchItemsRequest(fetchCount = 0): ItemActionTypes {
     return {
@@ -239,6 +181,14 @@ export function fetchItemsIntermediate(): ItemActionTypes {
     }
 }
 
+// Open target for an item: a rule override wins over the source setting
+export function getItemOpenTarget(
+    item: RSSItem,
+    source: RSSSource
+): SourceOpenTarget {
+    return item.openTarget ?? source.openTarget
+}
+
 // Helper function to convert RSSItem to SQLite ItemRow
 function itemToRow(item: RSSItem): Omit<ItemRow, "_id"> {
     return {
@@ -255,12 +205,16 @@ function itemToRow(item: RSSItem): Omit<ItemRow, "_id"> {
         starred: item.starred ? 1 : 0,
         hidden: item.hidden ? 1 : 0,
         notify: item.notify ? 1 : 0,
-        serviceRef: item.serviceRef ?? null
+        serviceRef: item.serviceRef ?? null,
+        openTarget: item.openTarget ?? null,
+        lang: item.lang ?? null,
+        wordCount: item.wordCount ?? null,
+        readingTime: item.readingTime ?? null,
     }
 }
 
 // Helper function to convert SQLite ItemRow to RSSItem
-function rowToItem(row: ItemRow): RSSItem {
+export function rowToItem(row: ItemRow): RSSItem {
     return {
         _id: row._id,
         source: row.source,
@@ -276,7 +230,14 @@ function rowToItem(row: ItemRow): RSSItem {
         starred: row.starred === 1,
         hidden: row.hidden === 1,
         notify: row.notify === 1,
-        serviceRef: row.serviceRef ?? undefined
+        serviceRef: row.serviceRef ?? undefined,
+        openTarget: row.openTarget ?? undefined,
+        lang: row.lang ?? undefined,
+        wordCount: row.wordCount ?? undefined,
+        readingTime: row.readingTime ?? undefined,
+        searchSnippet: row.searchSnippet ?? undefined,
+        tags: row.tags ? JSON.parse(row.tags) : [],
+        readingProgress: row.readingProgress ?? undefined,
     } as RSSItem
 }
 
@@ -311,6 +272,16 @@ export async function insertItems(items: RSSItem[]): Promise<RSSItem[]> {
     
     validItems.sort((a, b) => a.date.getTime() - b.date.getTime())
     
+    // Feeds are detected and counted by the fetch service, items of sync services here
+    for (let item of validItems) {
+        if (item.lang === undefined) {
+            item.lang = detectItemLanguage(item) ?? undefined
+        }
+        if (item.readingTime === undefined) {
+            Object.assign(item, getReadingStats(item.content))
+        }
+    }
+    
     // Use SQLite for insert via window.db bridge
     const rows = validItems.map(itemToRow)
     const insertedIds = await window.db.items.insertMany(rows)
@@ -322,6 +293,9 @@ export async function insertItems(items: RSSItem[]): Promise<RSSItem[]> {
     }))
     
     console.log(`[insertItems] Successfully inserted ${inserted.length} items`)
+    await applyRuleEffects(inserted)
+    // Items of sources archived for offline reading are archived in the background
+    if (inserted.length > 0) window.offlineArchive.archivePending()
     return inserted
 }
 
@@ -330,7 +304,6 @@ export function fetchItems(
     sids: number[] = null
 ): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        let promises = new Array<Promise<RSSItem[]>>()
         const initState = getState()
         if (!initState.app.fetchingItems && !initState.app.syncing) {
             if (
@@ -342,59 +315,68 @@ export function fetchItems(
                 await dispatch(syncWithService(background))
             let timenow = new Date().getTime()
             const sourcesState = getState().sources
+            const fetchStates = await getFetchStates()
             
+            // Background fetches follow each source's adaptive schedule,
+            // manual refreshes only respect the frequency limit
             let sources =
                 sids === null
                     ? Object.values(sourcesState).filter(s => {
+                          if (s.serviceRef) return false
+                          if (background)
+                              return isFetchDue(fetchStates[s.sid], timenow)
                           let last = s.lastFetched ? s.lastFetched.getTime() : 0
                           return (
-                              !s.serviceRef &&
-                              (last > timenow ||
-                                  last + (s.fetchFrequency || 0) * 60000 <=
-                                      timenow)
+                              last > timenow ||
+                              last + (s.fetchFrequency || 0) * 60000 <= timenow
                           )
                       })
                     : sids
                           .map(sid => sourcesState[sid])
                           .filter(s => !s.serviceRef)
+            sources = sources.filter(
+                s => !isFetchBlocked(fetchStates[s.sid], timenow)
+            )
             
-            for (let source of sources) {
-                // Create main promise for fetchItems
-                let fetchPromise = RSSSource.fetchItems(source)
-                
-                // On success: update lastFetched
-                // On error: do nothing (handled later via Promise.allSettled)
-                fetchPromise.then(
-                    () => dispatch(updateSource({ ...source, lastFetched: new Date() })),
-                    () => { /* Error handled via Promise.allSettled */ }
-                )
-                
-                // Immer: Intermediate dispatch
-                fetchPromise.finally(() => dispatch(fetchItemsIntermediate()))
-                
-                promises.push(fetchPromise)
-            }
-            dispatch(fetchItemsRequest(promises.length))
-            const results = await Promise.allSettled(promises)
+            dispatch(fetchItemsRequest(sources.length))
+            // Download, parsing and rules run in the main process, only the
+            // new items of each source come back
+            const results = await window.fetcher.run(
+                sources.map(source =>
+                    RSSSource.toFetchRequest(
+                        source,
+                        getRulesForSource(getState(), source)
+                    )
+                ),
+                getFeedFetchOptions(),
+                (sid, error) => {
+                    // On success: update lastFetched
+                    // On error: do nothing (handled below with the results)
+                    const source = getState().sources[sid]
+                    if (error === null && source)
+                        dispatch(updateSource({ ...source, lastFetched: new Date() }))
+                    dispatch(fetchItemsIntermediate())
+                }
+            )
             let items = new Array<RSSItem>()
             let fetchedCount = 0
             let duplicateCount = 0
             results.map((r, i) => {
-                if (r.status === "fulfilled") {
-                    fetchedCount += r.value.length
-                    items.push(...r.value)
+                if (r.error === undefined) {
+                    fetchedCount += r.items.length
+                    items.push(...r.items)
                 }
                 else {
                     // Log with source info for better diagnosis
                     const source = sources[i]
-                    const errorMsg = r.reason instanceof Error ? r.reason.message : String(r.reason)
-                    console.error(`[fetchItems] Error fetching "${source.name}" (${source.url}): ${errorMsg}`)
-                    dispatch(fetchItemsFailure(sources[i], r.reason))
+                    console.error(`[fetchItems] Error fetching "${source.name}" (${source.url}): ${r.error}`)
+                    dispatch(fetchItemsFailure(sources[i], new Error(r.error)))
                 }
             })
             
             try {
                 const inserted = await insertItems(items)
+                await saveFetchValidators(results)
                 dispatch(
                     fetchItemsSuccess(
                         inserted.reverse(),
@@ -406,6 +388,8 @@ export function fetchItems(
                 // Only if new items were actually inserted (which changes list order)
                 if (inserted.length > 0) {
                     window.contentViewPool?.onFeedRefreshed()
+                    dispatch(updateSmartFeedCounts())
+                    dispatch(updateTags())
                 }
                 
                 if (background) {
@@ -451,9 +435,7 @@ export function markRead(item: RSSItem): AppThunk<Promise<void>> {
             // Use SQLite for update via window.db bridge
             await window.db.items.markRead(item._id, true)
             dispatch(markReadDone(item))
-            if (item.serviceRef) {
-                dispatch(dispatch(getServiceHooks()).markRead?.(item))
-            }
+            dispatch(queueItemAction(item, "read"))
             await dispatch(updateUnreadCounts())
         }
     }
@@ -470,12 +452,7 @@ export function markAllRead(
             let feed = state.feeds[state.page.feedId]
             sids = feed.sids
         }
-        const action = dispatch(getServiceHooks()).markAllRead?.(
-            sids,
-            date,
-            before
-        )
-        if (action) await dispatch(action)
+        await dispatch(queueMarkAllRead(sids, date, before))
         
         // Use SQLite for mark all read via window.db bridge
         // Note: SQLite markAllRead currently only supports beforeDate, not afterDate
@@ -521,9 +498,7 @@ export function markUnread(item: RSSItem): AppThunk<Promise<void>> {
             // Use SQLite for update via window.db bridge
             await window.db.items.markRead(item._id, false)
             dispatch(markUnreadDone(item))
-            if (item.serviceRef) {
-                dispatch(dispatch(getServiceHooks()).markUnread?.(item))
-            }
+            dispatch(queueItemAction(item, "unread"))
             await dispatch(updateUnreadCounts())
         }
     }
@@ -539,11 +514,68 @@ export function toggleStarred(item: RSSItem): AppThunk {
         // Use SQLite for update via window.db bridge
         window.db.items.toggleStarred(item._id)
         dispatch(toggleStarredDone(item))
-        if (item.serviceRef) {
-            const hooks = dispatch(getServiceHooks())
-            if (item.starred) dispatch(hooks.unstar?.(item))
-            else dispatch(hooks.star?.(item))
+        dispatch(queueItemAction(item, item.starred ? "unstar" : "star"))
+    }
+}
+
+/**
+ * Mirror read and star changes made by clients of the server mode, which
+ * are already stored and queued for the sync accounts
+ */
+export function applyServedItemChanges(
+    changes: ServedItemChange[]
+): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        for (let change of changes) {
+            // Items that aren't loaded are read from the database when needed
+            const item = getState().items[change._id]
+            if (!item) continue
+            if (
+                change.hasRead !== undefined &&
+                item.hasRead !== change.hasRead
+            ) {
+                dispatch(
+                    change.hasRead ? markReadDone(item) : markUnreadDone(item)
+                )
+            }
+            if (
+                change.starred !== undefined &&
+                item.starred !== change.starred
+            ) {
+                dispatch(toggleStarredDone(item))
+            }
+        }
+        await dispatch(updateUnreadCounts())
+        await dispatch(updateOutboxCount())
+        dispatch(flushOutbox())
+    }
+}
+
+/**
+ * Mirror a "mark all as read" of a client of the server mode, which is
+ * already stored and queued for the sync accounts
+ */
+export function applyServedMarkAllRead(
+    sids: number[],
+    date: Date
+): AppThunk<Promise<void>> {
+    return async dispatch => {
+        if (date) {
+            dispatch({
+                type: MARK_ALL_READ,
+                sids: sids,
+                time: date.getTime(),
+                before: true,
+            })
+        } else {
+            dispatch({
+                type: MARK_ALL_READ,
+                sids: sids,
+            })
         }
+        await dispatch(updateUnreadCounts())
+        await dispatch(updateOutboxCount())
+        dispatch(flushOutbox())
     }
 }
 
@@ -562,6 +594,65 @@ export function toggleHidden(item: RSSItem): AppThunk {
     }
 }
 
+const setItemTagsDone = (item: RSSItem, tags: string[]): ItemActionTypes => ({
+    type: SET_ITEM_TAGS,
+    item: item,
+    tags: tags,
+})
+
+export function addItemTag(item: RSSItem, tag: string): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const tags = await window.db.tags.addToItem(item._id, tag)
+        dispatch(setItemTagsDone(item, tags))
+        await dispatch(updateTags())
+    }
+}
+
+export function removeItemTag(item: RSSItem, tag: string): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const tags = await window.db.tags.removeFromItem(item._id, tag)
+        dispatch(setItemTagsDone(item, tags))
+        await dispatch(updateTags())
+    }
+}
+
+// Progress is stored by the main process, this only mirrors it for the cards
+export function setReadingProgress(
+    itemId: number,
+    progress: number
+): ItemActionTypes {
+    return {
+        type: SET_READING_PROGRESS,
+        itemId: itemId,
+        progress: progress,
+    }
+}
+
+export function setReadingStats(
+    itemId: number,
+    stats: ReadingStats
+): ItemActionTypes {
+    return {
+        type: SET_READING_STATS,
+        itemId: itemId,
+        stats: stats,
+    }
+}
+
+// Recount an item from its extracted full content
+export function updateReadingStats(
+    item: RSSItem,
+    content: string
+): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const stats = getReadingStats(content)
+        if (stats.wordCount === 0) return
+        if (await window.db.items.setReadingStats(item._id, stats)) {
+            dispatch(setReadingStats(item._id, stats))
+        }
+    }
+}
+
 export function itemShortcuts(item: RSSItem, e: KeyboardEvent): AppThunk {
     return dispatch => {
         if (e.metaKey) return
@@ -642,6 +733,36 @@ export function itemReducer(
                 ),
             }
         }
+        case SET_ITEM_TAGS: {
+            if (!state[action.item._id]) return state
+            return {
+                ...state,
+                [action.item._id]: {
+                    ...state[action.item._id],
+                    tags: action.tags,
+                },
+            }
+        }
+        case SET_READING_PROGRESS: {
+            if (!state[action.itemId]) return state
+            return {
+                ...state,
+                [action.itemId]: {
+                    ...state[action.itemId],
+                    readingProgress: action.progress,
+                },
+            }
+        }
+        case SET_READING_STATS: {
+            if (!state[action.itemId]) return state
+            return {
+                ...state,
+                [action.itemId]: {
+                    ...state[action.itemId],
+                    ...action.stats,
+                },
+            }
+        }
         case MARK_ALL_READ: {
             let nextState = { ...state }
             let sids = new Set(action.sids)
@@ -679,7 +800,10 @@ export function itemReducer(
         case SYNC_LOCAL_ITEMS: {
             let nextState = { ...state }
             for (let item of Object.values(state)) {
-                if (item.hasOwnProperty("serviceRef")) {
+                if (
+                    item.hasOwnProperty("serviceRef") &&
+                    action.sids.has(item.source)
+                ) {
                     const nextItem = { ...item }
                     nextItem.hasRead = !action.unreadIds.has(item.serviceRef)
                     nextItem.starred = action.starredIds.has(item.serviceRef)
@@ -0,0 +1,153 @@
+import type { ItemData } from "./item-data"
+import profileData from "./language-profiles.json"
+
+// Shorter texts are too ambiguous to tell similar languages apart
+const MIN_LETTERS = 12
+// Trigrams of the text compared against the profiles
+const PROFILE_SIZE = 300
+// Only the start of long snippets is looked at
+const MAX_SAMPLE = 1000
+
+// Characters that only appear in one of the two Chinese scripts
+const SIMPLIFIED_ONLY =
+    /[们个这来说对会为国学时与后发点还么开关系经体门见长车书东听问间现电话写觉实]/g
+const TRADITIONAL_ONLY =
+    /[們個這來說對會為國學時與後發點還麼開關係經體門見長車書東聽問間現電話寫覺實]/g
+
+const SCRIPTS: [string, RegExp][] = [
+    ["ko", /[\uac00-\ud7af\u1100-\u11ff]/g],
+    ["ja", /[\u3040-\u30ff]/g],
+    ["zh", /[\u4e00-\u9fff]/g],
+    ["th", /[\u0e00-\u0e7f]/g],
+    ["hi", /[\u0900-\u097f]/g],
+    ["el", /[\u0370-\u03ff]/g],
+    ["he", /[\u0590-\u05ff]/g],
+    ["ar", /[\u0600-\u06ff]/g],
+    ["cyrillic", /[\u0400-\u04ff]/g],
+    ["latin", /[a-z\u00c0-\u024f\u1e00-\u1eff]/gi],
+]
+
+type Profile = Map<string, number>
+let profiles: Map<string, Profile> = null
+
+// Ranks of the most frequent trigrams of each language, most frequent first
+function getProfiles() {
+    if (profiles === null) {
+        profiles = new Map()
+        for (let [lang, trigrams] of Object.entries(
+            profileData as Record<string, string>
+        )) {
+            profiles.set(
+                lang,
+                new Map(trigrams.split("|").map((t, i) => [t, i]))
+            )
+        }
+    }
+    return profiles
+}
+
+function count(text: string, pattern: RegExp) {
+    return (text.match(pattern) || []).length
+}
+
+function getTrigrams(text: string): string[] {
+    const counts = new Map<string, number>()
+    for (let word of text.toLowerCase().match(/\p{L}+/gu) || []) {
+        const padded = ` ${word} `
+        for (let i = 0; i < padded.length - 2; i++) {
+            const trigram = padded.substring(i, i + 3)
+            counts.set(trigram, (counts.get(trigram) || 0) + 1)
+        }
+    }
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+        .slice(0, PROFILE_SIZE)
+        .map(([trigram]) => trigram)
+}
+
+// Out-of-place distance between the text and the language profiles
+function detectLatin(text: string) {
+    const trigrams = getTrigrams(text)
+    let best: string = null
+    let bestDistance = Infinity
+    for (let [lang, profile] of getProfiles()) {
+        let distance = 0
+        trigrams.forEach((trigram, rank) => {
+            const profileRank = profile.get(trigram)
+            distance +=
+                profileRank === undefined
+                    ? PROFILE_SIZE
+                    : Math.abs(profileRank - rank)
+        })
+        if (distance < bestDistance) {
+            best = lang
+            bestDistance = distance
+        }
+    }
+    return best
+}
+
+/**
+ * Language of a text as a code of the translation service, or null if it
+ * is too short to tell. Runs offline: non-Latin scripts mostly identify the
+ * language by themselves, Latin text is matched against bundled trigram
+ * profiles.
+ */
+export function detectLanguage(text: string): string {
+    text = (text || "").normalize("NFC").substring(0, MAX_SAMPLE)
+    const counts = SCRIPTS.map(([script, pattern]) => ({
+        script,
+        count: count(text, pattern),
+    }))
+    const letters = counts.reduce((sum, c) => sum + c.count, 0)
+    const hangul = counts[0].count
+    const kana = counts[1].count
+    const han = counts[2].count
+    // A few CJK characters already carry a lot of meaning
+    if (letters < MIN_LETTERS && hangul + kana + han < 4) return null
+    // Japanese mixes kana into Chinese characters
+    if (kana > 0 && kana + han >= letters / 2) return "ja"
+    const { script } = counts.reduce((a, b) => (b.count > a.count ? b : a))
+    switch (script) {
+        case "zh":
+            return count(text, TRADITIONAL_ONLY) > count(text, SIMPLIFIED_ONLY)
+                ? "zh-TW"
+                : "zh-CN"
+        case "cyrillic":
+            return /[іїєґ]/i.test(text) ? "uk" : "ru"
+        case "latin":
+            return detectLatin(text)
+        default:
+            return script
+    }
+}
+
+export function detectItemLanguage(item: { title: string; snippet?: string }) {
+    return detectLanguage(`${item.title || ""} ${item.snippet || ""}`)
+}
+
+function normalizeLanguage(lang: string) {
+    lang = lang.toLowerCase()
+    if (lang.startsWith("zh")) return lang
+    lang = lang.split("-")[0]
+    return lang === "nb" || lang === "nn" ? "no" : lang
+}
+
+export function isSameLanguage(a: string, b: string) {
+    return normalizeLanguage(a) === normalizeLanguage(b)
+}
+
+/**
+ * Language to translate an item into, or undefined if its source doesn't
+ * translate or the item is already written in the target language.
+ * Items stored before detection existed are detected on the fly.
+ */
+export function getTranslationTarget(
+    item: ItemData,
+    source: { translateTo?: string }
+) {
+    const target = source?.translateTo
+    if (!target || !item) return undefined
+    const lang = item.lang ?? detectItemLanguage(item)
+    return lang && isSameLanguage(lang, target) ? undefined : target
+}
@@ -0,0 +1,250 @@
+import { AppThunk } from "../utils"
+import { OutboxAction, OutboxRow } from "../../bridges/db"
+import { ServiceConfigs } from "../../schema-types"
+import type { RSSItem } from "./item"
+import {
+    getServiceAccount,
+    getServiceHooksFromType,
+    ServiceHooks,
+} from "./service"
+
+// Read and star changes of service items go through an outbox stored in
+// SQLite, so changes made offline reach the sync account once it can be reached
+
+// Failed actions are retried after 1, 2, 4, ... minutes, at most hourly
+const RETRY_DELAY = 60 * 1000
+const MAX_RETRY_DELAY = 60 * 60 * 1000
+// Actions still failing after this many attempts are dropped, the next
+// sync then restores the service's state
+const MAX_ATTEMPTS = 10
+
+type ItemOutboxAction = Exclude<OutboxAction, "markAllRead">
+
+export type MarkAllReadPayload = {
+    sids: number[]
+    date: string
+    before: boolean
+    refs: string[] // Unread items covered when the action was taken
+}
+
+export const SET_OUTBOX_COUNT = "SET_OUTBOX_COUNT"
+
+interface SetOutboxCountAction {
+    type: typeof SET_OUTBOX_COUNT
+    count: number
+}
+
+export type OutboxActionTypes = SetOutboxCountAction
+
+function setOutboxCount(count: number): OutboxActionTypes {
+    return {
+        type: SET_OUTBOX_COUNT,
+        count: count,
+    }
+}
+
+export function updateOutboxCount(): AppThunk<Promise<void>> {
+    return async dispatch => {
+        dispatch(setOutboxCount(await window.db.outbox.count()))
+    }
+}
+
+export function queueItemAction(
+    item: RSSItem,
+    action: ItemOutboxAction
+): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        const account = getState().sources[item.source]?.serviceAccount
+        if (!item.serviceRef || !account) return
+        const count = await window.db.outbox.enqueue(
+            account,
+            action,
+            item.serviceRef
+        )
+        dispatch(setOutboxCount(count))
+        dispatch(flushOutbox())
+    }
+}
+
+/**
+ * Queue marking items of sources as read, one action per account. Must run
+ * before the items are marked locally, the unread items covered are looked
+ * up now.
+ */
+export function queueMarkAllRead(
+    sids: number[],
+    date: Date,
+    before: boolean
+): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        const state = getState()
+        const accounts = new Map<string, number[]>()
+        for (let sid of sids) {
+            const account = state.sources[sid]?.serviceAccount
+            if (!account) continue
+            if (!accounts.has(account)) accounts.set(account, [])
+            accounts.get(account).push(sid)
+        }
+        if (accounts.size === 0) return
+        // Items arriving before the action is sent weren't seen, keep them unread
+        if (!date) {
+            date = new Date()
+            before = true
+        }
+        let count: number
+        for (let [account, accountSids] of accounts) {
+            const refs = await window.db.items.getUnreadServiceRefs(
+                accountSids,
+                before ? date.toISOString() : undefined,
+                before ? undefined : date.toISOString()
+            )
+            const payload: MarkAllReadPayload = {
+                sids: accountSids,
+                date: date.toISOString(),
+                before: before,
+                refs: refs,
+            }
+            count = await window.db.outbox.enqueue(
+                account,
+                "markAllRead",
+                null,
+                JSON.stringify(payload)
+            )
+        }
+        dispatch(setOutboxCount(count))
+        dispatch(flushOutbox())
+    }
+}
+
+function sendAction(
+    hooks: ServiceHooks,
+    configs: ServiceConfigs,
+    row: OutboxRow
+): AppThunk<Promise<void>> {
+    return async dispatch => {
+        // The hooks only look at the serviceRef of items
+        const item = { serviceRef: row.serviceRef } as RSSItem
+        switch (row.action) {
+            case "read":
+                if (hooks.markRead)
+                    await dispatch(hooks.markRead(configs, item))
+                break
+            case "unread":
+                if (hooks.markUnread)
+                    await dispatch(hooks.markUnread(configs, item))
+                break
+            case "star":
+                if (hooks.star) await dispatch(hooks.star(configs, item))
+                break
+            case "unstar":
+                if (hooks.unstar) await dispatch(hooks.unstar(configs, item))
+                break
+            case "markAllRead": {
+                const payload: MarkAllReadPayload = JSON.parse(row.payload)
+                if (hooks.markAllRead) {
+                    await dispatch(
+                        hooks.markAllRead(
+                            configs,
+                            payload.sids,
+                            new Date(payload.date),
+                            payload.before,
+                            payload.refs
+                        )
+                    )
+                }
+                break
+            }
+        }
+    }
+}
+
+// Actions of an account are sent strictly in order, a failed one holds back
+// the rest of the account's actions
+function sendOutbox(force: boolean): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const now = new Date().toISOString()
+        const held = new Set<string>()
+        for (let row of await window.db.outbox.getActions()) {
+            if (held.has(row.serviceAccount)) continue
+            const configs = dispatch(getServiceAccount(row.serviceAccount))
+            if (!configs) {
+                // The account has been removed
+                await window.db.outbox.complete(row.id)
+                continue
+            }
+            if (!force && row.nextAttempt && row.nextAttempt > now) {
+                held.add(row.serviceAccount)
+                continue
+            }
+            const hooks = getServiceHooksFromType(configs.type)
+            try {
+                await window.db.outbox.start(row.id)
+                await dispatch(sendAction(hooks, configs, row))
+                await window.db.outbox.complete(row.id)
+            } catch (err) {
+                console.log(err)
+                if (row.attempts + 1 >= MAX_ATTEMPTS) {
+                    console.log(
+                        `[outbox] Dropping ${row.action} ${row.serviceRef ?? ""} after ${MAX_ATTEMPTS} attempts`
+                    )
+                    await window.db.outbox.complete(row.id)
+                    continue
+                }
+                const delay = Math.min(
+                    MAX_RETRY_DELAY,
+                    RETRY_DELAY * 2 ** row.attempts
+                )
+                await window.db.outbox.fail(
+                    row.id,
+                    String(err),
+                    new Date(Date.now() + delay).toISOString()
+                )
+                held.add(row.serviceAccount)
+            }
+        }
+        await dispatch(updateOutboxCount())
+    }
+}
+
+let flushing: Promise<void> = null
+let flushAgain = false
+let forceAgain = false
+
+/**
+ * Send queued actions to the sync service. Actions waiting for a retry hold
+ * back the queue unless forced. Resolves once the queue is idle.
+ */
+export function flushOutbox(force = false): AppThunk<Promise<void>> {
+    return dispatch => {
+        if (flushing) {
+            // Actions queued meanwhile are sent after the current run,
+            // without waiting for retries if that was asked for
+            flushAgain = true
+            if (force) forceAgain = true
+            return flushing
+        }
+        flushing = (async () => {
+            try {
+                do {
+                    flushAgain = false
+                    await dispatch(sendOutbox(force))
+                    force = forceAgain
+                    forceAgain = false
+                } while (flushAgain)
+            } finally {
+                flushing = null
+            }
+        })()
+        return flushing
+    }
+}
+
+/**
+ * Drop the queued actions of an account, e.g. when it is removed
+ */
+export function clearOutbox(id: string): AppThunk<Promise<void>> {
+    return async dispatch => {
+        await window.db.outbox.clear(id)
+        await dispatch(updateOutboxCount())
+    }
+}
@@ -77,22 +77,59 @@ export type PageActionTypes =
     | ToggleSearchAction
     | SetViewConfigsAction
 
+export const CONTINUE_READING = "continue"
+
+// Tag and progress conditions only belong to the view they were opened from
+function hasViewConditions(filter: FeedFilter) {
+    return filter.tags?.length > 0 || !!filter.inProgress
+}
+function withoutTags(filter: FeedFilter): FeedFilter {
+    return hasViewConditions(filter)
+        ? { ...filter, tags: [], inProgress: false }
+        : filter
+}
+
 export function selectAllArticles(init = false): AppThunk {
     return (dispatch, getState) => {
+        const filter = getState().page.filter
         dispatch({
             type: SELECT_PAGE,
             keepMenu: getWindowBreakpoint(),
-            filter: getState().page.filter,
+            filter: withoutTags(filter),
             pageType: PageType.AllArticles,
-            init: init,
+            init: init || hasViewConditions(filter),
         } as PageActionTypes)
     }
 }
 
+/**
+ * Open the items started but not read to the end as a feed across all sources
+ */
+export function selectContinueReading(title: string): AppThunk {
+    return (dispatch, getState) => {
+        const state = getState()
+        const filter: FeedFilter = {
+            ...withoutTags(state.page.filter),
+            inProgress: true,
+        }
+        window.contentViewPool?.onListChanged()
+        dispatch(
+            selectSources(
+                Object.values(state.sources).map(s => s.sid),
+                CONTINUE_READING,
+                title,
+                filter
+            )
+        )
+        dispatch(initFeeds())
+    }
+}
+
 export function selectSources(
     sids: number[],
     menuKey: string,
-    title: string
+    title: string,
+    filter: FeedFilter = null
 ): AppThunk {
     return (dispatch, getState) => {
         if (getState().app.menuKey !== menuKey) {
@@ -100,7 +137,7 @@ export function selectSources(
                 type: SELECT_PAGE,
                 pageType: PageType.Sources,
                 keepMenu: getWindowBreakpoint(),
-                filter: getState().page.filter,
+                filter: filter || withoutTags(getState().page.filter),
                 sids: sids,
                 menuKey: menuKey,
                 title: title,
@@ -426,7 +463,7 @@ export class PageState {
     viewConfigs = window.settings.getViewConfigs(
         window.settings.getDefaultView()
     )
-    filter = new FeedFilter()
+    filter = new FeedFilter(window.settings.getFilterType())
     feedId = ALL
     itemId = null as number
     itemFromFeed = true
@@ -445,12 +482,14 @@ export function pageReducer(
                         ...state,
                         feedId: ALL,
                         itemId: null,
+                        filter: action.filter,
                     }
                 case PageType.Sources:
                     return {
                         ...state,
                         feedId: SOURCE,
                         itemId: null,
+                        filter: action.filter,
                     }
                 default:
                     return state
@@ -0,0 +1,14 @@
+/**
+ * Marker between the pages of an article stitched together from several
+ * pages. It carries no text, so translation and the bilingual view leave
+ * it alone.
+ */
+export function renderPageSeparator(page: number, pages: number) {
+    return `<hr class="page-separator" data-page="${page} / ${pages}">`
+}
+
+// Shared by the article pages generated in main and in the renderer
+export const PAGE_SEPARATOR_STYLES = `
+hr.page-separator { border: none; border-top: 1px solid var(--gray); margin: 2em 0 1em; opacity: 0.8; }
+hr.page-separator::after { content: attr(data-page); display: block; margin-top: 0.5em; text-align: center; color: var(--gray); font-size: 0.875rem; }
+`
@@ -0,0 +1,29 @@
+// Shared with the main process, which stores the positions reported by
+// article views and restores them
+
+// Below this the article has barely been started
+export const READING_STARTED = 0.05
+// Beyond this the article counts as read to the end
+export const READING_FINISHED = 0.95
+
+/**
+ * Element at the top of the viewport, found again by its index among the
+ * text blocks of the page and checked against the start of its text
+ */
+export type ReadingAnchor = {
+    index: number
+    text: string
+}
+
+export type ReadingPosition = {
+    progress: number // Scroll percentage, 0 to 1
+    anchor?: ReadingAnchor
+}
+
+export function isInProgress(progress: number) {
+    return (
+        typeof progress === "number" &&
+        progress >= READING_STARTED &&
+        progress < READING_FINISHED
+    )
+}
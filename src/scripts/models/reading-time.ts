@@ -0,0 +1,52 @@
+// Shared with the main process, which counts the words of fetched items and
+// of extracted full content
+
+// Average silent reading speed of adults
+const WORDS_PER_MINUTE = 230
+// Chinese, Japanese and Korean are read character by character
+const CHARACTERS_PER_MINUTE = 500
+// Time spent looking at an image, only the first ones are counted
+const SECONDS_PER_IMAGE = 10
+const MAX_IMAGES = 10
+
+// Items up to this long count as short reads
+export const SHORT_READ_MINUTES = 5
+
+const CJK_CHARACTER = /[぀-ヿ㐀-䶿一-鿿가-힯]/g
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu
+
+export type ReadingStats = {
+    wordCount: number // CJK characters count as words
+    readingTime: number // Minutes, at least 1 for any text
+}
+
+function toText(html: string) {
+    return html
+        .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, " ")
+        .replace(/<[^>]*>/g, " ")
+        .replace(/&[#\w]+;/g, " ")
+}
+
+/**
+ * Word count and estimated reading time of an item's HTML content
+ */
+export function getReadingStats(html: string): ReadingStats {
+    const text = toText(html || "")
+    const characters = (text.match(CJK_CHARACTER) || []).length
+    const words = (text.replace(CJK_CHARACTER, " ").match(WORD) || []).length
+    const images = Math.min(
+        MAX_IMAGES,
+        ((html || "").match(/<img\b/gi) || []).length
+    )
+    const wordCount = words + characters
+    if (wordCount === 0) return { wordCount: 0, readingTime: 0 }
+    const minutes =
+        words / WORDS_PER_MINUTE +
+        characters / CHARACTERS_PER_MINUTE +
+        (images * SECONDS_PER_IMAGE) / 60
+    return { wordCount, readingTime: Math.max(1, Math.round(minutes)) }
+}
+
+export function isShortRead(readingTime: number) {
+    return typeof readingTime === "number" && readingTime <= SHORT_READ_MINUTES
+}
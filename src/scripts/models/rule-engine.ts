@@ -0,0 +1,324 @@
+import { FeedFilter, FilterType, validateRegex } from "./filter"
+import type { ItemData, SourceOpenTarget } from "./item-data"
+
+// Rule evaluation on plain items, shared by the renderer and the fetch
+// service in the main process. Redux state and side effects of rules stay
+// in rule.ts.
+
+export const enum ItemAction {
+    Read = "r",
+    Star = "s",
+    Hide = "h",
+    Notify = "n",
+    Tag = "t",
+    OpenTarget = "o",
+    Forward = "p",
+    Webhook = "w",
+}
+
+export type RuleActions = {
+    [type in ItemAction]?: boolean
+}
+export namespace RuleActions {
+    export function toKeys(actions: RuleActions): string[] {
+        return Object.entries(actions).map(([t, f]) => `${t}-${f}`)
+    }
+
+    export function fromKeys(strs: string[]): RuleActions {
+        const fromKey = (str: string): [ItemAction, boolean] => {
+            let [t, f] = str.split("-") as [ItemAction, string]
+            if (f) return [t, f === "true"]
+            else return [t, true]
+        }
+        return Object.fromEntries(strs.map(fromKey)) as RuleActions
+    }
+}
+
+// Parameters of the actions that need more than an on/off flag
+export type RuleActionParams = {
+    tag?: string
+    openTarget?: SourceOpenTarget
+    peerId?: string
+    peerName?: string
+    webhook?: string
+}
+
+// Outbound actions can only run once the item is stored
+export type RuleEffect =
+    | { type: ItemAction.Forward; peerId: string }
+    | { type: ItemAction.Webhook; url: string }
+
+/**
+ * Webhooks only go to this computer or the local network: localhost,
+ * loopback and private addresses, and .local or .lan host names
+ */
+export function isLocalWebhookUrl(url: string): boolean {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return false
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:")
+        return false
+    const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "")
+    if (host === "localhost" || /\.(localhost|local|lan)$/.test(host))
+        return true
+    const ipv4 = host.match(/^(\d+)\.(\d+)\.\d+\.\d+$/)
+    if (ipv4) {
+        const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+        return (
+            a === 127 ||
+            a === 10 ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168) ||
+            (a === 169 && b === 254)
+        )
+    }
+    // Loopback, unique local and link-local IPv6 addresses
+    return (
+        host === "::1" ||
+        /^f[cd][0-9a-f]{2}:/.test(host) ||
+        /^fe[89ab][0-9a-f]:/.test(host)
+    )
+}
+
+export const enum ConditionField {
+    Title = "title",
+    Snippet = "snippet",
+    Content = "content",
+    Creator = "creator",
+    Domain = "domain",
+    Age = "age", // Days since the item was published
+    Thumbnail = "thumb",
+}
+
+export const enum ConditionOperator {
+    Regex = "regex",
+    Contains = "contains",
+    Equals = "equals",
+    Greater = "gt", // Text length, or days for the age field
+    Less = "lt",
+    Exists = "exists",
+}
+
+export type RuleCondition =
+    | { type: "and" | "or"; children: RuleCondition[] }
+    | { type: "not"; child: RuleCondition }
+    | {
+          type: "test"
+          field: ConditionField
+          operator: ConditionOperator
+          value: string
+          caseSensitive?: boolean
+      }
+export type ConditionTest = Extract<RuleCondition, { type: "test" }>
+
+export namespace RuleCondition {
+    function getFieldValue(field: ConditionField, item: ItemData): string {
+        switch (field) {
+            case ConditionField.Title:
+                return item.title || ""
+            case ConditionField.Snippet:
+                return item.snippet || ""
+            case ConditionField.Content:
+                return item.content || ""
+            case ConditionField.Creator:
+                return item.creator || ""
+            case ConditionField.Thumbnail:
+                return item.thumb || ""
+            case ConditionField.Domain:
+                try {
+                    return new URL(item.link).hostname
+                } catch {
+                    return ""
+                }
+        }
+    }
+
+    function testLeaf(cond: ConditionTest, item: ItemData): boolean {
+        if (cond.field === ConditionField.Age) {
+            const days = (Date.now() - item.date.getTime()) / 86400000
+            const limit = parseFloat(cond.value)
+            if (isNaN(limit)) return false
+            if (cond.operator === ConditionOperator.Greater) return days > limit
+            if (cond.operator === ConditionOperator.Less) return days < limit
+            return false
+        }
+        let text = getFieldValue(cond.field, item)
+        let value = cond.value
+        switch (cond.operator) {
+            case ConditionOperator.Exists:
+                return text.length > 0
+            case ConditionOperator.Greater:
+                return text.length > parseInt(value)
+            case ConditionOperator.Less:
+                return text.length < parseInt(value)
+            case ConditionOperator.Regex: {
+                const regex = validateRegex(
+                    value,
+                    cond.caseSensitive ? "" : "i"
+                )
+                return regex !== null && regex.test(text)
+            }
+        }
+        if (!cond.caseSensitive) {
+            text = text.toLowerCase()
+            value = value.toLowerCase()
+        }
+        if (cond.operator === ConditionOperator.Equals) return text === value
+        return text.includes(value)
+    }
+
+    export function test(cond: RuleCondition, item: ItemData): boolean {
+        switch (cond.type) {
+            case "and":
+                return cond.children.every(c => test(c, item))
+            case "or":
+                return cond.children.some(c => test(c, item))
+            case "not":
+                return !test(cond.child, item)
+            case "test":
+                return testLeaf(cond, item)
+        }
+    }
+
+    // Error message key for the first invalid leaf, or null if the tree is valid
+    export function validate(cond: RuleCondition): string {
+        switch (cond.type) {
+            case "and":
+            case "or":
+                if (cond.children.length === 0) return "rules.emptyGroup"
+                for (let child of cond.children) {
+                    const error = validate(child)
+                    if (error) return error
+                }
+                return null
+            case "not":
+                return validate(cond.child)
+            case "test":
+                if (cond.operator === ConditionOperator.Exists) return null
+                if (
+                    cond.operator === ConditionOperator.Greater ||
+                    cond.operator === ConditionOperator.Less
+                )
+                    return isNaN(parseFloat(cond.value))
+                        ? "rules.badNumber"
+                        : null
+                if (cond.value.length === 0) return "emptyField"
+                if (
+                    cond.operator === ConditionOperator.Regex &&
+                    validateRegex(cond.value) === null
+                )
+                    return "rules.badRegex"
+                return null
+        }
+    }
+
+    // The condition tree equivalent to a single regex rule
+    export function fromFilter(
+        filter: FeedFilter,
+        match: boolean
+    ): RuleCondition {
+        let fields = [ConditionField.Title]
+        if (filter.type & FilterType.FullSearch)
+            fields = [ConditionField.Title, ConditionField.Snippet]
+        else if (filter.type & FilterType.CreatorSearch)
+            fields = [ConditionField.Creator]
+        const tests: RuleCondition[] = fields.map(field => ({
+            type: "test",
+            field: field,
+            operator: ConditionOperator.Regex,
+            value: filter.search,
+            caseSensitive: !(filter.type & FilterType.CaseInsensitive),
+        }))
+        const cond: RuleCondition =
+            tests.length === 1 ? tests[0] : { type: "or", children: tests }
+        return match ? cond : { type: "not", child: cond }
+    }
+}
+
+type ActionTransformType = {
+    [type in ItemAction]: (i: ItemData, f: boolean, p: RuleActionParams) => void
+}
+const actionTransform: ActionTransformType = {
+    [ItemAction.Read]: (i, f) => {
+        i.hasRead = f
+    },
+    [ItemAction.Star]: (i, f) => {
+        i.starred = f
+    },
+    [ItemAction.Hide]: (i, f) => {
+        i.hidden = f
+    },
+    [ItemAction.Notify]: (i, f) => {
+        i.notify = f
+    },
+    [ItemAction.Tag]: (i, f, p) => {
+        if (!f || !p.tag) return
+        const tags = i.tags || []
+        if (!tags.some(t => t.toLowerCase() === p.tag.toLowerCase()))
+            i.tags = [...tags, p.tag]
+    },
+    [ItemAction.OpenTarget]: (i, f, p) => {
+        if (f && p.openTarget !== undefined) i.openTarget = p.openTarget
+    },
+    [ItemAction.Forward]: (i, f, p) => {
+        if (f && p.peerId) {
+            i.ruleEffects = [
+                ...(i.ruleEffects || []),
+                { type: ItemAction.Forward, peerId: p.peerId },
+            ]
+        }
+    },
+    [ItemAction.Webhook]: (i, f, p) => {
+        if (f && p.webhook) {
+            i.ruleEffects = [
+                ...(i.ruleEffects || []),
+                { type: ItemAction.Webhook, url: p.webhook },
+            ]
+        }
+    },
+}
+
+export class SourceRule {
+    filter: FeedFilter
+    match: boolean
+    actions: RuleActions
+    params?: RuleActionParams
+    condition?: RuleCondition // Replaces filter and match when set
+
+    constructor(
+        regex: string,
+        actions: string[],
+        filter: FilterType,
+        match: boolean,
+        params: RuleActionParams = {},
+        condition: RuleCondition = undefined
+    ) {
+        this.filter = new FeedFilter(filter, regex)
+        this.match = match
+        this.actions = RuleActions.fromKeys(actions)
+        this.params = params
+        if (condition) this.condition = condition
+    }
+
+    static test(rule: SourceRule, item: ItemData) {
+        if (rule.condition) return RuleCondition.test(rule.condition, item)
+        return FeedFilter.testItem(rule.filter, item, false) === rule.match
+    }
+
+    static apply(rule: SourceRule, item: ItemData) {
+        if (this.test(rule, item)) {
+            for (let [action, flag] of Object.entries(rule.actions)) {
+                actionTransform[action]?.(item, flag, rule.params || {})
+            }
+        }
+    }
+
+    static applyAll(rules: SourceRule[], item: ItemData) {
+        for (let rule of rules) {
+            this.apply(rule, item)
+        }
+    }
+}
@@ -1,77 +1,216 @@
-import { FeedFilter, FilterType } from "./feed"
-import { RSSItem } from "./item"
-
-export const enum ItemAction {
-    Read = "r",
-    Star = "s",
-    Hide = "h",
-    Notify = "n",
+import { initFeeds } from "./feed"
+import { RSSItem, rowToItem } from "./item"
+import { RSSSource, updateUnreadCounts } from "./source"
+import { queueItemAction } from "./outbox"
+import { updateTags } from "./tag"
+import { ItemAction, RuleEffect, SourceRule } from "./rule-engine"
+import type { SourceGroup } from "../../schema-types"
+import type { ItemChange, SourceRow } from "../../bridges/db"
+import { AppThunk } from "../utils"
+
+export * from "./rule-engine"
+
+
+/**
+ * Rule precedence: global rules run first, then the rules of every group
+ * containing the source (in menu order), then the source's own rules.
+ * Each rule overwrites the flags set before it, so the most specific
+ * scope has the last word.
+ */
+export function getRulesForSource(
+    state: { globalRules: SourceRule[]; groups: SourceGroup[] },
+    source: RSSSource
+): SourceRule[] {
+    const rules = [...state.globalRules]
+    for (let group of state.groups) {
+        if (group.isMultiple && group.rules && group.sids.includes(source.sid))
+            rules.push(...group.rules)
+    }
+    if (source.rules) rules.push(...source.rules)
+    return rules
 }
 
-export type RuleActions = {
-    [type in ItemAction]: boolean
+export const UPDATE_GLOBAL_RULES = "UPDATE_GLOBAL_RULES"
+
+interface UpdateGlobalRulesAction {
+    type: typeof UPDATE_GLOBAL_RULES
+    rules: SourceRule[]
 }
-export namespace RuleActions {
-    export function toKeys(actions: RuleActions): string[] {
-        return Object.entries(actions).map(([t, f]) => `${t}-${f}`)
+
+export type RuleActionTypes = UpdateGlobalRulesAction
+
+export function updateGlobalRules(rules: SourceRule[]): AppThunk {
+    return dispatch => {
+        dispatch({ type: UPDATE_GLOBAL_RULES, rules: rules })
+        window.settings.saveGlobalRules(rules)
     }
+}
 
-    export function fromKeys(strs: string[]): RuleActions {
-        const fromKey = (str: string): [ItemAction, boolean] => {
-            let [t, f] = str.split("-") as [ItemAction, string]
-            if (f) return [t, f === "true"]
-            else return [t, true]
-        }
-        return Object.fromEntries(strs.map(fromKey)) as RuleActions
+export function globalRuleReducer(
+    state: SourceRule[] = window.settings.loadGlobalRules(),
+    action: RuleActionTypes
+): SourceRule[] {
+    switch (action.type) {
+        case UPDATE_GLOBAL_RULES:
+            return action.rules
+        default:
+            return state
     }
 }
 
-type ActionTransformType = {
-    [type in ItemAction]: (i: RSSItem, f: boolean) => void
+// A change that applying rules would make to a stored item
+export type RulePreviewEntry = {
+    item: RSSItem
+    change: ItemChange
 }
-const actionTransform: ActionTransformType = {
-    [ItemAction.Read]: (i, f) => {
-        i.hasRead = f
-    },
-    [ItemAction.Star]: (i, f) => {
-        i.starred = f
-    },
-    [ItemAction.Hide]: (i, f) => {
-        i.hidden = f
-    },
-    [ItemAction.Notify]: (i, f) => {
-        i.notify = f
-    },
+
+const PREVIEW_PAGE_SIZE = 500
+
+function getItemChange(before: RSSItem, after: RSSItem): ItemChange {
+    const change: ItemChange = { _id: before._id }
+    for (let key of ["hasRead", "starred", "hidden"] as const) {
+        if (Boolean(after[key]) !== Boolean(before[key]))
+            change[key] = after[key] ? 1 : 0
+    }
+    if (after.openTarget !== before.openTarget)
+        change.openTarget = after.openTarget ?? null
+    const addTags = (after.tags || []).slice((before.tags || []).length)
+    if (addTags.length > 0) change.addTags = addTags
+    return Object.keys(change).length > 1 ? change : null
 }
 
-export class SourceRule {
-    filter: FeedFilter
-    match: boolean
-    actions: RuleActions
-
-    constructor(
-        regex: string,
-        actions: string[],
-        filter: FilterType,
-        match: boolean
-    ) {
-        this.filter = new FeedFilter(filter, regex)
-        this.match = match
-        this.actions = RuleActions.fromKeys(actions)
+/**
+ * Dry-run rules against the stored items of the given sources. Notifications
+ * and outbound actions are never run for existing items.
+ */
+export async function previewRules(
+    rules: SourceRule[],
+    sids: number[]
+): Promise<RulePreviewEntry[]> {
+    const entries = new Array<RulePreviewEntry>()
+    if (sids.length === 0) return entries
+    for (let offset = 0; ; offset += PREVIEW_PAGE_SIZE) {
+        const rows = await window.db.items.query({
+            sourceIds: sids,
+            limit: PREVIEW_PAGE_SIZE,
+            offset: offset,
+        })
+        for (let row of rows) {
+            const item = rowToItem(row)
+            const result: RSSItem = { ...item, tags: [...(item.tags || [])] }
+            SourceRule.applyAll(rules, result)
+            const change = getItemChange(item, result)
+            // Drop the content, the preview only lists titles
+            if (change) entries.push({ item: { ...item, content: "" }, change })
+        }
+        if (rows.length < PREVIEW_PAGE_SIZE) break
     }
+    return entries
+}
+
+/**
+ * Apply previewed changes as a batched job in the main process, then sync
+ * read and star changes of service items back through the sync outbox.
+ */
+export function applyRulePreview(
+    entries: RulePreviewEntry[],
+    onProgress?: (done: number, total: number) => void
+): AppThunk<Promise<void>> {
+    return async dispatch => {
+        await window.db.items.applyChanges(
+            entries.map(e => e.change),
+            onProgress
+        )
+        for (let { item, change } of entries) {
+            if (!item.serviceRef) continue
+            if (change.hasRead !== undefined) {
+                await dispatch(
+                    queueItemAction(item, change.hasRead ? "read" : "unread")
+                )
+            }
+            if (change.starred !== undefined) {
+                await dispatch(
+                    queueItemAction(item, change.starred ? "star" : "unstar")
+                )
+            }
+        }
+        await dispatch(initFeeds(true))
+        await dispatch(updateUnreadCounts())
+        await dispatch(updateTags())
+    }
+}
 
-    static apply(rule: SourceRule, item: RSSItem) {
-        let result = FeedFilter.testItem(rule.filter, item)
-        if (result === rule.match) {
-            for (let [action, flag] of Object.entries(rule.actions)) {
-                actionTransform[action](item, flag)
+/**
+ * Persist rule tags of newly stored items and queue their outbound rule
+ * actions. Failures are logged and never block the fetch.
+ */
+export async function applyRuleEffects(items: RSSItem[]) {
+    const outbound = new Array<[RSSItem, RuleEffect[]]>()
+    for (let item of items) {
+        const tags = item.tags || []
+        for (let tag of tags) {
+            try {
+                item.tags = await window.db.tags.addToItem(item._id, tag)
+            } catch (err) {
+                console.error(`[rules] Failed to tag "${item.title}":`, err)
             }
         }
+        if (!item.ruleEffects) continue
+        outbound.push([item, item.ruleEffects])
+        delete item.ruleEffects
+    }
+    // Peers and webhooks may be slow to answer, the fetch doesn't wait for them
+    if (outbound.length > 0) {
+        pendingActions = pendingActions.then(() => sendRuleActions(outbound))
     }
+}
 
-    static applyAll(rules: SourceRule[], item: RSSItem) {
-        for (let rule of rules) {
-            this.apply(rule, item)
+// Outbound actions of successive fetches are sent one after another
+let pendingActions = Promise.resolve()
+
+async function sendRuleActions(outbound: [RSSItem, RuleEffect[]][]) {
+    for (let [item, effects] of outbound) {
+        let source: SourceRow
+        try {
+            source = await window.db.sources.getById(item.source)
+        } catch (err) {
+            console.error(
+                `[rules] Failed to load the source of "${item.title}":`,
+                err
+            )
+        }
+        for (let effect of effects) {
+            try {
+                if (effect.type === ItemAction.Forward) {
+                    // Queued by the main process if the peer is offline
+                    await window.p2pLan.sendArticleLinkWithQueue(
+                        effect.peerId,
+                        item.title,
+                        item.link,
+                        source?.name,
+                        source?.url,
+                        source?.iconurl ?? undefined
+                    )
+                } else if (effect.type === ItemAction.Webhook) {
+                    await window.utils.postWebhook(effect.url, {
+                        title: item.title,
+                        link: item.link,
+                        date: item.date.toISOString(),
+                        creator: item.creator ?? null,
+                        snippet: item.snippet,
+                        content: item.content,
+                        tags: item.tags || [],
+                        source: source
+                            ? { name: source.name, url: source.url }
+                            : null,
+                    })
+                }
+            } catch (err) {
+                console.error(
+                    `[rules] Action "${effect.type}" failed for "${item.title}":`,
+                    err
+                )
+            }
         }
     }
 }
@@ -0,0 +1,109 @@
+import type { SourceFetchStateRow } from "../../bridges/db"
+
+// Shared with the fetch service in the main process, kept free of renderer
+// imports
+
+// Bounds of the adaptive fetch interval in minutes
+const MIN_INTERVAL = 5
+const MAX_INTERVAL = 24 * 60
+// Newest items used to estimate how often a feed publishes
+const CADENCE_SAMPLE = 20
+export const MAX_CONCURRENT_FETCHES = 6
+
+export type FetchStates = {
+    [sid: number]: SourceFetchStateRow
+}
+
+/**
+ * Typical minutes between new items of a feed, or null with too few dated
+ * items. A feed that has been quiet for longer than its usual gap stretches
+ * its own cadence, so dormant feeds back off by themselves.
+ */
+export function estimateCadence(dates: Date[], now = Date.now()): number {
+    const times = dates
+        .map(d => d.getTime())
+        .filter(t => !isNaN(t) && t <= now)
+        .sort((a, b) => b - a)
+        .slice(0, CADENCE_SAMPLE)
+    if (times.length < 3) return null
+    const gaps = new Array<number>()
+    for (let i = 1; i < times.length; i++) {
+        gaps.push((times[i - 1] - times[i]) / 60000)
+    }
+    gaps.sort((a, b) => a - b)
+    const median = gaps[Math.floor(gaps.length / 2)]
+    return Math.max(median, (now - times[0]) / 60000)
+}
+
+export type ScheduleInput = {
+    cadence: number | null
+    feedTtl: number | null
+    failures: number
+    retryAfter?: number | null // Seconds
+    defaultInterval: number // Minutes, for feeds without enough history
+}
+
+/**
+ * Time of the next background fetch of a source. Polls at half the
+ * publishing cadence, never more often than the feed's ttl or the source's
+ * frequency limit, and backs off exponentially on consecutive failures.
+ */
+export function getNextFetch(
+    source: { fetchFrequency: number },
+    input: ScheduleInput,
+    now = Date.now()
+) {
+    let interval =
+        input.cadence !== null ? input.cadence / 2 : input.defaultInterval || 60
+    interval = Math.min(Math.max(interval, MIN_INTERVAL), MAX_INTERVAL)
+    if (input.feedTtl) {
+        interval = Math.max(interval, Math.min(input.feedTtl, MAX_INTERVAL))
+    }
+    if (source.fetchFrequency) {
+        interval = Math.max(interval, source.fetchFrequency)
+    }
+    if (input.failures > 0) {
+        interval = Math.min(interval * 2 ** input.failures, MAX_INTERVAL)
+    }
+    let nextFetch = now + interval * 60000
+    const retryUntil = input.retryAfter ? now + input.retryAfter * 1000 : null
+    if (retryUntil !== null) nextFetch = Math.max(nextFetch, retryUntil)
+    return {
+        nextFetch: new Date(nextFetch),
+        retryUntil: retryUntil === null ? null : new Date(retryUntil),
+    }
+}
+
+export function isFetchDue(state: SourceFetchStateRow, now = Date.now()) {
+    return !state?.nextFetch || new Date(state.nextFetch).getTime() <= now
+}
+
+// A server asked us to stay away with Retry-After
+export function isFetchBlocked(state: SourceFetchStateRow, now = Date.now()) {
+    return !!state?.retryUntil && new Date(state.retryUntil).getTime() > now
+}
+
+/**
+ * Start the tasks with at most `limit` of them running at once. The
+ * returned promises are in the same order as the tasks.
+ */
+export function limitConcurrency<T>(
+    tasks: (() => Promise<T>)[],
+    limit = MAX_CONCURRENT_FETCHES
+): Promise<T>[] {
+    const starters = new Array<() => void>()
+    let next = 0
+    const startNext = () => {
+        if (next < starters.length) starters[next++]()
+    }
+    const promises = tasks.map(
+        (task, i) =>
+            new Promise<T>((resolve, reject) => {
+                starters[i] = () => {
+                    task().then(resolve, reject).finally(startNext)
+                }
+            })
+    )
+    for (let i = 0; i < limit; i++) startNext()
+    return promises
+}
@@ -0,0 +1,20 @@
+// Kept free of renderer imports, the main process restores the accounts of
+// sources from backups with the same rule
+
+/** ServiceRef value for P2P shared feeds - prevents auto-fetching */
+export const P2P_SHARED_SERVICE_REF = "p2p-shared"
+
+/**
+ * Sync account of a source. Sources from backups of versions before v20
+ * don't name their account, like in the v20 migration their service
+ * sources belong to the account "default".
+ */
+export function getSourceAccount(source: {
+    serviceRef?: string | null
+    serviceAccount?: string | null
+}): string | null {
+    if (source.serviceAccount) return source.serviceAccount
+    return source.serviceRef && source.serviceRef !== P2P_SHARED_SERVICE_REF
+        ? "default"
+        : null
+}
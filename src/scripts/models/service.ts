@@ -1,3 +1,4 @@
+import intl from "react-intl-universal"
 import { SourceRow } from "../../bridges/db"
 import { SyncService, ServiceConfigs } from "../../schema-types"
 import { AppThunk, ActionStatus } from "../utils"
@@ -13,28 +14,68 @@ import {
     updateFavicon,
 } from "./source"
 import { createSourceGroup, addSourceToGroup } from "./group"
+import { flushOutbox, clearOutbox } from "./outbox"
+import { getSourceAccount } from "./service-account"
 
 import { feverServiceHooks } from "./services/fever"
 import { feedbinServiceHooks } from "./services/feedbin"
 import { gReaderServiceHooks } from "./services/greader"
 import { minifluxServiceHooks } from "./services/miniflux"
 import { nextcloudServiceHooks } from "./services/nextcloud"
+import { ttrssServiceHooks } from "./services/ttrss"
 
+// Hooks act on behalf of the account whose configs they are given
 export interface ServiceHooks {
     authenticate?: (configs: ServiceConfigs) => Promise<boolean>
     reauthenticate?: (configs: ServiceConfigs) => Promise<ServiceConfigs>
-    updateSources?: () => AppThunk<Promise<[RSSSource[], Map<string, string>]>>
-    fetchItems?: () => AppThunk<Promise<[RSSItem[], ServiceConfigs]>>
-    syncItems?: () => AppThunk<Promise<[Set<string>, Set<string>]>>
-    markRead?: (item: RSSItem) => AppThunk
-    markUnread?: (item: RSSItem) => AppThunk
+    updateSources?: (
+        configs: ServiceConfigs
+    ) => AppThunk<Promise<[RSSSource[], Map<string, string>]>>
+    fetchItems?: (
+        configs: ServiceConfigs
+    ) => AppThunk<Promise<[RSSItem[], ServiceConfigs]>>
+    syncItems?: (
+        configs: ServiceConfigs
+    ) => AppThunk<Promise<[Set<string>, Set<string>]>>
+    // Called by the outbox, which retries the action later if they throw
+    markRead?: (
+        configs: ServiceConfigs,
+        item: RSSItem
+    ) => AppThunk<Promise<void>>
+    markUnread?: (
+        configs: ServiceConfigs,
+        item: RSSItem
+    ) => AppThunk<Promise<void>>
     markAllRead?: (
-        sids?: number[],
-        date?: Date,
-        before?: boolean
+        configs: ServiceConfigs,
+        sids: number[],
+        date: Date,
+        before: boolean,
+        refs: string[] // Unread items covered, looked up when the action was taken
+    ) => AppThunk<Promise<void>>
+    star?: (configs: ServiceConfigs, item: RSSItem) => AppThunk<Promise<void>>
+    unstar?: (configs: ServiceConfigs, item: RSSItem) => AppThunk<Promise<void>>
+    // Manage the subscriptions of the account, categories are matched with
+    // groups by name and null stands for no category
+    subscribe?: (
+        configs: ServiceConfigs,
+        url: string,
+        category: string
+    ) => AppThunk<Promise<void>>
+    unsubscribe?: (
+        configs: ServiceConfigs,
+        source: RSSSource
+    ) => AppThunk<Promise<void>>
+    renameSource?: (
+        configs: ServiceConfigs,
+        source: RSSSource,
+        name: string
+    ) => AppThunk<Promise<void>>
+    setSourceCategory?: (
+        configs: ServiceConfigs,
+        source: RSSSource,
+        category: string
     ) => AppThunk<Promise<void>>
-    star?: (item: RSSItem) => AppThunk
-    unstar?: (item: RSSItem) => AppThunk
 }
 
 export function getServiceHooksFromType(type: SyncService): ServiceHooks {
@@ -50,76 +91,165 @@ export function getServiceHooksFromType(type: SyncService): ServiceHooks {
             return minifluxServiceHooks
         case SyncService.Nextcloud:
             return nextcloudServiceHooks
+        case SyncService.TTRSS:
+            return ttrssServiceHooks
         default:
             return {}
     }
 }
 
-export function getServiceHooks(): AppThunk<ServiceHooks> {
+export function getServiceAccount(id: string): AppThunk<ServiceConfigs> {
     return (_, getState) => {
-        return getServiceHooksFromType(getState().service.type)
+        return getState().service.find(configs => configs.id === id)
+    }
+}
+
+export function newServiceAccountId() {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+}
+
+const SERVICE_NAMES: { [type in SyncService]?: string } = {
+    [SyncService.Fever]: "Fever API",
+    [SyncService.Feedbin]: "Feedbin",
+    [SyncService.GReader]: "Google Reader API",
+    [SyncService.Inoreader]: "Inoreader",
+    [SyncService.Miniflux]: "Miniflux",
+    [SyncService.Nextcloud]: "Nextcloud News API",
+    [SyncService.TTRSS]: "Tiny Tiny RSS",
+}
+
+/**
+ * Name of the service with the user or server of the account, to tell
+ * accounts apart
+ */
+export function getServiceAccountName(configs: ServiceConfigs) {
+    const { username, endpoint } = configs as ServiceConfigs & {
+        username?: string
+        endpoint?: string
+    }
+    let host: string
+    try {
+        host = new URL(endpoint).host
+    } catch {
+        host = ""
     }
+    const user = [username, host].filter(s => s).join("@")
+    const name = SERVICE_NAMES[configs.type] ?? ""
+    return user ? `${name} (${user})` : name
 }
 
-export function syncWithService(background = false): AppThunk<Promise<void>> {
+/**
+ * Sync all accounts, or only the one with the given id. An account failing
+ * doesn't keep the others from syncing.
+ */
+export function syncWithService(
+    background = false,
+    id: string = null
+): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        const hooks = dispatch(getServiceHooks())
-        if (hooks.updateSources && hooks.fetchItems && hooks.syncItems) {
-            try {
+        const accounts = getState().service.filter(configs => {
+            const hooks = getServiceHooksFromType(configs.type)
+            return (
+                (id === null || configs.id === id) &&
+                hooks.updateSources &&
+                hooks.fetchItems &&
+                hooks.syncItems
+            )
+        })
+        if (accounts.length === 0) return
+        const errors = new Array<string>()
+        try {
+            dispatch({
+                type: SYNC_SERVICE,
+                status: ActionStatus.Request,
+            })
+            const authenticated = new Array<ServiceConfigs>()
+            for (let configs of accounts) {
+                try {
+                    await dispatch(reauthenticate(configs.id))
+                    authenticated.push(configs)
+                } catch (err) {
+                    console.log(err)
+                    errors.push(`${getServiceAccountName(configs)}: ${err}`)
+                }
+            }
+            // Changes made offline go first, retried at once on manual syncs
+            await dispatch(flushOutbox(!background))
+            for (let configs of authenticated) {
+                const hooks = getServiceHooksFromType(configs.type)
+                try {
+                    await dispatch(
+                        updateSources(configs.id, hooks.updateSources)
+                    )
+                    await dispatch(syncItems(configs.id, hooks.syncItems))
+                    await dispatch(
+                        fetchItems(configs.id, hooks.fetchItems, background)
+                    )
+                } catch (err) {
+                    console.log(err)
+                    errors.push(`${getServiceAccountName(configs)}: ${err}`)
+                }
+            }
+        } finally {
+            if (errors.length > 0) {
                 dispatch({
                     type: SYNC_SERVICE,
-                    status: ActionStatus.Request,
+                    status: ActionStatus.Failure,
+                    err: errors.join("\n"),
                 })
-                if (hooks.reauthenticate) await dispatch(reauthenticate(hooks))
-                await dispatch(updateSources(hooks.updateSources))
-                await dispatch(syncItems(hooks.syncItems))
-                await dispatch(fetchItems(hooks.fetchItems, background))
+            } else {
                 dispatch({
                     type: SYNC_SERVICE,
                     status: ActionStatus.Success,
                 })
-            } catch (err) {
-                console.log(err)
-                dispatch({
-                    type: SYNC_SERVICE,
-                    status: ActionStatus.Failure,
-                    err: err,
-                })
-            } finally {
-                if (getState().app.settings.saving) dispatch(saveSettings())
             }
+            if (getState().app.settings.saving) dispatch(saveSettings())
         }
     }
 }
 
-function reauthenticate(hooks: ServiceHooks): AppThunk<Promise<void>> {
-    return async (dispatch, getState) => {
-        let configs = getState().service
-        if (!(await hooks.authenticate(configs))) {
+function reauthenticate(id: string): AppThunk<Promise<void>> {
+    return async dispatch => {
+        let configs = dispatch(getServiceAccount(id))
+        const hooks = getServiceHooksFromType(configs.type)
+        if (hooks.reauthenticate && !(await hooks.authenticate(configs))) {
             configs = await hooks.reauthenticate(configs)
-            dispatch(saveServiceConfigs(configs))
+            dispatch(saveServiceConfigs({ ...configs, id: id }))
         }
     }
 }
 
 function updateSources(
+    id: string,
     hook: ServiceHooks["updateSources"]
 ): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        const [sources, groupsMap] = await dispatch(hook())
+        const [sources, groupsMap] = await dispatch(
+            hook(dispatch(getServiceAccount(id)))
+        )
         const existing = new Map<string, RSSSource>()
         for (let source of Object.values(getState().sources)) {
-            if (source.serviceRef) {
+            if (source.serviceRef && getSourceAccount(source) === id) {
                 existing.set(source.serviceRef, source)
             }
         }
+        // Sources of accounts that were removed can be taken over
+        const otherAccount = (account: string) =>
+            account !== id &&
+            getState().service.some(configs => configs.id === account)
         const forceSettings = () => {
             if (!getState().app.settings.saving) dispatch(saveSettings())
         }
         let promises = sources.map(async s => {
+            s.serviceAccount = id
             if (existing.has(s.serviceRef)) {
                 const doc = existing.get(s.serviceRef)
                 existing.delete(s.serviceRef)
+                if (doc.serviceAccount !== id) {
+                    const adopted = { ...doc, serviceAccount: id }
+                    await dispatch(updateSource(adopted))
+                    return adopted
+                }
                 return doc
             } else {
                 // Use SQLite to check if source exists by URL
@@ -133,7 +263,13 @@ function updateSources(
                     window.settings.saveGroups(getState().groups)
                     dispatch(updateFavicon([inserted.sid]))
                     return inserted
-                } else if (existingRow.serviceRef !== s.serviceRef) {
+                } else if (otherAccount(getSourceAccount(existingRow))) {
+                    // Subscribed in another account, which keeps the source
+                    return null
+                } else if (
+                    existingRow.serviceRef !== s.serviceRef ||
+                    getSourceAccount(existingRow) !== id
+                ) {
                     // Mark an existing source as remote and remove all items
                     // Convert row to RSSSource
                     const doc: RSSSource = {
@@ -145,6 +281,7 @@ function updateSources(
                         defaultZoom: existingRow.defaultZoom,
                         lastFetched: new Date(existingRow.lastFetched),
                         serviceRef: s.serviceRef,
+                        serviceAccount: id,
                         fetchFrequency: existingRow.fetchFrequency,
                         rules: existingRow.rules ? JSON.parse(existingRow.rules) : undefined,
                         textDir: existingRow.textDir,
@@ -160,7 +297,7 @@ function updateSources(
                     return doc
                 } else {
                     // Convert existing row to RSSSource
-                    return {
+                    const doc: RSSSource = {
                         sid: existingRow.sid,
                         url: existingRow.url,
                         iconurl: existingRow.iconurl ?? undefined,
@@ -169,6 +306,7 @@ function updateSources(
                         defaultZoom: existingRow.defaultZoom,
                         lastFetched: new Date(existingRow.lastFetched),
                         serviceRef: existingRow.serviceRef ?? undefined,
+                        serviceAccount: id,
                         fetchFrequency: existingRow.fetchFrequency,
                         rules: existingRow.rules ? JSON.parse(existingRow.rules) : undefined,
                         textDir: existingRow.textDir,
@@ -177,6 +315,10 @@ function updateSources(
                         persistCookies: existingRow.persistCookies === 1,
                         unreadCount: 0
                     } as RSSSource
+                    if (existingRow.serviceAccount !== id) {
+                        await dispatch(updateSource(doc))
+                    }
+                    return doc
                 }
             }
         })
@@ -197,7 +339,7 @@ function updateSources(
                     dispatch(addSourceToGroup(gid, source.sid))
                 }
             }
-            const configs = getState().service
+            const configs = { ...dispatch(getServiceAccount(id)) }
             delete configs.importGroups
             dispatch(saveServiceConfigs(configs))
         }
@@ -207,18 +349,35 @@ function updateSources(
 // UNTESTED: SQLite migration - requires cloud service API access to verify
 // Converted from Lovefield to SQLite on 2024-12-15
 // This function syncs local read/starred state with external services
-function syncItems(hook: ServiceHooks["syncItems"]): AppThunk<Promise<void>> {
+function syncItems(
+    id: string,
+    hook: ServiceHooks["syncItems"]
+): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        const state = getState()
-        const [unreadRefs, starredRefs] = await dispatch(hook())
+        const [unreadRefs, starredRefs] = await dispatch(
+            hook(dispatch(getServiceAccount(id)))
+        )
         const unreadCopy = new Set(unreadRefs)
         const starredCopy = new Set(starredRefs)
         
         // Query items with serviceRef that are unread or starred using SQLite
         const items = await window.db.items.query({
-            hasServiceRef: true
+            hasServiceRef: true,
+            serviceAccount: id
         })
         
+        // Changes still in the outbox win over the service's outdated state
+        const pendingRefs = new Set(await window.db.outbox.getServiceRefs(id))
+        for (let item of items) {
+            if (!pendingRefs.has(item.serviceRef)) continue
+            unreadRefs.delete(item.serviceRef)
+            starredRefs.delete(item.serviceRef)
+            if (item.hasRead) unreadCopy.delete(item.serviceRef)
+            else unreadCopy.add(item.serviceRef)
+            if (item.starred) starredCopy.add(item.serviceRef)
+            else starredCopy.delete(item.serviceRef)
+        }
+        
         // Filter to only unread or starred items
         const relevantItems = items.filter(item => !item.hasRead || item.starred)
         
@@ -226,42 +385,48 @@ function syncItems(hook: ServiceHooks["syncItems"]): AppThunk<Promise<void>> {
         
         for (let item of relevantItems) {
             const serviceRef = item.serviceRef
-            if (!serviceRef) continue
+            if (!serviceRef || pendingRefs.has(serviceRef)) continue
             
             // If local item is unread but service says it's read, mark as read
             if (!item.hasRead && !unreadRefs.delete(serviceRef)) {
-                updates.push(window.db.items.markReadByServiceRef(serviceRef))
+                updates.push(window.db.items.markReadByServiceRef(id, serviceRef))
             }
             // If local item is starred but service says it's not, unstar it
             if (item.starred && !starredRefs.delete(serviceRef)) {
-                updates.push(window.db.items.setStarredByServiceRef(serviceRef, false))
+                updates.push(window.db.items.setStarredByServiceRef(id, serviceRef, false))
             }
         }
         
         // Mark items as unread that the service says are unread
         for (let unread of unreadRefs) {
-            updates.push(window.db.items.markUnreadByServiceRef(unread))
+            updates.push(window.db.items.markUnreadByServiceRef(id, unread))
         }
         
         // Mark items as starred that the service says are starred
         for (let starred of starredRefs) {
-            updates.push(window.db.items.setStarredByServiceRef(starred, true))
+            updates.push(window.db.items.setStarredByServiceRef(id, starred, true))
         }
         
         if (updates.length > 0) {
             await Promise.all(updates)
             await dispatch(updateUnreadCounts())
-            dispatch(syncLocalItems(unreadCopy, starredCopy))
+            const sids = Object.values(getState().sources)
+                .filter(s => s.serviceAccount === id)
+                .map(s => s.sid)
+            dispatch(syncLocalItems(new Set(sids), unreadCopy, starredCopy))
         }
     }
 }
 
 function fetchItems(
+    id: string,
     hook: ServiceHooks["fetchItems"],
     background: boolean
 ): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        const [items, configs] = await dispatch(hook())
+        const [items, configs] = await dispatch(
+            hook(dispatch(getServiceAccount(id)))
+        )
         if (items.length > 0) {
             const inserted = await insertItems(items)
             dispatch(fetchItemsSuccess(inserted.reverse(), getState().items))
@@ -271,39 +436,157 @@ function fetchItems(
                 }
                 if (inserted.length > 0) window.utils.requestAttention()
             }
-            dispatch(saveServiceConfigs(configs))
+            dispatch(saveServiceConfigs({ ...configs, id: id }))
         }
     }
 }
 
 export function importGroups(): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
-        const configs = getState().service
-        if (configs.type !== SyncService.None) {
+        const accounts = getState().service
+        if (accounts.length > 0) {
             dispatch(saveSettings())
-            configs.importGroups = true
-            dispatch(saveServiceConfigs(configs))
+            for (let configs of accounts) {
+                dispatch(saveServiceConfigs({ ...configs, importGroups: true }))
+            }
             await dispatch(syncWithService())
         }
     }
 }
 
-export function removeService(): AppThunk<Promise<void>> {
+/**
+ * Subscribe to a feed in an account, the source is added by the sync of the
+ * account that follows
+ */
+export function subscribeWithService(
+    id: string,
+    url: string
+): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const configs = dispatch(getServiceAccount(id))
+        const hooks = getServiceHooksFromType(configs.type)
+        try {
+            await dispatch(reauthenticate(id))
+            await dispatch(hooks.subscribe(configs, url, null))
+        } catch (err) {
+            window.utils.showErrorBox(
+                intl.get("sources.errorAdd"),
+                String(err),
+                intl.get("context.copy")
+            )
+            throw err
+        }
+        await dispatch(syncWithService(false, id))
+    }
+}
+
+/**
+ * Apply a change to sources on the services of their accounts, resolves
+ * with whether the change can be made locally. Sources of services that
+ * can't make the change are only changed locally, as before.
+ */
+function editServiceSources(
+    sources: RSSSource[],
+    hook: keyof ServiceHooks,
+    edit: (
+        hooks: ServiceHooks,
+        configs: ServiceConfigs,
+        source: RSSSource
+    ) => AppThunk<Promise<void>>
+): AppThunk<Promise<boolean>> {
+    return async dispatch => {
+        const authenticated = new Set<string>()
+        try {
+            for (let source of sources) {
+                if (!source || !source.serviceAccount) continue
+                const id = source.serviceAccount
+                const configs = dispatch(getServiceAccount(id))
+                if (!configs) continue
+                const hooks = getServiceHooksFromType(configs.type)
+                if (!hooks[hook]) continue
+                if (!authenticated.has(id)) {
+                    await dispatch(reauthenticate(id))
+                    authenticated.add(id)
+                }
+                await dispatch(
+                    edit(hooks, dispatch(getServiceAccount(id)), source)
+                )
+            }
+            return true
+        } catch (err) {
+            console.log(err)
+            window.utils.showErrorBox(
+                intl.get("service.sourceFailure"),
+                String(err),
+                intl.get("context.copy")
+            )
+            return false
+        }
+    }
+}
+
+export function unsubscribeFromService(
+    sources: RSSSource[]
+): AppThunk<Promise<boolean>> {
+    return editServiceSources(
+        sources,
+        "unsubscribe",
+        (hooks, configs, source) => hooks.unsubscribe(configs, source)
+    )
+}
+
+export function renameServiceSource(
+    source: RSSSource,
+    name: string
+): AppThunk<Promise<boolean>> {
+    return editServiceSources(
+        [source],
+        "renameSource",
+        (hooks, configs, source) => hooks.renameSource(configs, source, name)
+    )
+}
+
+/**
+ * Move sources to the category of a group on their services, or out of any
+ * category with a null group index
+ */
+export function setServiceSourcesCategory(
+    sids: number[],
+    groupIndex: number
+): AppThunk<Promise<boolean>> {
+    return (dispatch, getState) => {
+        const state = getState()
+        const category =
+            groupIndex === null ? null : state.groups[groupIndex].name
+        return dispatch(
+            editServiceSources(
+                sids.map(sid => state.sources[sid]),
+                "setSourceCategory",
+                (hooks, configs, source) =>
+                    hooks.setSourceCategory(configs, source, category)
+            )
+        )
+    }
+}
+
+export function removeService(id: string): AppThunk<Promise<void>> {
     return async (dispatch, getState) => {
         dispatch(saveSettings())
         const state = getState()
         const promises = Object.values(state.sources)
-            .filter(s => s.serviceRef)
+            .filter(s => s.serviceAccount === id)
             .map(async s => {
                 await dispatch(deleteSource(s, true))
             })
         await Promise.all(promises)
-        dispatch(saveServiceConfigs({ type: SyncService.None }))
+        await dispatch(clearOutbox(id))
+        dispatch(deleteServiceConfigs(id))
         dispatch(saveSettings())
     }
 }
 
 export const SAVE_SERVICE_CONFIGS = "SAVE_SERVICE_CONFIGS"
+export const DELETE_SERVICE_CONFIGS = "DELETE_SERVICE_CONFIGS"
 export const SYNC_SERVICE = "SYNC_SERVICE"
 export const SYNC_LOCAL_ITEMS = "SYNC_LOCAL_ITEMS"
 
@@ -312,6 +595,11 @@ interface SaveServiceConfigsAction {
     configs: ServiceConfigs
 }
 
+interface DeleteServiceConfigsAction {
+    type: typeof DELETE_SERVICE_CONFIGS
+    id: string
+}
+
 interface SyncWithServiceAction {
     type: typeof SYNC_SERVICE
     status: ActionStatus
@@ -320,43 +608,68 @@ interface SyncWithServiceAction {
 
 interface SyncLocalItemsAction {
     type: typeof SYNC_LOCAL_ITEMS
+    sids: Set<number> // Sources of the synced account
     unreadIds: Set<string>
     starredIds: Set<string>
 }
 
 export type ServiceActionTypes =
     | SaveServiceConfigsAction
+    | DeleteServiceConfigsAction
     | SyncWithServiceAction
     | SyncLocalItemsAction
 
+/**
+ * Add an account or replace the configs of the account with the same id
+ */
 export function saveServiceConfigs(configs: ServiceConfigs): AppThunk {
-    return dispatch => {
-        window.settings.setServiceConfigs(configs)
+    return (dispatch, getState) => {
         dispatch({
             type: SAVE_SERVICE_CONFIGS,
             configs: configs,
         })
+        window.settings.setServiceAccounts(getState().service)
+    }
+}
+
+function deleteServiceConfigs(id: string): AppThunk {
+    return (dispatch, getState) => {
+        dispatch({
+            type: DELETE_SERVICE_CONFIGS,
+            id: id,
+        })
+        window.settings.setServiceAccounts(getState().service)
     }
 }
 
 function syncLocalItems(
+    sids: Set<number>,
     unread: Set<string>,
     starred: Set<string>
 ): ServiceActionTypes {
     return {
         type: SYNC_LOCAL_ITEMS,
+        sids: sids,
         unreadIds: unread,
         starredIds: starred,
     }
 }
 
 export function serviceReducer(
-    state = window.settings.getServiceConfigs(),
+    state = window.settings.getServiceAccounts(),
     action: ServiceActionTypes
-): ServiceConfigs {
+): ServiceConfigs[] {
     switch (action.type) {
         case SAVE_SERVICE_CONFIGS:
-            return action.configs
+            if (state.some(configs => configs.id === action.configs.id)) {
+                return state.map(configs =>
+                    configs.id === action.configs.id ? action.configs : configs
+                )
+            } else {
+                return [...state, action.configs]
+            }
+        case DELETE_SERVICE_CONFIGS:
+            return state.filter(configs => configs.id !== action.id)
         default:
             return state
     }
@@ -5,7 +5,8 @@ import { createSourceGroup } from "../group"
 import { RSSSource } from "../source"
 import { domParser } from "../../utils"
 import { RSSItem } from "../item"
-import { SourceRule } from "../rule"
+import { SourceRule, getRulesForSource } from "../rule"
+import { queueItemAction } from "../outbox"
 
 export interface FeedbinConfigs extends ServiceConfigs {
     type: SyncService.Feedbin
@@ -16,13 +17,62 @@ export interface FeedbinConfigs extends ServiceConfigs {
     lastId?: number
 }
 
-async function fetchAPI(configs: FeedbinConfigs, params: string) {
+async function fetchAPI(
+    configs: FeedbinConfigs,
+    params: string,
+    method = "GET",
+    body: object = null
+) {
     const headers = new Headers()
     headers.set(
         "Authorization",
         "Basic " + btoa(configs.username + ":" + configs.password)
     )
-    return await fetch(configs.endpoint + params, { headers: headers })
+    if (body !== null)
+        headers.set("Content-Type", "application/json; charset=utf-8")
+    return await fetch(configs.endpoint + params, {
+        method: method,
+        headers: headers,
+        body: body === null ? null : JSON.stringify(body),
+    })
+}
+
+// Sources refer to feeds, subscriptions are edited by their own ids
+async function getSubscriptionId(configs: FeedbinConfigs, ref: string) {
+    const response = await fetchAPI(configs, "subscriptions.json")
+    if (response.status !== 200) throw APIError()
+    const subscriptions: any[] = await response.json()
+    const subscription = subscriptions.find(s => String(s.feed_id) === ref)
+    if (subscription === undefined) throw APIError()
+    return subscription.id as number
+}
+
+async function setTagging(
+    configs: FeedbinConfigs,
+    feedId: number,
+    category: string
+) {
+    const response = await fetchAPI(configs, "taggings.json")
+    if (response.status !== 200) throw APIError()
+    const taggings: any[] = await response.json()
+    for (let tagging of taggings) {
+        if (tagging.feed_id === feedId && tagging.name !== category) {
+            const deleted = await fetchAPI(
+                configs,
+                `taggings/${tagging.id}.json`,
+                "DELETE"
+            )
+            if (!deleted.ok) throw APIError()
+        }
+    }
+    if (category) {
+        // Responds with 302 if the feed already has the tag
+        const created = await fetchAPI(configs, "taggings.json", "POST", {
+            feed_id: feedId,
+            name: category,
+        })
+        if (created.status !== 201 && created.status !== 302) throw APIError()
+    }
 }
 
 async function markItems(
@@ -53,7 +103,9 @@ async function markItems(
             })
         )
     }
-    return await Promise.all(promises)
+    const responses = await Promise.all(promises)
+    if (responses.some(r => !r.ok)) throw APIError()
+    return responses
 }
 
 const APIError = () => new Error(intl.get("service.failure"))
@@ -68,8 +120,7 @@ export const feedbinServiceHooks: ServiceHooks = {
         }
     },
 
-    updateSources: () => async (dispatch, getState) => {
-        const configs = getState().service as FeedbinConfigs
+    updateSources: (configs: FeedbinConfigs) => async dispatch => {
         const response = await fetchAPI(configs, "subscriptions.json")
         if (response.status !== 200) throw APIError()
         const subscriptions: any[] = await response.json()
@@ -97,8 +148,7 @@ export const feedbinServiceHooks: ServiceHooks = {
         return [sources, groupsMap]
     },
 
-    syncItems: () => async (_, getState) => {
-        const configs = getState().service as FeedbinConfigs
+    syncItems: (configs: FeedbinConfigs) => async () => {
         const [unreadResponse, starredResponse] = await Promise.all([
             fetchAPI(configs, "unread_entries.json"),
             fetchAPI(configs, "starred_entries.json"),
@@ -113,9 +163,8 @@ export const feedbinServiceHooks: ServiceHooks = {
         ]
     },
 
-    fetchItems: () => async (_, getState) => {
+    fetchItems: (configs: FeedbinConfigs) => async (dispatch, getState) => {
         const state = getState()
-        const configs = state.service as FeedbinConfigs
         const items = new Array()
         configs.lastId = configs.lastId || 0
         let page = 1
@@ -152,7 +201,7 @@ export const feedbinServiceHooks: ServiceHooks = {
         if (items.length > 0) {
             const fidMap = new Map<string, RSSSource>()
             for (let source of Object.values(state.sources)) {
-                if (source.serviceRef) {
+                if (source.serviceRef && source.serviceAccount === configs.id) {
                     fidMap.set(source.serviceRef, source)
                 }
             }
@@ -168,6 +217,7 @@ export const feedbinServiceHooks: ServiceHooks = {
             items.forEach(i => {
                 if (i.content === null) return
                 const source = fidMap.get(String(i.feed_id))
+                if (source === undefined) return
                 const dom = domParser.parseFromString(i.content, "text/html")
                 const item = {
                     source: source.sid,
@@ -197,20 +247,14 @@ export const feedbinServiceHooks: ServiceHooks = {
                     if (img && img.src) item.thumb = img.src
                 }
                 // Apply rules and sync back to the service
-                if (source.rules) SourceRule.applyAll(source.rules, item)
+                SourceRule.applyAll(getRulesForSource(state, source), item)
                 if (unread.has(i.id) === item.hasRead)
-                    markItems(
-                        configs,
-                        "unread",
-                        item.hasRead ? "DELETE" : "POST",
-                        [i.id]
+                    dispatch(
+                        queueItemAction(item, item.hasRead ? "read" : "unread")
                     )
                 if (starred.has(i.id) !== Boolean(item.starred))
-                    markItems(
-                        configs,
-                        "starred",
-                        item.starred ? "POST" : "DELETE",
-                        [i.id]
+                    dispatch(
+                        queueItemAction(item, item.starred ? "star" : "unstar")
                     )
                 parsedItems.push(item)
             })
@@ -222,52 +266,76 @@ export const feedbinServiceHooks: ServiceHooks = {
 
     // UNTESTED: SQLite migration - requires Feedbin API access to verify
     // Converted from Lovefield to SQLite on 2024-12-15
-    markAllRead: (sids, date, before) => async (_, getState) => {
-        const state = getState()
-        const configs = state.service as FeedbinConfigs
-        // Get unread serviceRefs using SQLite
-        const refs = await window.db.items.getUnreadServiceRefs(
-            sids,
-            before ? date?.toISOString() : undefined,
-            before ? undefined : date?.toISOString()
-        )
-        const numericRefs = refs.map(ref => parseInt(ref))
-        markItems(configs, "unread", "DELETE", numericRefs)
+    markAllRead:
+        (configs: FeedbinConfigs, sids, date, before, refs) => async () => {
+            const numericRefs = refs.map(ref => parseInt(ref))
+            await markItems(configs, "unread", "DELETE", numericRefs)
+        },
+
+    markRead: (configs: FeedbinConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "unread", "DELETE", [
+            parseInt(item.serviceRef),
+        ])
     },
 
-    markRead: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as FeedbinConfigs,
-            "unread",
-            "DELETE",
-            [parseInt(item.serviceRef)]
-        )
+    markUnread: (configs: FeedbinConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "unread", "POST", [parseInt(item.serviceRef)])
     },
 
-    markUnread: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as FeedbinConfigs,
-            "unread",
-            "POST",
-            [parseInt(item.serviceRef)]
-        )
+    star: (configs: FeedbinConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "starred", "POST", [parseInt(item.serviceRef)])
     },
 
-    star: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as FeedbinConfigs,
-            "starred",
-            "POST",
-            [parseInt(item.serviceRef)]
-        )
+    unstar: (configs: FeedbinConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "starred", "DELETE", [
+            parseInt(item.serviceRef),
+        ])
     },
 
-    unstar: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as FeedbinConfigs,
-            "starred",
-            "DELETE",
-            [parseInt(item.serviceRef)]
+    subscribe:
+        (configs: FeedbinConfigs, url: string, category: string) =>
+        async () => {
+            const response = await fetchAPI(
+                configs,
+                "subscriptions.json",
+                "POST",
+                { feed_url: url }
+            )
+            // 302 for existing subscriptions, 300 if the page links to
+            // several feeds
+            if (response.status !== 201 && response.status !== 302)
+                throw APIError()
+            const subscription = await response.json()
+            if (category)
+                await setTagging(configs, subscription.feed_id, category)
+        },
+
+    unsubscribe: (configs: FeedbinConfigs, source: RSSSource) => async () => {
+        const id = await getSubscriptionId(configs, source.serviceRef)
+        const response = await fetchAPI(
+            configs,
+            `subscriptions/${id}.json`,
+            "DELETE"
         )
+        if (!response.ok) throw APIError()
     },
+
+    renameSource:
+        (configs: FeedbinConfigs, source: RSSSource, name: string) =>
+        async () => {
+            const id = await getSubscriptionId(configs, source.serviceRef)
+            const response = await fetchAPI(
+                configs,
+                `subscriptions/${id}.json`,
+                "PATCH",
+                { title: name }
+            )
+            if (!response.ok) throw APIError()
+        },
+
+    setSourceCategory:
+        (configs: FeedbinConfigs, source: RSSSource, category: string) =>
+        async () => {
+            await setTagging(configs, parseInt(source.serviceRef), category)
+        },
 }
@@ -5,7 +5,8 @@ import { createSourceGroup } from "../group"
 import { RSSSource } from "../source"
 import { htmlDecode, domParser } from "../../utils"
 import { RSSItem } from "../item"
-import { SourceRule } from "../rule"
+import { SourceRule, getRulesForSource } from "../rule"
+import { queueItemAction } from "../outbox"
 
 export interface FeverConfigs extends ServiceConfigs {
     type: SyncService.Fever
@@ -26,22 +27,19 @@ async function fetchAPI(configs: FeverConfigs, params = "", postparams = "") {
     return await response.json()
 }
 
+const APIError = () => new Error(intl.get("service.failure"))
+
 async function markItem(configs: FeverConfigs, item: RSSItem, as: string) {
     if (item.serviceRef) {
-        try {
-            await fetchAPI(
-                configs,
-                "",
-                `&mark=item&as=${as}&id=${item.serviceRef}`
-            )
-        } catch (err) {
-            console.log(err)
-        }
+        const response = await fetchAPI(
+            configs,
+            "",
+            `&mark=item&as=${as}&id=${item.serviceRef}`
+        )
+        if (!response.auth) throw APIError()
     }
 }
 
-const APIError = () => new Error(intl.get("service.failure"))
-
 export const feverServiceHooks: ServiceHooks = {
     authenticate: async (configs: FeverConfigs) => {
         try {
@@ -51,8 +49,7 @@ export const feverServiceHooks: ServiceHooks = {
         }
     },
 
-    updateSources: () => async (dispatch, getState) => {
-        const configs = getState().service as FeverConfigs
+    updateSources: (configs: FeverConfigs) => async dispatch => {
         const response = await fetchAPI(configs, "&feeds")
         const feeds: any[] = response.feeds
         const feedGroups: any[] = response.feeds_groups
@@ -84,9 +81,8 @@ export const feverServiceHooks: ServiceHooks = {
         return [sources, groupsMap]
     },
 
-    fetchItems: () => async (_, getState) => {
+    fetchItems: (configs: FeverConfigs) => async (dispatch, getState) => {
         const state = getState()
-        const configs = state.service as FeverConfigs
         const items = new Array()
         configs.lastId = configs.lastId || 0
         let min = configs.useInt32 ? 2147483647 : Number.MAX_SAFE_INTEGER
@@ -117,11 +113,13 @@ export const feverServiceHooks: ServiceHooks = {
         if (items.length > 0) {
             const fidMap = new Map<string, RSSSource>()
             for (let source of Object.values(state.sources)) {
-                if (source.serviceRef) {
+                if (source.serviceRef && source.serviceAccount === configs.id) {
                     fidMap.set(source.serviceRef, source)
                 }
             }
-            const parsedItems = items.map(i => {
+            // Feeds also subscribed in another account are kept by that one
+            const synced = items.filter(i => fidMap.has(String(i.feed_id)))
+            const parsedItems = synced.map(i => {
                 const source = fidMap.get(String(i.feed_id))
                 const item = {
                     source: source.sid,
@@ -158,11 +156,15 @@ export const feverServiceHooks: ServiceHooks = {
                         item.thumb = a.href
                 }
                 // Apply rules and sync back to the service
-                if (source.rules) SourceRule.applyAll(source.rules, item)
+                SourceRule.applyAll(getRulesForSource(state, source), item)
                 if (Boolean(i.is_read) !== item.hasRead)
-                    markItem(configs, item, item.hasRead ? "read" : "unread")
+                    dispatch(
+                        queueItemAction(item, item.hasRead ? "read" : "unread")
+                    )
                 if (Boolean(i.is_saved) !== Boolean(item.starred))
-                    markItem(configs, item, item.starred ? "saved" : "unsaved")
+                    dispatch(
+                        queueItemAction(item, item.starred ? "star" : "unstar")
+                    )
                 return item
             })
             return [parsedItems, configs]
@@ -171,8 +173,7 @@ export const feverServiceHooks: ServiceHooks = {
         }
     },
 
-    syncItems: () => async (_, getState) => {
-        const configs = getState().service as FeverConfigs
+    syncItems: (configs: FeverConfigs) => async () => {
         const [unreadResponse, starredResponse] = await Promise.all([
             fetchAPI(configs, "&unread_item_ids"),
             fetchAPI(configs, "&saved_item_ids"),
@@ -188,48 +189,50 @@ export const feverServiceHooks: ServiceHooks = {
         return [new Set(unreadFids), new Set(starredFids)]
     },
 
-    markAllRead: (sids, date, before) => async (_, getState) => {
-        const state = getState()
-        const configs = state.service as FeverConfigs
-        if (date && !before) {
-            const iids = state.feeds[state.page.feedId].iids
-            const items = iids
-                .map(iid => state.items[iid])
-                .filter(i => !i.hasRead && i.date.getTime() >= date.getTime())
-            for (let item of items) {
-                if (item.serviceRef) {
-                    markItem(configs, item, "read")
-                }
-            }
-        } else {
-            const sources = sids.map(sid => state.sources[sid])
-            const timestamp =
-                Math.floor((date ? date.getTime() : Date.now()) / 1000) + 1
-            for (let source of sources) {
-                if (source.serviceRef) {
-                    fetchAPI(
+    markAllRead:
+        (configs: FeverConfigs, sids, date, before, refs) =>
+        async (_, getState) => {
+            const state = getState()
+            if (date && !before) {
+                for (let ref of refs) {
+                    await markItem(
                         configs,
-                        "",
-                        `&mark=feed&as=read&id=${source.serviceRef}&before=${timestamp}`
+                        { serviceRef: ref } as RSSItem,
+                        "read"
                     )
                 }
+            } else {
+                const sources = sids.map(sid => state.sources[sid])
+                const timestamp =
+                    Math.floor((date ? date.getTime() : Date.now()) / 1000) + 1
+                for (let source of sources) {
+                    if (source?.serviceRef) {
+                        const response = await fetchAPI(
+                            configs,
+                            "",
+                            `&mark=feed&as=read&id=${source.serviceRef}&before=${timestamp}`
+                        )
+                        if (!response.auth) throw APIError()
+                    }
+                }
             }
-        }
-    },
+        },
 
-    markRead: (item: RSSItem) => async (_, getState) => {
-        await markItem(getState().service as FeverConfigs, item, "read")
+    markRead: (configs: FeverConfigs, item: RSSItem) => async () => {
+        await markItem(configs, item, "read")
     },
 
-    markUnread: (item: RSSItem) => async (_, getState) => {
-        await markItem(getState().service as FeverConfigs, item, "unread")
+    markUnread: (configs: FeverConfigs, item: RSSItem) => async () => {
+        await markItem(configs, item, "unread")
     },
 
-    star: (item: RSSItem) => async (_, getState) => {
-        await markItem(getState().service as FeverConfigs, item, "saved")
+    star: (configs: FeverConfigs, item: RSSItem) => async () => {
+        await markItem(configs, item, "saved")
     },
 
-    unstar: (item: RSSItem) => async (_, getState) => {
-        await markItem(getState().service as FeverConfigs, item, "unsaved")
+    unstar: (configs: FeverConfigs, item: RSSItem) => async () => {
+        await markItem(configs, item, "unsaved")
     },
+
+    // The Fever API can't edit subscriptions, changes to sources stay local
 }
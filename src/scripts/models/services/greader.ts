@@ -5,7 +5,8 @@ import { createSourceGroup } from "../group"
 import { RSSSource } from "../source"
 import { RSSItem } from "../item"
 import { domParser, htmlDecode } from "../../utils"
-import { SourceRule } from "../rule"
+import { SourceRule, getRulesForSource } from "../rule"
+import { queueItemAction } from "../outbox"
 
 const ALL_TAG = "user/-/state/com.google/reading-list"
 const READ_TAG = "user/-/state/com.google/read"
@@ -80,9 +81,31 @@ async function editTag(
     add = true
 ) {
     const body = new URLSearchParams(`i=${ref}&${add ? "a" : "r"}=${tag}`)
-    return await fetchAPI(configs, "/reader/api/0/edit-tag", "POST", body)
+    const response = await fetchAPI(
+        configs,
+        "/reader/api/0/edit-tag",
+        "POST",
+        body
+    )
+    if (!response.ok) throw APIError()
+    return response
 }
 
+async function editSubscription(
+    configs: GReaderConfigs,
+    body: URLSearchParams
+) {
+    const response = await fetchAPI(
+        configs,
+        "/reader/api/0/subscription/edit",
+        "POST",
+        body
+    )
+    if (!response.ok) throw APIError()
+}
+
+const labelTag = (category: string) => "user/-/label/" + category
+
 function compactId(longId: string, useInt64: boolean) {
     let parts = longId.split("/")
     const last = parts[parts.length - 1]
@@ -131,8 +154,7 @@ export const gReaderServiceHooks: ServiceHooks = {
         }
     },
 
-    updateSources: () => async (dispatch, getState) => {
-        const configs = getState().service as GReaderConfigs
+    updateSources: (configs: GReaderConfigs) => async dispatch => {
         const response = await fetchAPI(
             configs,
             "/reader/api/0/subscription/list?output=json"
@@ -169,8 +191,7 @@ export const gReaderServiceHooks: ServiceHooks = {
         return [sources, groupsMap]
     },
 
-    syncItems: () => async (_, getState) => {
-        const configs = getState().service as GReaderConfigs
+    syncItems: (configs: GReaderConfigs) => async () => {
         if (configs.type == SyncService.Inoreader) {
             return await Promise.all([
                 fetchAll(
@@ -196,9 +217,8 @@ export const gReaderServiceHooks: ServiceHooks = {
         }
     },
 
-    fetchItems: () => async (_, getState) => {
+    fetchItems: (configs: GReaderConfigs) => async (dispatch, getState) => {
         const state = getState()
-        const configs = state.service as GReaderConfigs
         const items = new Array()
         let fetchedItems: any[]
         let continuation: string
@@ -231,7 +251,7 @@ export const gReaderServiceHooks: ServiceHooks = {
             configs.lastId = items[0].id
             const fidMap = new Map<string, RSSSource>()
             for (let source of Object.values(state.sources)) {
-                if (source.serviceRef) {
+                if (source.serviceRef && source.serviceAccount === configs.id) {
                     fidMap.set(source.serviceRef, source)
                 }
             }
@@ -290,23 +310,24 @@ export const gReaderServiceHooks: ServiceHooks = {
                         item.starred = true
                 }
                 // Apply rules and sync back to the service
-                if (source.rules) {
+                const rules = getRulesForSource(state, source)
+                if (rules.length > 0) {
                     const hasRead = item.hasRead
                     const starred = item.starred
-                    SourceRule.applyAll(source.rules, item)
+                    SourceRule.applyAll(rules, item)
                     if (item.hasRead !== hasRead)
-                        editTag(
-                            configs,
-                            item.serviceRef,
-                            READ_TAG,
-                            item.hasRead
+                        dispatch(
+                            queueItemAction(
+                                item,
+                                item.hasRead ? "read" : "unread"
+                            )
                         )
                     if (item.starred !== starred)
-                        editTag(
-                            configs,
-                            item.serviceRef,
-                            STAR_TAG,
-                            item.starred
+                        dispatch(
+                            queueItemAction(
+                                item,
+                                item.starred ? "star" : "unstar"
+                            )
                         )
                 }
                 parsedItems.push(item)
@@ -324,67 +345,77 @@ export const gReaderServiceHooks: ServiceHooks = {
 
     // UNTESTED: SQLite migration - requires GReader API access to verify
     // Converted from Lovefield to SQLite on 2024-12-15
-    markAllRead: (sids, date, before) => async (_, getState) => {
-        const state = getState()
-        const configs = state.service as GReaderConfigs
-        if (date) {
-            // Get unread serviceRefs using SQLite
-            const refs = await window.db.items.getUnreadServiceRefs(
-                sids,
-                before ? date.toISOString() : undefined,
-                before ? undefined : date.toISOString()
-            )
+    markAllRead:
+        (configs: GReaderConfigs, sids, date, before, refs) => async () => {
             if (refs.length > 0) {
-                editTag(getState().service as GReaderConfigs, refs.join("&i="), READ_TAG)
-            }
-        } else {
-            const sources = sids.map(sid => state.sources[sid])
-            for (let source of sources) {
-                if (source.serviceRef) {
-                    const body = new URLSearchParams()
-                    body.set("s", source.serviceRef)
-                    fetchAPI(
-                        configs,
-                        "/reader/api/0/mark-all-as-read",
-                        "POST",
-                        body
-                    )
-                }
+                await editTag(configs, refs.join("&i="), READ_TAG)
             }
-        }
+        },
+
+    markRead: (configs: GReaderConfigs, item: RSSItem) => async () => {
+        await editTag(configs, item.serviceRef, READ_TAG)
     },
 
-    markRead: (item: RSSItem) => async (_, getState) => {
-        await editTag(
-            getState().service as GReaderConfigs,
-            item.serviceRef,
-            READ_TAG
-        )
+    markUnread: (configs: GReaderConfigs, item: RSSItem) => async () => {
+        await editTag(configs, item.serviceRef, READ_TAG, false)
     },
 
-    markUnread: (item: RSSItem) => async (_, getState) => {
-        await editTag(
-            getState().service as GReaderConfigs,
-            item.serviceRef,
-            READ_TAG,
-            false
-        )
+    star: (configs: GReaderConfigs, item: RSSItem) => async () => {
+        await editTag(configs, item.serviceRef, STAR_TAG)
     },
 
-    star: (item: RSSItem) => async (_, getState) => {
-        await editTag(
-            getState().service as GReaderConfigs,
-            item.serviceRef,
-            STAR_TAG
-        )
+    unstar: (configs: GReaderConfigs, item: RSSItem) => async () => {
+        await editTag(configs, item.serviceRef, STAR_TAG, false)
     },
 
-    unstar: (item: RSSItem) => async (_, getState) => {
-        await editTag(
-            getState().service as GReaderConfigs,
-            item.serviceRef,
-            STAR_TAG,
-            false
-        )
+    subscribe:
+        (configs: GReaderConfigs, url: string, category: string) =>
+        async () => {
+            const body = new URLSearchParams()
+            body.set("ac", "subscribe")
+            body.set("s", "feed/" + url)
+            if (category) body.set("a", labelTag(category))
+            await editSubscription(configs, body)
+        },
+
+    unsubscribe: (configs: GReaderConfigs, source: RSSSource) => async () => {
+        const body = new URLSearchParams()
+        body.set("ac", "unsubscribe")
+        body.set("s", source.serviceRef)
+        await editSubscription(configs, body)
     },
+
+    renameSource:
+        (configs: GReaderConfigs, source: RSSSource, name: string) =>
+        async () => {
+            const body = new URLSearchParams()
+            body.set("ac", "edit")
+            body.set("s", source.serviceRef)
+            body.set("t", name)
+            await editSubscription(configs, body)
+        },
+
+    setSourceCategory:
+        (configs: GReaderConfigs, source: RSSSource, category: string) =>
+        async () => {
+            const response = await fetchAPI(
+                configs,
+                "/reader/api/0/subscription/list?output=json"
+            )
+            if (response.status !== 200) throw APIError()
+            const subscriptions: any[] = (await response.json()).subscriptions
+            const subscription = subscriptions.find(
+                s => s.id === source.serviceRef
+            )
+            if (subscription === undefined) throw APIError()
+            const body = new URLSearchParams()
+            body.set("ac", "edit")
+            body.set("s", source.serviceRef)
+            // Sources are in a single group, other labels are removed
+            for (let c of subscription.categories ?? []) {
+                if (c.label !== category) body.append("r", c.id)
+            }
+            if (category) body.set("a", labelTag(category))
+            await editSubscription(configs, body)
+        },
 }
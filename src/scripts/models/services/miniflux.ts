@@ -5,7 +5,8 @@ import { createSourceGroup } from "../group"
 import { RSSSource } from "../source"
 import { domParser, htmlDecode } from "../../utils"
 import { RSSItem } from "../item"
-import { SourceRule } from "../rule"
+import { SourceRule, getRulesForSource } from "../rule"
+import { queueItemAction } from "../outbox"
 
 // miniflux service configs
 export interface MinifluxConfigs extends ServiceConfigs {
@@ -26,6 +27,7 @@ interface Feed {
 }
 
 interface Category {
+    id: number
     title: string
 }
 
@@ -80,6 +82,56 @@ async function fetchAPI(
     }
 }
 
+// feeds always have a category in miniflux, the first one stands for none
+async function getCategoryId(
+    configs: MinifluxConfigs,
+    title: string
+): Promise<number> {
+    const response = await fetchAPI(configs, "categories")
+    if (response.status !== 200) throw APIError()
+    const categories: Category[] = await response.json()
+    if (!title) return Math.min(...categories.map(c => c.id))
+    const category = categories.find(c => c.title === title)
+    if (category) return category.id
+    const created = await fetchAPI(
+        configs,
+        "categories",
+        "POST",
+        JSON.stringify({ title: title })
+    )
+    if (created.status !== 201) throw APIError()
+    return ((await created.json()) as Category).id
+}
+
+async function updateFeed(configs: MinifluxConfigs, ref: string, changes) {
+    const response = await fetchAPI(
+        configs,
+        `feeds/${ref}`,
+        "PUT",
+        JSON.stringify(changes)
+    )
+    if (!response.ok) throw APIError()
+}
+
+// the bookmark endpoint toggles the star, so check the entry first to keep a
+// retried action from undoing itself
+async function setStarred(
+    configs: MinifluxConfigs,
+    item: RSSItem,
+    starred: boolean
+) {
+    if (!item.serviceRef) return
+    const entry = await fetchAPI(configs, `entries/${item.serviceRef}`)
+    if (entry.status !== 200) throw APIError()
+    if (((await entry.json()) as Entry).starred === starred) return
+    const response = await fetchAPI(
+        configs,
+        `entries/${item.serviceRef}/bookmark`,
+        "PUT"
+    )
+    if (response.status !== 204) throw APIError()
+}
+
 export const minifluxServiceHooks: ServiceHooks = {
     // poll service info endpoint to verify auth
     authenticate: async (configs: MinifluxConfigs) => {
@@ -91,9 +143,7 @@ export const minifluxServiceHooks: ServiceHooks = {
     },
 
     // collect sources from service, along with associated groups/categories
-    updateSources: () => async (dispatch, getState) => {
-        const configs = getState().service as MinifluxConfigs
-
+    updateSources: (configs: MinifluxConfigs) => async dispatch => {
         // fetch and create groups in redux
         if (configs.importGroups) {
             const groups: Category[] = await fetchAPI(
@@ -128,9 +178,8 @@ export const minifluxServiceHooks: ServiceHooks = {
     // NOTE: miniflux endpoint /entries default order with "published at", and does not offer "created_at"
     //          but does offer id sort, directly correlated with "created". some feeds give strange published_at.
 
-    fetchItems: () => async (_, getState) => {
+    fetchItems: (configs: MinifluxConfigs) => async (dispatch, getState) => {
         const state = getState()
-        const configs = state.service as MinifluxConfigs
         const items: Entry[] = new Array()
         let entriesResponse: Entries
 
@@ -172,13 +221,18 @@ export const minifluxServiceHooks: ServiceHooks = {
         // get sources that possess ref/id given by service, associate new items
         const sourceMap = new Map<string, RSSSource>()
         for (let source of Object.values(state.sources)) {
-            if (source.serviceRef) {
+            if (source.serviceRef && source.serviceAccount === configs.id) {
                 sourceMap.set(source.serviceRef, source)
             }
         }
 
+        // Feeds also subscribed in another account are kept by that one
+        const synced = items.filter(item =>
+            sourceMap.has(item.feed.id.toString())
+        )
+
         // map item objects to rssitem type while appling rules (if exist)
-        const parsedItems = items.map(item => {
+        const parsedItems = synced.map(item => {
             const source = sourceMap.get(item.feed.id.toString())
 
             let parsedItem = {
@@ -208,12 +262,23 @@ export const minifluxServiceHooks: ServiceHooks = {
             let img = dom.querySelector("img")
             if (img && img.src) parsedItem.thumb = img.src
 
-            if (source.rules) {
-                SourceRule.applyAll(source.rules, parsedItem)
+            const rules = getRulesForSource(state, source)
+            if (rules.length > 0) {
+                SourceRule.applyAll(rules, parsedItem)
                 if ((item.status === "read") !== parsedItem.hasRead)
-                    minifluxServiceHooks.markRead(parsedItem)
+                    dispatch(
+                        queueItemAction(
+                            parsedItem,
+                            parsedItem.hasRead ? "read" : "unread"
+                        )
+                    )
                 if (item.starred !== parsedItem.starred)
-                    minifluxServiceHooks.markUnread(parsedItem)
+                    dispatch(
+                        queueItemAction(
+                            parsedItem,
+                            parsedItem.starred ? "star" : "unstar"
+                        )
+                    )
             }
 
             return parsedItem
@@ -223,9 +288,7 @@ export const minifluxServiceHooks: ServiceHooks = {
     },
 
     // get remote read and star state of articles, for local sync
-    syncItems: () => async (_, getState) => {
-        const configs = getState().service as MinifluxConfigs
-
+    syncItems: (configs: MinifluxConfigs) => async () => {
         const unreadPromise: Promise<Entries> = fetchAPI(
             configs,
             "entries?status=unread"
@@ -245,7 +308,7 @@ export const minifluxServiceHooks: ServiceHooks = {
         ]
     },
 
-    markRead: (item: RSSItem) => async (_, getState) => {
+    markRead: (configs: MinifluxConfigs, item: RSSItem) => async () => {
         if (!item.serviceRef) return
 
         const body = `{
@@ -253,91 +316,79 @@ export const minifluxServiceHooks: ServiceHooks = {
             "status": "read"
         }`
 
-        const response = await fetchAPI(
-            getState().service as MinifluxConfigs,
-            "entries",
-            "PUT",
-            body
-        )
+        const response = await fetchAPI(configs, "entries", "PUT", body)
 
         if (response.status !== 204) throw APIError()
     },
 
-    markUnread: (item: RSSItem) => async (_, getState) => {
+    markUnread: (configs: MinifluxConfigs, item: RSSItem) => async () => {
         if (!item.serviceRef) return
 
         const body = `{
             "entry_ids": [${item.serviceRef}],
             "status": "unread"
         }`
-        await fetchAPI(
-            getState().service as MinifluxConfigs,
-            "entries",
-            "PUT",
-            body
-        )
-    },
+        const response = await fetchAPI(configs, "entries", "PUT", body)
 
-    // mark entries for source ids as read, relative to date, determined by "before" bool
-
-    // context menu component:
-    // item - null, item date, either
-    // group - group sources, null, true
-    // nav - null, daysago, true
+        if (response.status !== 204) throw APIError()
+    },
 
-    // if null, state consulted for context sids
+    // mark the unread entries covered when the action was taken as read
 
     // UNTESTED: SQLite migration - requires Miniflux API access to verify
     // Converted from Lovefield to SQLite on 2024-12-15
-    markAllRead: (sids, date, before) => async (_, getState) => {
-        const state = getState()
-        const configs = state.service as MinifluxConfigs
-
-        if (date) {
-            // Get unread serviceRefs using SQLite
-            const refs = await window.db.items.getUnreadServiceRefs(
-                sids,
-                before ? date.toISOString() : undefined,
-                before ? undefined : date.toISOString()
-            )
-            if (refs.length > 0) {
-                const body = `{
-                    "entry_ids": [${refs}],
-                    "status": "read"
-                }`
-                await fetchAPI(configs, "entries", "PUT", body)
-            }
-        } else {
-            const sources = state.sources
-            await Promise.all(
-                sids.map(sid =>
-                    fetchAPI(
-                        configs,
-                        `feeds/${sources[sid]?.serviceRef}/mark-all-as-read`,
-                        "PUT"
-                    )
-                )
-            )
-        }
+    markAllRead:
+        (configs: MinifluxConfigs, sids, date, before, refs) => async () => {
+            if (refs.length === 0) return
+            const body = `{
+                "entry_ids": [${refs}],
+                "status": "read"
+            }`
+            const response = await fetchAPI(configs, "entries", "PUT", body)
+            if (response.status !== 204) throw APIError()
+        },
+
+    star: (configs: MinifluxConfigs, item: RSSItem) => async () => {
+        await setStarred(configs, item, true)
     },
 
-    star: (item: RSSItem) => async (_, getState) => {
-        if (!item.serviceRef) return
-
-        await fetchAPI(
-            getState().service as MinifluxConfigs,
-            `entries/${item.serviceRef}/bookmark`,
-            "PUT"
-        )
+    unstar: (configs: MinifluxConfigs, item: RSSItem) => async () => {
+        await setStarred(configs, item, false)
     },
 
-    unstar: (item: RSSItem) => async (_, getState) => {
-        if (!item.serviceRef) return
+    subscribe:
+        (configs: MinifluxConfigs, url: string, category: string) =>
+        async () => {
+            const body = JSON.stringify({
+                feed_url: url,
+                category_id: await getCategoryId(configs, category),
+            })
+            const response = await fetchAPI(configs, "feeds", "POST", body)
+
+            if (response.status !== 201) throw APIError()
+        },
 
-        await fetchAPI(
-            getState().service as MinifluxConfigs,
-            `entries/${item.serviceRef}/bookmark`,
-            "PUT"
+    unsubscribe: (configs: MinifluxConfigs, source: RSSSource) => async () => {
+        const response = await fetchAPI(
+            configs,
+            `feeds/${source.serviceRef}`,
+            "DELETE"
         )
+
+        if (response.status !== 204) throw APIError()
     },
+
+    renameSource:
+        (configs: MinifluxConfigs, source: RSSSource, name: string) =>
+        async () => {
+            await updateFeed(configs, source.serviceRef, { title: name })
+        },
+
+    setSourceCategory:
+        (configs: MinifluxConfigs, source: RSSSource, category: string) =>
+        async () => {
+            await updateFeed(configs, source.serviceRef, {
+                category_id: await getCategoryId(configs, category),
+            })
+        },
 }
@@ -5,7 +5,8 @@ import { createSourceGroup } from "../group"
 import { RSSSource } from "../source"
 import { domParser } from "../../utils"
 import { RSSItem } from "../item"
-import { SourceRule } from "../rule"
+import { SourceRule, getRulesForSource } from "../rule"
+import { queueItemAction } from "../outbox"
 
 export interface NextcloudConfigs extends ServiceConfigs {
     type: SyncService.Nextcloud
@@ -17,13 +18,39 @@ export interface NextcloudConfigs extends ServiceConfigs {
     lastId?: number
 }
 
-async function fetchAPI(configs: NextcloudConfigs, params: string) {
+async function fetchAPI(
+    configs: NextcloudConfigs,
+    params: string,
+    method = "GET",
+    body: object = null
+) {
     const headers = new Headers()
     headers.set(
         "Authorization",
         "Basic " + btoa(configs.username + ":" + configs.password)
     )
-    return await fetch(configs.endpoint + params, { headers: headers })
+    if (body !== null)
+        headers.set("Content-Type", "application/json; charset=utf-8")
+    return await fetch(configs.endpoint + params, {
+        method: method,
+        headers: headers,
+        body: body === null ? null : JSON.stringify(body),
+    })
+}
+
+// Folders are matched by name, null is the root folder
+async function getFolderId(configs: NextcloudConfigs, name: string) {
+    if (!name) return null
+    const response = await fetchAPI(configs, "/folders")
+    if (response.status !== 200) throw APIError()
+    const folders: any[] = (await response.json()).folders
+    const folder = folders.find(f => f.name.trim() === name)
+    if (folder) return folder.id as number
+    const created = await fetchAPI(configs, "/folders", "POST", {
+        name: name,
+    })
+    if (created.status !== 200) throw APIError()
+    return (await created.json()).folders[0].id as number
 }
 
 async function markItems(
@@ -54,7 +81,9 @@ async function markItems(
             })
         )
     }
-    return await Promise.all(promises)
+    const responses = await Promise.all(promises)
+    if (responses.some(r => !r.ok)) throw APIError()
+    return responses
 }
 
 const APIError = () => new Error(intl.get("service.failure"))
@@ -69,8 +98,7 @@ export const nextcloudServiceHooks: ServiceHooks = {
         }
     },
 
-    updateSources: () => async (dispatch, getState) => {
-        const configs = getState().service as NextcloudConfigs
+    updateSources: (configs: NextcloudConfigs) => async dispatch => {
         const response = await fetchAPI(configs, "/feeds")
         if (response.status !== 200) throw APIError()
         const feeds = await response.json()
@@ -106,8 +134,7 @@ export const nextcloudServiceHooks: ServiceHooks = {
         return [sources, groupsMap]
     },
 
-    syncItems: () => async (_, getState) => {
-        const configs = getState().service as NextcloudConfigs
+    syncItems: (configs: NextcloudConfigs) => async () => {
         const [unreadResponse, starredResponse] = await Promise.all([
             fetchAPI(configs, "/items?getRead=false&type=3&batchSize=-1"),
             fetchAPI(configs, "/items?getRead=true&type=2&batchSize=-1"),
@@ -122,9 +149,8 @@ export const nextcloudServiceHooks: ServiceHooks = {
         ]
     },
 
-    fetchItems: () => async (_, getState) => {
+    fetchItems: (configs: NextcloudConfigs) => async (dispatch, getState) => {
         const state = getState()
-        const configs = state.service as NextcloudConfigs
         let items = new Array()
         configs.lastModified = configs.lastModified || 0
         configs.lastId = configs.lastId || 0
@@ -171,7 +197,7 @@ export const nextcloudServiceHooks: ServiceHooks = {
         if (items.length > 0) {
             const fidMap = new Map<string, RSSSource>()
             for (let source of Object.values(state.sources)) {
-                if (source.serviceRef) {
+                if (source.serviceRef && source.serviceAccount === configs.id) {
                     fidMap.set(source.serviceRef, source)
                 }
             }
@@ -182,6 +208,7 @@ export const nextcloudServiceHooks: ServiceHooks = {
                 const unreadItem = i.unread
                 const starredItem = i.starred
                 const source = fidMap.get(String(i.feedId))
+                if (source === undefined) return
                 const dom = domParser.parseFromString(i.body, "text/html")
                 const item = {
                     source: source.sid,
@@ -211,20 +238,12 @@ export const nextcloudServiceHooks: ServiceHooks = {
                     if (img && img.src) item.thumb = img.src
                 }
                 // Apply rules and sync back to the service
-                if (source.rules) SourceRule.applyAll(source.rules, item)
+                SourceRule.applyAll(getRulesForSource(state, source), item)
                 if (unreadItem && item.hasRead)
-                    markItems(
-                        configs,
-                        item.hasRead ? "read" : "unread",
-                        "POST",
-                        [i.id]
-                    )
+                    dispatch(queueItemAction(item, "read"))
                 if (starredItem !== Boolean(item.starred))
-                    markItems(
-                        configs,
-                        item.starred ? "star" : "unstar",
-                        "POST",
-                        [i.id]
+                    dispatch(
+                        queueItemAction(item, item.starred ? "star" : "unstar")
                     )
 
                 parsedItems.push(item)
@@ -237,52 +256,68 @@ export const nextcloudServiceHooks: ServiceHooks = {
 
     // UNTESTED: SQLite migration - requires Nextcloud News API access to verify
     // Converted from Lovefield to SQLite on 2024-12-15
-    markAllRead: (sids, date, before) => async (_, getState) => {
-        const state = getState()
-        const configs = state.service as NextcloudConfigs
-        // Get unread serviceRefs using SQLite
-        const refs = await window.db.items.getUnreadServiceRefs(
-            sids,
-            before ? date?.toISOString() : undefined,
-            before ? undefined : date?.toISOString()
-        )
-        const numericRefs = refs.map(ref => parseInt(ref))
-        markItems(configs, "unread", "POST", numericRefs)
+    markAllRead:
+        (configs: NextcloudConfigs, sids, date, before, refs) => async () => {
+            const numericRefs = refs.map(ref => parseInt(ref))
+            await markItems(configs, "read", "POST", numericRefs)
+        },
+
+    markRead: (configs: NextcloudConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "read", "POST", [parseInt(item.serviceRef)])
     },
 
-    markRead: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as NextcloudConfigs,
-            "read",
-            "POST",
-            [parseInt(item.serviceRef)]
-        )
+    markUnread: (configs: NextcloudConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "unread", "POST", [parseInt(item.serviceRef)])
     },
 
-    markUnread: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as NextcloudConfigs,
-            "unread",
-            "POST",
-            [parseInt(item.serviceRef)]
-        )
+    star: (configs: NextcloudConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "star", "POST", [parseInt(item.serviceRef)])
     },
 
-    star: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as NextcloudConfigs,
-            "star",
-            "POST",
-            [parseInt(item.serviceRef)]
-        )
+    unstar: (configs: NextcloudConfigs, item: RSSItem) => async () => {
+        await markItems(configs, "unstar", "POST", [parseInt(item.serviceRef)])
     },
 
-    unstar: (item: RSSItem) => async (_, getState) => {
-        await markItems(
-            getState().service as NextcloudConfigs,
-            "unstar",
-            "POST",
-            [parseInt(item.serviceRef)]
+    subscribe:
+        (configs: NextcloudConfigs, url: string, category: string) =>
+        async () => {
+            const response = await fetchAPI(configs, "/feeds", "POST", {
+                url: url,
+                folderId: await getFolderId(configs, category),
+            })
+            if (response.status !== 200) throw APIError()
+        },
+
+    unsubscribe: (configs: NextcloudConfigs, source: RSSSource) => async () => {
+        const response = await fetchAPI(
+            configs,
+            "/feeds/" + source.serviceRef,
+            "DELETE"
         )
+        if (response.status !== 200) throw APIError()
     },
+
+    renameSource:
+        (configs: NextcloudConfigs, source: RSSSource, name: string) =>
+        async () => {
+            const response = await fetchAPI(
+                configs,
+                `/feeds/${source.serviceRef}/rename`,
+                "POST",
+                { feedTitle: name }
+            )
+            if (response.status !== 200) throw APIError()
+        },
+
+    setSourceCategory:
+        (configs: NextcloudConfigs, source: RSSSource, category: string) =>
+        async () => {
+            const response = await fetchAPI(
+                configs,
+                `/feeds/${source.serviceRef}/move`,
+                "POST",
+                { folderId: await getFolderId(configs, category) }
+            )
+            if (response.status !== 200) throw APIError()
+        },
 }
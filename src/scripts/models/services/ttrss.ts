@@ -0,0 +1,373 @@
+import intl from "react-intl-universal"
+import { ServiceHooks } from "../service"
+import { ServiceConfigs, SyncService } from "../../../schema-types"
+import { createSourceGroup } from "../group"
+import { RSSSource } from "../source"
+import { domParser, htmlDecode } from "../../utils"
+import { RSSItem } from "../item"
+import { SourceRule, getRulesForSource } from "../rule"
+import { queueItemAction } from "../outbox"
+
+export interface TtrssConfigs extends ServiceConfigs {
+    type: SyncService.TTRSS
+    endpoint: string
+    username: string
+    password: string
+    fetchLimit: number
+    sessionId?: string
+    lastId?: number
+}
+
+// Virtual feeds of the API
+const ALL_ARTICLES = -4
+const STARRED_ARTICLES = -1
+const ALL_FEEDS_CATEGORY = -3
+
+const enum ArticleField {
+    Starred = 0,
+    Unread = 2,
+}
+
+// Headlines per request, servers below API level 6 return at most 60
+const PAGE_SIZE = 200
+
+// partial api schema
+interface Feed {
+    id: number
+    title: string
+    feed_url: string
+    cat_id: number
+}
+
+interface Category {
+    id: number
+    title: string
+}
+
+interface Headline {
+    id: number
+    unread: boolean
+    marked: boolean
+    updated: number
+    title: string
+    link: string
+    feed_id: number | string
+    author: string
+    content: string
+    flavor_image?: string
+}
+
+const APIError = () => new Error(intl.get("service.failure"))
+
+// every operation is posted to the same endpoint, along with the session id
+async function fetchAPI(
+    configs: TtrssConfigs,
+    op: string,
+    params: object = {}
+): Promise<any> {
+    let baseUrl = configs.endpoint
+    if (!baseUrl.endsWith("/")) baseUrl = baseUrl + "/"
+    if (!baseUrl.endsWith("/api/")) baseUrl = baseUrl + "api/"
+    let response: Response
+    try {
+        response = await fetch(baseUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                op: op,
+                sid: configs.sessionId,
+                ...params,
+            }),
+        })
+    } catch (error) {
+        console.log(error)
+        throw APIError()
+    }
+    if (!response.ok) throw APIError()
+    const result = await response.json()
+    if (result.status !== 0) {
+        console.log(result.content)
+        throw APIError()
+    }
+    return result.content
+}
+
+// page through headlines until the server runs out or the limit is reached
+async function fetchHeadlines(
+    configs: TtrssConfigs,
+    params: object,
+    limit = Number.MAX_SAFE_INTEGER
+) {
+    const headlines = new Array<Headline>()
+    let fetched: Headline[]
+    do {
+        fetched = await fetchAPI(configs, "getHeadlines", {
+            ...params,
+            limit: PAGE_SIZE,
+            skip: headlines.length,
+        })
+        headlines.push(...fetched)
+    } while (fetched.length > 0 && headlines.length < limit)
+    return headlines.slice(0, limit)
+}
+
+// headlines after lastId, up to the limit. the first sync takes the newest
+// ones. getHeadlines only sorts by date, so later syncs list the ids of all
+// headlines after lastId and fetch the lowest ones, the headlines left over
+// by the limit then have higher ids and come with the next sync
+async function fetchNewHeadlines(configs: TtrssConfigs, limit: number) {
+    const params = {
+        feed_id: ALL_ARTICLES,
+        view_mode: "all_articles",
+        show_content: true,
+    }
+    if (!configs.lastId) return fetchHeadlines(configs, params, limit)
+    const listed = await fetchHeadlines(configs, {
+        ...params,
+        show_content: false,
+        since_id: configs.lastId,
+    })
+    const ids = listed
+        .map(h => h.id)
+        .filter(id => id > configs.lastId)
+        .sort((a, b) => a - b)
+        .slice(0, limit)
+    const headlines = new Array<Headline>()
+    for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+        const articles: Headline[] = await fetchAPI(configs, "getArticle", {
+            article_id: ids.slice(i, i + PAGE_SIZE).join(","),
+        })
+        headlines.push(...articles)
+    }
+    return headlines
+}
+
+async function updateArticles(
+    configs: TtrssConfigs,
+    refs: string[],
+    field: ArticleField,
+    value: boolean
+) {
+    await fetchAPI(configs, "updateArticle", {
+        article_ids: refs.join(","),
+        mode: value ? 1 : 0,
+        field: field,
+    })
+}
+
+export const ttrssServiceHooks: ServiceHooks = {
+    // sessions expire, a failed check makes the sync log in again
+    authenticate: async (configs: TtrssConfigs) => {
+        if (!configs.sessionId) return false
+        try {
+            const result = await fetchAPI(configs, "isLoggedIn")
+            return result.status === true
+        } catch {
+            return false
+        }
+    },
+
+    reauthenticate: async (configs: TtrssConfigs): Promise<TtrssConfigs> => {
+        const result = await fetchAPI(
+            { ...configs, sessionId: undefined },
+            "login",
+            { user: configs.username, password: configs.password }
+        )
+        configs.sessionId = result.session_id
+        return configs
+    },
+
+    updateSources: (configs: TtrssConfigs) => async dispatch => {
+        const feeds: Feed[] = await fetchAPI(configs, "getFeeds", {
+            cat_id: ALL_FEEDS_CATEGORY,
+        })
+        let groupsMap: Map<string, string>
+        if (configs.importGroups) {
+            const categories: Category[] = await fetchAPI(
+                configs,
+                "getCategories"
+            )
+            // special categories have ids below 1, 0 is uncategorized
+            const titles = new Map<number, string>()
+            for (let category of categories) {
+                if (Number(category.id) > 0) {
+                    titles.set(Number(category.id), category.title)
+                    dispatch(createSourceGroup(category.title))
+                }
+            }
+            groupsMap = new Map()
+            for (let feed of feeds) {
+                if (titles.has(Number(feed.cat_id)))
+                    groupsMap.set(
+                        String(feed.id),
+                        titles.get(Number(feed.cat_id))
+                    )
+            }
+        }
+        const sources = feeds.map(feed => {
+            const source = new RSSSource(feed.feed_url, feed.title)
+            source.serviceRef = String(feed.id)
+            return source
+        })
+        return [sources, groupsMap]
+    },
+
+    syncItems: (configs: TtrssConfigs) => async () => {
+        const [unread, starred] = await Promise.all([
+            fetchHeadlines(configs, {
+                feed_id: ALL_ARTICLES,
+                view_mode: "unread",
+                show_content: false,
+            }),
+            fetchHeadlines(configs, {
+                feed_id: STARRED_ARTICLES,
+                show_content: false,
+            }),
+        ])
+        return [
+            new Set(unread.map(h => String(h.id))),
+            new Set(starred.map(h => String(h.id))),
+        ]
+    },
+
+    fetchItems: (configs: TtrssConfigs) => async (dispatch, getState) => {
+        const state = getState()
+        configs.lastId = configs.lastId ?? 0
+        const headlines = await fetchNewHeadlines(configs, configs.fetchLimit)
+        if (headlines.length === 0) return [[], configs]
+        configs.lastId = headlines.reduce(
+            (m, h) => Math.max(m, h.id),
+            configs.lastId
+        )
+
+        const sourceMap = new Map<string, RSSSource>()
+        for (let source of Object.values(state.sources)) {
+            if (source.serviceRef && source.serviceAccount === configs.id) {
+                sourceMap.set(source.serviceRef, source)
+            }
+        }
+
+        // Feeds also subscribed in another account are kept by that one
+        const synced = headlines.filter(h => sourceMap.has(String(h.feed_id)))
+
+        const parsedItems = synced.map(h => {
+            const source = sourceMap.get(String(h.feed_id))
+            const item = {
+                source: source.sid,
+                title: htmlDecode(h.title),
+                link: h.link,
+                date: new Date(h.updated * 1000),
+                fetchedDate: new Date(),
+                content: h.content,
+                snippet: htmlDecode(h.content).trim(),
+                creator: h.author,
+                hasRead: !h.unread,
+                starred: Boolean(h.marked),
+                hidden: false,
+                notify: false,
+                serviceRef: String(h.id),
+            } as RSSItem
+            if (h.flavor_image) {
+                item.thumb = h.flavor_image
+            } else {
+                const dom = domParser.parseFromString(h.content, "text/html")
+                const baseEl = dom.createElement("base")
+                baseEl.setAttribute(
+                    "href",
+                    item.link.split("/").slice(0, 3).join("/")
+                )
+                dom.head.append(baseEl)
+                const img = dom.querySelector("img")
+                if (img && img.src) item.thumb = img.src
+            }
+            // Apply rules and sync back to the service
+            const rules = getRulesForSource(state, source)
+            if (rules.length > 0) {
+                SourceRule.applyAll(rules, item)
+                if (h.unread === item.hasRead)
+                    dispatch(
+                        queueItemAction(item, item.hasRead ? "read" : "unread")
+                    )
+                if (Boolean(h.marked) !== item.starred)
+                    dispatch(
+                        queueItemAction(item, item.starred ? "star" : "unstar")
+                    )
+            }
+            return item
+        })
+        return [parsedItems, configs]
+    },
+
+    markAllRead:
+        (configs: TtrssConfigs, sids, date, before, refs) => async () => {
+            if (refs.length > 0)
+                await updateArticles(configs, refs, ArticleField.Unread, false)
+        },
+
+    markRead: (configs: TtrssConfigs, item: RSSItem) => async () => {
+        await updateArticles(
+            configs,
+            [item.serviceRef],
+            ArticleField.Unread,
+            false
+        )
+    },
+
+    markUnread: (configs: TtrssConfigs, item: RSSItem) => async () => {
+        await updateArticles(
+            configs,
+            [item.serviceRef],
+            ArticleField.Unread,
+            true
+        )
+    },
+
+    star: (configs: TtrssConfigs, item: RSSItem) => async () => {
+        await updateArticles(
+            configs,
+            [item.serviceRef],
+            ArticleField.Starred,
+            true
+        )
+    },
+
+    unstar: (configs: TtrssConfigs, item: RSSItem) => async () => {
+        await updateArticles(
+            configs,
+            [item.serviceRef],
+            ArticleField.Starred,
+            false
+        )
+    },
+
+    // The API can't create categories, feeds of groups missing on the
+    // server are subscribed uncategorized
+    subscribe:
+        (configs: TtrssConfigs, url: string, category: string) => async () => {
+            let categoryId = 0
+            if (category) {
+                const categories: Category[] = await fetchAPI(
+                    configs,
+                    "getCategories"
+                )
+                const found = categories.find(
+                    c => Number(c.id) > 0 && c.title === category
+                )
+                if (found) categoryId = Number(found.id)
+            }
+            const result = await fetchAPI(configs, "subscribeToFeed", {
+                feed_url: url,
+                category_id: categoryId,
+            })
+            // 0 if already subscribed, 1 if added
+            if (result.status.code > 1) throw APIError()
+        },
+
+    unsubscribe: (configs: TtrssConfigs, source: RSSSource) => async () => {
+        await fetchAPI(configs, "unsubscribeFeed", {
+            feed_id: parseInt(source.serviceRef),
+        })
+    },
+
+    // Renaming and moving feeds aren't part of the API
+}
@@ -0,0 +1,211 @@
+import { AppThunk } from "../utils"
+import { SmartFeedRow } from "../../bridges/db"
+import { FeedFilter, FilterType, initFeeds, ALL } from "./feed"
+import { selectSources, TOGGLE_SEARCH } from "./page"
+
+// Filter flags that describe how a search is matched; the read/starred
+// view flags stay whatever the user currently has selected
+const SEARCH_FLAGS =
+    FilterType.FullSearch |
+    FilterType.CreatorSearch |
+    FilterType.CaseInsensitive |
+    FilterType.RelevanceSort
+
+export class SmartFeed {
+    id: number
+    name: string
+    search: string
+    filterType: number
+    sids: number[] | null // null = all sources
+    unreadCount = 0
+
+    constructor(name: string, search: string, filterType: number, sids: number[] = null) {
+        this.name = name
+        this.search = search
+        this.filterType = filterType & SEARCH_FLAGS
+        this.sids = sids
+    }
+}
+
+export type SmartFeedState = {
+    [id: number]: SmartFeed
+}
+
+export const INIT_SMART_FEEDS = "INIT_SMART_FEEDS"
+export const ADD_SMART_FEED = "ADD_SMART_FEED"
+export const DELETE_SMART_FEED = "DELETE_SMART_FEED"
+export const UPDATE_SMART_FEED_COUNTS = "UPDATE_SMART_FEED_COUNTS"
+
+interface InitSmartFeedsAction {
+    type: typeof INIT_SMART_FEEDS
+    feeds: SmartFeedState
+}
+
+interface AddSmartFeedAction {
+    type: typeof ADD_SMART_FEED
+    feed: SmartFeed
+}
+
+interface DeleteSmartFeedAction {
+    type: typeof DELETE_SMART_FEED
+    id: number
+}
+
+interface UpdateSmartFeedCountsAction {
+    type: typeof UPDATE_SMART_FEED_COUNTS
+    counts: { [id: number]: number }
+}
+
+export type SmartFeedActionTypes =
+    | InitSmartFeedsAction
+    | AddSmartFeedAction
+    | DeleteSmartFeedAction
+    | UpdateSmartFeedCountsAction
+
+function rowToSmartFeed(row: SmartFeedRow): SmartFeed {
+    const feed = new SmartFeed(
+        row.name,
+        row.search,
+        row.filterType,
+        row.sids ? JSON.parse(row.sids) : null
+    )
+    feed.id = row.id
+    return feed
+}
+
+export function getSmartFeedFilter(feed: SmartFeed, current: FeedFilter): FeedFilter {
+    return new FeedFilter(
+        (current.type & ~SEARCH_FLAGS) | feed.filterType,
+        feed.search
+    )
+}
+
+// Sources a smart feed covers, skipping ones deleted since it was saved
+function getSmartFeedSids(feed: SmartFeed, sources: { [sid: number]: { hidden: boolean } }): number[] {
+    if (feed.sids === null) {
+        return Object.entries(sources)
+            .filter(([_, s]) => !s.hidden)
+            .map(([sid, _]) => parseInt(sid))
+    }
+    return feed.sids.filter(sid => sid in sources)
+}
+
+export function initSmartFeeds(): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const rows = await window.db.smartFeeds.getAll()
+        const feeds: SmartFeedState = {}
+        for (let row of rows) {
+            feeds[row.id] = rowToSmartFeed(row)
+        }
+        dispatch({ type: INIT_SMART_FEEDS, feeds: feeds })
+        await dispatch(updateSmartFeedCounts())
+    }
+}
+
+export function updateSmartFeedCounts(): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        const state = getState()
+        const counts: { [id: number]: number } = {}
+        for (let feed of Object.values(state.smartFeeds)) {
+            const filter = new FeedFilter(
+                FilterType.UnreadOnly | feed.filterType,
+                feed.search
+            )
+            // Same query as the feed's list, regex searches included
+            const options = FeedFilter.toQueryOptions(
+                filter,
+                getSmartFeedSids(feed, state.sources)
+            )
+            counts[feed.id] = await window.db.items.count(options)
+        }
+        dispatch({ type: UPDATE_SMART_FEED_COUNTS, counts: counts })
+    }
+}
+
+/**
+ * Save the current search as a smart feed. Searches made while a source or
+ * group is selected stay scoped to those sources.
+ */
+export function saveSmartFeed(): AppThunk<Promise<void>> {
+    return async (dispatch, getState) => {
+        const state = getState()
+        const filter = state.page.filter
+        if (!filter.search) return
+        const feed = state.feeds[state.page.feedId]
+        const sids = state.page.feedId === ALL || !feed ? null : [...feed.sids]
+        let name = filter.search
+        if (sids !== null) {
+            const title = state.app.title
+            if (title) name = `${title}: ${filter.search}`
+        }
+        const smartFeed = new SmartFeed(name, filter.search, filter.type, sids)
+        smartFeed.id = await window.db.smartFeeds.insert({
+            name: smartFeed.name,
+            search: smartFeed.search,
+            filterType: smartFeed.filterType,
+            sids: sids === null ? null : JSON.stringify(sids),
+        })
+        dispatch({ type: ADD_SMART_FEED, feed: smartFeed })
+        await dispatch(updateSmartFeedCounts())
+    }
+}
+
+export function deleteSmartFeed(id: number): AppThunk<Promise<void>> {
+    return async dispatch => {
+        await window.db.smartFeeds.delete(id)
+        dispatch({ type: DELETE_SMART_FEED, id: id })
+    }
+}
+
+export function selectSmartFeed(feed: SmartFeed): AppThunk {
+    return (dispatch, getState) => {
+        const state = getState()
+        const filter = getSmartFeedFilter(feed, state.page.filter)
+        if (filter.type !== state.page.filter.type)
+            window.settings.setFilterType(filter.type)
+        window.contentViewPool?.onListChanged()
+        dispatch(
+            selectSources(
+                getSmartFeedSids(feed, state.sources),
+                "f-" + feed.id,
+                feed.name,
+                filter
+            )
+        )
+        // Show the saved query in the search box
+        if (!getState().page.searchOn) dispatch({ type: TOGGLE_SEARCH })
+        dispatch(initFeeds())
+    }
+}
+
+export function smartFeedReducer(
+    state: SmartFeedState = {},
+    action: SmartFeedActionTypes
+): SmartFeedState {
+    switch (action.type) {
+        case INIT_SMART_FEEDS:
+            return action.feeds
+        case ADD_SMART_FEED:
+            return {
+                ...state,
+                [action.feed.id]: action.feed,
+            }
+        case DELETE_SMART_FEED: {
+            const nextState = { ...state }
+            delete nextState[action.id]
+            return nextState
+        }
+        case UPDATE_SMART_FEED_COUNTS: {
+            const nextState: SmartFeedState = {}
+            for (let [id, feed] of Object.entries(state)) {
+                nextState[id] = {
+                    ...feed,
+                    unreadCount: action.counts[id] ?? feed.unreadCount,
+                }
+            }
+            return nextState
+        }
+        default:
+            return state
+    }
+}
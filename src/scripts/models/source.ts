@@ -1,13 +1,12 @@
 import intl from "react-intl-universal"
 import * as db from "../db"
 import { SourceRow, ItemRow } from "../../bridges/db"
-import {
-    fetchFavicon,
-    ActionStatus,
-    AppThunk,
-    parseRSS,
-    MyParserItem,
-} from "../utils"
+import type {
+    FeedFetchRequest,
+    FeedFetchOptions,
+    FeedFetchResult,
+} from "../../bridges/fetcher"
+import { fetchFavicon, ActionStatus, AppThunk } from "../utils"
 import {
     RSSItem,
     insertItems,
@@ -18,16 +17,15 @@ import {
     MARK_ALL_READ,
 } from "./item"
 import { saveSettings } from "./app"
-import { SourceRule } from "./rule"
+import { SourceRule, getRulesForSource } from "./rule"
 import { fixBrokenGroups, setGroupsFromP2P } from "./group"
 import { SourceGroup } from "../../schema-types"
+import { updateSmartFeedCounts } from "./smart-feed"
+import { updateTags } from "./tag"
+import { SourceOpenTarget } from "./item-data"
+import type { FetchStates } from "./schedule"
 
-export enum SourceOpenTarget {
-    Local,
-    Webpage,
-    External,
-    FullContent,
-}
+export { SourceOpenTarget }
 
 export const enum SourceTextDirection {
     LTR,
@@ -57,6 +55,7 @@ export class RSSSource {
     unreadCount: number
     lastFetched: Date
     serviceRef?: string
+    serviceAccount?: string // Id of the sync account managing the source
     fetchFrequency: number // in minutes
     rules?: SourceRule[]
     textDir: SourceTextDirection
@@ -64,6 +63,7 @@ export class RSSSource {
     translateTo?: string // Target language code for translation (e.g., 'de', 'en', 'fr')
     translationMode: TranslationMode // How to translate: inline or via Google URL
     sortAscending: boolean // Sort oldest first when unread filter is active
+    archiveOffline: boolean // Archive new items for offline reading
 
     constructor(url: string, name: string = null, openTarget: SourceOpenTarget = null, defaultZoom = 0, mobileMode = false, persistCookies = false) {
         this.url = url
@@ -79,63 +79,59 @@ export class RSSSource {
         this.translateTo = undefined
         this.translationMode = TranslationMode.Inline
         this.sortAscending = false
+        this.archiveOffline = false
     }
 
     static async fetchMetaData(source: RSSSource) {
-        let feed = await parseRSS(source.url)
+        const meta = await window.fetcher.fetchMetaData(
+            source.url,
+            getFeedFetchOptions()
+        )
+        if (meta.error !== undefined) throw new Error(meta.error)
         if (!source.name) {
-            if (feed.title) source.name = feed.title.trim()
+            if (meta.title) source.name = meta.title.trim()
             source.name = source.name || intl.get("sources.untitled")
         }
-        return feed
     }
 
-    private static async checkItem(
+    static toFetchRequest(
         source: RSSSource,
-        item: MyParserItem
-    ): Promise<RSSItem> {
-        let i = new RSSItem(item, source)
-        
-        // Use SQLite for duplicate check via window.db bridge
-        const exists = await window.db.items.exists(
-            i.source,
-            i.title,
-            i.date.toISOString()
-        )
-        
-        if (!exists) {
-            RSSItem.parseContent(i, item)
-            if (source.rules) SourceRule.applyAll(source.rules, i)
-            
-            // NOTE: Translation is now done on-demand when displaying articles
-            // This reduces API calls since not all articles are read
-            // See card.tsx and article.tsx for on-demand translation
-            
-            return i
-        } else {
-            return null
+        rules: SourceRule[] = source.rules || []
+    ): FeedFetchRequest {
+        return {
+            sid: source.sid,
+            url: source.url,
+            fetchFrequency: source.fetchFrequency,
+            rules: rules,
         }
     }
+}
 
-    static async checkItems(
-        source: RSSSource,
-        items: MyParserItem[]
-    ): Promise<RSSItem[]> {
-        // Always process in parallel now since translation is on-demand
-        const promises = items.map(item => this.checkItem(source, item))
-        const results = await Promise.all(promises)
-        return results.filter(v => v != null) as RSSItem[]
+export function getFeedFetchOptions(): FeedFetchOptions {
+    return {
+        defaultInterval: window.settings.getFetchInterval(),
+        untitledText: intl.get("article.untitled"),
+        networkErrorText: intl.get("log.networkError"),
+        parseErrorText: intl.get("log.parseError"),
     }
+}
 
-    static async fetchItems(source: RSSSource) {
-        try {
-            let feed = await parseRSS(source.url)
-            return await this.checkItems(source, feed.items)
-        } catch (e) {
-            // Extend error message with source info
-            const errorMsg = e instanceof Error ? e.message : String(e)
-            console.error(`[fetchItems] Error fetching "${source.name}" (${source.url}): ${errorMsg}`)
-            throw e
+export async function getFetchStates(): Promise<FetchStates> {
+    const rows = await window.db.fetchState.getAll()
+    const states: FetchStates = {}
+    for (let row of rows) states[row.sid] = row
+    return states
+}
+
+// Called once the items of the results are stored, until then the next
+// fetch downloads the feeds again
+export async function saveFetchValidators(results: FeedFetchResult[]) {
+    for (let result of results) {
+        if (result.validators) {
+            await window.db.fetchState.saveValidators(
+                result.sid,
+                result.validators
+            )
         }
     }
 }
@@ -251,6 +247,8 @@ export function updateUnreadCounts(): AppThunk<Promise<void>> {
             type: UPDATE_UNREAD_COUNTS,
             sources: await unreadCount(sources),
         })
+        await dispatch(updateSmartFeedCounts())
+        await dispatch(updateTags())
     }
 }
 
@@ -263,6 +261,7 @@ function rowToSource(row: SourceRow): RSSSource {
     source.defaultZoom = row.defaultZoom
     source.lastFetched = new Date(row.lastFetched)
     source.serviceRef = row.serviceRef ?? undefined
+    source.serviceAccount = row.serviceAccount ?? undefined
     source.fetchFrequency = row.fetchFrequency
     source.rules = row.rules ? JSON.parse(row.rules) : undefined
     source.textDir = row.textDir
@@ -272,6 +271,7 @@ function rowToSource(row: SourceRow): RSSSource {
     source.translateTo = row.translateTo ?? undefined
     source.translationMode = row.translationMode ?? TranslationMode.Inline
     source.sortAscending = row.sortAscending === 1
+    source.archiveOffline = row.archiveOffline === 1
     source.unreadCount = 0
     return source
 }
@@ -342,7 +342,9 @@ function sourceToRow(source: RSSSource): Omit<SourceRow, "sid"> & { sid?: number
         persistCookies: source.persistCookies ? 1 : 0,
         translateTo: source.translateTo ?? null,
         translationMode: source.translationMode ?? TranslationMode.Inline,
-        sortAscending: source.sortAscending ? 1 : 0
+        sortAscending: source.sortAscending ? 1 : 0,
+        archiveOffline: source.archiveOffline ? 1 : 0,
+        serviceAccount: source.serviceAccount ?? null
     }
 }
 
@@ -386,14 +388,24 @@ export function addSource(
             dispatch(addSourceRequest(batch))
             const source = new RSSSource(url, name, openTarget, defaultZoom, mobileMode, persistCookies)
             try {
-                const feed = await RSSSource.fetchMetaData(source)
+                await RSSSource.fetchMetaData(source)
                 const inserted = await dispatch(insertSource(source))
-                inserted.unreadCount = feed.items.length
                 dispatch(addSourceSuccess(inserted, batch))
                 window.settings.saveGroups(getState().groups)
                 dispatch(updateFavicon([inserted.sid]))
-                const items = await RSSSource.checkItems(inserted, feed.items)
-                await insertItems(items)
+                const [result] = await window.fetcher.run(
+                    [
+                        RSSSource.toFetchRequest(
+                            inserted,
+                            getRulesForSource(getState(), inserted)
+                        ),
+                    ],
+                    getFeedFetchOptions()
+                )
+                if (result.error !== undefined) throw new Error(result.error)
+                await insertItems(result.items)
+                await saveFetchValidators([result])
+                await dispatch(updateUnreadCounts())
                 return inserted.sid
             } catch (e) {
                 dispatch(addSourceFailure(e, batch))
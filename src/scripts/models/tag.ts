@@ -0,0 +1,70 @@
+import { AppThunk } from "../utils"
+import { TagRow } from "../../bridges/db"
+import { FeedFilter, initFeeds } from "./feed"
+import { selectSources } from "./page"
+
+export type Tag = TagRow
+
+export type TagState = Tag[]
+
+export const INIT_TAGS = "INIT_TAGS"
+
+interface InitTagsAction {
+    type: typeof INIT_TAGS
+    tags: Tag[]
+}
+
+export type TagActionTypes = InitTagsAction
+
+/**
+ * Reload tags with their item and unread counts
+ */
+export function updateTags(): AppThunk<Promise<void>> {
+    return async dispatch => {
+        const tags = await window.db.tags.getAll()
+        dispatch({ type: INIT_TAGS, tags: tags })
+    }
+}
+
+export function deleteTag(tag: Tag): AppThunk<Promise<void>> {
+    return async dispatch => {
+        await window.db.tags.delete(tag.id)
+        await dispatch(updateTags())
+    }
+}
+
+/**
+ * Open the items carrying a tag as a feed across all sources
+ */
+export function selectTag(tag: Tag): AppThunk {
+    return (dispatch, getState) => {
+        const state = getState()
+        const filter: FeedFilter = {
+            ...state.page.filter,
+            tags: [tag.name],
+            inProgress: false,
+        }
+        window.contentViewPool?.onListChanged()
+        dispatch(
+            selectSources(
+                Object.values(state.sources).map(s => s.sid),
+                "t-" + tag.id,
+                tag.name,
+                filter
+            )
+        )
+        dispatch(initFeeds())
+    }
+}
+
+export function tagReducer(
+    state: TagState = [],
+    action: TagActionTypes
+): TagState {
+    switch (action.type) {
+        case INIT_TAGS:
+            return action.tags
+        default:
+            return state
+    }
+}
@@ -46,6 +46,7 @@ export type OverlaySource =
     | 'p2p-incoming'        // P2P incoming article notification dialog
     | 'p2p-share'           // P2P share dialog
     | 'prefetch-preview'    // Prefetch preview tooltip (hover on prefetch badge)
+    | 'translation-jobs'    // Translation job status panel
     | 'local-dialog'        // Generic local dialog (fallback)
 
 /**
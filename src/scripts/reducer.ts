@@ -7,14 +7,20 @@ import { appReducer } from "./models/app"
 import { groupReducer } from "./models/group"
 import { pageReducer } from "./models/page"
 import { serviceReducer } from "./models/service"
+import { smartFeedReducer } from "./models/smart-feed"
+import { tagReducer } from "./models/tag"
+import { globalRuleReducer } from "./models/rule"
 
 export const rootReducer = combineReducers({
     sources: sourceReducer,
     items: itemReducer,
     feeds: feedReducer,
     groups: groupReducer,
+    globalRules: globalRuleReducer,
     page: pageReducer,
     service: serviceReducer,
+    smartFeeds: smartFeedReducer,
+    tags: tagReducer,
     app: appReducer,
 })
 
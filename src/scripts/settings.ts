@@ -97,6 +97,8 @@ export async function exportAll() {
         output["lovefield"] = {
             sources: await window.db.sources.getAll(),
             items: await window.db.items.getAll(),
+            smartFeeds: await window.db.smartFeeds.getAll(),
+            itemTags: await window.db.tags.getAllItemTags(),
         }
         write(JSON.stringify(output), intl.get("settings.writeError"))
     }
@@ -120,6 +122,8 @@ export async function importAll() {
     // Clear existing SQLite data
     await window.db.sources.deleteAll()
     await window.db.items.deleteAll()
+    await window.db.smartFeeds.deleteAll()
+    await window.db.tags.deleteAll()
     
     if (configs.nedb) {
         // Legacy NeDB import - migrate via IndexedDB
@@ -161,6 +165,12 @@ export async function importAll() {
         
         await window.db.sources.bulkInsert(sources)
         await window.db.items.bulkInsert(items)
+        if (configs.lovefield.smartFeeds) {
+            await window.db.smartFeeds.bulkInsert(configs.lovefield.smartFeeds)
+        }
+        if (configs.lovefield.itemTags) {
+            await window.db.tags.bulkInsertItemTags(configs.lovefield.itemTags)
+        }
         
         delete configs.lovefield
         window.settings.setAll(configs)
@@ -6,6 +6,8 @@ import Parser from "rss-parser"
 import Url from "url"
 import { SearchEngines } from "../schema-types"
 
+export { validateRegex } from "./models/filter"
+
 export enum ActionStatus {
     Request,
     Success,
@@ -94,29 +96,6 @@ export async function decodeFetchResponse(response: Response, isHTML = false) {
     return content
 }
 
-export async function parseRSS(url: string) {
-    let result: Response
-    try {
-        result = await fetch(url, { 
-            credentials: "omit",
-            cache: "no-store"  // Bypass HTTP cache to always get fresh RSS
-        })
-    } catch {
-        throw new Error(intl.get("log.networkError"))
-    }
-    if (result && result.ok) {
-        try {
-            return await rssParser.parseString(
-                await decodeFetchResponse(result)
-            )
-        } catch {
-            throw new Error(intl.get("log.parseError"))
-        }
-    } else {
-        throw new Error(result.status + " " + result.statusText)
-    }
-}
-
 export const domParser = new DOMParser()
 
 export async function fetchFavicon(url: string) {
@@ -276,14 +255,6 @@ export function calculateItemSize(): Promise<number> {
     })
 }
 
-export function validateRegex(regex: string, flags = ""): RegExp {
-    try {
-        return new RegExp(regex, flags)
-    } catch {
-        return null
-    }
-}
-
 export function platformCtrl(
     e: React.MouseEvent | React.KeyboardEvent | MouseEvent | KeyboardEvent
 ) {
@@ -9,6 +9,10 @@ import type { P2PBridge } from "../bridges/p2p"
 import type { P2PLanBridge } from "../bridges/p2p-lan"
 import type { contentViewPoolBridge } from "../bridges/content-view-pool"
 import type { TranslationBridge } from "../bridges/translation"
+import type { FetcherBridge } from "../bridges/fetcher"
+import type { SiteRulesBridge } from "../bridges/site-rules"
+import type { OfflineArchiveBridge } from "../bridges/offline-archive"
+import type { GReaderServerBridge } from "../bridges/greader-server"
 
 type ArticleExtractorBridge = ReturnType<typeof createArticleExtractorBridge>
 type ContentViewPoolBridge = typeof contentViewPoolBridge
@@ -75,6 +79,26 @@ declare global {
          */
         translation: TranslationBridge
 
+        /**
+         * Fetcher bridge - fetch and parse feeds in the main process
+         */
+        fetcher: FetcherBridge
+
+        /**
+         * Site rules bridge - per-site extraction rule files
+         */
+        siteRules: SiteRulesBridge
+
+        /**
+         * Offline archive bridge - archived copies of articles and their images
+         */
+        offlineArchive: OfflineArchiveBridge
+
+        /**
+         * Server mode bridge - Google Reader API server for other clients
+         */
+        greaderServer: GReaderServerBridge
+
         /**
          * Limited IPC renderer for specific channels
          */
@@ -0,0 +1,173 @@
+// Mock Tiny Tiny RSS server for testing the TT-RSS sync service by hand.
+//
+//   node tools/ttrss-mock-server.js [port]
+//
+// Point a TT-RSS account at http://localhost:8088 (any user and password)
+// with a low fetch limit and sync a few times. New articles are published
+// every 30 seconds with dates out of id order, like feeds that backfill
+// older entries. After every request with content the server logs the ids
+// that were never delivered although a higher id was, those would be
+// skipped for good by the sync.
+
+const http = require("http")
+
+const PORT = Number(process.argv[2]) || 8088
+const SESSION_ID = "mock-session"
+const PUBLISH_INTERVAL = 30 * 1000
+
+const feeds = [
+    {
+        id: 1,
+        title: "Mock News",
+        feed_url: "http://localhost/news.xml",
+        cat_id: 1,
+    },
+    {
+        id: 2,
+        title: "Mock Blog",
+        feed_url: "http://localhost/blog.xml",
+        cat_id: 0,
+    },
+]
+const categories = [
+    { id: 1, title: "Mock Category" },
+    { id: 0, title: "Uncategorized" },
+]
+
+const articles = []
+const delivered = new Set()
+
+// Each batch is dated up to a day back in random order, so date order and
+// id order differ
+function publish(count) {
+    const now = Math.floor(Date.now() / 1000)
+    for (let i = 0; i < count; i++) {
+        const id = articles.length + 1
+        articles.push({
+            id: id,
+            unread: true,
+            marked: false,
+            updated: now - Math.floor(Math.random() * 24 * 60 * 60),
+            title: `Mock article ${id}`,
+            link: `http://localhost/articles/${id}`,
+            feed_id: feeds[id % feeds.length].id,
+            author: "Mock author",
+            content: `<p>Content of mock article ${id}</p>`,
+        })
+    }
+}
+
+function withoutContent(article) {
+    const { content: _, ...headline } = article
+    return headline
+}
+
+function getHeadlines(params) {
+    let result = articles.slice()
+    if (Number(params.feed_id) === -1) result = result.filter(a => a.marked)
+    else if (Number(params.feed_id) > 0)
+        result = result.filter(a => a.feed_id === Number(params.feed_id))
+    if (params.view_mode === "unread") result = result.filter(a => a.unread)
+    if (params.since_id)
+        result = result.filter(a => a.id > Number(params.since_id))
+    // Like the real server, headlines can only be sorted by date
+    if (params.order_by === "date_reverse")
+        result.sort((a, b) => a.updated - b.updated)
+    else result.sort((a, b) => b.updated - a.updated)
+    const skip = Number(params.skip) || 0
+    const limit = Math.min(Number(params.limit) || 60, 200)
+    result = result.slice(skip, skip + limit)
+    if (!params.show_content) return result.map(withoutContent)
+    result.forEach(a => delivered.add(a.id))
+    return result
+}
+
+function getArticle(params) {
+    const ids = String(params.article_id).split(",").map(Number)
+    const result = articles.filter(a => ids.includes(a.id))
+    result.forEach(a => delivered.add(a.id))
+    return result
+}
+
+function updateArticle(params) {
+    const ids = String(params.article_ids).split(",").map(Number)
+    const field = Number(params.field) === 0 ? "marked" : "unread"
+    let updated = 0
+    for (let article of articles) {
+        if (ids.includes(article.id)) {
+            article[field] = Number(params.mode) === 1
+            updated += 1
+        }
+    }
+    return { status: "OK", updated: updated }
+}
+
+function reportSkipped() {
+    const highest = Math.max(0, ...delivered)
+    const skipped = articles
+        .filter(a => a.id < highest && !delivered.has(a.id))
+        .map(a => a.id)
+    console.log(
+        `[ttrss-mock] delivered ${delivered.size} of ${articles.length} articles, ` +
+            (skipped.length > 0
+                ? `skipped: ${skipped.join(", ")}`
+                : "none skipped")
+    )
+}
+
+function handle(request) {
+    if (request.op === "login") return { session_id: SESSION_ID, api_level: 18 }
+    if (request.sid !== SESSION_ID) return null
+    switch (request.op) {
+        case "isLoggedIn":
+            return { status: true }
+        case "getFeeds":
+            return feeds
+        case "getCategories":
+            return categories
+        case "getHeadlines":
+            return getHeadlines(request)
+        case "getArticle":
+            return getArticle(request)
+        case "updateArticle":
+            return updateArticle(request)
+        default:
+            return undefined
+    }
+}
+
+const server = http.createServer((req, res) => {
+    let body = ""
+    req.on("data", chunk => (body += chunk))
+    req.on("end", () => {
+        let request
+        try {
+            request = JSON.parse(body)
+        } catch {
+            res.writeHead(400)
+            res.end()
+            return
+        }
+        const content = handle(request)
+        const response =
+            content === null
+                ? { status: 1, content: { error: "NOT_LOGGED_IN" } }
+                : content === undefined
+                  ? { status: 1, content: { error: "UNKNOWN_METHOD" } }
+                  : { status: 0, content: content }
+        console.log(`[ttrss-mock] ${request.op}`)
+        if (
+            request.op === "getArticle" ||
+            (request.op === "getHeadlines" && request.show_content)
+        )
+            reportSkipped()
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(JSON.stringify(response))
+    })
+})
+
+publish(50)
+setInterval(() => publish(5), PUBLISH_INTERVAL)
+server.listen(PORT, () => {
+    console.log(`[ttrss-mock] Listening on http://localhost:${PORT}`)
+})